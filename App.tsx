@@ -1,28 +1,69 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Play, Pause, SkipForward, RotateCcw, Cpu, BrainCircuit, Wand2, Calculator, ScrollText, ArrowRight, BookOpen, Terminal, ClipboardList } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Play, Pause, SkipForward, SkipBack, RotateCcw, Cpu, BrainCircuit, Calculator, ScrollText, ArrowRight, BookOpen, ClipboardList, Upload, Download, Save, Copy, Pencil, Trash2, Link, Zap, Gauge, Square, Repeat } from 'lucide-react';
 import { Tape } from './components/Tape';
 import { TransitionTable } from './components/TransitionTable';
-import { Tape as TapeType, TransitionRule, MachineState } from './types';
-import { PRESETS, EMPTY_SYMBOL } from './constants';
-import { generateTuringRules } from './services/geminiService';
+import { ConfigurationTree } from './components/ConfigurationTree';
+import { AnalysisPanel } from './components/AnalysisPanel';
+import { StateDiagram } from './components/StateDiagram';
+import { BreakpointPanel } from './components/BreakpointPanel';
+import { TestPanel } from './components/TestPanel';
+import { SpaceTimeDiagram } from './components/SpaceTimeDiagram';
+import { BusyBeaverExplorer } from './components/BusyBeaverExplorer';
+import { UniversalPanel } from './components/UniversalPanel';
+import { MachineIOModal, MachineIOMode } from './components/MachineIOModal';
+import { ExecutionLog } from './components/ExecutionLog';
+import { AiGenerateModal } from './components/AiGenerateModal';
+import { ExplanationPanel } from './components/ExplanationPanel';
+import { ProfilePanel, HeatmapMode } from './components/ProfilePanel';
+import { TransitionRule, MachineState, FinalStates, Preset, TestCase } from './types';
+import { PRESETS, HISTORY_LIMIT } from './constants';
+import { loadMachine, stepMachine, rewindTo, earliestStep, isHalted, getHaltOutcome, readSymbols, getTapeString, snapshotMachine, restoreMachine, writeCell, moveHead } from './engine/simulator';
+import { analyzeMachine, Diagnostic } from './engine/analyzer';
+import { LogEntry, appendLog, createLogEntry, truncateLog } from './engine/executionLog';
+import { EMPTY_PROFILE, ProfileSnapshot, profileLog } from './engine/profiler';
+import { expandRules } from './engine/ruleExpansion';
+import { CompositionError, FlatMachine, flattenMachine, getCallStack, getSourceRuleIndex, hasCalls } from './engine/composition';
+import { LoopDetector, LoopDiagnosis, createLoopDetector, isDetectorCurrent, checkForLoop, describeLoop } from './engine/loopDetection';
+import { Breakpoint, findTriggeredBreakpoints, remapRuleBreakpoints, describeBreakpoint } from './engine/breakpoints';
+import { exploreConfigurations, getBranchRuleIndices, ExplorationOptions, ExplorationResult } from './engine/nondeterministic';
+import type { TurboRequest, TurboResponse } from './engine/turbo.worker';
+import { loadLibrary, saveLibrary, uniqueName, upsertMachine, renameMachine, duplicateMachine, deleteMachine } from './services/libraryService';
+import { encodeMachineHash, decodeMachineHash } from './formats/share';
+import { MathOperation, NumberEncoding, buildMathMachine } from './math/machines';
+import { MathProblem, OPERATION_LABELS, validateOperands, encodeProblem, solveProblem, readAnswer, answersMatch, formatAnswer } from './math/lab';
 
-type AppMode = 'standard' | 'math';
+// Delays for the animated runner, slowest first
+const SPEED_OPTIONS = [1000, 500, 200, 100, 50, 20, 10];
+
+type AppMode = 'standard' | 'math' | 'beaver';
 
 const App: React.FC = () => {
   // --- State ---
-  const [tape, setTape] = useState<TapeType>({});
-  const [headPos, setHeadPos] = useState(0);
-  const [currentState, setCurrentState] = useState('start');
-  const [status, setStatus] = useState<MachineState['status']>('IDLE');
-  const [stepCount, setStepCount] = useState(0);
+  const [machine, setMachine] = useState<MachineState>(() => loadMachine({ initialTape: '', initialState: 'start' }));
+  const { tapes, headPositions, currentState, status, stepCount } = machine;
   
   const [rules, setRules] = useState<TransitionRule[]>([]);
   const [initialTapeStr, setInitialTapeStr] = useState('');
   const [initialStateStr, setInitialStateStr] = useState('start');
+  const [initialHead, setInitialHead] = useState(0);
+  const [tapeCount, setTapeCount] = useState(1);
+  const [nondeterministic, setNondeterministic] = useState(false);
+  const [finalStates, setFinalStates] = useState<FinalStates>({});
+  const [tests, setTests] = useState<TestCase[]>([]);
   
+  const [machineName, setMachineName] = useState('Untitled Machine');
   const [description, setDescription] = useState<string>('Select a preset or generate one to begin.');
   
   const [speed, setSpeed] = useState(200); // ms per step
+
+  // Loop Detection State: an optional step limit, and why the latest run was stopped
+  const [stepLimit, setStepLimit] = useState(0);
+  const [loopDiagnosis, setLoopDiagnosis] = useState<LoopDiagnosis | null>(null);
+
+  // Turbo Run State: a background run to halt, with its live progress and last summary
+  const [turboBudget, setTurboBudget] = useState(10_000_000);
+  const [turboProgress, setTurboProgress] = useState<{ steps: number; stepsPerSecond: number } | null>(null);
+  const [turboReport, setTurboReport] = useState<string | null>(null);
   const [activeRuleIndex, setActiveRuleIndex] = useState<number | null>(null);
   
   // UI Modes
@@ -31,7 +72,11 @@ const App: React.FC = () => {
   // Math Mode State
   const [mathInputA, setMathInputA] = useState('3');
   const [mathInputB, setMathInputB] = useState('2');
-  const [mathOp, setMathOp] = useState<'+'|'-'>('+');
+  const [mathOp, setMathOp] = useState<MathOperation>('add');
+  const [mathEncoding, setMathEncoding] = useState<NumberEncoding>('unary');
+  // The problem on the tape and the tape its answer is read from
+  const [mathLoaded, setMathLoaded] = useState<{ problem: MathProblem; outputTape: number } | null>(null);
+  const [mathError, setMathError] = useState<string | null>(null);
   
   // Results / Simulation Report
   const [originalInput, setOriginalInput] = useState<string>('');
@@ -39,163 +84,403 @@ const App: React.FC = () => {
   const [interpretedResult, setInterpretedResult] = useState<string | null>(null);
   
   // Logging
-  const [logs, setLogs] = useState<{step: number, state: string, tapeSnippet: string}[]>([]);
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+  // Furthest step reached in this run, the right end of the timeline scrubber
+  const [timelineEnd, setTimelineEnd] = useState(0);
+
+  // Profiling, counted from the log; the tape heatmap shows one of its counts
+  const [heatmap, setHeatmap] = useState<HeatmapMode>('off');
+  const [profile, setProfile] = useState(EMPTY_PROFILE);
+  const profileRef = useRef<ProfileSnapshot | null>(null);
   
+  // Nondeterministic Exploration
+  const [exploration, setExploration] = useState<ExplorationResult | null>(null);
+  const [explorationOptions, setExplorationOptions] = useState<ExplorationOptions>({ maxDepth: 100, maxWidth: 64 });
+  const [selectedNodeId, setSelectedNodeId] = useState<number | null>(null);
+  // Rule indices of the branch being followed; stepping prefers these over the first match
+  const [followedBranch, setFollowedBranch] = useState<number[] | null>(null);
+
+  // Breakpoints, and the ones that paused the latest run
+  const [breakpoints, setBreakpoints] = useState<Breakpoint[]>([]);
+  const [triggeredBreakpointIds, setTriggeredBreakpointIds] = useState<number[]>([]);
+  const previousRulesRef = useRef(rules);
+
+  // User Library State: the dropdown value is "preset:<name>" or "library:<name>"
+  const [library, setLibrary] = useState<Preset[]>(() => loadLibrary());
+  const [selectedMachine, setSelectedMachine] = useState('');
+  const [shareNotice, setShareNotice] = useState<string | null>(null);
+
+  // Import / Export Modal State
+  const [ioMode, setIoMode] = useState<MachineIOMode | null>(null);
+
   // AI Modal State
   const [isAiModalOpen, setIsAiModalOpen] = useState(false);
-  const [aiPrompt, setAiPrompt] = useState('');
-  const [isAiLoading, setIsAiLoading] = useState(false);
-  const [aiError, setAiError] = useState<string | null>(null);
 
   const workerRef = useRef<number | null>(null);
+  const turboWorkerRef = useRef<Worker | null>(null);
+  const loopDetectorRef = useRef<LoopDetector | null>(null);
+  // Latest machine for the interval and Step Forward, so both advance the same configuration
+  const machineRef = useRef(machine);
+
+  const analysis = useMemo(
+    () => analyzeMachine({ rules, initialTape: initialTapeStr, initialState: initialStateStr, tapeCount, nondeterministic, tests, ...finalStates }),
+    [rules, initialTapeStr, initialStateStr, tapeCount, nondeterministic, tests, finalStates]
+  );
+
+  // The row a rule breakpoint paused on, outlined in the table
+  const triggeredRuleIndex = breakpoints.flatMap(b => (b.kind === 'rule' && triggeredBreakpointIds.includes(b.id) ? [b.ruleIndex] : []))[0] ?? null;
 
   // --- Logic Helpers ---
 
-  const parseTapeString = (str: string): TapeType => {
-    const newTape: TapeType = {};
-    str.split('').forEach((char, idx) => {
-      newTape[idx] = char;
-    });
-    return newTape;
+  const commitMachine = (next: MachineState) => {
+    machineRef.current = next;
+    setMachine(next);
+  };
+
+  const setStatus = (update: (prev: MachineState['status']) => MachineState['status']) => {
+    commitMachine({ ...machineRef.current, status: update(machineRef.current.status) });
+  };
+
+  // The verdict comes from the state the machine stopped in, never from the tape contents
+  const interpretResult = (m: MachineState): string | null => {
+    if (mode === 'math' && mathLoaded) {
+      const { problem, outputTape } = mathLoaded;
+      const answer = readAnswer(problem, { ...finalStates, outputTape }, m);
+      const expected = solveProblem(problem);
+      if (!answer) return `No readable answer (${getHaltOutcome(m, finalStates)} in ${m.currentState}); expected ${formatAnswer(expected)}`;
+      return answersMatch(answer, expected)
+        ? `Result: ${formatAnswer(answer)} ✓ matches JavaScript`
+        : `Result: ${formatAnswer(answer)} ✗ JavaScript says ${formatAnswer(expected)}`;
+    }
+
+    const outcome = getHaltOutcome(m, finalStates);
+    if (outcome === 'stuck') return `Stuck: no rule for (${m.currentState}, ${readSymbols(m).join(', ')})`;
+    if (outcome === 'accepted') return `Accepted (${m.currentState})`;
+    if (outcome === 'rejected') return `Rejected (${m.currentState})`;
+    return `Halted (${m.currentState})`;
+  };
+
+  // Multi-tape output lists every tape, separated by bars
+  const formatTapes = (t: MachineState['tapes']): string => t.map(getTapeString).join(' | ');
+
+  // The machine being edited, in the shape presets and machine files use
+  const currentMachine = useMemo<Preset>(() => ({
+    name: machineName,
+    description,
+    initialTape: initialTapeStr,
+    initialState: initialStateStr,
+    ...(initialHead !== 0 ? { initialHead } : {}),
+    rules,
+    ...(tapeCount > 1 ? { tapeCount } : {}),
+    ...(nondeterministic ? { nondeterministic } : {}),
+    ...finalStates,
+    ...(tests.length > 0 ? { tests } : {}),
+  }), [machineName, description, initialTapeStr, initialStateStr, initialHead, rules, tapeCount, nondeterministic, finalStates, tests]);
+
+  // Rules that call other machines run as their flattened table; the machine's own rules keep
+  // their indices in it, so highlighting and rule breakpoints still line up with the table
+  const composition = useMemo<{ flat: FlatMachine | null; error: CompositionError | null } | null>(() => {
+    if (!hasCalls(rules)) return null;
+    const resolve = (name: string) => library.find(p => p.name === name) ?? PRESETS.find(p => p.name === name);
+    try {
+      return { flat: flattenMachine(currentMachine, resolve), error: null };
+    } catch (e) {
+      if (e instanceof CompositionError) return { flat: null, error: e };
+      throw e;
+    }
+  }, [currentMachine, library]);
+
+  const executableRules = composition?.flat?.rules ?? rules;
+
+  const executableMachine = useMemo<Preset>(
+    () => (composition?.flat ? { ...currentMachine, rules: composition.flat.rules } : currentMachine),
+    [currentMachine, composition]
+  );
+
+  const diagnostics = useMemo<Diagnostic[]>(() => {
+    const error = composition?.error;
+    if (!error) return analysis;
+    return [{ code: 'invalid-call', severity: 'error', message: error.message, ruleIndices: [error.ruleIndex] }, ...analysis];
+  }, [analysis, composition]);
+
+  // The table row behind a rule of the executable table: itself, or the call that inlined it
+  const toSourceRule = (index: number | null): number | null =>
+    index === null || !composition?.flat ? index : getSourceRuleIndex(composition.flat, index);
+
+  const callStack = composition?.flat ? getCallStack(composition.flat, currentState) : [];
+
+  // Extends the previous profile with the entries logged since, or recounts after a rewind
+  useEffect(() => {
+    profileRef.current = profileLog(logs, profileRef.current);
+    setProfile(profileRef.current.profile);
+  }, [logs]);
+
+  // Every state a step can be taken in, including those of inlined calls, for the log filter
+  const logStates = useMemo(() => [...new Set(executableRules.map(rule => rule.currentState))], [executableRules]);
+
+  const loadDefinition = (definition: Preset) => {
+    setMachineName(definition.name);
+    setRules(definition.rules);
+    setInitialTapeStr(definition.initialTape);
+    setInitialStateStr(definition.initialState);
+    setInitialHead(definition.initialHead ?? 0);
+    setTapeCount(definition.tapeCount ?? 1);
+    setNondeterministic(definition.nondeterministic ?? false);
+    setFinalStates({ acceptStates: definition.acceptStates, rejectStates: definition.rejectStates, haltStates: definition.haltStates });
+    setDescription(definition.description);
+    setTests(definition.tests ?? []);
+    setBreakpoints([]);
+    setMathLoaded(null);
+    resetMachine(definition.initialTape, definition.initialState, definition.tapeCount ?? 1, definition.initialHead ?? 0);
+  };
+
+  const selectMachine = (key: string) => {
+    const [source, ...rest] = key.split(':');
+    const name = rest.join(':');
+    const definition = (source === 'library' ? library : PRESETS).find(p => p.name === name);
+    if (definition) {
+      setSelectedMachine(key);
+      loadDefinition(definition);
+    }
+  };
+
+  // Machines from the busy beaver explorer load like any other, leaving the explorer open
+  const loadExploredMachine = (definition: Preset) => {
+    setSelectedMachine('');
+    loadDefinition(definition);
   };
 
-  const getTapeString = (t: TapeType): string => {
-    const indices = Object.keys(t).map(Number).sort((a, b) => a - b);
-    if (indices.length === 0) return '';
-    const min = indices[0];
-    const max = indices[indices.length - 1];
-    let str = '';
-    for (let i = min; i <= max; i++) {
-      str += t[i] || EMPTY_SYMBOL;
+  const importMachine = (definition: Preset) => {
+    setMode('standard');
+    setSelectedMachine('');
+    loadDefinition(definition);
+    setIoMode(null);
+  };
+
+  // --- Library ---
+
+  const selectedLibraryName = selectedMachine.startsWith('library:') ? selectedMachine.slice('library:'.length) : null;
+
+  const updateLibrary = (next: Preset[]) => {
+    setLibrary(next);
+    saveLibrary(next);
+  };
+
+  // Saving a library machine overwrites it; anything else is saved under a new name
+  const saveToLibrary = () => {
+    let name = selectedLibraryName;
+    if (name === null) {
+      const requested = window.prompt('Save machine as:', machineName);
+      if (requested === null) return;
+      name = uniqueName(requested, library.map(p => p.name));
     }
-    // Trim surrounding empty symbols for cleaner display
-    return str.replace(/^_+|_+$/g, '');
+    updateLibrary(upsertMachine(library, { ...currentMachine, name }));
+    setMachineName(name);
+    setSelectedMachine(`library:${name}`);
   };
 
-  const loadPreset = (presetName: string) => {
-    const preset = PRESETS.find(p => p.name === presetName);
-    if (preset) {
-      setRules(preset.rules);
-      setInitialTapeStr(preset.initialTape);
-      setInitialStateStr(preset.initialState);
-      setDescription(preset.description);
-      resetMachine(preset.initialTape, preset.initialState);
+  const renameLibraryMachine = () => {
+    if (selectedLibraryName === null) return;
+    const requested = window.prompt('Rename machine to:', selectedLibraryName);
+    if (requested === null || requested.trim() === selectedLibraryName) return;
+    const next = renameMachine(library, selectedLibraryName, requested);
+    const renamed = next[library.findIndex(p => p.name === selectedLibraryName)].name;
+    updateLibrary(next);
+    setMachineName(renamed);
+    setSelectedMachine(`library:${renamed}`);
+  };
+
+  const duplicateLibraryMachine = () => {
+    if (selectedLibraryName === null) return;
+    const next = duplicateMachine(library, selectedLibraryName);
+    const copy = next[next.length - 1];
+    updateLibrary(next);
+    setSelectedMachine(`library:${copy.name}`);
+    loadDefinition(copy);
+  };
+
+  const deleteLibraryMachine = () => {
+    if (selectedLibraryName === null) return;
+    if (!window.confirm(`Delete "${selectedLibraryName}" from your library?`)) return;
+    updateLibrary(deleteMachine(library, selectedLibraryName));
+    setSelectedMachine('');
+  };
+
+  // Puts the whole machine into the URL hash and copies the link
+  const shareMachine = async () => {
+    window.history.replaceState(null, '', encodeMachineHash(currentMachine));
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setShareNotice('Link copied');
+    } catch {
+      setShareNotice('Link is in the address bar');
     }
+    window.setTimeout(() => setShareNotice(null), 2000);
   };
 
-  const resetMachine = (tapeStr = initialTapeStr, stateStr = initialStateStr) => {
+  // Puts a test case's input on the tape, ready to step through
+  const loadTestInput = (input: string) => {
+    setInitialTapeStr(input);
+    resetMachine(input);
+  };
+
+  // The input and starting head belong to the definition; a machine that has not taken a
+  // step yet shows the change straight away
+  const changeInitialTape = (tapeStr: string, head = initialHead) => {
+    setInitialTapeStr(tapeStr);
+    setInitialHead(head);
+    const current = machineRef.current;
+    if (current.stepCount === 0 && current.status === 'IDLE') resetMachine(tapeStr, initialStateStr, tapeCount, head);
+  };
+
+  // What-if edits to the tape between steps. The step count carries on, but the timeline
+  // before the edit and the loop detector's memory no longer describe this run.
+  const editConfiguration = (edit: (m: MachineState) => MachineState) => {
+    if (machineRef.current.status === 'RUNNING' || turboWorkerRef.current) return;
+    const next = edit(machineRef.current);
+    commitMachine(next);
+    loopDetectorRef.current = null;
+    setLoopDiagnosis(null);
+    setTriggeredBreakpointIds([]);
+    setLogs(prev => truncateLog(prev, next.stepCount));
+    setTimelineEnd(next.stepCount);
+    setFinalOutput(isHalted(next) ? formatTapes(next.tapes) : null);
+    setInterpretedResult(isHalted(next) ? interpretResult(next) : null);
+  };
+
+  const resetMachine = (tapeStr = initialTapeStr, stateStr = initialStateStr, count = tapeCount, head = initialHead) => {
     stopMachine();
-    setTape(parseTapeString(tapeStr));
-    setHeadPos(0);
-    setCurrentState(stateStr);
-    setStatus('IDLE');
-    setStepCount(0);
+    terminateTurbo();
+    setTurboReport(null);
+    commitMachine(loadMachine({ initialTape: tapeStr, initialState: stateStr, tapeCount: count, initialHead: head }));
     setActiveRuleIndex(null);
+    setTriggeredBreakpointIds([]);
+    setLoopDiagnosis(null);
     setLogs([]);
+    setTimelineEnd(0);
     setFinalOutput(null);
     setInterpretedResult(null);
     setOriginalInput(tapeStr);
   };
 
-  const step = useCallback(() => {
-    setTape(prevTape => {
-      return prevTape; // Access latest tape in callback
-    });
-
-    // We need to read from the state, but inside setInterval closures can be stale.
-    // However, we rely on the effect dependency to restart the interval or functional updates.
-    // To make this robust, we do functional updates primarily.
-    
-    // Actually, for the logic to find the rule, we need the *current* tape and state.
-    // The clean way in React with setInterval is either a ref or recreating the closure.
-    // Given the complexity, let's use a functional update for everything that depends on prev state,
-    // but we need to find the rule *first*.
-    // Simplified approach: Calculate next state based on PREVIOUS state fully.
-    
-    setTape(prevTape => {
-      const currentSym = prevTape[headPos] || EMPTY_SYMBOL;
-      
-      // We need to access 'currentState' and 'rules' inside this callback. 
-      // Since 'step' is a dependency of the useEffect, it will be recreated when state changes?
-      // No, that would cause jitter. 
-      // Better: Use Refs for mutable machine state that doesn't need immediate re-render OR
-      // just rely on the fact that we are rebuilding the step function.
-      
-      // Let's grab the current state from the closure (which is fresh if we include it in dependencies)
-      return prevTape; 
-    });
-    
-    // NOTE: In this specific architecture, since `step` depends on `tape`, `headPos`, `currentState`, 
-    // the `useEffect` will re-trigger every tick if we add them to deps. 
-    // This is "slow" but correct for a React simulator.
-    
-    let currentSym = tape[headPos] || EMPTY_SYMBOL;
-    
-    // Find matching rule
-    const ruleIndex = rules.findIndex(
-      r => r.currentState === currentState && r.readSymbol === currentSym
-    );
-
-    // Logging
-    const snippet = getTapeString(tape);
-    setLogs(prev => {
-        const newLog = { step: stepCount + 1, state: currentState, tapeSnippet: snippet };
-        return [...prev, newLog]; // Append to end
-    });
-
-    if (ruleIndex === -1) {
-      // HALT Condition
-      setStatus('HALTED');
-      stopMachine();
-      
-      // Calculate results
-      const finalStr = getTapeString(tape);
-      setFinalOutput(finalStr);
-
-      // Interpretation logic
-      if (mode === 'math') {
-          // Math mode usually produces unary output or empty
-          // Filter out any non-1 chars just in case, but usually it should be clean 1s
-          if (finalStr === '' || finalStr.match(/^[1_]+$/)) { 
-             const count = (finalStr.match(/1/g) || []).length;
-             setInterpretedResult(`Decimal Value: ${count}`);
-          } else {
-             setInterpretedResult(`Raw Result: ${finalStr}`);
-          }
-      } else {
-          // Standard mode interpretation
-          if (finalStr === 'Y' || finalStr.includes('Y')) setInterpretedResult('Accepted (True)');
-          else if (finalStr === 'N' || finalStr.includes('N')) setInterpretedResult('Rejected (False)');
-          else setInterpretedResult(null);
-      }
-      return;
+  // Executes up to `count` steps from the latest machine. Logs beyond the starting step are
+  // replaced, so stepping forward after a rewind rewrites the timeline from that point.
+  // While RUNNING, a triggered breakpoint or a detected loop pauses the machine after the
+  // step that hit it; single manual steps report loops too.
+  const runSteps = (count: number, branch = followedBranch) => {
+    const start = machineRef.current;
+    // A call that cannot be flattened has no rules to run; the analysis panel says why
+    if (isHalted(start) || composition?.error) return;
+
+    const watchLoops = start.status === 'RUNNING' || count === 1;
+    if (watchLoops && !isDetectorCurrent(loopDetectorRef.current, start, executableRules)) {
+      loopDetectorRef.current = createLoopDetector(start, executableRules);
     }
+    setLoopDiagnosis(null);
 
-    const rule = rules[ruleIndex];
-    setActiveRuleIndex(ruleIndex);
+    let current = start;
+    let lastRuleIndex: number | null = null;
+    const newLogs: LogEntry[] = [];
+    for (let i = 0; i < count && !isHalted(current); i++) {
+      const { machine: next, ruleIndex } = stepMachine(current, executableRules, {
+        historyLimit: HISTORY_LIMIT,
+        preferredRuleIndex: branch?.[current.stepCount],
+        finalStates,
+      });
+      if (ruleIndex !== null) {
+        lastRuleIndex = ruleIndex;
+        newLogs.push(createLogEntry(current, executableRules[ruleIndex], toSourceRule(ruleIndex)!));
+      }
+      const previous = current;
+      current = next;
+
+      if (start.status === 'RUNNING' && !isHalted(current)) {
+        const triggered = findTriggeredBreakpoints(breakpoints, previous, current, executableRules);
+        if (triggered.length > 0) {
+          current = { ...current, status: 'PAUSED' };
+          setTriggeredBreakpointIds(triggered.map(b => b.id));
+          break;
+        }
+      }
 
-    // Execute Rule
-    setTape(prev => {
-      const newTape = { ...prev };
-      if (rule.writeSymbol === EMPTY_SYMBOL) {
-        delete newTape[headPos]; 
-      } else {
-        newTape[headPos] = rule.writeSymbol;
+      if (watchLoops && loopDetectorRef.current) {
+        const loop = checkForLoop(loopDetectorRef.current, current, stepLimit);
+        if (loop) {
+          if (current.status === 'RUNNING') current = { ...current, status: 'PAUSED' };
+          setLoopDiagnosis(loop);
+          break;
+        }
       }
-      return newTape;
-    });
+    }
 
-    setCurrentState(rule.nextState);
-    
-    if (rule.moveDirection === 'L') setHeadPos(p => p - 1);
-    if (rule.moveDirection === 'R') setHeadPos(p => p + 1);
-    
-    setStepCount(c => c + 1);
+    commitMachine(current);
+    setLogs(prev => appendLog(prev, start.stepCount, newLogs));
+    setTimelineEnd(end => Math.max(end, current.stepCount));
+    setActiveRuleIndex(toSourceRule(lastRuleIndex));
 
-  }, [tape, headPos, currentState, rules, stepCount, mode]);
+    if (isHalted(current)) {
+      // HALT Condition
+      setFinalOutput(formatTapes(current.tapes));
+      setInterpretedResult(interpretResult(current));
+    }
+  };
+
+  const step = useCallback(() => runSteps(1), [executableRules, composition, mode, followedBranch, finalStates, breakpoints, stepLimit]);
+
+  const exploreBranches = () => {
+    stopMachine();
+    const start = loadMachine({ initialTape: initialTapeStr, initialState: initialStateStr, tapeCount, initialHead });
+    const result = exploreConfigurations(start, executableRules, finalStates, explorationOptions);
+    setExploration(result);
+    if (result.acceptingNodeId !== null) followBranch(result.acceptingNodeId, result);
+  };
+
+  // Replays the branch from the initial configuration so Step Back/Forward and the timeline walk along it
+  const followBranch = (nodeId: number, result = exploration) => {
+    if (!result) return;
+    const branch = getBranchRuleIndices(result, nodeId);
+    setSelectedNodeId(nodeId);
+    setFollowedBranch(branch);
+    resetMachine();
+    runSteps(branch.length, branch);
+  };
+
+  const changeTapeCount = (count: number) => {
+    setTapeCount(count);
+    resetMachine(initialTapeStr, initialStateStr, count);
+  };
+
+  // Moves to any step between the oldest undo record and the furthest step reached,
+  // rewinding through history or re-executing forward as needed.
+  const jumpToStep = (targetStep: number) => {
+    stopMachine();
+    const current = machineRef.current;
+    if (targetStep > current.stepCount) {
+      runSteps(targetStep - current.stepCount);
+      return;
+    }
+    commitMachine(rewindTo(current, targetStep));
+    setActiveRuleIndex(null);
+    setFinalOutput(null);
+    setInterpretedResult(null);
+  };
+
+  const stepBackward = () => jumpToStep(machineRef.current.stepCount - 1);
 
   const startMachine = () => {
-    setStatus('RUNNING');
+    setTriggeredBreakpointIds([]);
+    setLoopDiagnosis(null);
+    setStatus(() => 'RUNNING');
+  };
+
+  const toggleRuleBreakpoint = (ruleIndex: number) => {
+    const existing = breakpoints.find(b => b.kind === 'rule' && b.ruleIndex === ruleIndex);
+    if (existing) {
+      setBreakpoints(breakpoints.filter(b => b !== existing));
+    } else {
+      const id = Math.max(0, ...breakpoints.map(b => b.id)) + 1;
+      setBreakpoints([...breakpoints, { id, enabled: true, kind: 'rule', ruleIndex }]);
+    }
   };
 
   const stopMachine = () => {
@@ -206,46 +491,153 @@ const App: React.FC = () => {
     setStatus(prev => prev === 'RUNNING' ? 'PAUSED' : prev);
   };
 
+  // --- Turbo Run ---
+
+  // Runs to halt (or through the step budget) in a worker and only shows sampled configurations.
+  // Undo history does not survive a turbo run; the timeline restarts from where it ends.
+  const startTurbo = () => {
+    stopMachine();
+    const start = machineRef.current;
+    if (isHalted(start) || turboWorkerRef.current) return;
+
+    const worker = new Worker(new URL('./engine/turbo.worker.ts', import.meta.url), { type: 'module' });
+    turboWorkerRef.current = worker;
+    setTurboReport(null);
+    setTurboProgress({ steps: 0, stepsPerSecond: 0 });
+    setTriggeredBreakpointIds([]);
+    setLoopDiagnosis(null);
+
+    worker.onmessage = (event: MessageEvent<TurboResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        commitMachine(restoreMachine(message.machine));
+        setTurboProgress({ steps: message.machine.stepCount - start.stepCount, stepsPerSecond: message.stepsPerSecond });
+        return;
+      }
+
+      const finished = restoreMachine(message.machine);
+      const steps = finished.stepCount - start.stepCount;
+      terminateTurbo();
+      commitMachine(finished);
+      setActiveRuleIndex(toSourceRule(message.lastRuleIndex));
+      setLogs(prev => truncateLog(prev, start.stepCount));
+      setTimelineEnd(finished.stepCount);
+      setTurboReport(`${steps.toLocaleString()} steps at ${message.stepsPerSecond.toLocaleString()} steps/s${
+        message.reason === 'budget' ? ' (step budget spent)' : message.reason === 'cancelled' ? ' (cancelled)' : ''}`);
+      if (message.reason === 'budget' && stepLimit > 0 && finished.stepCount >= stepLimit) {
+        setLoopDiagnosis({ kind: 'step-limit', limit: stepLimit });
+      }
+      if (isHalted(finished)) {
+        setFinalOutput(formatTapes(finished.tapes));
+        setInterpretedResult(interpretResult(finished));
+      }
+    };
+
+    const maxSteps = stepLimit > 0 ? Math.max(0, Math.min(turboBudget, stepLimit - start.stepCount)) : turboBudget;
+    const request: TurboRequest = { type: 'start', machine: snapshotMachine(start), rules: executableRules, finalStates, maxSteps };
+    worker.postMessage(request);
+  };
+
+  // The worker answers a cancel with the configuration it reached
+  const cancelTurbo = () => {
+    const request: TurboRequest = { type: 'cancel' };
+    turboWorkerRef.current?.postMessage(request);
+  };
+
+  const terminateTurbo = () => {
+    turboWorkerRef.current?.terminate();
+    turboWorkerRef.current = null;
+    setTurboProgress(null);
+  };
+
+  const isTurboRunning = turboProgress !== null;
+
   // --- Math Translator ---
+  // Operands as typed, or null unless both are whole numbers
+  const parseOperands = (): [bigint, bigint] | null =>
+    /^\d+$/.test(mathInputA.trim()) && /^\d+$/.test(mathInputB.trim()) ? [BigInt(mathInputA.trim()), BigInt(mathInputB.trim())] : null;
+
+  const mathPreview = useMemo(() => {
+    const operands = parseOperands();
+    if (!operands) return null;
+    const problem: MathProblem = { operation: mathOp, encoding: mathEncoding, a: operands[0], b: operands[1] };
+    return validateOperands(problem.a, problem.b, mathEncoding) ? null : problem;
+  }, [mathInputA, mathInputB, mathOp, mathEncoding]);
+
   const handleMathTranslate = () => {
-    const a = parseInt(mathInputA) || 0;
-    const b = parseInt(mathInputB) || 0;
-    
-    // Generate Unary Strings
-    const unaryA = '1'.repeat(a);
-    const unaryB = '1'.repeat(b);
-    
-    // Create Tape
-    const newTapeStr = `${unaryA}${mathOp}${unaryB}`;
-    
-    // Load Rules
-    const presetName = mathOp === '+' ? 'Unary Addition' : 'Unary Subtraction';
-    const preset = PRESETS.find(p => p.name === presetName);
-    
-    if (preset) {
-        setRules(preset.rules);
-        setInitialTapeStr(newTapeStr);
-        setInitialStateStr(preset.initialState);
-        setDescription(`${preset.description} (Input: ${a} ${mathOp} ${b})`);
-        setMode('math'); // Ensure we stay in math mode
-        
-        // Apply immediately
-        stopMachine();
-        setTape(parseTapeString(newTapeStr));
-        setHeadPos(0);
-        setCurrentState(preset.initialState);
-        setStatus('IDLE');
-        setStepCount(0);
-        setActiveRuleIndex(null);
-        setLogs([]);
-        setFinalOutput(null);
-        setInterpretedResult(null);
-        setOriginalInput(newTapeStr);
+    const operands = parseOperands();
+    if (!operands) {
+      setMathError('Operands must be non-negative integers.');
+      return;
+    }
+    const [a, b] = operands;
+    const invalid = validateOperands(a, b, mathEncoding);
+    if (invalid) {
+      setMathError(invalid);
+      return;
     }
+
+    const problem: MathProblem = { operation: mathOp, encoding: mathEncoding, a, b };
+    const math = buildMathMachine(mathOp, mathEncoding);
+    const newTapeStr = encodeProblem(problem);
+    const count = math.tapeCount ?? 1;
+
+    setMathError(null);
+    setMachineName(math.name);
+    setSelectedMachine('');
+    setRules(math.rules);
+    setInitialTapeStr(newTapeStr);
+    setInitialStateStr(math.initialState);
+    setInitialHead(0);
+    setTapeCount(count);
+    setNondeterministic(false);
+    setFinalStates({ acceptStates: math.acceptStates, rejectStates: math.rejectStates, haltStates: math.haltStates });
+    setTests([]);
+    setBreakpoints([]);
+    setDescription(`${math.description} (Input: ${OPERATION_LABELS[mathOp].replace('A', `${a}`).replace('B', `${b}`)})`);
+    setMathLoaded({ problem, outputTape: math.outputTape });
+    setMode('math'); // Ensure we stay in math mode
+
+    // Apply immediately
+    resetMachine(newTapeStr, math.initialState, count, 0);
   };
 
   // --- Effects ---
 
+  // Opening a shared link (or pasting one into this tab) restores its machine
+  useEffect(() => {
+    const openSharedMachine = () => {
+      try {
+        const shared = decodeMachineHash(window.location.hash);
+        if (!shared) return;
+        setMode('standard');
+        setSelectedMachine('');
+        loadDefinition(shared);
+      } catch (e) {
+        setDescription(`Could not open the shared machine. ${(e as Error).message}`);
+      }
+    };
+    openSharedMachine();
+    window.addEventListener('hashchange', openSharedMachine);
+    return () => window.removeEventListener('hashchange', openSharedMachine);
+  }, []);
+
+  // A turbo run never outlives the page
+  useEffect(() => () => turboWorkerRef.current?.terminate(), []);
+
+  // Rule breakpoints follow their rows as the table is edited
+  useEffect(() => {
+    setBreakpoints(prev => remapRuleBreakpoints(prev, previousRulesRef.current, rules));
+    previousRulesRef.current = rules;
+  }, [rules]);
+
+  // Edited rules invalidate any explored tree
+  useEffect(() => {
+    setExploration(null);
+    setSelectedNodeId(null);
+    setFollowedBranch(null);
+  }, [rules, nondeterministic, finalStates]);
+
   useEffect(() => {
     if (status === 'RUNNING') {
       workerRef.current = window.setInterval(step, speed);
@@ -257,29 +649,14 @@ const App: React.FC = () => {
     };
   }, [status, speed, step]); 
 
-  // --- AI Handler ---
-  const handleAiGenerate = async () => {
-    if (!aiPrompt.trim()) return;
-    setIsAiLoading(true);
-    setAiError(null);
-    
-    try {
-      const result = await generateTuringRules(aiPrompt);
-      setRules(result.rules);
-      setInitialTapeStr(result.initialTape);
-      setInitialStateStr(result.initialState);
-      setDescription(result.description);
-      setMode('standard'); // Switch to standard view for custom rules
-      resetMachine(result.initialTape, result.initialState);
-      setIsAiModalOpen(false);
-    } catch (e) {
-      setAiError("Failed to generate rules. Please try a different prompt or check API configuration.");
-    } finally {
-      setIsAiLoading(false);
-    }
+  // --- AI Generation ---
+  const loadGeneratedMachine = (definition: Preset) => {
+    setMode('standard'); // Switch to standard view for custom rules
+    setSelectedMachine('');
+    loadDefinition(definition);
+    setIsAiModalOpen(false);
   };
 
-
   return (
     <div className="min-h-screen flex flex-col bg-slate-900 text-slate-200 font-sans selection:bg-indigo-500/30">
       
@@ -312,6 +689,12 @@ const App: React.FC = () => {
                 >
                    Math Laboratory
                 </button>
+                <button 
+                  onClick={() => setMode('beaver')}
+                  className={`px-3 py-1.5 text-xs font-bold rounded-md transition-all ${mode === 'beaver' ? 'bg-indigo-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'}`}
+                >
+                   Busy Beaver
+                </button>
              </div>
 
              <button 
@@ -342,12 +725,70 @@ const App: React.FC = () => {
                 <div className="flex flex-col md:flex-row gap-4">
                   <select 
                     className="flex-1 bg-slate-900 border border-slate-600 text-slate-200 text-sm rounded-lg p-2.5 focus:ring-indigo-500 focus:border-indigo-500 outline-none cursor-pointer"
-                    onChange={(e) => loadPreset(e.target.value)}
-                    defaultValue=""
+                    onChange={(e) => selectMachine(e.target.value)}
+                    value={selectedMachine}
                   >
                     <option value="" disabled>Choose an algorithm...</option>
-                    {PRESETS.filter(p => !p.name.includes("Unary")).map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+                    <optgroup label="Presets">
+                      {PRESETS.filter(p => !p.name.includes("Unary")).map(p => <option key={p.name} value={`preset:${p.name}`}>{p.name}</option>)}
+                    </optgroup>
+                    {library.length > 0 && (
+                      <optgroup label="My Library">
+                        {library.map(p => <option key={p.name} value={`library:${p.name}`}>{p.name}</option>)}
+                      </optgroup>
+                    )}
                   </select>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setIoMode('import')}
+                      className="flex items-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm rounded-lg transition-colors"
+                      title="Load a machine from a .tm, turingmachine.io YAML or CSV file"
+                    >
+                      <Upload size={14} /> Import
+                    </button>
+                    <button
+                      onClick={() => setIoMode('export')}
+                      disabled={rules.length === 0}
+                      className="flex items-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-slate-200 text-sm rounded-lg transition-colors"
+                      title="Save the current machine as text"
+                    >
+                      <Download size={14} /> Export
+                    </button>
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={saveToLibrary}
+                    disabled={rules.length === 0}
+                    className="flex items-center gap-1.5 px-2.5 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-xs font-medium rounded-lg transition-colors"
+                    title={selectedLibraryName ? `Overwrite "${selectedLibraryName}" in your library` : 'Save the current machine to your library'}
+                  >
+                    <Save size={12} /> Save
+                  </button>
+                  {[
+                    { label: 'Duplicate', icon: Copy, action: duplicateLibraryMachine },
+                    { label: 'Rename', icon: Pencil, action: renameLibraryMachine },
+                    { label: 'Delete', icon: Trash2, action: deleteLibraryMachine },
+                  ].map(({ label, icon: Icon, action }) => (
+                    <button
+                      key={label}
+                      onClick={action}
+                      disabled={selectedLibraryName === null}
+                      className="flex items-center gap-1.5 px-2.5 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed text-slate-200 text-xs rounded-lg transition-colors"
+                      title={selectedLibraryName === null ? 'Select a machine from My Library' : `${label} "${selectedLibraryName}"`}
+                    >
+                      <Icon size={12} /> {label}
+                    </button>
+                  ))}
+                  <button
+                    onClick={shareMachine}
+                    disabled={rules.length === 0}
+                    className="ml-auto flex items-center gap-1.5 px-2.5 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-slate-200 text-xs rounded-lg transition-colors"
+                    title="Copy a link that opens this exact machine and input"
+                  >
+                    <Link size={12} /> {shareNotice ?? 'Share Link'}
+                  </button>
                 </div>
 
                 {/* Description Panel */}
@@ -358,7 +799,7 @@ const App: React.FC = () => {
                    </p>
                 </div>
              </div>
-          ) : (
+          ) : mode === 'math' ? (
             <div className="bg-slate-800 rounded-xl border border-indigo-500/30 p-4 shadow-lg flex flex-col gap-3 relative overflow-hidden">
                {/* Decorative bg for math mode */}
                <div className="absolute top-0 right-0 w-32 h-32 bg-indigo-500/10 rounded-full blur-2xl -translate-y-1/2 translate-x-1/2 pointer-events-none"></div>
@@ -369,13 +810,29 @@ const App: React.FC = () => {
                 </div>
                 
                 <p className="text-xs text-slate-400 mb-2">
-                   Enter two integers. The system will convert them to Unary on the tape and execute the operation.
+                   Enter two non-negative integers. They are written to the tape in the chosen encoding, and the machine's answer is decoded and checked against JavaScript when it halts.
                 </p>
 
+                <div className="flex items-center gap-2 text-xs">
+                    <span className="text-slate-500">Encoding</span>
+                    <div className="flex bg-slate-900 rounded-md p-0.5 border border-slate-700">
+                        {(['unary', 'binary'] as const).map(e => (
+                            <button
+                                key={e}
+                                onClick={() => setMathEncoding(e)}
+                                className={`px-2.5 py-1 rounded capitalize transition-colors ${mathEncoding === e ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                            >
+                                {e}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
                 <div className="flex flex-wrap items-center gap-3">
                     <div className="flex items-center gap-2 bg-slate-900 p-1.5 rounded-lg border border-slate-700 shadow-inner">
                         <input 
-                            type="number" 
+                            type="text" 
+                            inputMode="numeric"
                             value={mathInputA}
                             onChange={(e) => setMathInputA(e.target.value)}
                             className="w-16 bg-transparent text-center text-white outline-none font-mono font-bold text-lg"
@@ -383,14 +840,16 @@ const App: React.FC = () => {
                         />
                         <select 
                             value={mathOp}
-                            onChange={(e) => setMathOp(e.target.value as any)}
-                            className="bg-slate-800 text-indigo-400 font-bold rounded px-2 py-1 outline-none cursor-pointer text-lg"
+                            onChange={(e) => setMathOp(e.target.value as MathOperation)}
+                            className="bg-slate-800 text-indigo-400 font-bold rounded px-2 py-1 outline-none cursor-pointer text-sm"
                         >
-                            <option value="+">+</option>
-                            <option value="-">-</option>
+                            {(Object.keys(OPERATION_LABELS) as MathOperation[]).map(op => (
+                                <option key={op} value={op}>{OPERATION_LABELS[op]}</option>
+                            ))}
                         </select>
                         <input 
-                            type="number" 
+                            type="text" 
+                            inputMode="numeric"
                             value={mathInputB}
                             onChange={(e) => setMathInputB(e.target.value)}
                             className="w-16 bg-transparent text-center text-white outline-none font-mono font-bold text-lg"
@@ -409,40 +868,92 @@ const App: React.FC = () => {
                     </button>
                 </div>
                 
-                <div className="mt-2 text-xs font-mono text-slate-500">
-                   Generated Tape: <span className="text-slate-300">{'1'.repeat(Math.max(0, parseInt(mathInputA)||0))}{mathOp}{'1'.repeat(Math.max(0, parseInt(mathInputB)||0))}</span>
+                {mathError && <p className="text-xs text-red-400">{mathError}</p>}
+
+                <div className="mt-2 text-xs font-mono text-slate-500 break-all">
+                   Generated Tape: <span className="text-slate-300">{mathPreview ? encodeProblem(mathPreview) || '_' : '—'}</span>
                 </div>
             </div>
+          ) : (
+            <BusyBeaverExplorer onLoadMachine={loadExploredMachine} />
           )}
 
+          {/* Static Analysis Summary */}
+          {rules.length > 0 && diagnostics.length > 0 && <AnalysisPanel diagnostics={diagnostics} />}
+
           {/* Tape Visualization */}
           <div className="flex flex-col gap-2">
-             <div className="flex justify-between items-end px-1">
+             <div className="flex flex-wrap justify-between items-end gap-2 px-1">
                 <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Tape Visualizer</span>
-                <span className="text-xs font-mono text-slate-500">Head Pos: {headPos}</span>
+                <div className="flex items-center gap-2 text-xs text-slate-500">
+                   <label className="flex items-center gap-1.5" title="Initial tape; _ is a blank">
+                      Input
+                      <input
+                        type="text"
+                        value={initialTapeStr}
+                        onChange={(e) => changeInitialTape(e.target.value.replace(/\s/g, '_'))}
+                        className="w-36 bg-slate-900 border border-slate-600 rounded px-2 py-0.5 font-mono text-slate-200 outline-none focus:border-indigo-500"
+                      />
+                   </label>
+                   <label className="flex items-center gap-1.5" title="Cell the head starts on, counted from the first input symbol">
+                      Start at
+                      <input
+                        type="number"
+                        value={initialHead}
+                        onChange={(e) => changeInitialTape(initialTapeStr, Math.trunc(Number(e.target.value)) || 0)}
+                        className="w-14 bg-slate-900 border border-slate-600 rounded px-2 py-0.5 font-mono text-slate-200 outline-none focus:border-indigo-500"
+                      />
+                   </label>
+                   <span className="font-mono">Head Pos: {headPositions.join(', ')}</span>
+                </div>
              </div>
-             <Tape tape={tape} headPosition={headPos} isRunning={status === 'RUNNING'} />
+             <Tape
+               tapes={tapes}
+               headPositions={headPositions}
+               isRunning={status === 'RUNNING'}
+               onWriteCell={status === 'RUNNING' || isTurboRunning ? undefined : (t, position, symbol) => editConfiguration(m => writeCell(m, t, position, symbol))}
+               onMoveHead={status === 'RUNNING' || isTurboRunning ? undefined : (t, position) => editConfiguration(m => moveHead(m, t, position))}
+               heatmap={heatmap === 'off' ? undefined : {
+                 counts: profile.tapes.map(t => (heatmap === 'visits' ? t.visits : t.writes)),
+                 hottest: profile.tapes.map(t => (heatmap === 'visits' ? t.hottestVisit : t.hottestWrite)),
+                 label: heatmap === 'visits' ? 'visits' : 'rewrites',
+               }}
+             />
           </div>
 
           {/* Status & Controls Bar */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
              {/* Status Card */}
-             <div className="bg-slate-800/80 p-4 rounded-xl border border-slate-700 flex items-center justify-between">
+             <div className="bg-slate-800/80 p-4 rounded-xl border border-slate-700 flex flex-wrap items-center justify-between">
                 <div>
                   <span className="text-xs text-slate-500 uppercase font-bold">Current State</span>
                   <div className="font-mono text-xl text-indigo-400 mt-1">{currentState}</div>
+                  {callStack.length > 0 && (
+                    <div className="mt-1 flex flex-wrap items-center gap-1 text-[11px] text-slate-400" title="Machines called to reach this state, outermost first">
+                      <span className="text-slate-500">{machineName}</span>
+                      {callStack.map((frame, i) => (
+                        <span key={i} className="text-violet-300">⤷ {frame.machine}</span>
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <div className="text-right">
                    <div className="flex items-center justify-end gap-2 mb-1">
                       <div className={`w-2 h-2 rounded-full ${
-                        status === 'RUNNING' ? 'bg-green-500 animate-pulse' :
-                        status === 'HALTED' ? 'bg-red-500' : 
+                        status === 'RUNNING' || isTurboRunning ? 'bg-green-500 animate-pulse' :
+                        status === 'HALTED' ? 'bg-red-500' :
+                        status === 'ERROR' ? 'bg-orange-500' : 
                         status === 'PAUSED' ? 'bg-yellow-500' : 'bg-slate-500'
                       }`} />
-                      <span className="font-bold text-xs tracking-widest text-slate-400">{status}</span>
+                      <span className="font-bold text-xs tracking-widest text-slate-400">{isTurboRunning ? 'TURBO' : status}</span>
                    </div>
                    <div className="font-mono text-sm text-slate-500">{stepCount} steps</div>
                 </div>
+                {status === 'PAUSED' && triggeredBreakpointIds.length > 0 && (
+                   <div className="w-full mt-2 text-xs text-red-300 truncate" title={breakpoints.filter(b => triggeredBreakpointIds.includes(b.id)).map(describeBreakpoint).join('\n')}>
+                      Breakpoint: {breakpoints.filter(b => triggeredBreakpointIds.includes(b.id)).map(describeBreakpoint).join(', ')}
+                   </div>
+                )}
              </div>
 
              {/* Playback Controls */}
@@ -457,7 +968,8 @@ const App: React.FC = () => {
                 
                 <button 
                     onClick={status === 'RUNNING' ? stopMachine : startMachine}
-                    className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-bold text-white transition-all shadow-md
+                    disabled={isTurboRunning}
+                    className={`flex-1 flex items-center justify-center gap-2 px-4 py-3 rounded-lg font-bold text-white transition-all shadow-md disabled:opacity-40
                       ${status === 'RUNNING' 
                         ? 'bg-amber-600 hover:bg-amber-500' 
                         : 'bg-emerald-600 hover:bg-emerald-500'
@@ -467,17 +979,124 @@ const App: React.FC = () => {
                     {status === 'RUNNING' ? 'PAUSE' : 'START'}
                   </button>
 
+                  <button 
+                    onClick={stepBackward}
+                    className="p-3 text-indigo-400 hover:text-white hover:bg-indigo-600 rounded-lg transition-all disabled:opacity-40 disabled:hover:bg-transparent"
+                    title="Step Back"
+                    disabled={status === 'RUNNING' || isTurboRunning || stepCount <= earliestStep(machine)}
+                  >
+                    <SkipBack size={18} />
+                  </button>
+
                   <button 
                     onClick={step}
                     className="p-3 text-indigo-400 hover:text-white hover:bg-indigo-600 rounded-lg transition-all"
                     title="Step Forward"
-                    disabled={status === 'RUNNING'}
+                    disabled={status === 'RUNNING' || isTurboRunning}
                   >
                     <SkipForward size={18} />
                   </button>
              </div>
           </div>
 
+          {/* Speed & Turbo Run */}
+          <div className="bg-slate-800/80 px-4 py-3 rounded-xl border border-slate-700 flex flex-wrap items-center gap-x-6 gap-y-3">
+             <label className="flex items-center gap-3 flex-1 min-w-[12rem]" title="Delay between animated steps">
+                <Gauge size={14} className="text-slate-500" />
+                <span className="text-[10px] uppercase text-slate-500 font-bold">Speed</span>
+                <input
+                   type="range"
+                   min={0}
+                   max={SPEED_OPTIONS.length - 1}
+                   value={Math.max(0, SPEED_OPTIONS.indexOf(speed))}
+                   onChange={(e) => setSpeed(SPEED_OPTIONS[Number(e.target.value)])}
+                   className="flex-1 accent-indigo-500 cursor-pointer"
+                />
+                <span className="font-mono text-xs text-slate-400 w-20 text-right">{Math.round(1000 / speed)} steps/s</span>
+             </label>
+
+             <label className="flex items-center gap-2" title="Stop any run at this step count; 0 means no limit">
+                <span className="text-[10px] uppercase text-slate-500 font-bold">Step Limit</span>
+                <input
+                   type="number"
+                   min={0}
+                   value={stepLimit}
+                   onChange={(e) => setStepLimit(Math.max(0, Math.floor(Number(e.target.value)) || 0))}
+                   className="w-24 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200 font-mono outline-none focus:border-indigo-500"
+                />
+             </label>
+
+             <div className="flex items-center gap-2">
+                <span className="text-[10px] uppercase text-slate-500 font-bold">Budget</span>
+                <input
+                   type="number"
+                   min={1}
+                   value={turboBudget}
+                   onChange={(e) => setTurboBudget(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                   disabled={isTurboRunning}
+                   className="w-28 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200 font-mono outline-none focus:border-indigo-500"
+                />
+                {isTurboRunning ? (
+                   <button
+                      onClick={cancelTurbo}
+                      className="flex items-center gap-1.5 px-3 py-1.5 bg-amber-600 hover:bg-amber-500 text-white text-xs font-bold rounded-lg transition-colors"
+                   >
+                      <Square size={12} /> Cancel
+                   </button>
+                ) : (
+                   <button
+                      onClick={startTurbo}
+                      disabled={rules.length === 0 || isHalted(machine) || followedBranch !== null}
+                      className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed text-white text-xs font-bold rounded-lg transition-colors"
+                      title={followedBranch !== null ? 'Turbo runs always take the first matching rule, so they cannot follow a branch' : 'Run to halt in the background, showing only sampled configurations'}
+                   >
+                      <Zap size={12} /> Turbo Run
+                   </button>
+                )}
+             </div>
+
+             {(turboProgress || turboReport) && (
+                <div className="w-full flex items-center gap-3 text-xs font-mono text-slate-400">
+                   {turboProgress ? (
+                      <>
+                         <div className="flex-1 h-1.5 bg-slate-900 rounded-full overflow-hidden">
+                            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.min(100, (turboProgress.steps / turboBudget) * 100)}%` }} />
+                         </div>
+                         <span>{turboProgress.steps.toLocaleString()} steps · {turboProgress.stepsPerSecond.toLocaleString()} steps/s</span>
+                      </>
+                   ) : (
+                      <span>Turbo: {turboReport}</span>
+                   )}
+                </div>
+             )}
+          </div>
+
+          {/* Timeline Scrubber */}
+          {timelineEnd > 0 && (
+            <div className="bg-slate-800/80 px-4 py-3 rounded-xl border border-slate-700 flex items-center gap-3">
+               <span className="text-[10px] uppercase text-slate-500 font-bold">Timeline</span>
+               <input 
+                  type="range"
+                  min={earliestStep(machine)}
+                  max={timelineEnd}
+                  value={stepCount}
+                  onChange={(e) => jumpToStep(Number(e.target.value))}
+                  disabled={status === 'RUNNING' || isTurboRunning}
+                  className="flex-1 accent-indigo-500 cursor-pointer disabled:cursor-not-allowed"
+               />
+               <span className="font-mono text-xs text-slate-400 w-24 text-right">{stepCount} / {timelineEnd}</span>
+            </div>
+          )}
+
+          {/* Space-Time Diagram */}
+          {timelineEnd > 0 && (
+            <SpaceTimeDiagram
+              machine={machine}
+              onJumpToStep={jumpToStep}
+              disabled={status === 'RUNNING' || isTurboRunning}
+            />
+          )}
+
           {/* Simulation Report (Result Panel) */}
           <div className="bg-slate-900 rounded-xl border border-slate-800 p-5 shadow-inner">
              <div className="flex items-center gap-2 mb-4 pb-2 border-b border-slate-800">
@@ -507,7 +1126,90 @@ const App: React.FC = () => {
                    </div>
                 </div>
              </div>
+
+             {loopDiagnosis && (
+                <div className="mt-4 flex items-start gap-2 text-sm text-amber-200 bg-amber-900/20 p-3 rounded border border-amber-500/30">
+                   <Repeat size={16} className="text-amber-400 shrink-0 mt-0.5" />
+                   <span>{describeLoop(loopDiagnosis)}</span>
+                </div>
+             )}
           </div>
+
+          {/* Profile */}
+          {rules.length > 0 && (
+            <ProfilePanel
+               profile={profile}
+               stepCount={stepCount}
+               tapeCount={tapeCount}
+               heatmap={heatmap}
+               setHeatmap={setHeatmap}
+            />
+          )}
+
+          {/* Explanation */}
+          {rules.length > 0 && (
+            <ExplanationPanel
+               machine={currentMachine}
+               currentState={currentState}
+               lastStep={logs.length > 0 && logs[logs.length - 1].step === stepCount ? logs[logs.length - 1] : null}
+            />
+          )}
+
+          {/* Breakpoints */}
+          {rules.length > 0 && (
+            <BreakpointPanel
+               breakpoints={breakpoints}
+               setBreakpoints={setBreakpoints}
+               triggeredIds={triggeredBreakpointIds}
+               tapeCount={tapeCount}
+               ruleCount={rules.length}
+            />
+          )}
+
+          {/* Test Cases */}
+          {rules.length > 0 && (
+            <TestPanel
+               machine={executableMachine}
+               setTests={setTests}
+               onLoadInput={loadTestInput}
+               disabled={status === 'RUNNING' || isTurboRunning}
+            />
+          )}
+
+          {/* Universal Turing Machine */}
+          {rules.length > 0 && (
+            <UniversalPanel
+               machine={executableMachine}
+               onLoadMachine={loadExploredMachine}
+               disabled={status === 'RUNNING' || isTurboRunning}
+            />
+          )}
+
+          {/* State Diagram */}
+          {rules.length > 0 && (
+            <StateDiagram
+               rules={rules}
+               setRules={setRules}
+               initialState={initialStateStr}
+               finalStates={finalStates}
+               tapeCount={tapeCount}
+               currentState={currentState}
+               activeRuleIndex={activeRuleIndex}
+               isRunning={status === 'RUNNING'}
+            />
+          )}
+
+          {/* Nondeterministic Configuration Tree */}
+          {nondeterministic && (
+            <ConfigurationTree 
+               result={exploration}
+               options={explorationOptions}
+               setOptions={setExplorationOptions}
+               onExplore={exploreBranches}
+               selectedNodeId={selectedNodeId}
+               onSelectNode={(nodeId) => followBranch(nodeId)}
+            />
+          )}
         </div>
 
         {/* Right Col: Rules & Logs (5 Cols) */}
@@ -517,98 +1219,50 @@ const App: React.FC = () => {
              <div className="grid grid-rows-2 h-full">
                 {/* Rules Table (Top Half) */}
                 <div className="row-span-1 border-b border-slate-700 h-full overflow-hidden">
-                   <TransitionTable rules={rules} setRules={setRules} activeRuleIndex={activeRuleIndex} />
+                   <TransitionTable 
+                      rules={rules} 
+                      setRules={setRules} 
+                      activeRuleIndex={activeRuleIndex} 
+                      tapeCount={tapeCount} 
+                      setTapeCount={changeTapeCount} 
+                      nondeterministic={nondeterministic} 
+                      setNondeterministic={setNondeterministic} 
+                      finalStates={finalStates} 
+                      setFinalStates={setFinalStates} 
+                      diagnostics={diagnostics} 
+                      breakpointRuleIndices={breakpoints.flatMap(b => (b.kind === 'rule' && b.enabled ? [b.ruleIndex] : []))}
+                      onToggleRuleBreakpoint={toggleRuleBreakpoint}
+                      pausedRuleIndex={status === 'PAUSED' ? triggeredRuleIndex : null}
+                      onExpandPatterns={() => setRules(expandRules(currentMachine))}
+                      callableMachines={[...new Set([...library, ...PRESETS].map(p => p.name))].filter(name => name !== machineName)}
+                      onFlattenCalls={() => composition?.flat && setRules(composition.flat.rules)}
+                      ruleHits={profile.ruleHits}
+                   />
                 </div>
                 
                 {/* Execution Log (Bottom Half) */}
-                <div className="row-span-1 flex flex-col min-h-0 bg-slate-900">
-                   <div className="p-3 bg-slate-800/50 border-b border-slate-700 flex justify-between items-center sticky top-0">
-                      <div className="flex items-center gap-2">
-                        <Terminal size={14} className="text-slate-400" />
-                        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Execution Log</h3>
-                      </div>
-                      <span className="text-[10px] text-slate-600">{logs.length} entries</span>
-                   </div>
-                   
-                   <div className="flex-1 overflow-auto p-2 custom-scrollbar space-y-1">
-                      {logs.length === 0 ? (
-                        <div className="text-center text-slate-600 text-xs py-8 italic">
-                           Machine is ready. Start execution to see logs.
-                        </div>
-                      ) : (
-                        logs.map((log, i) => (
-                           <div key={i} className="grid grid-cols-12 gap-2 text-xs font-mono p-1.5 hover:bg-slate-800 rounded border-b border-slate-800/50 last:border-0">
-                              <div className="col-span-2 text-slate-500">#{log.step}</div>
-                              <div className="col-span-3 text-indigo-400 truncate" title={log.state}>{log.state}</div>
-                              <div className="col-span-7 text-slate-300 break-all">{log.tapeSnippet || '_'}</div>
-                           </div>
-                        ))
-                      )}
-                   </div>
-                </div>
+                <ExecutionLog
+                   entries={logs}
+                   states={logStates}
+                   ruleLabels={rules.map((rule, i) => `#${i + 1} ${rule.currentState} ${rule.readSymbol}`)}
+                   nextStep={isHalted(machine) ? null : stepCount + 1}
+                   onJumpToStep={jumpToStep}
+                   disabled={status === 'RUNNING'}
+                   machineName={machineName}
+                />
              </div>
           </div>
         </div>
 
       </main>
 
+      {ioMode && (
+        <MachineIOModal mode={ioMode} machine={currentMachine} onImport={importMachine} onClose={() => setIoMode(null)} />
+      )}
+
       {/* AI Modal */}
       {isAiModalOpen && (
-        <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-          <div className="bg-slate-800 w-full max-w-lg rounded-2xl border border-slate-700 shadow-2xl overflow-hidden">
-            <div className="p-6">
-              <div className="flex items-center gap-3 mb-4">
-                <div className="p-2 bg-indigo-500/20 rounded-lg">
-                  <Wand2 className="text-indigo-400" size={24} />
-                </div>
-                <h2 className="text-xl font-bold text-white">Generate Algorithm</h2>
-              </div>
-              
-              <p className="text-slate-400 text-sm mb-4">
-                Describe what you want the Turing Machine to do, and AI will generate the initial tape and transition rules for you.
-              </p>
-
-              <textarea 
-                className="w-full h-32 bg-slate-900 border border-slate-600 rounded-xl p-4 text-slate-200 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none resize-none transition-all"
-                placeholder="e.g., Flip every bit from 0 to 1 and vice versa..."
-                value={aiPrompt}
-                onChange={(e) => setAiPrompt(e.target.value)}
-              ></textarea>
-
-              {aiError && (
-                <div className="mt-3 text-xs text-red-400 bg-red-900/20 p-2 rounded border border-red-900/50">
-                  {aiError}
-                </div>
-              )}
-            </div>
-
-            <div className="bg-slate-900 p-4 flex justify-end gap-3 border-t border-slate-700">
-              <button 
-                onClick={() => setIsAiModalOpen(false)}
-                className="px-4 py-2 text-slate-400 hover:text-white text-sm font-medium transition-colors"
-              >
-                Cancel
-              </button>
-              <button 
-                onClick={handleAiGenerate}
-                disabled={isAiLoading || !aiPrompt.trim()}
-                className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-bold rounded-lg shadow-lg shadow-indigo-500/20 transition-all flex items-center gap-2"
-              >
-                {isAiLoading ? (
-                  <>
-                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
-                    Generating...
-                  </>
-                ) : (
-                  <>
-                    <BrainCircuit size={16} />
-                    Generate
-                  </>
-                )}
-              </button>
-            </div>
-          </div>
-        </div>
+        <AiGenerateModal onLoad={loadGeneratedMachine} onClose={() => setIsAiModalOpen(false)} />
       )}
     </div>
   );
@@ -0,0 +1,288 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BrainCircuit, Wand2, CheckCircle2, XCircle, Download, ChevronDown, ChevronRight, Settings } from 'lucide-react';
+import { Preset } from '../types';
+import { TestResult } from '../engine/testRunner';
+import type { TestRunRequest, TestRunResponse } from '../engine/testRunner.worker';
+import { ExampleRunner, GenerationAttempt, GenerationBackend, MAX_REPAIR_ROUNDS, generateWithRepair, toPreset } from '../services/aiGeneration';
+import { AI_PROVIDERS, AiProviderError, AiSettings, loadAiSettings, saveAiSettings } from '../services/aiProvider';
+import { generateTuringRules, repairTuringRules } from '../services/aiService';
+import { AiSettingsPanel } from './AiSettingsPanel';
+
+interface AiGenerateModalProps {
+  onLoad: (machine: Preset) => void;
+  onClose: () => void;
+}
+
+const REPAIR_ROUND_OPTIONS = [0, 1, 2, 3, 4, 5];
+
+const tapeText = (tape: string | null | undefined) => (tape === null || tape === undefined ? '—' : tape || '_');
+
+const AttemptCard: React.FC<{ attempt: GenerationAttempt; index: number; open: boolean; onToggle: () => void; onLoad: () => void }> = ({ attempt, index, open, onToggle, onLoad }) => {
+  const passing = attempt.results.filter(r => r.passed).length;
+  const errors = attempt.diagnostics.filter(d => d.severity === 'error').length;
+  const warnings = attempt.diagnostics.length - errors;
+  return (
+    <div className={`rounded-lg border ${attempt.passed ? 'border-emerald-500/40 bg-emerald-900/10' : 'border-slate-700 bg-slate-900/40'}`}>
+      <div className="flex items-center gap-2 p-2 text-xs">
+        <button onClick={onToggle} className="flex items-center gap-2 flex-1 min-w-0 text-left">
+          {open ? <ChevronDown size={14} className="text-slate-500" /> : <ChevronRight size={14} className="text-slate-500" />}
+          {attempt.passed ? <CheckCircle2 size={14} className="text-emerald-400 shrink-0" /> : <XCircle size={14} className="text-red-400 shrink-0" />}
+          <span className="font-bold text-slate-200">{index === 0 ? 'Attempt 1' : `Repair ${index}`}</span>
+          <span className="text-slate-400 truncate">
+            {attempt.machine.rules.length} rules · {passing}/{attempt.results.length} examples pass
+            {errors > 0 && ` · ${errors} error${errors === 1 ? '' : 's'}`}
+            {warnings > 0 && ` · ${warnings} warning${warnings === 1 ? '' : 's'}`}
+          </span>
+        </button>
+        <button onClick={onLoad} title="Load this machine into the editor" className="flex items-center gap-1 px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 font-bold">
+          <Download size={12} /> Load
+        </button>
+      </div>
+
+      {open && (
+        <div className="px-3 pb-3 flex flex-col gap-2 text-[11px]">
+          {attempt.machine.description && <p className="text-slate-400">{attempt.machine.description}</p>}
+          {attempt.results.length > 0 && (
+            <table className="w-full">
+              <thead className="text-slate-500 uppercase text-[10px]">
+                <tr>
+                  <th className="text-left py-1 w-5"></th>
+                  <th className="text-left py-1">Input</th>
+                  <th className="text-left py-1">Expected</th>
+                  <th className="text-left py-1">Actual</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {attempt.results.map((result, i) => {
+                  const example = attempt.machine.examples[i];
+                  return (
+                    <tr key={i} className="border-t border-slate-700/50 align-top">
+                      <td className="py-1">{result.passed ? <CheckCircle2 size={12} className="text-emerald-400" /> : <XCircle size={12} className="text-red-400" />}</td>
+                      <td className="py-1 pr-2 text-slate-300 break-all">{tapeText(example.input)}</td>
+                      <td className="py-1 pr-2 text-slate-400 break-all">{tapeText(example.expectedOutput)} <span className="text-slate-500">{example.expectedOutcome}</span></td>
+                      <td className={`py-1 break-all ${result.passed ? 'text-slate-400' : 'text-red-300'}`}>{tapeText(result.output)} <span className="text-slate-500">{result.outcome}</span></td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+          {attempt.problems.length > 0 && (
+            <ul className="list-disc pl-4 text-amber-200/80 space-y-0.5">
+              {attempt.problems.map((problem, i) => <li key={i}>{problem}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Asks the model for a machine with examples, checks it and has it repaired until it passes,
+// showing every attempt. Nothing is loaded until the user picks an attempt.
+export const AiGenerateModal: React.FC<AiGenerateModalProps> = ({ onLoad, onClose }) => {
+  const [prompt, setPrompt] = useState('');
+  const [maxRepairs, setMaxRepairs] = useState(MAX_REPAIR_ROUNDS);
+  const [attempts, setAttempts] = useState<GenerationAttempt[]>([]);
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [settings, setSettings] = useState<AiSettings>(() => loadAiSettings());
+  const [showSettings, setShowSettings] = useState(false);
+  // Bumped to drop the results of a generation the user has moved on from
+  const runRef = useRef(0);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  };
+
+  useEffect(() => () => {
+    runRef.current++;
+    stopWorker();
+  }, []);
+
+  // Checks each attempt's examples in the test runner worker so a machine that runs long
+  // does not freeze the page; stopping terminates the worker mid-run
+  const runExamples: ExampleRunner = (machine, examples, maxSteps) => new Promise<TestResult[]>((resolve, reject) => {
+    stopWorker();
+    const worker = new Worker(new URL('../engine/testRunner.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    const results: TestResult[] = [];
+
+    worker.onmessage = (event: MessageEvent<TestRunResponse>) => {
+      const message = event.data;
+      if (message.type === 'result') {
+        results[message.index] = message.result;
+        return;
+      }
+      stopWorker();
+      resolve(results);
+    };
+    worker.onerror = () => {
+      stopWorker();
+      reject(new Error('The examples could not be run.'));
+    };
+
+    const request: TestRunRequest = { type: 'start', machine, tests: examples, maxSteps };
+    worker.postMessage(request);
+  });
+
+  const generate = async () => {
+    if (!prompt.trim()) return;
+    const run = ++runRef.current;
+    setIsLoading(true);
+    setError(null);
+    setAttempts([]);
+    setOpenIndex(null);
+
+    try {
+      const backend: GenerationBackend = {
+        generate: request => generateTuringRules(request, settings),
+        repair: (request, machine, problems) => repairTuringRules(request, machine, problems, settings),
+      };
+      const result = await generateWithRepair(prompt, backend, {
+        maxRepairs,
+        runExamples,
+        onAttempt: attempt => {
+          if (runRef.current === run) setAttempts(prev => [...prev, attempt]);
+        },
+      });
+      if (runRef.current === run) setOpenIndex(result.length - 1);
+    } catch (e) {
+      if (runRef.current === run) {
+        setError(e instanceof AiProviderError ? e.message : "Failed to generate rules. Please try a different prompt or check API configuration.");
+      }
+    } finally {
+      if (runRef.current === run) setIsLoading(false);
+    }
+  };
+
+  const changeSettings = (next: AiSettings) => {
+    setSettings(next);
+    saveAiSettings(next);
+  };
+
+  const stop = () => {
+    runRef.current++;
+    stopWorker();
+    setIsLoading(false);
+  };
+
+  const last = attempts[attempts.length - 1];
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-800 w-full max-w-2xl max-h-[90vh] flex flex-col rounded-2xl border border-slate-700 shadow-2xl overflow-hidden">
+        <div className="p-6 overflow-y-auto custom-scrollbar">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="p-2 bg-indigo-500/20 rounded-lg">
+              <Wand2 className="text-indigo-400" size={24} />
+            </div>
+            <h2 className="text-xl font-bold text-white">Generate Algorithm</h2>
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              title="AI settings"
+              className={`ml-auto p-1.5 rounded-lg transition-colors ${showSettings ? 'bg-slate-700 text-slate-200' : 'text-slate-400 hover:text-slate-200'}`}
+            >
+              <Settings size={16} />
+            </button>
+          </div>
+
+          {showSettings && (
+            <div className="mb-4">
+              <AiSettingsPanel settings={settings} onChange={changeSettings} disabled={isLoading} />
+            </div>
+          )}
+
+          <p className="text-slate-400 text-sm mb-4">
+            Describe what you want the Turing Machine to do. The AI writes the rules along with example inputs and outputs; each attempt is
+            checked and run against the examples, and anything that fails is sent back to be fixed.
+          </p>
+
+          <textarea
+            className="w-full h-28 bg-slate-900 border border-slate-600 rounded-xl p-4 text-slate-200 focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none resize-none transition-all"
+            placeholder="e.g., Flip every bit from 0 to 1 and vice versa..."
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            disabled={isLoading}
+          ></textarea>
+
+          <label className="mt-3 flex items-center gap-2 text-xs text-slate-400">
+            Repair rounds
+            <select
+              value={maxRepairs}
+              onChange={(e) => setMaxRepairs(Number(e.target.value))}
+              disabled={isLoading}
+              className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200 outline-none cursor-pointer disabled:opacity-50"
+            >
+              {REPAIR_ROUND_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+            <span className="ml-auto text-slate-500">
+              {AI_PROVIDERS.find(p => p.id === settings.provider)!.label}{settings.provider !== 'offline' && settings.model && ` · ${settings.model}`}
+            </span>
+          </label>
+
+          {error && (
+            <div className="mt-3 text-xs text-red-400 bg-red-900/20 p-2 rounded border border-red-900/50">
+              {error}
+            </div>
+          )}
+
+          {(attempts.length > 0 || isLoading) && (
+            <div className="mt-4 flex flex-col gap-2">
+              {attempts.map((attempt, i) => (
+                <AttemptCard
+                  key={i}
+                  attempt={attempt}
+                  index={i}
+                  open={openIndex === i}
+                  onToggle={() => setOpenIndex(openIndex === i ? null : i)}
+                  onLoad={() => onLoad(toPreset(attempt.machine))}
+                />
+              ))}
+              {isLoading && (
+                <div className="flex items-center gap-2 text-xs text-slate-400 p-2">
+                  <div className="w-3 h-3 border-2 border-slate-500/30 border-t-slate-300 rounded-full animate-spin"></div>
+                  {attempts.length === 0 ? 'Generating…' : `Repairing (round ${attempts.length} of ${maxRepairs})…`}
+                </div>
+              )}
+              {!isLoading && last && !last.passed && (
+                <p className="text-xs text-amber-300/80">
+                  No attempt passed all its checks. You can still load one and fix it by hand.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-slate-900 p-4 flex justify-end gap-3 border-t border-slate-700">
+          <button
+            onClick={isLoading ? stop : onClose}
+            className="px-4 py-2 text-slate-400 hover:text-white text-sm font-medium transition-colors"
+          >
+            {isLoading ? 'Stop' : 'Cancel'}
+          </button>
+          <button
+            onClick={generate}
+            disabled={isLoading || !prompt.trim()}
+            className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-bold rounded-lg shadow-lg shadow-indigo-500/20 transition-all flex items-center gap-2"
+          >
+            {isLoading ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                Generating...
+              </>
+            ) : (
+              <>
+                <BrainCircuit size={16} />
+                Generate
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React from 'react';
+import { AI_PROVIDERS, AiProviderKind, AiSettings, MAX_AI_TIMEOUT_MS, MIN_AI_TIMEOUT_MS } from '../services/aiProvider';
+
+interface AiSettingsPanelProps {
+  settings: AiSettings;
+  onChange: (settings: AiSettings) => void;
+  disabled?: boolean;
+}
+
+const inputClass = 'w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200 outline-none focus:border-indigo-500 disabled:opacity-50';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="flex flex-col gap-1 text-[10px] uppercase font-bold text-slate-500">
+    {label}
+    {children}
+  </label>
+);
+
+// Which model answers AI requests, and how long to wait for it
+export const AiSettingsPanel: React.FC<AiSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+  const update = (changes: Partial<AiSettings>) => onChange({ ...settings, ...changes });
+
+  // Each provider starts from its own default model
+  const selectProvider = (provider: AiProviderKind) => {
+    update({ provider, model: AI_PROVIDERS.find(p => p.id === provider)!.defaultModel });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-3 bg-slate-900/40 border border-slate-700 rounded-lg p-3">
+      <Field label="Provider">
+        <select value={settings.provider} onChange={(e) => selectProvider(e.target.value as AiProviderKind)} disabled={disabled} className={`${inputClass} cursor-pointer`}>
+          {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+        </select>
+      </Field>
+      <Field label="Model">
+        <input
+          value={settings.model}
+          onChange={(e) => update({ model: e.target.value })}
+          disabled={disabled || settings.provider === 'offline'}
+          placeholder={settings.provider === 'offline' ? 'Not used offline' : ''}
+          className={`${inputClass} font-mono`}
+        />
+      </Field>
+
+      {settings.provider === 'openai' && (
+        <>
+          <Field label="Endpoint">
+            <input
+              value={settings.endpoint}
+              onChange={(e) => update({ endpoint: e.target.value })}
+              disabled={disabled}
+              placeholder="http://localhost:11434/v1"
+              className={`${inputClass} font-mono`}
+            />
+          </Field>
+          <Field label="API key (optional)">
+            <input
+              type="password"
+              value={settings.apiKey}
+              onChange={(e) => update({ apiKey: e.target.value })}
+              disabled={disabled}
+              autoComplete="off"
+              className={`${inputClass} font-mono`}
+            />
+          </Field>
+          <label className="col-span-2 flex items-start gap-2 text-[11px] text-slate-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.rememberKey}
+              onChange={(e) => update({ rememberKey: e.target.checked })}
+              disabled={disabled}
+              className="mt-0.5 accent-indigo-500"
+            />
+            <span>
+              Remember the key on this device.{' '}
+              <span className="text-amber-300/80">
+                {settings.rememberKey
+                  ? 'It is saved unencrypted in this browser\'s local storage, where any script on this page can read it.'
+                  : 'Otherwise it is forgotten when this tab closes.'}
+              </span>
+            </span>
+          </label>
+        </>
+      )}
+
+      <Field label="Timeout (seconds)">
+        <input
+          type="number"
+          min={MIN_AI_TIMEOUT_MS / 1000}
+          max={MAX_AI_TIMEOUT_MS / 1000}
+          value={Math.round(settings.timeoutMs / 1000)}
+          onChange={(e) => update({ timeoutMs: Number(e.target.value) * 1000 })}
+          disabled={disabled || settings.provider === 'offline'}
+          className={inputClass}
+        />
+      </Field>
+
+      <p className="col-span-2 text-[11px] text-slate-500">
+        {settings.provider === 'gemini' && 'Uses the GEMINI_API_KEY from .env.local.'}
+        {settings.provider === 'openai' && 'Any server with an OpenAI-style /chat/completions route, such as OpenAI, Ollama, llama.cpp or LM Studio.'}
+        {settings.provider === 'offline' && 'Answers from a few built-in machines chosen by keywords in the prompt, without any network access.'}
+      </p>
+    </div>
+  );
+};
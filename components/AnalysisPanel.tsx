@@ -0,0 +1,43 @@
+import React from 'react';
+import { AlertOctagon, AlertTriangle, Info, ShieldCheck } from 'lucide-react';
+import { Diagnostic, DiagnosticSeverity } from '../engine/analyzer';
+
+interface AnalysisPanelProps {
+  diagnostics: Diagnostic[];
+}
+
+export const SEVERITY_STYLE: Record<DiagnosticSeverity, { icon: typeof Info; className: string }> = {
+  error: { icon: AlertOctagon, className: 'text-red-400' },
+  warning: { icon: AlertTriangle, className: 'text-amber-400' },
+  info: { icon: Info, className: 'text-sky-400' },
+};
+
+export const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ diagnostics }) => {
+  const count = (severity: DiagnosticSeverity) => diagnostics.filter(d => d.severity === severity).length;
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 shadow-lg flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <ShieldCheck size={18} className="text-indigo-400" />
+        <h2 className="text-sm font-bold text-white uppercase tracking-wide">Machine Check</h2>
+        <div className="ml-auto flex gap-3 text-xs font-mono">
+          {(['error', 'warning', 'info'] as const).map(severity => count(severity) > 0 && (
+            <span key={severity} className={SEVERITY_STYLE[severity].className}>{count(severity)} {severity}{count(severity) > 1 ? 's' : ''}</span>
+          ))}
+        </div>
+      </div>
+
+      <ul className="flex flex-col gap-1 max-h-40 overflow-auto custom-scrollbar">
+        {diagnostics.map((d, i) => {
+          const { icon: Icon, className } = SEVERITY_STYLE[d.severity];
+          return (
+            <li key={i} className="flex items-start gap-2 text-xs text-slate-300">
+              <Icon size={14} className={`${className} shrink-0 mt-0.5`} />
+              <span>{d.message}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { CircleDot, Plus, Trash2 } from 'lucide-react';
+import { Breakpoint, BreakpointCondition, BreakpointKind, describeBreakpoint } from '../engine/breakpoints';
+
+interface BreakpointPanelProps {
+  breakpoints: Breakpoint[];
+  setBreakpoints: (breakpoints: Breakpoint[]) => void;
+  triggeredIds: number[];
+  tapeCount: number;
+  ruleCount: number;
+}
+
+const KIND_LABELS: Record<BreakpointKind, string> = {
+  state: 'State',
+  rule: 'Rule row',
+  symbol: 'State + symbol',
+  step: 'Step count',
+  head: 'Head position',
+  cell: 'Cell value',
+  tape: 'Tape contains',
+};
+
+// Which inputs each kind needs; numbers are parsed on add
+const KIND_FIELDS: Record<BreakpointKind, ('state' | 'symbol' | 'number' | 'text' | 'tape')[]> = {
+  state: ['state'],
+  rule: ['number'],
+  symbol: ['state', 'symbol', 'tape'],
+  step: ['number'],
+  head: ['number', 'tape'],
+  cell: ['number', 'symbol', 'tape'],
+  tape: ['text', 'tape'],
+};
+
+const NUMBER_PLACEHOLDER: Partial<Record<BreakpointKind, string>> = { rule: 'row #', step: 'step', head: 'cell', cell: 'cell' };
+
+export const BreakpointPanel: React.FC<BreakpointPanelProps> = ({ breakpoints, setBreakpoints, triggeredIds, tapeCount, ruleCount }) => {
+  const [kind, setKind] = useState<BreakpointKind>('state');
+  const [draft, setDraft] = useState({ state: '', symbol: '', number: '', text: '', tape: 0 });
+
+  const buildCondition = (): BreakpointCondition | null => {
+    const n = Number(draft.number);
+    const tape = Math.min(draft.tape, tapeCount - 1);
+    switch (kind) {
+      case 'state': return draft.state ? { kind, state: draft.state } : null;
+      case 'rule': return Number.isInteger(n) && n >= 1 && n <= ruleCount ? { kind, ruleIndex: n - 1 } : null;
+      case 'symbol': return draft.state && draft.symbol ? { kind, state: draft.state, symbol: draft.symbol, tape } : null;
+      case 'step': return Number.isInteger(n) && n > 0 ? { kind, step: n } : null;
+      case 'head': return draft.number !== '' && Number.isInteger(n) ? { kind, position: n, tape } : null;
+      case 'cell': return draft.number !== '' && Number.isInteger(n) && draft.symbol ? { kind, position: n, symbol: draft.symbol, tape } : null;
+      case 'tape': return draft.text ? { kind, text: draft.text, tape } : null;
+    }
+  };
+
+  const condition = buildCondition();
+
+  const addBreakpoint = () => {
+    if (!condition) return;
+    const id = Math.max(0, ...breakpoints.map(b => b.id)) + 1;
+    setBreakpoints([...breakpoints, { id, enabled: true, ...condition }]);
+  };
+
+  const update = (id: number, changes: Partial<Breakpoint>) =>
+    setBreakpoints(breakpoints.map(b => (b.id === id ? { ...b, ...changes } as Breakpoint : b)));
+
+  const inputClass = 'bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200 font-mono outline-none focus:border-indigo-500';
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 shadow-lg flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <CircleDot size={18} className="text-red-400" />
+        <h2 className="text-sm font-bold text-white uppercase tracking-wide">Breakpoints</h2>
+        {breakpoints.length > 0 && (
+          <button onClick={() => setBreakpoints([])} className="ml-auto text-xs text-slate-500 hover:text-red-400 transition-colors">
+            Clear all
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <select value={kind} onChange={(e) => setKind(e.target.value as BreakpointKind)} className={`${inputClass} font-sans cursor-pointer`}>
+          {(Object.keys(KIND_LABELS) as BreakpointKind[]).map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+        </select>
+        {KIND_FIELDS[kind].map(field => {
+          if (field === 'tape') {
+            return tapeCount > 1 && (
+              <select key={field} value={draft.tape} onChange={(e) => setDraft({ ...draft, tape: Number(e.target.value) })} className={`${inputClass} cursor-pointer`}>
+                {Array.from({ length: tapeCount }, (_, i) => <option key={i} value={i}>T{i + 1}</option>)}
+              </select>
+            );
+          }
+          return (
+            <input
+              key={field}
+              className={`${inputClass} ${field === 'symbol' ? 'w-12 text-center' : field === 'number' ? 'w-20' : 'w-28'}`}
+              type={field === 'number' ? 'number' : 'text'}
+              maxLength={field === 'symbol' ? 1 : undefined}
+              placeholder={field === 'number' ? NUMBER_PLACEHOLDER[kind] : field}
+              value={draft[field]}
+              onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && addBreakpoint()}
+            />
+          );
+        })}
+        <button
+          onClick={addBreakpoint}
+          disabled={!condition}
+          className="flex items-center gap-1 px-2.5 py-1 bg-red-600/80 hover:bg-red-500 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded transition-colors"
+        >
+          <Plus size={12} /> Add
+        </button>
+      </div>
+
+      {breakpoints.length > 0 && (
+        <ul className="flex flex-col gap-1 max-h-40 overflow-auto custom-scrollbar">
+          {breakpoints.map(b => (
+            <li
+              key={b.id}
+              className={`flex items-center gap-2 text-xs rounded px-2 py-1 ${triggeredIds.includes(b.id) ? 'bg-red-900/40 text-red-200 ring-1 ring-red-500/60' : 'text-slate-300'}`}
+            >
+              <input type="checkbox" className="accent-red-500" checked={b.enabled} onChange={(e) => update(b.id, { enabled: e.target.checked })} />
+              <span className={`font-mono flex-1 ${b.enabled ? '' : 'line-through text-slate-500'}`}>{describeBreakpoint(b)}</span>
+              <button onClick={() => setBreakpoints(breakpoints.filter(x => x.id !== b.id))} className="p-0.5 text-slate-500 hover:text-red-400">
+                <Trash2 size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Trophy, Play, Square, Download } from 'lucide-react';
+import { Preset } from '../types';
+import { BeaverMachine, MAX_BEAVER_STATES, MAX_BEAVER_SYMBOLS, notationToPreset } from '../engine/busyBeaver';
+import type { BeaverReport, BeaverRequest, BeaverResponse } from '../engine/busyBeaver.worker';
+
+interface BusyBeaverExplorerProps {
+  onLoadMachine: (machine: Preset) => void;
+}
+
+type Ranking = 'steps' | 'ones';
+
+// Tree sizes grow fast; from here on a full enumeration takes minutes or longer
+const isLargeSearch = (states: number, symbols: number) => states * symbols >= 8;
+
+export const BusyBeaverExplorer: React.FC<BusyBeaverExplorerProps> = ({ onLoadMachine }) => {
+  const [states, setStates] = useState(3);
+  const [symbols, setSymbols] = useState(2);
+  const [maxSteps, setMaxSteps] = useState(1_000);
+  const [ranking, setRanking] = useState<Ranking>('steps');
+  const [report, setReport] = useState<BeaverReport | null>(null);
+  const [finished, setFinished] = useState<'complete' | 'cancelled' | null>(null);
+  const [startedAt, setStartedAt] = useState(0);
+  const [elapsed, setElapsed] = useState(0);
+  const workerRef = useRef<Worker | null>(null);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  };
+
+  const start = () => {
+    stop();
+    const worker = new Worker(new URL('../engine/busyBeaver.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    const began = performance.now();
+    setStartedAt(began);
+    setReport(null);
+    setFinished(null);
+
+    worker.onmessage = (event: MessageEvent<BeaverResponse>) => {
+      const message = event.data;
+      setReport(message.report);
+      setElapsed(performance.now() - began);
+      if (message.type === 'done') {
+        setFinished(message.cancelled ? 'cancelled' : 'complete');
+        stop();
+      }
+    };
+
+    const request: BeaverRequest = { type: 'start', options: { states, symbols, maxSteps } };
+    worker.postMessage(request);
+  };
+
+  // The worker answers a cancel with the rankings it has so far
+  const cancel = () => {
+    const request: BeaverRequest = { type: 'cancel' };
+    workerRef.current?.postMessage(request);
+  };
+
+  const load = (machine: BeaverMachine) => {
+    const groups = machine.notation.split('_');
+    const [stateCount, symbolCount] = [groups.length, groups[0].length / 3];
+    const name = `Beaver ${stateCount}×${symbolCount} ${machine.notation}`;
+    const description = `${stateCount}-state, ${symbolCount}-symbol machine found by the busy beaver explorer. From a blank tape it halts after ${machine.steps.toLocaleString()} steps with ${machine.ones} non-blank symbols.`;
+    onLoadMachine(notationToPreset(machine.notation, name, description));
+  };
+
+  const isRunning = startedAt > 0 && finished === null;
+  const machines = report ? (ranking === 'steps' ? report.bySteps : report.byOnes) : [];
+  const total = report ? report.halted + report.looped + report.undecided : 0;
+  const selectClass = 'bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200 outline-none cursor-pointer disabled:opacity-50';
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-amber-500/30 p-4 shadow-lg flex flex-col gap-3">
+      <div className="flex items-center gap-2 mb-1">
+        <Trophy size={18} className="text-amber-400" />
+        <h2 className="text-sm font-bold text-white uppercase tracking-wide">Busy Beaver Explorer</h2>
+      </div>
+
+      <p className="text-xs text-slate-400">
+        Runs every n-state, k-symbol machine from a blank tape and ranks the ones that halt by steps taken and by non-blank symbols left.
+        Machines that only differ by renaming states or symbols, or by mirroring, are run once. A machine that repeats a configuration or
+        runs off into blank tape is proven never to halt; one that reaches the step budget is undecided.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 text-xs text-slate-400">
+        <label className="flex items-center gap-1.5">
+          States
+          <select value={states} onChange={(e) => setStates(Number(e.target.value))} disabled={isRunning} className={selectClass}>
+            {Array.from({ length: MAX_BEAVER_STATES }, (_, i) => <option key={i} value={i + 1}>{i + 1}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          Symbols
+          <select value={symbols} onChange={(e) => setSymbols(Number(e.target.value))} disabled={isRunning} className={selectClass}>
+            {Array.from({ length: MAX_BEAVER_SYMBOLS - 1 }, (_, i) => <option key={i} value={i + 2}>{i + 2}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          Step budget
+          <input
+            type="number"
+            min={1}
+            value={maxSteps}
+            onChange={(e) => setMaxSteps(Math.max(1, Number(e.target.value) || 1))}
+            disabled={isRunning}
+            className="w-24 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200 font-mono outline-none focus:border-amber-500 disabled:opacity-50"
+          />
+        </label>
+        {isRunning ? (
+          <button onClick={cancel} className="ml-auto flex items-center gap-1.5 px-3 py-1.5 bg-red-600 hover:bg-red-500 text-white font-bold rounded-lg">
+            <Square size={12} /> Stop
+          </button>
+        ) : (
+          <button onClick={start} className="ml-auto flex items-center gap-1.5 px-3 py-1.5 bg-amber-600 hover:bg-amber-500 text-white font-bold rounded-lg">
+            <Play size={12} /> Enumerate
+          </button>
+        )}
+      </div>
+
+      {isLargeSearch(states, symbols) && !isRunning && (
+        <p className="text-[11px] text-amber-300/80">
+          This search is very large and may not finish; stop it whenever you like and the rankings keep the best machines found so far.
+        </p>
+      )}
+
+      {report && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs font-mono text-slate-400">
+          <span>{total.toLocaleString()} machines</span>
+          <span className="text-emerald-400">{report.halted.toLocaleString()} halt</span>
+          <span className="text-sky-400">{report.looped.toLocaleString()} never halt</span>
+          <span className="text-amber-400">{report.undecided.toLocaleString()} undecided</span>
+          <span className="ml-auto text-slate-500">
+            {(elapsed / 1000).toFixed(1)} s{isRunning ? ` · ${report.pending.toLocaleString()} queued` : finished === 'cancelled' ? ' · stopped' : ' · complete'}
+          </span>
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div className="flex bg-slate-900 rounded-md p-0.5 border border-slate-700 self-start text-xs">
+            {([['steps', 'Most steps'], ['ones', 'Most symbols']] as const).map(([key, label]) => (
+              <button
+                key={key}
+                onClick={() => setRanking(key)}
+                className={`px-2.5 py-1 rounded transition-colors ${ranking === key ? 'bg-amber-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="max-h-72 overflow-y-auto custom-scrollbar rounded border border-slate-700">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-slate-900 text-slate-500 uppercase">
+                <tr>
+                  <th className="px-2 py-1.5 text-left w-8">#</th>
+                  <th className="px-2 py-1.5 text-left">Machine</th>
+                  <th className="px-2 py-1.5 text-right">Steps</th>
+                  <th className="px-2 py-1.5 text-right">Symbols</th>
+                  <th className="px-2 py-1.5 w-8"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {machines.map((machine, i) => (
+                  <tr key={machine.notation} className="border-t border-slate-700/50 hover:bg-slate-700/30">
+                    <td className="px-2 py-1 text-slate-500">{i + 1}</td>
+                    <td className="px-2 py-1 font-mono text-slate-200 break-all">{machine.notation}</td>
+                    <td className={`px-2 py-1 text-right font-mono ${ranking === 'steps' ? 'text-amber-300' : 'text-slate-400'}`}>{machine.steps.toLocaleString()}</td>
+                    <td className={`px-2 py-1 text-right font-mono ${ranking === 'ones' ? 'text-amber-300' : 'text-slate-400'}`}>{machine.ones}</td>
+                    <td className="px-2 py-1 text-right">
+                      <button onClick={() => load(machine)} title="Load into the editor" className="p-1 text-slate-400 hover:text-amber-300">
+                        <Download size={14} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {machines.length === 0 && (
+                  <tr><td colSpan={5} className="px-2 py-3 text-center text-slate-500">No halting machines yet</td></tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { GitBranch, Search } from 'lucide-react';
+import { BranchStatus, ConfigurationNode, ExplorationOptions, ExplorationResult, getBranchPath } from '../engine/nondeterministic';
+
+interface ConfigurationTreeProps {
+  result: ExplorationResult | null;
+  options: ExplorationOptions;
+  setOptions: (options: ExplorationOptions) => void;
+  onExplore: () => void;
+  selectedNodeId: number | null;
+  onSelectNode: (nodeId: number) => void;
+}
+
+interface TreeNodeProps {
+  node: ConfigurationNode;
+  nodes: ConfigurationNode[];
+  pathIds: Set<number>;
+  selectedNodeId: number | null;
+  onSelectNode: (nodeId: number) => void;
+}
+
+const STATUS_STYLE: Record<BranchStatus, string> = {
+  expanded: 'text-slate-500',
+  open: 'text-yellow-400',
+  accepted: 'text-emerald-400',
+  rejected: 'text-red-400',
+  halted: 'text-slate-400',
+  stuck: 'text-orange-400',
+  pruned: 'text-slate-600',
+};
+
+const TreeNode: React.FC<TreeNodeProps> = ({ node, nodes, pathIds, selectedNodeId, onSelectNode }) => (
+  <li>
+    <button
+      onClick={() => onSelectNode(node.id)}
+      className={`w-full flex items-center gap-2 text-left text-xs font-mono px-1.5 py-0.5 rounded transition-colors
+        ${node.id === selectedNodeId ? 'bg-indigo-600/40 text-white' : pathIds.has(node.id) ? 'bg-indigo-900/30 text-indigo-200' : 'text-slate-300 hover:bg-slate-800'}`}
+    >
+      <span className="text-slate-600">{node.ruleIndex === null ? 'root' : `r${node.ruleIndex + 1}`}</span>
+      <span className="truncate">{node.configuration.currentState}</span>
+      <span className={`ml-auto text-[10px] uppercase ${STATUS_STYLE[node.status]}`}>{node.status === 'expanded' ? '' : node.status}</span>
+    </button>
+    {node.childIds.length > 0 && (
+      <ul className="ml-3 pl-2 border-l border-slate-700">
+        {node.childIds.map(id => (
+          <TreeNode key={id} node={nodes[id]} nodes={nodes} pathIds={pathIds} selectedNodeId={selectedNodeId} onSelectNode={onSelectNode} />
+        ))}
+      </ul>
+    )}
+  </li>
+);
+
+export const ConfigurationTree: React.FC<ConfigurationTreeProps> = ({ result, options, setOptions, onExplore, selectedNodeId, onSelectNode }) => {
+  const pathIds = useMemo(
+    () => new Set(result && selectedNodeId !== null ? getBranchPath(result, selectedNodeId).map(n => n.id) : []),
+    [result, selectedNodeId]
+  );
+
+  const verdict = !result ? null
+    : result.acceptingNodeId !== null ? { label: 'Accepted', className: 'text-emerald-400' }
+    : result.truncated ? { label: 'Inconclusive (limit reached)', className: 'text-yellow-400' }
+    : { label: 'Rejected (no branch accepts)', className: 'text-red-400' };
+
+  return (
+    <div className="bg-slate-900 rounded-xl border border-slate-800 p-5 shadow-inner flex flex-col gap-3">
+      <div className="flex items-center gap-2 pb-2 border-b border-slate-800">
+        <GitBranch size={16} className="text-indigo-400" />
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Configuration Tree</h3>
+        {result && <span className="ml-auto text-[10px] text-slate-600">{result.nodes.length} configurations</span>}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 text-xs">
+        <label className="flex flex-col gap-1 text-slate-500">
+          Max Depth
+          <input
+            type="number"
+            min={1}
+            value={options.maxDepth}
+            onChange={(e) => setOptions({ ...options, maxDepth: Math.max(1, Number(e.target.value)) })}
+            className="w-20 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200 font-mono outline-none focus:border-indigo-500"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-slate-500">
+          Max Width
+          <input
+            type="number"
+            min={1}
+            value={options.maxWidth}
+            onChange={(e) => setOptions({ ...options, maxWidth: Math.max(1, Number(e.target.value)) })}
+            className="w-20 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-200 font-mono outline-none focus:border-indigo-500"
+          />
+        </label>
+        <button
+          onClick={onExplore}
+          className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-lg transition-colors flex items-center gap-2"
+        >
+          <Search size={14} />
+          Explore
+        </button>
+      </div>
+
+      {verdict && (
+        <div className={`text-sm font-bold ${verdict.className}`}>{verdict.label}</div>
+      )}
+
+      {result ? (
+        <div className="max-h-64 overflow-auto custom-scrollbar">
+          <ul>
+            <TreeNode node={result.nodes[0]} nodes={result.nodes} pathIds={pathIds} selectedNodeId={selectedNodeId} onSelectNode={onSelectNode} />
+          </ul>
+        </div>
+      ) : (
+        <div className="text-center text-slate-600 text-xs py-4 italic">
+          Explore to build the tree, then click a configuration to follow its branch on the tape.
+        </div>
+      )}
+    </div>
+  );
+};
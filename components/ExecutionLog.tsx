@@ -0,0 +1,170 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Terminal, FileDown, Braces } from 'lucide-react';
+import { LogEntry, MAX_LOG_ENTRIES, logToCsv, logToJson } from '../engine/executionLog';
+
+interface ExecutionLogProps {
+  entries: LogEntry[];
+  // States the machine can be in and labels of its table rows, for the filters
+  states: string[];
+  ruleLabels: string[];
+  // Step the machine is about to take, highlighted unless halted
+  nextStep: number | null;
+  onJumpToStep: (step: number) => void;
+  disabled: boolean;
+  machineName: string;
+}
+
+const ROW_HEIGHT = 26;
+// Rows rendered beyond either edge of the viewport
+const OVERSCAN = 10;
+const ANY = '';
+
+const download = (text: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const TapeCells: React.FC<{ entry: LogEntry }> = ({ entry }) => (
+  <>
+    {entry.tapes.map((snippet, i) => {
+      const at = entry.headPositions[i] - snippet.start;
+      return (
+        <span key={i}>
+          {i > 0 && <span className="text-slate-600"> | </span>}
+          {snippet.cells.slice(0, at)}
+          <span className="bg-amber-500/30 text-amber-200 rounded-sm">{snippet.cells[at]}</span>
+          {snippet.cells.slice(at + 1)}
+        </span>
+      );
+    })}
+  </>
+);
+
+// Only the rows in view are rendered, so long runs stay responsive. The list follows new
+// entries while scrolled to the bottom; clicking a row travels to the step before it.
+export const ExecutionLog: React.FC<ExecutionLogProps> = ({ entries, states, ruleLabels, nextStep, onJumpToStep, disabled, machineName }) => {
+  const [stateFilter, setStateFilter] = useState(ANY);
+  const [ruleFilter, setRuleFilter] = useState(ANY);
+  const [viewport, setViewport] = useState({ height: 0, scrollTop: 0 });
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const following = useRef(true);
+
+  const visible = useMemo(() => {
+    if (stateFilter === ANY && ruleFilter === ANY) return entries;
+    return entries.filter(entry =>
+      (stateFilter === ANY || entry.state === stateFilter) && (ruleFilter === ANY || entry.rule === Number(ruleFilter)));
+  }, [entries, stateFilter, ruleFilter]);
+
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const measure = () => setViewport(v => ({ ...v, height: element.clientHeight }));
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (element && following.current) element.scrollTop = element.scrollHeight;
+  }, [visible]);
+
+  // A filter left pointing at a state or row the machine no longer has would hide everything
+  useEffect(() => {
+    if (stateFilter !== ANY && !states.includes(stateFilter)) setStateFilter(ANY);
+    if (ruleFilter !== ANY && Number(ruleFilter) >= ruleLabels.length) setRuleFilter(ANY);
+  }, [states, ruleLabels, stateFilter, ruleFilter]);
+
+  const handleScroll = (element: HTMLDivElement) => {
+    following.current = element.scrollTop + element.clientHeight >= element.scrollHeight - ROW_HEIGHT;
+    setViewport(v => ({ ...v, scrollTop: element.scrollTop }));
+  };
+
+  const first = Math.max(0, Math.floor(viewport.scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(visible.length, Math.ceil((viewport.scrollTop + viewport.height) / ROW_HEIGHT) + OVERSCAN);
+  const baseName = machineName.replace(/[^\w-]+/g, '_') || 'machine';
+  const isFiltered = visible !== entries;
+  const selectClass = 'bg-slate-900 border border-slate-700 rounded px-1.5 py-0.5 text-[10px] text-slate-300 outline-none cursor-pointer max-w-[8rem]';
+
+  return (
+    <div className="row-span-1 flex flex-col min-h-0 bg-slate-900">
+      <div className="p-3 bg-slate-800/50 border-b border-slate-700 flex flex-wrap gap-2 justify-between items-center">
+        <div className="flex items-center gap-2">
+          <Terminal size={14} className="text-slate-400" />
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Execution Log</h3>
+        </div>
+        <div className="flex items-center gap-1.5">
+          <select value={stateFilter} onChange={(e) => setStateFilter(e.target.value)} className={selectClass} title="Only show steps taken in this state">
+            <option value={ANY}>All states</option>
+            {states.map(state => <option key={state} value={state}>{state}</option>)}
+          </select>
+          <select value={ruleFilter} onChange={(e) => setRuleFilter(e.target.value)} className={selectClass} title="Only show steps taken by this rule">
+            <option value={ANY}>All rules</option>
+            {ruleLabels.map((label, i) => <option key={i} value={i}>{label}</option>)}
+          </select>
+          <button
+            onClick={() => download(logToCsv(visible), `${baseName}-trace.csv`, 'text/csv')}
+            disabled={visible.length === 0}
+            title={isFiltered ? 'Download the filtered entries as CSV' : 'Download the trace as CSV'}
+            className="p-1 text-slate-400 hover:text-slate-200 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <FileDown size={14} />
+          </button>
+          <button
+            onClick={() => download(logToJson(visible), `${baseName}-trace.json`, 'application/json')}
+            disabled={visible.length === 0}
+            title={isFiltered ? 'Download the filtered entries as JSON' : 'Download the trace as JSON'}
+            className="p-1 text-slate-400 hover:text-slate-200 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Braces size={14} />
+          </button>
+          <span className="text-[10px] text-slate-600">
+            {isFiltered ? `${visible.length.toLocaleString()} of ` : ''}{entries.length.toLocaleString()} entries
+          </span>
+        </div>
+      </div>
+
+      <div ref={scrollRef} onScroll={(e) => handleScroll(e.currentTarget)} className="flex-1 overflow-auto px-2 custom-scrollbar">
+        {entries.length === 0 ? (
+          <div className="text-center text-slate-600 text-xs py-8 italic">
+            Machine is ready. Start execution to see logs.
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="text-center text-slate-600 text-xs py-8 italic">No steps match the filters.</div>
+        ) : (
+          <div className="relative" style={{ height: visible.length * ROW_HEIGHT }}>
+            {visible.slice(first, last).map((entry, i) => (
+              <div
+                key={entry.step}
+                onClick={() => !disabled && onJumpToStep(entry.step - 1)}
+                title={`Rule ${ruleLabels[entry.rule] ?? `#${entry.rule + 1}`}; heads at ${entry.headPositions.join(', ')}. Click to restore the configuration before this step.`}
+                style={{ top: (first + i) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                className={`absolute inset-x-0 grid grid-cols-12 gap-2 items-center text-xs font-mono px-1.5 hover:bg-slate-800 rounded cursor-pointer whitespace-nowrap
+                  ${entry.step === nextStep ? 'bg-indigo-900/30' : ''}`}
+              >
+                <div className="col-span-2 text-slate-500 truncate">#{entry.step}</div>
+                <div className="col-span-2 text-indigo-400 truncate">{entry.state}</div>
+                <div className="col-span-4 text-slate-300 truncate">
+                  <span className="text-slate-500">#{entry.rule + 1} </span>
+                  {entry.read.join(',')}→{entry.write.join(',')} {entry.move.join(',')} <span className="text-indigo-400">{entry.nextState}</span>
+                </div>
+                <div className="col-span-4 text-slate-300 truncate"><TapeCells entry={entry} /></div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {entries.length === MAX_LOG_ENTRIES && (
+        <div className="px-3 py-1 text-[10px] text-slate-500 border-t border-slate-800">
+          Showing the latest {MAX_LOG_ENTRIES.toLocaleString()} steps.
+        </div>
+      )}
+    </div>
+  );
+};
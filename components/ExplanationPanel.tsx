@@ -0,0 +1,118 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Lightbulb, Sparkles, RefreshCw, MessageSquareText } from 'lucide-react';
+import { Preset } from '../types';
+import { LogEntry } from '../engine/executionLog';
+import { MachineExplanation, explainMachine, getCachedExplanation, machineStates, narrateStep } from '../services/aiExplanation';
+import { AiProviderError, loadAiSettings } from '../services/aiProvider';
+import { createAiProvider } from '../services/aiService';
+
+interface ExplanationPanelProps {
+  // The machine as edited, so rule numbers match the table
+  machine: Preset;
+  currentState: string;
+  // The step that led to the current configuration, if it was logged
+  lastStep: LogEntry | null;
+}
+
+// Explains the machine state by state and, while narrating, why each step does what it does.
+// Explanations come from the configured AI provider and are cached per machine.
+export const ExplanationPanel: React.FC<ExplanationPanelProps> = ({ machine, currentState, lastStep }) => {
+  const [explanation, setExplanation] = useState<MachineExplanation | null>(() => getCachedExplanation(machine));
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [narrate, setNarrate] = useState(false);
+  // Bumped to drop answers about a machine that has since changed
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    requestRef.current++;
+    setExplanation(getCachedExplanation(machine));
+    setIsLoading(false);
+    setError(null);
+  }, [machine]);
+
+  useEffect(() => () => { requestRef.current++; }, []);
+
+  const explain = async (refresh = false) => {
+    const request = ++requestRef.current;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await explainMachine(machine, createAiProvider(loadAiSettings()), { refresh });
+      if (requestRef.current === request) setExplanation(result);
+    } catch (e) {
+      if (requestRef.current === request) {
+        setError(e instanceof AiProviderError ? e.message : 'Failed to explain the machine. Check the AI settings and try again.');
+      }
+    } finally {
+      if (requestRef.current === request) setIsLoading(false);
+    }
+  };
+
+  const toggleNarration = () => {
+    if (!narrate && !explanation && !isLoading) explain();
+    setNarrate(!narrate);
+  };
+
+  const states = useMemo(() => machineStates(machine), [machine]);
+  const narration = lastStep ? narrateStep(lastStep, machine.rules[lastStep.rule], explanation) : null;
+  const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 shadow-lg flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <Lightbulb size={16} className="text-indigo-400" />
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Explanation</h3>
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={toggleNarration}
+            title="Explain each step as the machine runs"
+            className={`${buttonClass} ${narrate ? 'bg-indigo-600 hover:bg-indigo-500 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'}`}
+          >
+            <MessageSquareText size={12} /> Narrate
+          </button>
+          {explanation ? (
+            <button onClick={() => explain(true)} disabled={isLoading} title="Ask for a new explanation" className="p-1.5 text-slate-400 hover:text-slate-200 disabled:opacity-50">
+              <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+            </button>
+          ) : (
+            <button onClick={() => explain()} disabled={isLoading} className={`${buttonClass} bg-indigo-600 hover:bg-indigo-500 text-white`}>
+              <Sparkles size={12} /> {isLoading ? 'Explaining…' : 'Explain'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-xs text-red-400 bg-red-900/20 p-2 rounded border border-red-900/50">{error}</div>
+      )}
+
+      {narrate && (
+        <div className="text-xs text-slate-200 bg-indigo-900/30 p-2 rounded border border-indigo-500/20 leading-relaxed">
+          {narration ?? <span className="text-slate-500 italic">Step the machine to hear why each rule fires.</span>}
+        </div>
+      )}
+
+      {explanation ? (
+        <>
+          {explanation.summary && <p className="text-xs text-slate-300 leading-relaxed">{explanation.summary}</p>}
+          <ul className="flex flex-col gap-1 max-h-64 overflow-y-auto custom-scrollbar">
+            {states.map(state => (
+              <li
+                key={state}
+                className={`grid grid-cols-[auto_1fr] gap-2 text-[11px] px-2 py-1 rounded ${state === currentState ? 'bg-indigo-900/40 border border-indigo-500/30' : ''}`}
+              >
+                <span className="font-mono text-indigo-300">{state}</span>
+                <span className="text-slate-400">{explanation.states[state] || <span className="italic text-slate-600">No explanation</span>}</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : (
+        !isLoading && !error && (
+          <p className="text-xs text-slate-500">Ask the AI what each state is doing. Answers are kept for each machine, so replays and narration don't ask again.</p>
+        )
+      )}
+    </div>
+  );
+};
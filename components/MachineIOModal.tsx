@@ -0,0 +1,158 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Copy, Download, FileUp, Upload } from 'lucide-react';
+import { Preset } from '../types';
+import { FORMATS, detectFormat, getFormat } from '../formats';
+
+export type MachineIOMode = 'import' | 'export';
+
+interface MachineIOModalProps {
+  mode: MachineIOMode;
+  machine: Preset;
+  onImport: (machine: Preset) => void;
+  onClose: () => void;
+}
+
+const AUTO_DETECT = 'auto';
+
+export const MachineIOModal: React.FC<MachineIOModalProps> = ({ mode, machine, onImport, onClose }) => {
+  const [formatId, setFormatId] = useState(mode === 'import' ? AUTO_DETECT : FORMATS[0].id);
+  const [text, setText] = useState('');
+  const [fileName, setFileName] = useState<string | undefined>();
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const exported = useMemo(() => {
+    if (mode !== 'export') return { text: '', error: null };
+    try {
+      return { text: getFormat(formatId).serialize(machine), error: null };
+    } catch (e) {
+      return { text: '', error: (e as Error).message };
+    }
+  }, [mode, formatId, machine]);
+
+  const handleFile = async (file: File) => {
+    setText(await file.text());
+    setFileName(file.name);
+    setError(null);
+  };
+
+  const handleImport = () => {
+    const format = formatId === AUTO_DETECT ? detectFormat(text, fileName) : getFormat(formatId);
+    try {
+      onImport(format.parse(text));
+    } catch (e) {
+      setError(`${format.label}: ${(e as Error).message}`);
+    }
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(exported.text);
+    setCopied(true);
+    window.setTimeout(() => setCopied(false), 1500);
+  };
+
+  const handleDownload = () => {
+    const format = getFormat(formatId);
+    const url = URL.createObjectURL(new Blob([exported.text], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${machine.name.replace(/[^\w-]+/g, '_') || 'machine'}.${format.extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const shownError = mode === 'import' ? error : exported.error;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-slate-800 w-full max-w-2xl rounded-2xl border border-slate-700 shadow-2xl overflow-hidden">
+        <div className="p-6 flex flex-col gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-indigo-500/20 rounded-lg">
+              {mode === 'import' ? <Upload className="text-indigo-400" size={24} /> : <Download className="text-indigo-400" size={24} />}
+            </div>
+            <h2 className="text-xl font-bold text-white">{mode === 'import' ? 'Import Machine' : 'Export Machine'}</h2>
+            <select
+              value={formatId}
+              onChange={(e) => { setFormatId(e.target.value); setError(null); }}
+              className="ml-auto bg-slate-900 border border-slate-600 text-slate-200 text-sm rounded-lg p-2 outline-none cursor-pointer"
+            >
+              {mode === 'import' && <option value={AUTO_DETECT}>Auto-detect format</option>}
+              {FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+            </select>
+          </div>
+
+          {mode === 'import' && (
+            <div className="flex items-center gap-3 text-sm">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center gap-2 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-lg transition-colors"
+              >
+                <FileUp size={14} /> Choose File
+              </button>
+              <span className="text-slate-500 text-xs truncate">{fileName ?? 'or paste the machine below'}</span>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={FORMATS.map(f => `.${f.extension}`).concat('.yml', '.txt').join(',')}
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+              />
+            </div>
+          )}
+
+          <textarea
+            className="w-full h-72 bg-slate-900 border border-slate-600 rounded-xl p-4 text-slate-200 font-mono text-xs focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 outline-none resize-none"
+            value={mode === 'import' ? text : exported.text}
+            readOnly={mode === 'export'}
+            spellCheck={false}
+            placeholder={'name: Binary Increment\ninitial state: start\ninitial tape: 1011\nhalt: done\n\nrules:\nstart 1 -> 1 R start'}
+            onChange={(e) => { setText(e.target.value); setError(null); }}
+          ></textarea>
+
+          {shownError && (
+            <div className="text-xs text-red-400 bg-red-900/20 p-2 rounded border border-red-900/50 font-mono">
+              {shownError}
+            </div>
+          )}
+        </div>
+
+        <div className="bg-slate-900 p-4 flex justify-end gap-3 border-t border-slate-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-slate-400 hover:text-white text-sm font-medium transition-colors"
+          >
+            {mode === 'import' ? 'Cancel' : 'Close'}
+          </button>
+          {mode === 'import' ? (
+            <button
+              onClick={handleImport}
+              disabled={!text.trim()}
+              className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-bold rounded-lg shadow-lg shadow-indigo-500/20 transition-all flex items-center gap-2"
+            >
+              <Upload size={16} /> Import
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={handleCopy}
+                disabled={!exported.text}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed text-slate-200 text-sm font-medium rounded-lg transition-colors flex items-center gap-2"
+              >
+                <Copy size={16} /> {copied ? 'Copied!' : 'Copy'}
+              </button>
+              <button
+                onClick={handleDownload}
+                disabled={!exported.text}
+                className="px-6 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-bold rounded-lg shadow-lg shadow-indigo-500/20 transition-all flex items-center gap-2"
+              >
+                <Download size={16} /> Download
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useMemo } from 'react';
+import { Activity } from 'lucide-react';
+import { ExecutionProfile, tapeCoverage } from '../engine/profiler';
+
+export type HeatmapMode = 'off' | 'visits' | 'writes';
+
+interface ProfilePanelProps {
+  profile: ExecutionProfile;
+  stepCount: number;
+  tapeCount: number;
+  heatmap: HeatmapMode;
+  setHeatmap: (mode: HeatmapMode) => void;
+}
+
+const HEATMAP_OPTIONS: { mode: HeatmapMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'visits', label: 'Visits' },
+  { mode: 'writes', label: 'Rewrites' },
+];
+
+const sum = (counts: Map<number, number>) => [...counts.values()].reduce((a, b) => a + b, 0);
+
+// Where the run's steps went: time per state and how much tape it used, with the tape heatmap switch
+export const ProfilePanel: React.FC<ProfilePanelProps> = ({ profile, stepCount, tapeCount, heatmap, setHeatmap }) => {
+  const states = useMemo(() => [...profile.stateSteps].sort((a, b) => b[1] - a[1]), [profile]);
+  const missing = stepCount - profile.steps;
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 shadow-lg flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <Activity size={16} className="text-indigo-400" />
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Profile</h3>
+        <div className="ml-auto flex items-center gap-1 text-[10px] uppercase font-bold text-slate-500">
+          Heatmap
+          <div className="flex rounded-lg overflow-hidden border border-slate-600">
+            {HEATMAP_OPTIONS.map(({ mode, label }) => (
+              <button
+                key={mode}
+                onClick={() => setHeatmap(mode)}
+                className={`px-2 py-1 normal-case font-bold transition-colors ${heatmap === mode ? 'bg-indigo-600 text-white' : 'bg-slate-900 text-slate-400 hover:text-slate-200'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {missing > 0 && (
+        <p className="text-xs text-amber-300/80">
+          Turbo runs are not profiled: the {missing.toLocaleString()} steps taken in turbo mode are left out of these counts and the heatmap.
+        </p>
+      )}
+
+      {profile.steps === 0 ? (
+        missing === 0 && <p className="text-xs text-slate-500">Step or run the machine to see where its steps go.</p>
+      ) : (
+        <>
+          <p className="text-xs text-slate-400">{profile.steps.toLocaleString()} steps profiled</p>
+
+          <div className="grid gap-1 text-xs">
+            {Array.from({ length: tapeCount }, (_, i) => {
+              const tape = profile.tapes[i];
+              const { cells, extent } = tapeCoverage(tape);
+              return (
+                <div key={i} className="flex flex-wrap gap-x-3 text-slate-400">
+                  {tapeCount > 1 && <span className="font-mono font-bold text-slate-500">T{i + 1}</span>}
+                  <span><span className="font-mono text-cyan-300">{cells.toLocaleString()}</span> cells visited</span>
+                  <span>
+                    extent <span className="font-mono text-cyan-300">{extent.toLocaleString()}</span>
+                    {tape?.min != null && <span className="text-slate-500"> ({tape.min} to {tape.max})</span>}
+                  </span>
+                  <span><span className="font-mono text-cyan-300">{(tape ? sum(tape.writes) : 0).toLocaleString()}</span> rewrites</span>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex flex-col gap-1 max-h-48 overflow-y-auto custom-scrollbar">
+            <span className="text-[10px] uppercase text-slate-500 font-bold">Steps per state</span>
+            {states.map(([state, steps]) => (
+              <div key={state} className="grid grid-cols-[minmax(4rem,auto)_1fr_auto] items-center gap-2 text-[11px]">
+                <span className="font-mono text-indigo-300 truncate">{state}</span>
+                <div className="h-1.5 bg-slate-900 rounded overflow-hidden">
+                  <div className="h-full bg-indigo-500/70" style={{ width: `${(steps / profile.steps) * 100}%` }}></div>
+                </div>
+                <span className="font-mono text-slate-400 text-right">
+                  {steps.toLocaleString()} <span className="text-slate-600">{Math.round((steps / profile.steps) * 100)}%</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { Rows3, ZoomIn, ZoomOut } from 'lucide-react';
+import { MachineState } from '../types';
+import { SpaceTime, buildSpaceTime, isOnSpaceTime, lastStep, symbolAt } from '../engine/spaceTime';
+
+interface SpaceTimeDiagramProps {
+  machine: MachineState;
+  onJumpToStep: (step: number) => void;
+  disabled: boolean;
+}
+
+// Pixel sizes of one cell, smallest first
+const ZOOM_LEVELS = [1, 2, 3, 4, 6, 8, 12, 16];
+const GUTTER = 8;
+const VIEWPORT_HEIGHT = 320;
+// A running machine redraws at most this often
+const RUNNING_REFRESH_MS = 250;
+
+const BLANK_COLOR = '#1e293b';
+const SYMBOL_COLORS = ['#6366f1', '#22d3ee', '#f59e0b', '#10b981', '#f43f5e', '#a855f7', '#84cc16', '#ec4899', '#14b8a6', '#eab308'];
+
+const symbolColor = (id: number) => (id === 0 ? BLANK_COLOR : SYMBOL_COLORS[(id - 1) % SYMBOL_COLORS.length]);
+const stateColor = (id: number) => `hsl(${(id * 137.5) % 360} 70% 55%)`;
+
+// One row per step, top to bottom. The gutter on the left shows the state, heads are
+// outlined and the current step is banded; clicking a row travels to that step.
+export const SpaceTimeDiagram: React.FC<SpaceTimeDiagramProps> = ({ machine, onJumpToStep, disabled }) => {
+  const [tape, setTape] = useState(0);
+  const [zoom, setZoom] = useState(3);
+  const [diagram, setDiagram] = useState<SpaceTime | null>(null);
+  const [viewport, setViewport] = useState({ width: 0, scrollTop: 0, scrollLeft: 0 });
+  const [hoverStep, setHoverStep] = useState<number | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const builtAt = useRef(0);
+
+  const cell = ZOOM_LEVELS[zoom];
+  const tapeIndex = Math.min(tape, machine.tapes.length - 1);
+
+  // Rewinding along the same run keeps the later rows, so they can be jumped back to
+  useEffect(() => {
+    if (diagram && diagram.tape === tapeIndex && isOnSpaceTime(diagram, machine)) return;
+    const wait = machine.status === 'RUNNING' ? builtAt.current + RUNNING_REFRESH_MS - Date.now() : 0;
+    const rebuild = () => {
+      builtAt.current = Date.now();
+      setDiagram(buildSpaceTime(machine, tapeIndex));
+    };
+    if (wait <= 0) {
+      rebuild();
+      return;
+    }
+    const timer = setTimeout(rebuild, wait);
+    return () => clearTimeout(timer);
+  }, [machine, tapeIndex]);
+
+  useLayoutEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    const measure = () => setViewport(v => ({ ...v, width: element.clientWidth }));
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep the current step in view
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element || !diagram) return;
+    const top = (machine.stepCount - diagram.firstStep) * cell;
+    if (top < element.scrollTop || top + cell > element.scrollTop + element.clientHeight) {
+      element.scrollTop = Math.max(0, top - element.clientHeight / 2);
+    }
+  }, [diagram, machine.stepCount, cell]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !diagram || viewport.width === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = viewport.width * ratio;
+    canvas.height = VIEWPORT_HEIGHT * ratio;
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.fillStyle = '#0f172a';
+    ctx.fillRect(0, 0, viewport.width, VIEWPORT_HEIGHT);
+
+    const firstRow = Math.floor(viewport.scrollTop / cell);
+    const lastRow = Math.min(diagram.rowCount - 1, Math.ceil((viewport.scrollTop + VIEWPORT_HEIGHT) / cell));
+    const firstCol = Math.floor(viewport.scrollLeft / cell);
+    const lastCol = Math.min(diagram.width - 1, Math.ceil((viewport.scrollLeft + viewport.width - GUTTER) / cell));
+    const x = (c: number) => GUTTER + c * cell - viewport.scrollLeft;
+    const y = (r: number) => r * cell - viewport.scrollTop;
+
+    for (let r = firstRow; r <= lastRow; r++) {
+      const offset = r * diagram.width;
+      for (let c = firstCol; c <= lastCol; c++) {
+        ctx.fillStyle = symbolColor(diagram.cells[offset + c]);
+        ctx.fillRect(x(c), y(r), cell, cell);
+      }
+      const head = diagram.heads[r] - diagram.minCell;
+      if (head >= firstCol && head <= lastCol) {
+        if (cell >= 4) {
+          ctx.strokeStyle = '#ffffff';
+          ctx.lineWidth = 1;
+          ctx.strokeRect(x(head) + 0.5, y(r) + 0.5, cell - 1, cell - 1);
+        } else {
+          ctx.fillStyle = '#ffffff';
+          ctx.fillRect(x(head), y(r), cell, cell);
+        }
+      }
+    }
+
+    // The gutter is drawn last so cells scrolled under it stay hidden
+    for (let r = firstRow; r <= lastRow; r++) {
+      ctx.fillStyle = stateColor(diagram.stateIds[r]);
+      ctx.fillRect(0, y(r), GUTTER - 2, cell);
+    }
+
+    const current = machine.stepCount - diagram.firstStep;
+    if (current >= 0 && current < diagram.rowCount) {
+      ctx.fillStyle = 'rgba(250, 204, 21, 0.25)';
+      ctx.fillRect(0, y(current), viewport.width, Math.max(cell, 2));
+    }
+  }, [diagram, viewport, cell, machine.stepCount]);
+
+  const stepAt = (event: React.MouseEvent<HTMLCanvasElement>): number | null => {
+    if (!diagram) return null;
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const row = Math.floor((event.clientY - bounds.top + viewport.scrollTop) / cell);
+    return row >= 0 && row < diagram.rowCount ? diagram.firstStep + row : null;
+  };
+
+  const hoverRow = diagram && hoverStep !== null ? hoverStep - diagram.firstStep : null;
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 shadow-lg flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <Rows3 size={18} className="text-cyan-400" />
+        <h2 className="text-sm font-bold text-white uppercase tracking-wide">Space-Time Diagram</h2>
+        {diagram && (
+          <span className="text-xs font-mono text-slate-500">
+            steps {diagram.firstStep}–{lastStep(diagram)} · cells {diagram.minCell}…{diagram.minCell + diagram.width - 1}
+          </span>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {machine.tapes.length > 1 && (
+            <select
+              value={tapeIndex}
+              onChange={(e) => setTape(Number(e.target.value))}
+              className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200 outline-none cursor-pointer"
+            >
+              {machine.tapes.map((_, t) => <option key={t} value={t}>T{t + 1}</option>)}
+            </select>
+          )}
+          <button onClick={() => setZoom(z => Math.max(0, z - 1))} disabled={zoom === 0} title="Zoom out" className="p-1 text-slate-400 hover:text-white disabled:opacity-40">
+            <ZoomOut size={14} />
+          </button>
+          <span className="text-xs font-mono text-slate-500 w-8 text-center">{cell}px</span>
+          <button onClick={() => setZoom(z => Math.min(ZOOM_LEVELS.length - 1, z + 1))} disabled={zoom === ZOOM_LEVELS.length - 1} title="Zoom in" className="p-1 text-slate-400 hover:text-white disabled:opacity-40">
+            <ZoomIn size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setViewport(v => ({ ...v, scrollTop: e.currentTarget.scrollTop, scrollLeft: e.currentTarget.scrollLeft }))}
+        className="relative overflow-auto custom-scrollbar rounded border border-slate-700"
+        style={{ height: VIEWPORT_HEIGHT }}
+      >
+        {/* The canvas only covers the viewport and stays pinned while the spacer scrolls */}
+        <div style={{
+          width: Math.max(viewport.width, GUTTER + (diagram?.width ?? 0) * cell),
+          height: Math.max(VIEWPORT_HEIGHT, (diagram?.rowCount ?? 0) * cell),
+        }}>
+          <canvas
+            ref={canvasRef}
+            className={`sticky top-0 left-0 block ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+            style={{ width: viewport.width, height: VIEWPORT_HEIGHT }}
+            onMouseMove={(e) => setHoverStep(stepAt(e))}
+            onMouseLeave={() => setHoverStep(null)}
+            onClick={(e) => {
+              const step = stepAt(e);
+              if (!disabled && step !== null) onJumpToStep(step);
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[11px] text-slate-400">
+        {diagram?.symbols.map((symbol, i) => (
+          <span key={symbol} className="flex items-center gap-1 font-mono">
+            <span className="w-3 h-3 rounded-sm border border-slate-600" style={{ background: symbolColor(i) }} />{symbol}
+          </span>
+        ))}
+        <span className="text-slate-600">|</span>
+        {diagram?.states.map((state, i) => (
+          <span key={state} className="flex items-center gap-1 font-mono">
+            <span className="w-1.5 h-3 rounded-sm" style={{ background: stateColor(i) }} />{state}
+          </span>
+        ))}
+        {diagram && hoverRow !== null && (
+          <span className="ml-auto font-mono text-slate-300">
+            step {hoverStep} · {diagram.states[diagram.stateIds[hoverRow]]} · head at {diagram.heads[hoverRow]}
+            {' '}reading {symbolAt(diagram, hoverStep!, diagram.heads[hoverRow])}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
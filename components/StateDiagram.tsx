@@ -0,0 +1,287 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Network, LayoutGrid, Spline, Plus, X } from 'lucide-react';
+import { FinalStates, MoveDirection, TransitionRule } from '../types';
+import { EMPTY_SYMBOL } from '../constants';
+import { getRuleTransitions, withRuleTransitions } from '../engine/simulator';
+import { GraphEdge, Point, StateKind, buildStateGraph, layoutStateGraph } from '../engine/stateGraph';
+
+interface StateDiagramProps {
+  rules: TransitionRule[];
+  setRules: (rules: TransitionRule[]) => void;
+  initialState: string;
+  finalStates: FinalStates;
+  tapeCount: number;
+  currentState: string;
+  activeRuleIndex: number | null;
+  isRunning: boolean;
+}
+
+const NODE_RADIUS = 26;
+const MAX_LABELS = 4;
+const LABEL_LINE_HEIGHT = 12;
+
+// Matches the final-state colors used in the transition table
+const NODE_STYLE: Record<StateKind, string> = {
+  initial: 'stroke-indigo-400',
+  normal: 'stroke-slate-500',
+  accept: 'stroke-emerald-400',
+  reject: 'stroke-red-400',
+  halt: 'stroke-amber-300',
+};
+
+const FINAL_KINDS: StateKind[] = ['accept', 'reject', 'halt'];
+
+interface EdgeGeometry {
+  path: string;
+  labelAt: Point;
+}
+
+const edgeGeometry = (edge: GraphEdge, from: Point, to: Point, curved: boolean): EdgeGeometry => {
+  if (edge.from === edge.to) {
+    const top = from.y - NODE_RADIUS;
+    return {
+      path: `M ${from.x - 10} ${top} C ${from.x - 40} ${top - 60}, ${from.x + 40} ${top - 60}, ${from.x + 10} ${top}`,
+      labelAt: { x: from.x, y: top - 50 },
+    };
+  }
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.hypot(dx, dy) || 1;
+  const [ux, uy] = [dx / length, dy / length];
+  // Opposing edges bend apart so both stay readable
+  const bend = curved ? 36 : 0;
+  const control = { x: (from.x + to.x) / 2 - uy * bend, y: (from.y + to.y) / 2 + ux * bend };
+  const start = { x: from.x + ux * NODE_RADIUS, y: from.y + uy * NODE_RADIUS };
+  const end = { x: to.x - ux * (NODE_RADIUS + 4), y: to.y - uy * (NODE_RADIUS + 4) };
+  return {
+    path: `M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`,
+    labelAt: { x: (start.x + 2 * control.x + end.x) / 4, y: (start.y + 2 * control.y + end.y) / 4 },
+  };
+};
+
+export const StateDiagram: React.FC<StateDiagramProps> = ({
+  rules, setRules, initialState, finalStates, tapeCount, currentState, activeRuleIndex, isRunning
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragged, setDragged] = useState<Record<string, Point>>({});
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  const [connection, setConnection] = useState<{ from: string; to?: string } | null>(null);
+  const [draft, setDraft] = useState<{ read: string; write: string; move: MoveDirection }>({ read: '0', write: '0', move: 'R' });
+
+  const graph = useMemo(() => buildStateGraph(rules, initialState, finalStates, tapeCount), [rules, initialState, finalStates, tapeCount]);
+  const layout = useMemo(() => layoutStateGraph(graph, initialState), [graph, initialState]);
+  const positions = useMemo(() => ({ ...layout, ...dragged }), [layout, dragged]);
+
+  const bounds = useMemo(() => {
+    const points = graph.nodes.map(n => positions[n.id]);
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const pad = NODE_RADIUS + 70;
+    const minX = Math.min(0, ...xs.map(x => x - pad));
+    const minY = Math.min(0, ...ys.map(y => y - pad));
+    return { minX, minY, width: Math.max(300, ...xs.map(x => x + pad)) - minX, height: Math.max(200, ...ys.map(y => y + pad)) - minY };
+  }, [graph, positions]);
+
+  const toSvgPoint = (e: React.PointerEvent): Point => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM()?.inverse();
+    if (!svg || !matrix) return { x: 0, y: 0 };
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix);
+    return { x: point.x, y: point.y };
+  };
+
+  const handleNodePointerDown = (e: React.PointerEvent, state: string) => {
+    e.stopPropagation();
+    if (connecting) {
+      if (!connection || connection.to) setConnection({ from: state });
+      else setConnection({ ...connection, to: state });
+      return;
+    }
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+    setDragging(state);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (dragging) setDragged(prev => ({ ...prev, [dragging]: toSvgPoint(e) }));
+  };
+
+  const toggleConnecting = () => {
+    setConnecting(!connecting);
+    setConnection(null);
+  };
+
+  // Tapes beyond the first read and write blanks and stay put until edited in the table
+  const addTransition = () => {
+    if (!connection?.to) return;
+    const base: TransitionRule = {
+      currentState: connection.from,
+      readSymbol: draft.read || EMPTY_SYMBOL,
+      writeSymbol: draft.write || EMPTY_SYMBOL,
+      moveDirection: draft.move,
+      nextState: connection.to,
+    };
+    setRules([...rules, withRuleTransitions(base, getRuleTransitions(base, tapeCount))]);
+    setConnection(null);
+  };
+
+  const edgeSet = new Set(graph.edges.map(e => `${e.from}\u0000${e.to}`));
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 shadow-lg flex flex-col">
+      <div className="p-4 flex items-center gap-2 border-b border-slate-700">
+        <Network size={18} className="text-indigo-400" />
+        <h2 className="text-sm font-bold text-white uppercase tracking-wide">State Diagram</h2>
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={toggleConnecting}
+            disabled={isRunning}
+            className={`flex items-center gap-1.5 px-2.5 py-1.5 text-xs rounded-lg transition-colors disabled:opacity-40
+              ${connecting ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-200'}`}
+            title="Click a source state, then a target state, to add a transition"
+          >
+            <Spline size={12} /> Add Transition
+          </button>
+          <button
+            onClick={() => setDragged({})}
+            disabled={Object.keys(dragged).length === 0}
+            className="flex items-center gap-1.5 px-2.5 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 text-slate-200 text-xs rounded-lg transition-colors"
+            title="Discard dragged positions"
+          >
+            <LayoutGrid size={12} /> Auto Layout
+          </button>
+        </div>
+      </div>
+
+      {connecting && (
+        <div className="px-4 py-2 bg-indigo-900/20 border-b border-slate-700 flex flex-wrap items-center gap-2 text-xs text-indigo-200">
+          {!connection?.to ? (
+            <span>{connection ? <>From <b className="font-mono">{connection.from}</b> — now click the target state.</> : 'Click the source state.'}</span>
+          ) : (
+            <>
+              <span className="font-mono"><b>{connection.from}</b> → <b>{connection.to}</b></span>
+              <input
+                className="w-10 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-center font-mono outline-none focus:border-indigo-500"
+                value={draft.read}
+                maxLength={1}
+                title="Read"
+                onChange={(e) => setDraft({ ...draft, read: e.target.value })}
+              />
+              <span>/</span>
+              <input
+                className="w-10 bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-center font-mono outline-none focus:border-indigo-500"
+                value={draft.write}
+                maxLength={1}
+                title="Write"
+                onChange={(e) => setDraft({ ...draft, write: e.target.value })}
+              />
+              <select
+                className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 font-mono outline-none"
+                value={draft.move}
+                onChange={(e) => setDraft({ ...draft, move: e.target.value as MoveDirection })}
+              >
+                <option value="L">L</option>
+                <option value="R">R</option>
+                <option value="N">N</option>
+              </select>
+              <button onClick={addTransition} className="flex items-center gap-1 px-2 py-0.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded">
+                <Plus size={12} /> Add
+              </button>
+              <button onClick={() => setConnection(null)} className="p-0.5 text-slate-400 hover:text-white" title="Pick other states">
+                <X size={12} />
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="overflow-auto custom-scrollbar max-h-[480px]">
+        <svg
+          ref={svgRef}
+          width={bounds.width}
+          height={bounds.height}
+          viewBox={`${bounds.minX} ${bounds.minY} ${bounds.width} ${bounds.height}`}
+          className="select-none"
+          onPointerMove={handlePointerMove}
+          onPointerUp={() => setDragging(null)}
+          onPointerLeave={() => setDragging(null)}
+        >
+          <defs>
+            {[['arrow', 'fill-slate-500'], ['arrow-active', 'fill-amber-400']].map(([id, className]) => (
+              <marker key={id} id={id} viewBox="0 0 10 10" refX="8" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" className={className} />
+              </marker>
+            ))}
+          </defs>
+
+          {graph.edges.map(edge => {
+            const { path, labelAt } = edgeGeometry(edge, positions[edge.from], positions[edge.to], edgeSet.has(`${edge.to}\u0000${edge.from}`));
+            const active = activeRuleIndex !== null && edge.ruleIndices.includes(activeRuleIndex);
+            const shown = edge.labels.slice(0, MAX_LABELS);
+            const hidden = edge.labels.length - shown.length;
+            const lines = hidden > 0 ? [...shown, `+${hidden} more`] : shown;
+            const firstLineY = labelAt.y - ((lines.length - 1) * LABEL_LINE_HEIGHT) / 2;
+            return (
+              <g key={`${edge.from}->${edge.to}`}>
+                <path
+                  d={path}
+                  fill="none"
+                  strokeWidth={active ? 2.5 : 1.5}
+                  className={active ? 'stroke-amber-400' : 'stroke-slate-500'}
+                  markerEnd={`url(#${active ? 'arrow-active' : 'arrow'})`}
+                />
+                <text x={labelAt.x} y={firstLineY} textAnchor="middle" className="font-mono" fontSize={10}>
+                  {lines.map((label, i) => (
+                    <tspan
+                      key={i}
+                      x={labelAt.x}
+                      dy={i === 0 ? 0 : LABEL_LINE_HEIGHT}
+                      className={edge.ruleIndices[i] === activeRuleIndex ? 'fill-amber-300 font-bold' : 'fill-slate-300'}
+                      stroke="#1e293b"
+                      strokeWidth={3}
+                      paintOrder="stroke"
+                    >
+                      {label}
+                    </tspan>
+                  ))}
+                  <title>{edge.labels.join('\n')}</title>
+                </text>
+              </g>
+            );
+          })}
+
+          {graph.nodes.map(node => {
+            const { x, y } = positions[node.id];
+            const isCurrent = node.id === currentState;
+            const isPicked = connection?.from === node.id || connection?.to === node.id;
+            return (
+              <g
+                key={node.id}
+                onPointerDown={(e) => handleNodePointerDown(e, node.id)}
+                className={connecting ? 'cursor-crosshair' : dragging === node.id ? 'cursor-grabbing' : 'cursor-grab'}
+              >
+                {node.id === initialState && (
+                  <path d={`M ${x - NODE_RADIUS - 24} ${y} L ${x - NODE_RADIUS - 4} ${y}`} strokeWidth={1.5} className="stroke-indigo-400" markerEnd="url(#arrow)" />
+                )}
+                <circle
+                  cx={x}
+                  cy={y}
+                  r={NODE_RADIUS}
+                  strokeWidth={isCurrent || isPicked ? 3 : 1.5}
+                  className={`${isCurrent ? 'fill-indigo-600' : 'fill-slate-900'} ${isPicked ? 'stroke-white' : NODE_STYLE[node.kind]} transition-colors`}
+                />
+                {FINAL_KINDS.includes(node.kind) && (
+                  <circle cx={x} cy={y} r={NODE_RADIUS - 5} fill="none" strokeWidth={1} className={NODE_STYLE[node.kind]} />
+                )}
+                <text x={x} y={y + 4} textAnchor="middle" fontSize={11} className={`font-mono ${isCurrent ? 'fill-white font-bold' : 'fill-slate-200'}`}>
+                  {node.id.length > 7 ? `${node.id.slice(0, 6)}…` : node.id}
+                </text>
+                <title>{node.id}</title>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+};
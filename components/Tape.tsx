@@ -1,18 +1,133 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Tape as TapeType } from '../types';
-import { EMPTY_SYMBOL } from '../constants';
+import { ANY_SYMBOL, EMPTY_SYMBOL } from '../constants';
 
 interface TapeProps {
+  tapes: TapeType[];
+  headPositions: number[];
+  isRunning: boolean;
+  // Leave these out to make the tape read-only, e.g. while the machine runs
+  onWriteCell?: (tape: number, position: number, symbol: string) => void;
+  onMoveHead?: (tape: number, position: number) => void;
+  // Per-tape counts to shade cells by, e.g. how often each was visited, and the highest count on each tape
+  heatmap?: { counts: Map<number, number>[]; hottest: number[]; label: string };
+}
+
+interface CellHeat {
+  counts: Map<number, number>;
+  hottest: number;
+  label: string;
+}
+
+interface TapeStripProps {
   tape: TapeType;
   headPosition: number;
   isRunning: boolean;
+  label?: string;
+  onWriteCell?: (position: number, symbol: string) => void;
+  onMoveHead?: (position: number) => void;
+  heat?: CellHeat;
 }
 
 const CELL_SIZE = 60;
 const VIEWPORT_CELLS = 13; // Odd number to center head
+// Pixels the pointer must travel before a press becomes a drag
+const DRAG_THRESHOLD = 4;
+
+// Renders one strip per tape, each centered on its own head
+export const Tape: React.FC<TapeProps> = ({ tapes, headPositions, isRunning, onWriteCell, onMoveHead, heatmap }) => (
+  <div className="flex flex-col gap-2">
+    {tapes.map((tape, i) => (
+      <TapeStrip
+        key={i}
+        tape={tape}
+        headPosition={headPositions[i]}
+        isRunning={isRunning}
+        label={tapes.length > 1 ? `T${i + 1}` : undefined}
+        onWriteCell={onWriteCell && ((position, symbol) => onWriteCell(i, position, symbol))}
+        onMoveHead={onMoveHead && (position => onMoveHead(i, position))}
+        heat={heatmap && { counts: heatmap.counts[i] ?? new Map(), hottest: heatmap.hottest[i] ?? 0, label: heatmap.label }}
+      />
+    ))}
+    {onWriteCell && (
+      <p className="px-1 text-[11px] text-slate-500">
+        Click a cell and type to write (space or Delete blanks it) · double-click or Enter moves the head there · drag the tape to slide it under the head
+      </p>
+    )}
+  </div>
+);
+
+const TapeStrip: React.FC<TapeStripProps> = ({ tape, headPosition, isRunning, label, onWriteCell, onMoveHead, heat }) => {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [dragOffset, setDragOffset] = useState(0);
+  const drag = useRef<{ startX: number; moved: boolean } | null>(null);
+  // The click that ends a drag must not also select a cell
+  const suppressClick = useRef(false);
+  const stripRef = useRef<HTMLDivElement>(null);
+
+  const editable = onWriteCell !== undefined;
+
+  useEffect(() => {
+    if (!editable) setSelected(null);
+  }, [editable]);
+
+  // Dragging the tape right brings the cells on the left under the head
+  const startDrag = (event: React.PointerEvent) => {
+    if (!onMoveHead || event.button !== 0) return;
+    drag.current = { startX: event.clientX, moved: false };
+    const move = (e: PointerEvent) => {
+      if (!drag.current) return;
+      const dx = e.clientX - drag.current.startX;
+      if (Math.abs(dx) > DRAG_THRESHOLD) drag.current.moved = true;
+      if (drag.current.moved) setDragOffset(dx);
+    };
+    const end = (e: PointerEvent) => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', end);
+      const moved = drag.current?.moved;
+      const cells = drag.current ? Math.round((e.clientX - drag.current.startX) / CELL_SIZE) : 0;
+      drag.current = null;
+      setDragOffset(0);
+      if (!moved) return;
+      suppressClick.current = true;
+      if (cells !== 0) onMoveHead(headPosition - cells);
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', end);
+  };
+
+  const selectCell = (index: number) => {
+    if (suppressClick.current) {
+      suppressClick.current = false;
+      return;
+    }
+    if (!onWriteCell) return;
+    setSelected(index);
+    stripRef.current?.focus();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (selected === null || !onWriteCell) return;
+    const { key } = event;
+    if (key === 'ArrowLeft' || key === 'ArrowRight') {
+      setSelected(selected + (key === 'ArrowLeft' ? -1 : 1));
+    } else if (key === 'Escape') {
+      setSelected(null);
+    } else if (key === 'Enter') {
+      onMoveHead?.(selected);
+    } else if (key === 'Backspace' || key === 'Delete') {
+      onWriteCell(selected, EMPTY_SYMBOL);
+      if (key === 'Backspace') setSelected(selected - 1);
+    } else if (key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey && key !== ANY_SYMBOL) {
+      // Typing fills cells left to right, like a text field
+      onWriteCell(selected, key === ' ' ? EMPTY_SYMBOL : key);
+      setSelected(selected + 1);
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
 
-export const Tape: React.FC<TapeProps> = ({ tape, headPosition, isRunning }) => {
-  
   // Calculate the range of cells to display
   // We center the head in the viewport
   const visibleIndices = useMemo(() => {
@@ -24,32 +139,56 @@ export const Tape: React.FC<TapeProps> = ({ tape, headPosition, isRunning }) =>
     return indices;
   }, [headPosition]);
 
+  // Shading grows with the logarithm of the count, so a few hot cells don't wash out the rest
+  const heatOf = (index: number) => {
+    const count = heat?.counts.get(index) ?? 0;
+    return { count, intensity: heat && count > 0 ? Math.log1p(count) / Math.log1p(heat.hottest) : 0 };
+  };
+
   return (
-    <div className="relative w-full h-32 bg-slate-800 rounded-xl border-4 border-slate-700 overflow-hidden shadow-inner flex items-center justify-center">
+    <div
+      ref={stripRef}
+      tabIndex={onWriteCell ? 0 : undefined}
+      onKeyDown={handleKeyDown}
+      onBlur={() => setSelected(null)}
+      onPointerDown={startDrag}
+      className={`relative w-full h-32 bg-slate-800 rounded-xl border-4 border-slate-700 overflow-hidden shadow-inner flex items-center justify-center outline-none touch-none select-none ${
+        onMoveHead ? (dragOffset !== 0 ? 'cursor-grabbing' : 'cursor-grab') : ''}`}
+    >
       {/* Background Grid Lines (Decorative) */}
       <div className="absolute inset-0 opacity-10 pointer-events-none" 
            style={{ backgroundImage: 'linear-gradient(90deg, #fff 1px, transparent 1px)', backgroundSize: `${CELL_SIZE}px 100%` }}></div>
 
       {/* The Tape Container */}
-      <div className="flex relative transition-transform duration-300 ease-in-out" 
-           style={{ transform: `translateX(0px)` }}> 
+      <div className={`flex relative ${dragOffset === 0 ? 'transition-transform duration-300 ease-in-out' : ''}`}
+           style={{ transform: `translateX(${dragOffset}px)` }}> 
            {/* Note: In a real infinite scroll implementation, we might animate the container. 
                Here we re-render cells centered which gives a 'camera follows head' effect effectively. */}
         
         {visibleIndices.map((index) => {
           const val = tape[index] || EMPTY_SYMBOL;
           const isHead = index === headPosition;
+          const { count, intensity } = heatOf(index);
 
           return (
             <div
               key={index}
+              onClick={() => selectCell(index)}
+              onDoubleClick={() => onMoveHead?.(index)}
+              title={heat ? `${count.toLocaleString()} ${heat.label}` : undefined}
               className={`
-                w-[60px] h-[60px] flex items-center justify-center 
+                relative w-[60px] h-[60px] flex items-center justify-center 
                 text-2xl font-mono border-r border-slate-600/50
                 transition-all duration-200
                 ${isHead ? 'bg-indigo-500/20 text-indigo-300 font-bold' : 'text-slate-400'}
+                ${index === selected ? 'ring-2 ring-inset ring-amber-400 bg-amber-400/10' : ''}
               `}
             >
+              {heat && count > 0 && (
+                <span className="absolute inset-0 pointer-events-none" style={{ backgroundColor: `rgba(249, 115, 22, ${0.08 + 0.5 * intensity})` }}>
+                  <span className="absolute top-0.5 right-1 text-[9px] font-sans text-orange-200/80">{count.toLocaleString()}</span>
+                </span>
+              )}
               {val === EMPTY_SYMBOL ? <span className="text-slate-700 opacity-50">_</span> : val}
               
               {/* Index Label */}
@@ -76,6 +215,13 @@ export const Tape: React.FC<TapeProps> = ({ tape, headPosition, isRunning }) =>
       {/* Fade Gradients */}
       <div className="absolute left-0 top-0 bottom-0 w-16 bg-gradient-to-r from-slate-900 to-transparent pointer-events-none"></div>
       <div className="absolute right-0 top-0 bottom-0 w-16 bg-gradient-to-l from-slate-900 to-transparent pointer-events-none"></div>
+
+      {/* Tape Label (multi-tape machines only) */}
+      {label && (
+        <span className="absolute top-1 left-2 z-20 text-[10px] font-bold font-mono text-slate-400 bg-slate-900/80 px-1.5 rounded">
+          {label} · {headPosition}
+        </span>
+      )}
     </div>
   );
 };
\ No newline at end of file
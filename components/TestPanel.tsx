@@ -0,0 +1,219 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FlaskConical, Play, Plus, Square, Trash2, Upload, CheckCircle2, XCircle, LoaderCircle } from 'lucide-react';
+import { ExpectedOutcome, Preset, TestCase } from '../types';
+import { DEFAULT_TEST_STEP_LIMIT, TestResult, firstDifference } from '../engine/testRunner';
+import type { TestRunRequest, TestRunResponse } from '../engine/testRunner.worker';
+
+interface TestPanelProps {
+  machine: Preset;
+  setTests: (tests: TestCase[]) => void;
+  // Puts a test's input on the tape so it can be stepped through
+  onLoadInput: (input: string) => void;
+  disabled: boolean;
+}
+
+const OUTCOME_OPTIONS: ExpectedOutcome[] = ['accepted', 'rejected', 'halted', 'stuck', 'loops'];
+
+// Expected and actual tape, with everything from the first differing cell highlighted
+const TapeDiff: React.FC<{ expected: string; actual: string }> = ({ expected, actual }) => {
+  const at = firstDifference(expected, actual);
+  const show = (text: string, tone: string) => (
+    <span className="font-mono">
+      {text.slice(0, at)}
+      <span className={`${tone} rounded-sm`}>{text.slice(at) || '␣'}</span>
+    </span>
+  );
+  return (
+    <div className="grid grid-cols-[auto_1fr] gap-x-2 text-[11px] break-all">
+      <span className="text-slate-500">expected</span>{show(expected, 'bg-emerald-900/60 text-emerald-200')}
+      <span className="text-slate-500">actual</span>{show(actual, 'bg-red-900/60 text-red-200')}
+    </div>
+  );
+};
+
+export const TestPanel: React.FC<TestPanelProps> = ({ machine, setTests, onLoadInput, disabled }) => {
+  const tests = machine.tests ?? [];
+  const tapeCount = machine.tapeCount ?? 1;
+  // One slot per test, filled in as the worker finishes each case
+  const [results, setResults] = useState<(TestResult | null)[] | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setIsRunning(false);
+  };
+
+  // Results describe one version of the machine and its tests
+  useEffect(() => {
+    stop();
+    setResults(null);
+  }, [machine]);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const update = (index: number, changes: Partial<TestCase>) => {
+    const next = { ...tests[index], ...changes };
+    // Optional fields are dropped rather than stored empty, so files stay tidy
+    if (next.expectedOutput === undefined) delete next.expectedOutput;
+    if (!next.expectedOutcome) delete next.expectedOutcome;
+    if (!next.outputTape) delete next.outputTape;
+    if (!next.maxSteps) delete next.maxSteps;
+    setTests(tests.map((t, i) => (i === index ? next : t)));
+  };
+
+  const addTest = () => setTests([...tests, { input: machine.initialTape, expectedOutput: '' }]);
+
+  const runAll = () => {
+    stop();
+    const worker = new Worker(new URL('../engine/testRunner.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setResults(tests.map(() => null));
+    setIsRunning(true);
+
+    worker.onmessage = (event: MessageEvent<TestRunResponse>) => {
+      const message = event.data;
+      if (message.type === 'done') stop();
+      else setResults(prev => prev && prev.map((r, i) => (i === message.index ? message.result : r)));
+    };
+    // A worker that fails to load or crashes leaves the unfinished cases without a result
+    worker.onerror = () => stop();
+
+    const request: TestRunRequest = { type: 'start', machine, tests };
+    worker.postMessage(request);
+  };
+
+  const finished = results?.filter((r): r is TestResult => r !== null) ?? [];
+  const passedCount = finished.filter(r => r.passed).length;
+  const inputClass = 'bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200 font-mono outline-none focus:border-indigo-500 min-w-0';
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 shadow-lg flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <FlaskConical size={18} className="text-emerald-400" />
+        <h2 className="text-sm font-bold text-white uppercase tracking-wide">Test Cases</h2>
+        {results && (
+          <span className={`text-xs font-mono ${passedCount === finished.length ? 'text-emerald-400' : 'text-red-400'}`}>
+            {passedCount}/{results.length} passed
+            {isRunning && <span className="text-slate-500"> · running {finished.length + 1} of {results.length}</span>}
+          </span>
+        )}
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={addTest}
+            className="flex items-center gap-1 px-2.5 py-1 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 rounded transition-colors"
+          >
+            <Plus size={12} /> Add
+          </button>
+          {isRunning ? (
+            <button
+              onClick={stop}
+              className="flex items-center gap-1 px-2.5 py-1 text-xs bg-red-600 hover:bg-red-500 text-white rounded transition-colors"
+            >
+              <Square size={12} /> Stop
+            </button>
+          ) : (
+            <button
+              onClick={runAll}
+              disabled={disabled || tests.length === 0}
+              className="flex items-center gap-1 px-2.5 py-1 text-xs bg-emerald-600 hover:bg-emerald-500 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded transition-colors"
+            >
+              <Play size={12} /> Run All
+            </button>
+          )}
+        </div>
+      </div>
+
+      {tests.length === 0 ? (
+        <p className="text-xs text-slate-500 italic">No test cases yet. Add one with an input and the output or outcome it should produce.</p>
+      ) : (
+        <ul className="flex flex-col gap-2 max-h-96 overflow-auto custom-scrollbar">
+          {tests.map((test, i) => {
+            const result = results?.[i];
+            return (
+              <li
+                key={i}
+                className={`flex flex-col gap-1.5 rounded p-2 border ${!result ? 'border-slate-700' : result.passed ? 'border-emerald-500/40 bg-emerald-900/10' : 'border-red-500/40 bg-red-900/10'}`}
+              >
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  {result ? (result.passed
+                    ? <CheckCircle2 size={14} className="text-emerald-400" />
+                    : <XCircle size={14} className="text-red-400" />)
+                    : isRunning && result === null && <LoaderCircle size={14} className="text-slate-400 animate-spin" />}
+                  <input
+                    className={`${inputClass} w-28`}
+                    placeholder="input"
+                    value={test.input}
+                    onChange={(e) => update(i, { input: e.target.value })}
+                  />
+                  <span className="text-slate-500">→</span>
+                  <input
+                    className={`${inputClass} w-28`}
+                    placeholder={test.expectedOutput === undefined ? 'any output' : 'empty tape'}
+                    value={test.expectedOutput ?? ''}
+                    onChange={(e) => update(i, { expectedOutput: e.target.value === '' && test.expectedOutcome ? undefined : e.target.value })}
+                  />
+                  {tapeCount > 1 && (
+                    <select
+                      value={test.outputTape ?? 0}
+                      onChange={(e) => update(i, { outputTape: Number(e.target.value) })}
+                      className={`${inputClass} cursor-pointer`}
+                      title="Tape compared with the expected output"
+                    >
+                      {Array.from({ length: tapeCount }, (_, t) => <option key={t} value={t}>T{t + 1}</option>)}
+                    </select>
+                  )}
+                  <select
+                    value={test.expectedOutcome ?? ''}
+                    onChange={(e) => update(i, {
+                      expectedOutcome: (e.target.value || undefined) as ExpectedOutcome | undefined,
+                      // A test without an outcome must still check something
+                      ...(!e.target.value && test.expectedOutput === undefined ? { expectedOutput: '' } : {}),
+                    })}
+                    className={`${inputClass} font-sans cursor-pointer`}
+                  >
+                    <option value="">any outcome</option>
+                    {OUTCOME_OPTIONS.map(o => <option key={o} value={o}>{o}</option>)}
+                  </select>
+                  <input
+                    className={`${inputClass} w-24`}
+                    type="number"
+                    min={1}
+                    placeholder={DEFAULT_TEST_STEP_LIMIT.toLocaleString()}
+                    title="Step limit"
+                    value={test.maxSteps ?? ''}
+                    onChange={(e) => update(i, { maxSteps: Number(e.target.value) || undefined })}
+                  />
+                  <div className="ml-auto flex gap-1">
+                    <button onClick={() => onLoadInput(test.input)} disabled={disabled} title="Load this input onto the tape" className="p-1 text-slate-500 hover:text-indigo-400 disabled:opacity-40">
+                      <Upload size={12} />
+                    </button>
+                    <button onClick={() => setTests(tests.filter((_, j) => j !== i))} title="Delete test" className="p-1 text-slate-500 hover:text-red-400">
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+
+                {result && (
+                  <div className="flex flex-col gap-1 pl-6 text-[11px]">
+                    {result.outcome !== 'error' && (
+                      <span className="text-slate-400 font-mono">
+                        {result.outcome} after {result.steps.toLocaleString()} steps
+                        {result.output !== null && test.expectedOutput === undefined && <> · output {result.output || '_'}</>}
+                      </span>
+                    )}
+                    {result.failures.map(f => <span key={f} className="text-red-300">{f}</span>)}
+                    {test.expectedOutput !== undefined && result.output !== null && result.output !== test.expectedOutput && (
+                      <TapeDiff expected={test.expectedOutput} actual={result.output} />
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,15 +1,94 @@
-import React, { useState } from 'react';
-import { TransitionRule, MoveDirection } from '../types';
-import { Trash2, Plus, Edit2, Check, X } from 'lucide-react';
-import { EMPTY_SYMBOL } from '../constants';
+import React, { useState, useEffect, useMemo } from 'react';
+import { TransitionRule, TapeTransition, MoveDirection, FinalStates } from '../types';
+import { Trash2, Plus, Edit2, Check, X, UnfoldVertical, CornerDownRight, Layers } from 'lucide-react';
+import { ANY_SYMBOL, MAX_TAPES } from '../constants';
+import { getRuleTransitions, isSymbolPattern, withRuleTransitions } from '../engine/simulator';
+import { usesPatterns } from '../engine/ruleExpansion';
+import { hasCalls } from '../engine/composition';
+import { Diagnostic, groupDiagnosticsByRule, worstSeverity } from '../engine/analyzer';
+import { SEVERITY_STYLE } from './AnalysisPanel';
 
 interface TransitionTableProps {
   rules: TransitionRule[];
   setRules: (rules: TransitionRule[]) => void;
   activeRuleIndex: number | null;
+  tapeCount: number;
+  setTapeCount: (count: number) => void;
+  nondeterministic: boolean;
+  setNondeterministic: (enabled: boolean) => void;
+  finalStates: FinalStates;
+  setFinalStates: (finalStates: FinalStates) => void;
+  diagnostics: Diagnostic[];
+  breakpointRuleIndices: number[];
+  onToggleRuleBreakpoint: (index: number) => void;
+  pausedRuleIndex: number | null;
+  // Replaces `*` and class rules with the plain rules they stand for
+  onExpandPatterns: () => void;
+  // Machines a rule can call as a subroutine
+  callableMachines: string[];
+  // Replaces calls with the inlined rules of the machines they call
+  onFlattenCalls: () => void;
+  // Steps each row has taken this run, from the profiler
+  ruleHits: Map<number, number>;
 }
 
-export const TransitionTable: React.FC<TransitionTableProps> = ({ rules, setRules, activeRuleIndex }) => {
+interface StateListInputProps {
+  label: string;
+  className: string;
+  states: string[] | undefined;
+  onCommit: (states: string[]) => void;
+}
+
+const FINAL_STATE_FIELDS: { key: keyof FinalStates; label: string; className: string }[] = [
+  { key: 'acceptStates', label: 'Accept', className: 'text-emerald-400' },
+  { key: 'rejectStates', label: 'Reject', className: 'text-red-400' },
+  { key: 'haltStates', label: 'Halt', className: 'text-amber-300' },
+];
+
+// Comma-separated state names, committed on blur or Enter so partially typed lists survive
+const StateListInput: React.FC<StateListInputProps> = ({ label, className, states, onCommit }) => {
+  const [draft, setDraft] = useState((states ?? []).join(', '));
+
+  useEffect(() => {
+    setDraft((states ?? []).join(', '));
+  }, [states]);
+
+  const commit = () => onCommit(draft.split(',').map(s => s.trim()).filter(Boolean));
+
+  return (
+    <label className="flex items-center gap-2 min-w-0">
+      <span className={`font-bold uppercase ${className}`}>{label}</span>
+      <input
+        className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-2 py-0.5 text-slate-200 font-mono focus:border-indigo-500 outline-none"
+        value={draft}
+        placeholder="—"
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+      />
+    </label>
+  );
+};
+
+const MOVE_BADGE: Record<MoveDirection, { className: string; label: string }> = {
+  L: { className: 'bg-orange-500/20 text-orange-400', label: 'LEFT' },
+  R: { className: 'bg-emerald-500/20 text-emerald-400', label: 'RIGHT' },
+  N: { className: 'bg-slate-500/20 text-slate-400', label: 'STAY' },
+};
+
+// Patterns stand out from plain symbols so a wildcard rule is easy to spot
+const SymbolText: React.FC<{ symbol: string }> = ({ symbol }) =>
+  isSymbolPattern(symbol)
+    ? <span className="text-amber-300" title={symbol === ANY_SYMBOL ? 'Any symbol (as a write: keep the symbol read)' : 'Any symbol in this class'}>{symbol}</span>
+    : <>{symbol}</>;
+
+export const TransitionTable: React.FC<TransitionTableProps> = ({
+  rules, setRules, activeRuleIndex, tapeCount, setTapeCount, nondeterministic, setNondeterministic, finalStates, setFinalStates, diagnostics,
+  breakpointRuleIndices, onToggleRuleBreakpoint, pausedRuleIndex, onExpandPatterns, callableMachines, onFlattenCalls, ruleHits
+}) => {
+  const diagnosticsByRule = useMemo(() => groupDiagnosticsByRule(diagnostics), [diagnostics]);
+  // The profiler updates ruleHits in place, so this is summed on every render rather than memoized
+  const totalHits = [...ruleHits.values()].reduce((a, b) => a + b, 0);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [editForm, setEditForm] = useState<TransitionRule | null>(null);
 
@@ -40,34 +119,106 @@ export const TransitionTable: React.FC<TransitionTableProps> = ({ rules, setRule
   };
 
   const addNewRule = () => {
-    const newRule: TransitionRule = {
+    const baseRule: TransitionRule = {
       currentState: 'new_state',
       readSymbol: '0',
       writeSymbol: '1',
       moveDirection: 'R',
       nextState: 'new_state'
     };
+    const newRule = withRuleTransitions(baseRule, getRuleTransitions(baseRule, tapeCount));
     setRules([...rules, newRule]);
     setEditingIndex(rules.length); // Start editing the new one immediately
     setEditForm(newRule);
   };
 
-  const updateForm = (field: keyof TransitionRule, value: string) => {
+  const updateForm = (field: 'currentState' | 'nextState', value: string) => {
     if (editForm) {
       setEditForm({ ...editForm, [field]: value });
     }
   };
 
+  const updateCall = (machine: string) => {
+    if (editForm) {
+      const { call, ...rest } = editForm;
+      setEditForm(machine ? { ...rest, call: machine } : rest);
+    }
+  };
+
+  const updateTransition = (tapeIndex: number, field: keyof TapeTransition, value: string) => {
+    if (editForm) {
+      const transitions = getRuleTransitions(editForm, tapeCount);
+      transitions[tapeIndex] = { ...transitions[tapeIndex], [field]: value };
+      setEditForm(withRuleTransitions(editForm, transitions));
+    }
+  };
+
+  const tapeSuffix = tapeCount > 1 ? ` (T1–T${tapeCount})` : '';
+
+  const finalStateClass = (state: string): string =>
+    FINAL_STATE_FIELDS.find(f => finalStates[f.key]?.includes(state))?.className ?? '';
+
   return (
     <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden flex flex-col h-full">
       <div className="p-4 bg-slate-900/50 border-b border-slate-700 flex justify-between items-center">
         <h3 className="text-sm font-bold text-slate-300 uppercase tracking-wider">Transition Logic</h3>
-        <button 
-          onClick={addNewRule}
-          className="flex items-center gap-2 px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-white text-xs rounded transition-colors"
-        >
-          <Plus size={14} /> Add Rule
-        </button>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-1 text-xs text-slate-400 cursor-pointer" title="Rules sharing a state and read symbol branch instead of the first one winning">
+            <input
+              type="checkbox"
+              className="accent-indigo-500"
+              checked={nondeterministic}
+              onChange={(e) => setNondeterministic(e.target.checked)}
+            />
+            NTM
+          </label>
+          <label className="flex items-center gap-1 text-xs text-slate-400">
+            Tapes
+            <select
+              className="bg-slate-900 border border-slate-600 rounded px-1 py-0.5 text-slate-200 outline-none cursor-pointer"
+              value={tapeCount}
+              onChange={(e) => setTapeCount(Number(e.target.value))}
+            >
+              {Array.from({ length: MAX_TAPES }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          {hasCalls(rules) && (
+            <button
+              onClick={onFlattenCalls}
+              className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs rounded transition-colors"
+              title="Inline every called machine, leaving a plain rule table"
+            >
+              <Layers size={14} /> Flatten
+            </button>
+          )}
+          {rules.some(usesPatterns) && (
+            <button
+              onClick={onExpandPatterns}
+              className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs rounded transition-colors"
+              title="Replace * and [..] rules with one rule per symbol they match"
+            >
+              <UnfoldVertical size={14} /> Expand
+            </button>
+          )}
+          <button 
+            onClick={addNewRule}
+            className="flex items-center gap-2 px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-white text-xs rounded transition-colors"
+          >
+            <Plus size={14} /> Add Rule
+          </button>
+        </div>
+      </div>
+      
+      <div className="px-4 py-2 bg-slate-900/30 border-b border-slate-700 grid grid-cols-3 gap-3 text-xs">
+        {FINAL_STATE_FIELDS.map(f => (
+          <StateListInput
+            key={f.key}
+            label={f.label}
+            className={f.className}
+            states={finalStates[f.key]}
+            onCommit={(states) => setFinalStates({ ...finalStates, [f.key]: states })}
+          />
+        ))}
       </div>
       
       <div className="overflow-auto flex-1 custom-scrollbar">
@@ -75,11 +226,12 @@ export const TransitionTable: React.FC<TransitionTableProps> = ({ rules, setRule
           <thead className="bg-slate-900/80 sticky top-0 text-slate-400 font-medium">
             <tr>
               <th className="p-3">Current State</th>
-              <th className="p-3">Read</th>
+              <th className="p-3">Read{tapeSuffix}</th>
               <th className="p-3 text-center">→</th>
-              <th className="p-3">Write</th>
-              <th className="p-3">Move</th>
+              <th className="p-3">Write{tapeSuffix}</th>
+              <th className="p-3">Move{tapeSuffix}</th>
               <th className="p-3">Next State</th>
+              <th className="p-3 text-right" title="Steps taken by each rule this run, including those inside a machine it calls">Hits</th>
               <th className="p-3 text-right">Actions</th>
             </tr>
           </thead>
@@ -87,8 +239,15 @@ export const TransitionTable: React.FC<TransitionTableProps> = ({ rules, setRule
             {rules.map((rule, index) => {
               const isEditing = editingIndex === index;
               const isActive = activeRuleIndex === index;
+              const hasBreakpoint = breakpointRuleIndices.includes(index);
+              const transitions = getRuleTransitions(rule, tapeCount);
+              const ruleDiagnostics = diagnosticsByRule.get(index) ?? [];
+              const severity = worstSeverity(ruleDiagnostics);
+              const SeverityIcon = severity ? SEVERITY_STYLE[severity].icon : null;
+              const hits = ruleHits.get(index) ?? 0;
 
               if (isEditing && editForm) {
+                const formTransitions = getRuleTransitions(editForm, tapeCount);
                 return (
                   <tr key={index} className="bg-indigo-900/30">
                     <td className="p-2">
@@ -98,41 +257,72 @@ export const TransitionTable: React.FC<TransitionTableProps> = ({ rules, setRule
                         onChange={(e) => updateForm('currentState', e.target.value)}
                       />
                     </td>
-                    <td className="p-2 w-16">
-                      <input 
-                         className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200 font-mono text-center focus:border-indigo-500 outline-none"
-                         value={editForm.readSymbol}
-                         maxLength={1}
-                         onChange={(e) => updateForm('readSymbol', e.target.value)}
-                      />
+                    <td className="p-2" style={{ width: `${4 * tapeCount}rem` }}>
+                      <div className="flex gap-1">
+                        {formTransitions.map((t, i) => (
+                          <input 
+                             key={i}
+                             className="w-full min-w-0 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200 font-mono text-center focus:border-indigo-500 outline-none"
+                             value={t.readSymbol}
+                             title="A symbol, * for any symbol, or a class such as [01]"
+                             onChange={(e) => updateTransition(i, 'readSymbol', e.target.value)}
+                          />
+                        ))}
+                      </div>
                     </td>
                     <td className="p-2 text-center text-slate-500">→</td>
-                    <td className="p-2 w-16">
-                      <input 
-                         className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200 font-mono text-center focus:border-indigo-500 outline-none"
-                         value={editForm.writeSymbol}
-                         maxLength={1}
-                         onChange={(e) => updateForm('writeSymbol', e.target.value)}
-                      />
+                    <td className="p-2" style={{ width: `${4 * tapeCount}rem` }}>
+                      <div className="flex gap-1">
+                        {formTransitions.map((t, i) => (
+                          <input 
+                             key={i}
+                             className="w-full min-w-0 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200 font-mono text-center focus:border-indigo-500 outline-none"
+                             value={t.writeSymbol}
+                             maxLength={1}
+                             title="A symbol, or * to keep the symbol read"
+                             onChange={(e) => updateTransition(i, 'writeSymbol', e.target.value)}
+                          />
+                        ))}
+                      </div>
                     </td>
-                    <td className="p-2 w-24">
-                      <select 
-                        className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200 focus:border-indigo-500 outline-none"
-                        value={editForm.moveDirection}
-                        onChange={(e) => updateForm('moveDirection', e.target.value as MoveDirection)}
-                      >
-                        <option value="L">Left</option>
-                        <option value="R">Right</option>
-                        <option value="N">Stay</option>
-                      </select>
+                    <td className="p-2" style={{ width: `${6 * tapeCount}rem` }}>
+                      <div className="flex gap-1">
+                        {formTransitions.map((t, i) => (
+                          <select 
+                            key={i}
+                            className="w-full min-w-0 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200 focus:border-indigo-500 outline-none"
+                            value={t.moveDirection}
+                            onChange={(e) => updateTransition(i, 'moveDirection', e.target.value as MoveDirection)}
+                          >
+                            <option value="L">{tapeCount > 1 ? 'L' : 'Left'}</option>
+                            <option value="R">{tapeCount > 1 ? 'R' : 'Right'}</option>
+                            <option value="N">{tapeCount > 1 ? 'S' : 'Stay'}</option>
+                          </select>
+                        ))}
+                      </div>
                     </td>
                     <td className="p-2">
-                       <input 
-                        className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200 focus:border-indigo-500 outline-none"
-                        value={editForm.nextState}
-                        onChange={(e) => updateForm('nextState', e.target.value)}
-                      />
+                      <div className="flex flex-col gap-1">
+                        <select
+                          className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200 text-xs focus:border-indigo-500 outline-none"
+                          value={editForm.call ?? ''}
+                          onChange={(e) => updateCall(e.target.value)}
+                          title="Run another machine first, then continue in the next state"
+                        >
+                          <option value="">No call</option>
+                          {[...new Set([...callableMachines, ...(editForm.call ? [editForm.call] : [])])].map(name => (
+                            <option key={name} value={name}>Call {name}</option>
+                          ))}
+                        </select>
+                        <input 
+                          className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-slate-200 focus:border-indigo-500 outline-none"
+                          value={editForm.nextState}
+                          placeholder={editForm.call ? 'return to' : undefined}
+                          onChange={(e) => updateForm('nextState', e.target.value)}
+                        />
+                      </div>
                     </td>
+                    <td className="p-2"></td>
                     <td className="p-2 text-right">
                       <div className="flex justify-end gap-2">
                         <button onClick={saveEdit} className="p-1 text-green-400 hover:text-green-300"><Check size={16} /></button>
@@ -148,23 +338,55 @@ export const TransitionTable: React.FC<TransitionTableProps> = ({ rules, setRule
                   key={index} 
                   className={`
                     hover:bg-slate-700/50 transition-colors
-                    ${isActive ? 'bg-cyan-900/30 text-cyan-200' : 'text-slate-300'}
+                    ${isActive ? 'bg-cyan-900/30 text-cyan-200' : severity === 'error' ? 'bg-red-900/10 text-slate-300' : 'text-slate-300'}
+                    ${pausedRuleIndex === index ? 'outline outline-1 -outline-offset-1 outline-red-500/70' : ''}
                   `}
                 >
-                  <td className="p-3 font-mono">{rule.currentState}</td>
-                  <td className="p-3 font-mono text-center bg-slate-900/30 rounded mx-1 w-8 inline-block mt-2">{rule.readSymbol === EMPTY_SYMBOL ? '_' : rule.readSymbol}</td>
+                  <td className="p-3 font-mono">
+                    <span className="flex items-center gap-1.5">
+                      <button
+                        onClick={() => onToggleRuleBreakpoint(index)}
+                        className={`shrink-0 w-2.5 h-2.5 rounded-full border transition-colors ${hasBreakpoint ? 'bg-red-500 border-red-400' : 'border-slate-600 hover:border-red-400'}`}
+                        title={hasBreakpoint ? `Remove breakpoint on rule #${index + 1}` : `Pause before rule #${index + 1} fires`}
+                      />
+                      {SeverityIcon && severity && (
+                        <span title={ruleDiagnostics.map(d => d.message).join('\n')} className="shrink-0">
+                          <SeverityIcon size={14} className={SEVERITY_STYLE[severity].className} />
+                        </span>
+                      )}
+                      {rule.currentState}
+                    </span>
+                  </td>
+                  <td className="p-3 font-mono text-center bg-slate-900/30 rounded mx-1 min-w-[2rem] inline-block mt-2">{transitions.map((t, i) => <React.Fragment key={i}>{i > 0 && ','}<SymbolText symbol={t.readSymbol} /></React.Fragment>)}</td>
                   <td className="p-3 text-center text-slate-600">→</td>
-                  <td className="p-3 font-mono text-center bg-slate-900/30 rounded mx-1 w-8 inline-block mt-2">{rule.writeSymbol === EMPTY_SYMBOL ? '_' : rule.writeSymbol}</td>
+                  <td className="p-3 font-mono text-center bg-slate-900/30 rounded mx-1 min-w-[2rem] inline-block mt-2">{transitions.map((t, i) => <React.Fragment key={i}>{i > 0 && ','}<SymbolText symbol={t.writeSymbol} /></React.Fragment>)}</td>
                   <td className="p-3">
-                    <span className={`inline-block px-2 py-0.5 rounded text-xs font-bold ${
-                      rule.moveDirection === 'L' ? 'bg-orange-500/20 text-orange-400' :
-                      rule.moveDirection === 'R' ? 'bg-emerald-500/20 text-emerald-400' :
-                      'bg-slate-500/20 text-slate-400'
-                    }`}>
-                      {rule.moveDirection === 'L' ? 'LEFT' : rule.moveDirection === 'R' ? 'RIGHT' : 'STAY'}
-                    </span>
+                    <div className="flex gap-1">
+                      {transitions.map((t, i) => (
+                        <span key={i} className={`inline-block px-2 py-0.5 rounded text-xs font-bold ${MOVE_BADGE[t.moveDirection].className}`}>
+                          {tapeCount > 1 ? MOVE_BADGE[t.moveDirection].label[0] : MOVE_BADGE[t.moveDirection].label}
+                        </span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className={`p-3 font-mono ${finalStateClass(rule.nextState)}`}>
+                    {rule.call !== undefined && (
+                      <span className="flex items-center gap-1 text-xs text-violet-300 font-sans" title={`Runs ${rule.call}, then continues in ${rule.nextState}`}>
+                        <CornerDownRight size={12} /> {rule.call}
+                      </span>
+                    )}
+                    {rule.nextState}
+                  </td>
+                  <td className="p-3 text-right font-mono text-xs whitespace-nowrap">
+                    {hits > 0 ? (
+                      <span title={`${Math.round((hits / totalHits) * 100)}% of the profiled steps`}>
+                        {hits.toLocaleString()}
+                        <span className="block h-1 mt-1 ml-auto bg-indigo-500/60 rounded" style={{ width: `${Math.max(4, (hits / totalHits) * 100)}%` }}></span>
+                      </span>
+                    ) : (
+                      <span className="text-slate-600">0</span>
+                    )}
                   </td>
-                  <td className="p-3 font-mono">{rule.nextState}</td>
                   <td className="p-3 text-right">
                     <div className="flex justify-end gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
                       <button onClick={() => startEdit(index)} className="p-1 text-slate-400 hover:text-indigo-400 transition-colors"><Edit2 size={14} /></button>
@@ -177,7 +399,7 @@ export const TransitionTable: React.FC<TransitionTableProps> = ({ rules, setRule
             
             {rules.length === 0 && (
               <tr>
-                <td colSpan={7} className="p-8 text-center text-slate-500 italic">
+                <td colSpan={8} className="p-8 text-center text-slate-500 italic">
                   No rules defined. Add one manually or ask AI to generate them.
                 </td>
               </tr>
@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Layers, Play, Square, Upload, Copy, Check, CheckCircle2, XCircle } from 'lucide-react';
+import { FinalStates, Preset } from '../types';
+import { PRESETS } from '../constants';
+import { loadMachine, snapshotMachine } from '../engine/simulator';
+import {
+  RunSummary, UNIVERSAL_MACHINE_NAME, UniversalEncoding, UniversalEncodingError, decodeMachine, encodeMachine, runsAgree,
+  summarizeRun, summarizeUniversalRun,
+} from '../engine/universal';
+import type { TurboRequest, TurboResponse } from '../engine/turbo.worker';
+
+interface UniversalPanelProps {
+  // The machine as it runs, with calls flattened
+  machine: Preset;
+  onLoadMachine: (machine: Preset) => void;
+  disabled: boolean;
+}
+
+const DIRECT_STEP_LIMIT = 100_000;
+// Each simulated step costs the universal machine a pass over the description
+const UNIVERSAL_STEP_LIMIT = 50_000_000;
+
+const universalMachine = PRESETS.find(p => p.name === UNIVERSAL_MACHINE_NAME)!;
+
+const finalStatesOf = ({ acceptStates, rejectStates, haltStates }: FinalStates): FinalStates => ({ acceptStates, rejectStates, haltStates });
+
+const encode = (machine: Preset): UniversalEncoding | string => {
+  try {
+    return encodeMachine(machine);
+  } catch (e) {
+    if (e instanceof UniversalEncodingError) return e.message;
+    throw e;
+  }
+};
+
+const Summary: React.FC<{ title: string; summary: RunSummary | null; steps: string }> = ({ title, summary, steps }) => (
+  <div className="bg-slate-900/60 rounded border border-slate-700 p-2 text-xs flex flex-col gap-1 min-w-0">
+    <span className="text-[10px] uppercase text-slate-500 font-bold">{title}</span>
+    {summary ? (
+      <>
+        <span className="font-mono text-cyan-300 break-all">{summary.tape || '_ (empty)'}</span>
+        <span className="text-slate-400">
+          {summary.outcome ? <>{summary.outcome} in <span className="font-mono text-indigo-300">{summary.state}</span></> : 'did not halt'}
+          {' · '}{summary.steps.toLocaleString()} {steps}
+        </span>
+      </>
+    ) : (
+      <span className="text-slate-600 italic">Waiting…</span>
+    )}
+  </div>
+);
+
+// Encodes the machine for the universal machine preset, runs it both ways in the background
+// and compares where the two runs end. Descriptions can also be decoded back into machines.
+export const UniversalPanel: React.FC<UniversalPanelProps> = ({ machine, onLoadMachine, disabled }) => {
+  const encoding = useMemo(() => encode(machine), [machine]);
+  const [direct, setDirect] = useState<RunSummary | null>(null);
+  const [universal, setUniversal] = useState<RunSummary | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [copied, setCopied] = useState<'description' | 'number' | null>(null);
+  const [decodeText, setDecodeText] = useState('');
+  const [decodeError, setDecodeError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  // Results describe one version of the machine
+  useEffect(() => {
+    stop();
+    setDirect(null);
+    setUniversal(null);
+  }, [machine]);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const compare = () => {
+    if (typeof encoding === 'string') return;
+    stop();
+    setDirect(null);
+    setUniversal(null);
+    setProgress(0);
+    const worker = new Worker(new URL('../engine/turbo.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    const finalStates = finalStatesOf(machine);
+    const simulator: Preset = { ...universalMachine, initialTape: encoding.tape };
+    let phase: 'direct' | 'universal' = 'direct';
+
+    const send = (definition: Preset, maxSteps: number) => {
+      const request: TurboRequest = {
+        type: 'start',
+        machine: snapshotMachine(loadMachine(definition)),
+        rules: definition.rules,
+        finalStates: finalStatesOf(definition),
+        maxSteps,
+      };
+      worker.postMessage(request);
+    };
+
+    worker.onmessage = (event: MessageEvent<TurboResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        if (phase === 'universal') setProgress(message.machine.stepCount);
+        return;
+      }
+      if (phase === 'direct' && message.reason !== 'cancelled') {
+        const summary = summarizeRun(message.machine, finalStates);
+        setDirect(summary);
+        // A machine that does not halt is no more likely to halt on the UTM
+        if (summary.outcome === null) {
+          stop();
+          return;
+        }
+        phase = 'universal';
+        send(simulator, UNIVERSAL_STEP_LIMIT);
+        return;
+      }
+      if (phase === 'universal') setUniversal(summarizeUniversalRun(message.machine, encoding, finalStates));
+      stop();
+    };
+
+    send(machine, DIRECT_STEP_LIMIT);
+  };
+
+  const cancel = () => {
+    const request: TurboRequest = { type: 'cancel' };
+    workerRef.current?.postMessage(request);
+  };
+
+  const loadSimulator = () => {
+    if (typeof encoding === 'string') return;
+    const { tests, ...simulator } = universalMachine;
+    onLoadMachine({
+      ...simulator,
+      description: `Simulates "${machine.name}" from its standard description. Tape 2 holds the simulated tape, one D block per cell, and tape 3 the simulated state q1, q2, … as D A, D AA, …`,
+      initialTape: encoding.tape,
+    });
+  };
+
+  const decode = () => {
+    try {
+      onLoadMachine(decodeMachine(decodeText));
+      setDecodeError(null);
+    } catch (e) {
+      if (!(e instanceof UniversalEncodingError)) throw e;
+      setDecodeError(e.message);
+    }
+  };
+
+  const copy = async (what: 'description' | 'number', text: string) => {
+    await navigator.clipboard.writeText(text);
+    setCopied(what);
+    window.setTimeout(() => setCopied(null), 1500);
+  };
+
+  const isRunning = progress !== null;
+  const agree = direct && universal ? runsAgree(direct, universal) : null;
+  const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 shadow-lg flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <Layers size={16} className="text-indigo-400" />
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Universal Machine</h3>
+      </div>
+
+      {typeof encoding === 'string' ? (
+        <p className="text-xs text-amber-300/80">{encoding}</p>
+      ) : (
+        <>
+          {([['description', 'Standard description', encoding.description], ['number', 'Description number', encoding.number]] as const).map(([key, label, text]) => (
+            <div key={key} className="flex flex-col gap-1">
+              <div className="flex items-center justify-between text-[10px] uppercase text-slate-500 font-bold">
+                <span>{label}</span>
+                <button onClick={() => copy(key, text)} title={`Copy the ${label.toLowerCase()}`} className="p-0.5 text-slate-400 hover:text-slate-200">
+                  {copied === key ? <Check size={12} /> : <Copy size={12} />}
+                </button>
+              </div>
+              <div className="font-mono text-[11px] text-slate-300 break-all bg-slate-900/60 rounded border border-slate-700 p-2 max-h-20 overflow-y-auto custom-scrollbar">
+                {text || <span className="text-slate-600 italic">No instructions</span>}
+              </div>
+            </div>
+          ))}
+          <p className="text-[11px] text-slate-500">
+            States {encoding.states.map((s, i) => `q${i + 1}=${s}`).join(', ')}; symbols {encoding.symbols.map((s, j) => `S${j}=${s}`).join(', ')}.
+          </p>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {isRunning ? (
+              <button onClick={cancel} className={`${buttonClass} bg-red-600 hover:bg-red-500 text-white`}>
+                <Square size={12} /> Stop
+              </button>
+            ) : (
+              <button onClick={compare} disabled={disabled} className={`${buttonClass} bg-indigo-600 hover:bg-indigo-500 text-white`}>
+                <Play size={12} /> Run via UTM
+              </button>
+            )}
+            <button
+              onClick={loadSimulator}
+              disabled={disabled}
+              title="Load the universal machine with this machine and its input on the tape, to step through it"
+              className={`${buttonClass} bg-slate-700 hover:bg-slate-600 text-slate-200`}
+            >
+              <Upload size={12} /> Load into UTM
+            </button>
+            {isRunning && direct && (
+              <span className="text-[11px] font-mono text-slate-500">{progress.toLocaleString()} UTM steps…</span>
+            )}
+          </div>
+
+          {(direct || isRunning) && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <Summary title="Run directly" summary={direct} steps="steps" />
+              <Summary title="Run on the UTM" summary={universal} steps="UTM steps" />
+            </div>
+          )}
+          {direct?.outcome === null && !isRunning && (
+            <p className="text-xs text-amber-300/80">
+              The machine did not halt within {DIRECT_STEP_LIMIT.toLocaleString()} steps, so it was not run on the universal machine.
+            </p>
+          )}
+          {agree !== null && (
+            <div className={`flex items-center gap-2 text-xs ${agree ? 'text-emerald-300' : 'text-red-300'}`}>
+              {agree ? <CheckCircle2 size={14} /> : <XCircle size={14} />}
+              {agree
+                ? `Same result; the universal machine took ${Math.round(universal!.steps / Math.max(1, direct!.steps)).toLocaleString()}× as many steps.`
+                : universal!.outcome === null
+                    ? `The universal machine did not finish within ${UNIVERSAL_STEP_LIMIT.toLocaleString()} steps.`
+                    : 'The two runs ended differently.'}
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="flex flex-col gap-1.5 pt-2 border-t border-slate-700/60">
+        <span className="text-[10px] uppercase text-slate-500 font-bold">Decode a description</span>
+        <div className="flex gap-2">
+          <input
+            value={decodeText}
+            onChange={(e) => setDecodeText(e.target.value)}
+            placeholder="DADDCRDAA;… or 31332531…"
+            className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-slate-200 font-mono outline-none focus:border-indigo-500"
+          />
+          <button onClick={decode} disabled={disabled || decodeText.trim() === ''} className={`${buttonClass} bg-slate-700 hover:bg-slate-600 text-slate-200`}>
+            Load
+          </button>
+        </div>
+        {decodeError && <p className="text-[11px] text-red-300">{decodeError}</p>}
+      </div>
+    </div>
+  );
+};
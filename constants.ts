@@ -2,12 +2,22 @@ import { Preset } from './types';
 
 export const EMPTY_SYMBOL = '_';
 
+// Read by a rule, matches any symbol including the blank; written, leaves the cell unchanged
+export const ANY_SYMBOL = '*';
+
+// Upper bound for the tape count selector
+export const MAX_TAPES = 4;
+
+// Maximum number of undo records kept while stepping in the UI
+export const HISTORY_LIMIT = 100_000;
+
 export const PRESETS: Preset[] = [
   {
     name: 'Binary Increment',
     description: 'Adds 1 to a binary number (Big Endian). It moves to the rightmost bit, then handles carries moving left.',
     initialTape: '1011',
     initialState: 'start',
+    haltStates: ['done'],
     rules: [
       { currentState: 'start', readSymbol: '0', writeSymbol: '0', moveDirection: 'R', nextState: 'start' },
       { currentState: 'start', readSymbol: '1', writeSymbol: '1', moveDirection: 'R', nextState: 'start' },
@@ -15,13 +25,21 @@ export const PRESETS: Preset[] = [
       { currentState: 'add', readSymbol: '0', writeSymbol: '1', moveDirection: 'L', nextState: 'done' },
       { currentState: 'add', readSymbol: '1', writeSymbol: '0', moveDirection: 'L', nextState: 'add' },
       { currentState: 'add', readSymbol: '_', writeSymbol: '1', moveDirection: 'R', nextState: 'done' },
+    ],
+    tests: [
+      { input: '1011', expectedOutput: '1100', expectedOutcome: 'halted' },
+      { input: '111', expectedOutput: '1000', expectedOutcome: 'halted' },
+      { input: '0', expectedOutput: '1', expectedOutcome: 'halted' },
+      { input: '', expectedOutput: '1', expectedOutcome: 'halted' },
     ]
   },
   {
     name: 'Palindrome Detector',
-    description: 'Checks if a binary string is a palindrome. It matches the first and last characters recursively, erasing them as it goes. Returns Y for yes, leaves 0 or garbage for no.',
+    description: 'Checks if a binary string is a palindrome. It matches the first and last characters recursively, erasing them as it goes. Writes Y and accepts for yes, rejects on the first mismatch.',
     initialTape: '1001',
     initialState: 'start',
+    acceptStates: ['accept'],
+    rejectStates: ['reject'],
     rules: [
       // Read first char
       { currentState: 'start', readSymbol: '0', writeSymbol: '_', moveDirection: 'R', nextState: 'have0' },
@@ -52,6 +70,13 @@ export const PRESETS: Preset[] = [
       { currentState: 'back', readSymbol: '0', writeSymbol: '0', moveDirection: 'L', nextState: 'back' },
       { currentState: 'back', readSymbol: '1', writeSymbol: '1', moveDirection: 'L', nextState: 'back' },
       { currentState: 'back', readSymbol: '_', writeSymbol: '_', moveDirection: 'R', nextState: 'start' },
+    ],
+    tests: [
+      { input: '1001', expectedOutcome: 'accepted' },
+      { input: '10101', expectedOutcome: 'accepted' },
+      { input: '', expectedOutput: 'Y', expectedOutcome: 'accepted' },
+      { input: '10', expectedOutcome: 'rejected' },
+      { input: '1011', expectedOutcome: 'rejected' },
     ]
   },
   {
@@ -66,6 +91,10 @@ export const PRESETS: Preset[] = [
       { currentState: 'left', readSymbol: '_', writeSymbol: '_', moveDirection: 'L', nextState: 'left' },
       { currentState: 'left', readSymbol: '0', writeSymbol: '0', moveDirection: 'L', nextState: 'left' },
       { currentState: 'left', readSymbol: '1', writeSymbol: '1', moveDirection: 'R', nextState: 'right' },
+    ],
+    tests: [
+      { input: '1_0_0_0_1', expectedOutcome: 'loops' },
+      { input: '1001', expectedOutput: '1001', expectedOutcome: 'loops' },
     ]
   },
   {
@@ -73,6 +102,7 @@ export const PRESETS: Preset[] = [
     description: 'Performs 3+2=5 in unary. Converts the "+" separator into a "1", then removes one "1" from the end to correct the count.',
     initialTape: '111+11',
     initialState: 'start',
+    haltStates: ['done'],
     rules: [
       { currentState: 'start', readSymbol: '1', writeSymbol: '1', moveDirection: 'R', nextState: 'start' },
       { currentState: 'start', readSymbol: '+', writeSymbol: '1', moveDirection: 'R', nextState: 'go_end' },
@@ -81,6 +111,11 @@ export const PRESETS: Preset[] = [
       { currentState: 'go_end', readSymbol: '_', writeSymbol: '_', moveDirection: 'L', nextState: 'remove_one' },
       
       { currentState: 'remove_one', readSymbol: '1', writeSymbol: '_', moveDirection: 'N', nextState: 'done' },
+    ],
+    tests: [
+      { input: '111+11', expectedOutput: '11111', expectedOutcome: 'halted' },
+      { input: '1+1', expectedOutput: '11', expectedOutcome: 'halted' },
+      { input: '11+', expectedOutput: '11', expectedOutcome: 'halted' },
     ]
   },
   {
@@ -88,6 +123,7 @@ export const PRESETS: Preset[] = [
     description: 'Performs 3-2=1 in unary. Matches 1s from the right side (subtrahend) with 1s from the left side (minuend) until the right side is empty.',
     initialTape: '111-11',
     initialState: 'start',
+    haltStates: ['done'],
     rules: [
       // 1. Move Right to find the operator or verify we are done
       { currentState: 'start', readSymbol: '1', writeSymbol: '1', moveDirection: 'R', nextState: 'start' },
@@ -115,6 +151,255 @@ export const PRESETS: Preset[] = [
       { currentState: 'reset_start', readSymbol: '_', writeSymbol: '_', moveDirection: 'R', nextState: 'reset_start' },
       { currentState: 'reset_start', readSymbol: '-', writeSymbol: '-', moveDirection: 'R', nextState: 'find_b' },
       { currentState: 'reset_start', readSymbol: '1', writeSymbol: '1', moveDirection: 'R', nextState: 'reset_start' },
+    ],
+    tests: [
+      { input: '111-11', expectedOutput: '1', expectedOutcome: 'halted' },
+      { input: '11111-1', expectedOutput: '1111', expectedOutcome: 'halted' },
+      { input: '11-11', expectedOutput: '', expectedOutcome: 'halted' },
+    ]
+  },
+  {
+    name: 'Substring Guesser (NTM)',
+    description: 'Nondeterministically accepts binary strings containing "101". On every 1 it may either keep scanning or guess that the pattern starts here; only a correct guess reaches accept.',
+    initialTape: '0110101',
+    initialState: 'scan',
+    acceptStates: ['accept'],
+    nondeterministic: true,
+    rules: [
+      { currentState: 'scan', readSymbol: '0', writeSymbol: '0', moveDirection: 'R', nextState: 'scan' },
+      { currentState: 'scan', readSymbol: '1', writeSymbol: '1', moveDirection: 'R', nextState: 'scan' },
+      { currentState: 'scan', readSymbol: '1', writeSymbol: '1', moveDirection: 'R', nextState: 'saw1' }, // Guess: pattern starts here
+      { currentState: 'saw1', readSymbol: '0', writeSymbol: '0', moveDirection: 'R', nextState: 'saw10' },
+      { currentState: 'saw10', readSymbol: '1', writeSymbol: '1', moveDirection: 'N', nextState: 'accept' },
+    ],
+    tests: [
+      { input: '0110101', expectedOutcome: 'accepted' },
+      { input: '101', expectedOutcome: 'accepted' },
+      { input: '1001', expectedOutcome: 'rejected' },
+      { input: '', expectedOutcome: 'rejected' },
+    ]
+  },
+  {
+    name: 'Binary Addition (2 Tapes)',
+    description: 'Adds two binary numbers written as A+B on tape 1 and leaves the sum on tape 2. B is moved to tape 2 first, then both heads walk left adding bit by bit with a carry state.',
+    initialTape: '1011+110',
+    initialState: 'start',
+    haltStates: ['done'],
+    tapeCount: 2,
+    rules: [
+      // 1. Skip over A on tape 1
+      { currentState: 'start', readSymbol: '0', writeSymbol: '0', moveDirection: 'R', nextState: 'start', extraTapes: [{ readSymbol: '_', writeSymbol: '_', moveDirection: 'N' }] },
+      { currentState: 'start', readSymbol: '1', writeSymbol: '1', moveDirection: 'R', nextState: 'start', extraTapes: [{ readSymbol: '_', writeSymbol: '_', moveDirection: 'N' }] },
+      { currentState: 'start', readSymbol: '+', writeSymbol: '+', moveDirection: 'R', nextState: 'copy_b', extraTapes: [{ readSymbol: '_', writeSymbol: '_', moveDirection: 'N' }] },
+
+      // 2. Move B onto tape 2, erasing it from tape 1
+      { currentState: 'copy_b', readSymbol: '0', writeSymbol: '_', moveDirection: 'R', nextState: 'copy_b', extraTapes: [{ readSymbol: '_', writeSymbol: '0', moveDirection: 'R' }] },
+      { currentState: 'copy_b', readSymbol: '1', writeSymbol: '_', moveDirection: 'R', nextState: 'copy_b', extraTapes: [{ readSymbol: '_', writeSymbol: '1', moveDirection: 'R' }] },
+      { currentState: 'copy_b', readSymbol: '_', writeSymbol: '_', moveDirection: 'L', nextState: 'rewind', extraTapes: [{ readSymbol: '_', writeSymbol: '_', moveDirection: 'L' }] },
+
+      // 3. Walk tape 1 back to the '+' and erase it; tape 2 waits on B's last bit
+      { currentState: 'rewind', readSymbol: '_', writeSymbol: '_', moveDirection: 'L', nextState: 'rewind', extraTapes: [{ readSymbol: '0', writeSymbol: '0', moveDirection: 'N' }] },
+      { currentState: 'rewind', readSymbol: '_', writeSymbol: '_', moveDirection: 'L', nextState: 'rewind', extraTapes: [{ readSymbol: '1', writeSymbol: '1', moveDirection: 'N' }] },
+      { currentState: 'rewind', readSymbol: '+', writeSymbol: '_', moveDirection: 'L', nextState: 'add', extraTapes: [{ readSymbol: '0', writeSymbol: '0', moveDirection: 'N' }] },
+      { currentState: 'rewind', readSymbol: '+', writeSymbol: '_', moveDirection: 'L', nextState: 'add', extraTapes: [{ readSymbol: '1', writeSymbol: '1', moveDirection: 'N' }] },
+      { currentState: 'rewind', readSymbol: '+', writeSymbol: '_', moveDirection: 'L', nextState: 'add', extraTapes: [{ readSymbol: '_', writeSymbol: '_', moveDirection: 'N' }] },
+
+      // 4. Add bit by bit from the right, writing the sum over B on tape 2
+      { currentState: 'add', readSymbol: '0', writeSymbol: '0', moveDirection: 'L', nextState: 'add', extraTapes: [{ readSymbol: '0', writeSymbol: '0', moveDirection: 'L' }] },
+      { currentState: 'add', readSymbol: '0', writeSymbol: '0', moveDirection: 'L', nextState: 'add', extraTapes: [{ readSymbol: '1', writeSymbol: '1', moveDirection: 'L' }] },
+      { currentState: 'add', readSymbol: '0', writeSymbol: '0', moveDirection: 'L', nextState: 'add', extraTapes: [{ readSymbol: '_', writeSymbol: '0', moveDirection: 'L' }] },
+      { currentState: 'add', readSymbol: '1', writeSymbol: '1', moveDirection: 'L', nextState: 'add', extraTapes: [{ readSymbol: '0', writeSymbol: '1', moveDirection: 'L' }] },
+      { currentState: 'add', readSymbol: '1', writeSymbol: '1', moveDirection: 'L', nextState: 'carry', extraTapes: [{ readSymbol: '1', writeSymbol: '0', moveDirection: 'L' }] },
+      { currentState: 'add', readSymbol: '1', writeSymbol: '1', moveDirection: 'L', nextState: 'add', extraTapes: [{ readSymbol: '_', writeSymbol: '1', moveDirection: 'L' }] },
+      { currentState: 'add', readSymbol: '_', writeSymbol: '_', moveDirection: 'L', nextState: 'add', extraTapes: [{ readSymbol: '0', writeSymbol: '0', moveDirection: 'L' }] },
+      { currentState: 'add', readSymbol: '_', writeSymbol: '_', moveDirection: 'L', nextState: 'add', extraTapes: [{ readSymbol: '1', writeSymbol: '1', moveDirection: 'L' }] },
+      { currentState: 'add', readSymbol: '_', writeSymbol: '_', moveDirection: 'N', nextState: 'done', extraTapes: [{ readSymbol: '_', writeSymbol: '_', moveDirection: 'R' }] },
+
+      // 5. Propagate a carry
+      { currentState: 'carry', readSymbol: '0', writeSymbol: '0', moveDirection: 'L', nextState: 'add', extraTapes: [{ readSymbol: '0', writeSymbol: '1', moveDirection: 'L' }] },
+      { currentState: 'carry', readSymbol: '0', writeSymbol: '0', moveDirection: 'L', nextState: 'carry', extraTapes: [{ readSymbol: '1', writeSymbol: '0', moveDirection: 'L' }] },
+      { currentState: 'carry', readSymbol: '0', writeSymbol: '0', moveDirection: 'L', nextState: 'add', extraTapes: [{ readSymbol: '_', writeSymbol: '1', moveDirection: 'L' }] },
+      { currentState: 'carry', readSymbol: '1', writeSymbol: '1', moveDirection: 'L', nextState: 'carry', extraTapes: [{ readSymbol: '0', writeSymbol: '0', moveDirection: 'L' }] },
+      { currentState: 'carry', readSymbol: '1', writeSymbol: '1', moveDirection: 'L', nextState: 'carry', extraTapes: [{ readSymbol: '1', writeSymbol: '1', moveDirection: 'L' }] },
+      { currentState: 'carry', readSymbol: '1', writeSymbol: '1', moveDirection: 'L', nextState: 'carry', extraTapes: [{ readSymbol: '_', writeSymbol: '0', moveDirection: 'L' }] },
+      { currentState: 'carry', readSymbol: '_', writeSymbol: '_', moveDirection: 'L', nextState: 'add', extraTapes: [{ readSymbol: '0', writeSymbol: '1', moveDirection: 'L' }] },
+      { currentState: 'carry', readSymbol: '_', writeSymbol: '_', moveDirection: 'L', nextState: 'carry', extraTapes: [{ readSymbol: '1', writeSymbol: '0', moveDirection: 'L' }] },
+      { currentState: 'carry', readSymbol: '_', writeSymbol: '_', moveDirection: 'N', nextState: 'done', extraTapes: [{ readSymbol: '_', writeSymbol: '1', moveDirection: 'N' }] }, // Final carry becomes the leading 1
+    ],
+    tests: [
+      { input: '1011+110', expectedOutput: '10001', outputTape: 1, expectedOutcome: 'halted' },
+      { input: '111+1', expectedOutput: '1000', outputTape: 1, expectedOutcome: 'halted' },
+      { input: '1+1', expectedOutput: '10', outputTape: 1, expectedOutcome: 'halted' },
+    ]
+  },
+  {
+    name: 'Busy Beaver (2 States)',
+    description: 'The 2-state, 2-symbol busy beaver champion (1RB1LB_1LA1RH). Started on a blank tape it halts after 6 steps with 4 ones, the most any 2-state machine can manage.',
+    initialTape: '',
+    initialState: 'A',
+    haltStates: ['H'],
+    rules: [
+      { currentState: 'A', readSymbol: '_', writeSymbol: '1', moveDirection: 'R', nextState: 'B' },
+      { currentState: 'A', readSymbol: '1', writeSymbol: '1', moveDirection: 'L', nextState: 'B' },
+      { currentState: 'B', readSymbol: '_', writeSymbol: '1', moveDirection: 'L', nextState: 'A' },
+      { currentState: 'B', readSymbol: '1', writeSymbol: '1', moveDirection: 'R', nextState: 'H' },
+    ],
+    tests: [
+      { input: '', expectedOutput: '1111', expectedOutcome: 'halted' },
+    ]
+  },
+  {
+    name: 'Busy Beaver (3 States)',
+    description: 'The 3-state, 2-symbol step champion (1RB1RH_1LB0RC_1LC1LA): 21 steps from a blank tape, leaving 5 ones. A different 3-state machine leaves 6 ones, the most possible, in fewer steps.',
+    initialTape: '',
+    initialState: 'A',
+    haltStates: ['H'],
+    rules: [
+      { currentState: 'A', readSymbol: '_', writeSymbol: '1', moveDirection: 'R', nextState: 'B' },
+      { currentState: 'A', readSymbol: '1', writeSymbol: '1', moveDirection: 'R', nextState: 'H' },
+      { currentState: 'B', readSymbol: '_', writeSymbol: '1', moveDirection: 'L', nextState: 'B' },
+      { currentState: 'B', readSymbol: '1', writeSymbol: '_', moveDirection: 'R', nextState: 'C' },
+      { currentState: 'C', readSymbol: '_', writeSymbol: '1', moveDirection: 'L', nextState: 'C' },
+      { currentState: 'C', readSymbol: '1', writeSymbol: '1', moveDirection: 'L', nextState: 'A' },
+    ],
+    tests: [
+      { input: '', expectedOutput: '11111', expectedOutcome: 'halted' },
+    ]
+  },
+  {
+    name: 'Busy Beaver (4 States)',
+    description: 'The 4-state, 2-symbol busy beaver champion (1RB1LB_1LA0LC_1RH1LD_1RD0RA), found by Allen Brady. It halts after 107 steps with 13 ones, the record for both steps and ones.',
+    initialTape: '',
+    initialState: 'A',
+    haltStates: ['H'],
+    rules: [
+      { currentState: 'A', readSymbol: '_', writeSymbol: '1', moveDirection: 'R', nextState: 'B' },
+      { currentState: 'A', readSymbol: '1', writeSymbol: '1', moveDirection: 'L', nextState: 'B' },
+      { currentState: 'B', readSymbol: '_', writeSymbol: '1', moveDirection: 'L', nextState: 'A' },
+      { currentState: 'B', readSymbol: '1', writeSymbol: '_', moveDirection: 'L', nextState: 'C' },
+      { currentState: 'C', readSymbol: '_', writeSymbol: '1', moveDirection: 'R', nextState: 'H' },
+      { currentState: 'C', readSymbol: '1', writeSymbol: '1', moveDirection: 'L', nextState: 'D' },
+      { currentState: 'D', readSymbol: '_', writeSymbol: '1', moveDirection: 'R', nextState: 'D' },
+      { currentState: 'D', readSymbol: '1', writeSymbol: '_', moveDirection: 'R', nextState: 'A' },
+    ],
+    tests: [
+      { input: '', expectedOutput: '1_111111111111', expectedOutcome: 'halted' },
+    ]
+  },
+  {
+    name: 'Busy Beaver (2 States, 3 Symbols)',
+    description: 'The 2-state, 3-symbol busy beaver champion (1RB2LB1RH_2LA2RB1LB): 38 steps from a blank tape, leaving 9 non-blank symbols.',
+    initialTape: '',
+    initialState: 'A',
+    haltStates: ['H'],
+    rules: [
+      { currentState: 'A', readSymbol: '_', writeSymbol: '1', moveDirection: 'R', nextState: 'B' },
+      { currentState: 'A', readSymbol: '1', writeSymbol: '2', moveDirection: 'L', nextState: 'B' },
+      { currentState: 'A', readSymbol: '2', writeSymbol: '1', moveDirection: 'R', nextState: 'H' },
+      { currentState: 'B', readSymbol: '_', writeSymbol: '2', moveDirection: 'L', nextState: 'A' },
+      { currentState: 'B', readSymbol: '1', writeSymbol: '2', moveDirection: 'R', nextState: 'B' },
+      { currentState: 'B', readSymbol: '2', writeSymbol: '1', moveDirection: 'L', nextState: 'B' },
+    ],
+    tests: [
+      { input: '', expectedOutput: '222222212', expectedOutcome: 'halted' },
+    ]
+  },
+  {
+    name: 'Universal Turing Machine',
+    description: 'Runs any single-tape machine written on its tape as a standard description (D A… for states, D C… for symbols, one instruction per ;), followed by # and the input cells. Tape 2 holds the simulated tape, tape 3 the simulated state and tape 4 the width of a cell. It starts out running Binary Increment on 1011; use Run via UTM to encode another machine.',
+    initialTape: 'DADCDCRDA;DADCCDCCRDA;DADDLDAA;DAADCDCCLDAAA;DAADCCDCLDAA;DAADDCCRDAAA;#ECCDCADCCDCC',
+    initialState: 'start',
+    haltStates: ['halt'],
+    tapeCount: 4,
+    rules: [
+      // 1. Skip the description to the # before the input
+      { currentState: 'start', readSymbol: '[;ACDLNR]', writeSymbol: '*', moveDirection: 'R', nextState: 'start', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'start', readSymbol: '#', writeSymbol: '#', moveDirection: 'R', nextState: 'copy_first', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+
+      // 2. Copy the input cells to tape 2; the first one also sets the cell width on tape 4
+      { currentState: 'copy_first', readSymbol: 'D', writeSymbol: 'D', moveDirection: 'R', nextState: 'copy_width', extraTapes: [{ readSymbol: '_', writeSymbol: 'D', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'copy_first', readSymbol: 'E', writeSymbol: 'E', moveDirection: 'R', nextState: 'copy_width', extraTapes: [{ readSymbol: '_', writeSymbol: 'E', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'copy_width', readSymbol: 'C', writeSymbol: 'C', moveDirection: 'R', nextState: 'copy_width', extraTapes: [{ readSymbol: '_', writeSymbol: 'C', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '_', writeSymbol: 'C', moveDirection: 'R' }] },
+      { currentState: 'copy_width', readSymbol: 'A', writeSymbol: 'A', moveDirection: 'R', nextState: 'copy_width', extraTapes: [{ readSymbol: '_', writeSymbol: 'A', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '_', writeSymbol: 'C', moveDirection: 'R' }] },
+      { currentState: 'copy_width', readSymbol: 'D', writeSymbol: 'D', moveDirection: 'R', nextState: 'copy_input', extraTapes: [{ readSymbol: '_', writeSymbol: 'D', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'copy_width', readSymbol: 'E', writeSymbol: 'E', moveDirection: 'R', nextState: 'copy_input', extraTapes: [{ readSymbol: '_', writeSymbol: 'E', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'copy_width', readSymbol: '_', writeSymbol: '_', moveDirection: 'L', nextState: 'width_back', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '_', writeSymbol: '_', moveDirection: 'L' }] },
+      { currentState: 'copy_input', readSymbol: 'C', writeSymbol: 'C', moveDirection: 'R', nextState: 'copy_input', extraTapes: [{ readSymbol: '_', writeSymbol: 'C', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'copy_input', readSymbol: 'A', writeSymbol: 'A', moveDirection: 'R', nextState: 'copy_input', extraTapes: [{ readSymbol: '_', writeSymbol: 'A', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'copy_input', readSymbol: 'D', writeSymbol: 'D', moveDirection: 'R', nextState: 'copy_input', extraTapes: [{ readSymbol: '_', writeSymbol: 'D', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'copy_input', readSymbol: 'E', writeSymbol: 'E', moveDirection: 'R', nextState: 'copy_input', extraTapes: [{ readSymbol: '_', writeSymbol: 'E', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'copy_input', readSymbol: '_', writeSymbol: '_', moveDirection: 'L', nextState: 'width_back', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '_', writeSymbol: '_', moveDirection: 'L' }] },
+      { currentState: 'width_back', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'width_back', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: 'C', writeSymbol: 'C', moveDirection: 'L' }] },
+      { currentState: 'width_back', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'find_head', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '_', writeSymbol: '_', moveDirection: 'R' }] },
+
+      // 3. Put tape 2's head on the cell marked E and start in q1 on tape 3
+      { currentState: 'find_head', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'find_head', extraTapes: [{ readSymbol: '[ACD_]', writeSymbol: '*', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'find_head', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'rewind', extraTapes: [{ readSymbol: 'E', writeSymbol: 'D', moveDirection: 'N' }, { readSymbol: '_', writeSymbol: 'A', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'rewind', readSymbol: '[#;ACDELNR]', writeSymbol: '*', moveDirection: 'L', nextState: 'rewind', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'rewind', readSymbol: '_', writeSymbol: '_', moveDirection: 'R', nextState: 'find', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+
+      // 4. Find the instruction for the current state: compare its D A... with tape 3
+      { currentState: 'find', readSymbol: '#', writeSymbol: '#', moveDirection: 'N', nextState: 'halt', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'find', readSymbol: 'D', writeSymbol: 'D', moveDirection: 'R', nextState: 'match_state', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'match_state', readSymbol: 'A', writeSymbol: 'A', moveDirection: 'R', nextState: 'match_state', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: 'A', writeSymbol: 'A', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'match_state', readSymbol: 'D', writeSymbol: 'D', moveDirection: 'R', nextState: 'match_symbol', extraTapes: [{ readSymbol: 'D', writeSymbol: 'D', moveDirection: 'R' }, { readSymbol: '_', writeSymbol: '_', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'match_state', readSymbol: 'A', writeSymbol: 'A', moveDirection: 'N', nextState: 'skip', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '_', writeSymbol: '_', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'match_state', readSymbol: 'D', writeSymbol: 'D', moveDirection: 'N', nextState: 'skip', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: 'A', writeSymbol: 'A', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'skip', readSymbol: '[ACDLNR]', writeSymbol: '*', moveDirection: 'R', nextState: 'skip', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'skip', readSymbol: ';', writeSymbol: ';', moveDirection: 'R', nextState: 'state_back', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'state_back', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'state_back', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: 'A', writeSymbol: 'A', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'state_back', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'find', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '_', writeSymbol: '_', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+
+      // 5. ...then its D C... with the cell under tape 2's head
+      { currentState: 'match_symbol', readSymbol: 'C', writeSymbol: 'C', moveDirection: 'R', nextState: 'match_symbol', extraTapes: [{ readSymbol: 'C', writeSymbol: 'C', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'match_symbol', readSymbol: 'D', writeSymbol: 'D', moveDirection: 'N', nextState: 'matched', extraTapes: [{ readSymbol: '[AD_]', writeSymbol: '*', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'match_symbol', readSymbol: 'C', writeSymbol: 'C', moveDirection: 'N', nextState: 'mismatched', extraTapes: [{ readSymbol: '[AD_]', writeSymbol: '*', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'match_symbol', readSymbol: 'D', writeSymbol: 'D', moveDirection: 'N', nextState: 'mismatched', extraTapes: [{ readSymbol: 'C', writeSymbol: 'C', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'mismatched', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'mismatched', extraTapes: [{ readSymbol: '[AC]', writeSymbol: '*', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'mismatched', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'skip', extraTapes: [{ readSymbol: 'D', writeSymbol: 'D', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'matched', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'matched', extraTapes: [{ readSymbol: '[AC]', writeSymbol: '*', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'matched', readSymbol: 'D', writeSymbol: 'D', moveDirection: 'R', nextState: 'write', extraTapes: [{ readSymbol: 'D', writeSymbol: 'D', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+
+      // 6. Overwrite the cell with the symbol to write, padding it with A
+      { currentState: 'write', readSymbol: 'C', writeSymbol: 'C', moveDirection: 'R', nextState: 'write', extraTapes: [{ readSymbol: '[AC]', writeSymbol: 'C', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'write', readSymbol: '[LNR]', writeSymbol: '*', moveDirection: 'N', nextState: 'write', extraTapes: [{ readSymbol: '[AC]', writeSymbol: 'A', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'write', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'written', extraTapes: [{ readSymbol: '[D_]', writeSymbol: '*', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'written', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'written', extraTapes: [{ readSymbol: '[AC]', writeSymbol: '*', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'written', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'move', extraTapes: [{ readSymbol: 'D', writeSymbol: 'D', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+
+      // 7. Move to the neighbouring cell, adding a blank cell at either end of tape 2
+      { currentState: 'move', readSymbol: 'N', writeSymbol: 'N', moveDirection: 'R', nextState: 'erase', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'move', readSymbol: 'R', writeSymbol: 'R', moveDirection: 'R', nextState: 'move_right', extraTapes: [{ readSymbol: 'D', writeSymbol: 'D', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'move', readSymbol: 'L', writeSymbol: 'L', moveDirection: 'R', nextState: 'move_left', extraTapes: [{ readSymbol: 'D', writeSymbol: 'D', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'move_right', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'move_right', extraTapes: [{ readSymbol: '[AC]', writeSymbol: '*', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'move_right', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'erase', extraTapes: [{ readSymbol: 'D', writeSymbol: 'D', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'move_right', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'extend_right', extraTapes: [{ readSymbol: '_', writeSymbol: 'D', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'extend_right', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'extend_right', extraTapes: [{ readSymbol: '_', writeSymbol: 'A', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: 'C', writeSymbol: 'C', moveDirection: 'R' }] },
+      { currentState: 'extend_right', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'extended_right', extraTapes: [{ readSymbol: '_', writeSymbol: '_', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '_', writeSymbol: '_', moveDirection: 'L' }] },
+      { currentState: 'extended_right', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'extended_right', extraTapes: [{ readSymbol: 'A', writeSymbol: 'A', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'extended_right', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'width_return', extraTapes: [{ readSymbol: 'D', writeSymbol: 'D', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'move_left', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'move_left', extraTapes: [{ readSymbol: '[AC]', writeSymbol: '*', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'move_left', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'erase', extraTapes: [{ readSymbol: 'D', writeSymbol: 'D', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'move_left', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'extend_left', extraTapes: [{ readSymbol: '_', writeSymbol: '_', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'extend_left', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'extend_left', extraTapes: [{ readSymbol: '_', writeSymbol: 'A', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: 'C', writeSymbol: 'C', moveDirection: 'R' }] },
+      { currentState: 'extend_left', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'width_return', extraTapes: [{ readSymbol: '_', writeSymbol: 'D', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '_', writeSymbol: '_', moveDirection: 'L' }] },
+      { currentState: 'width_return', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'width_return', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: 'C', writeSymbol: 'C', moveDirection: 'L' }] },
+      { currentState: 'width_return', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'erase', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '_', writeSymbol: '_', moveDirection: 'R' }] },
+
+      // 8. Replace the state on tape 3 with the next state, then go back to the first instruction
+      { currentState: 'erase', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'clear_state', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'clear_state', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'clear_state', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: 'A', writeSymbol: '_', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'clear_state', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'next_state', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '_', writeSymbol: '_', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'next_state', readSymbol: 'D', writeSymbol: 'D', moveDirection: 'R', nextState: 'copy_state', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'copy_state', readSymbol: 'A', writeSymbol: 'A', moveDirection: 'R', nextState: 'copy_state', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '_', writeSymbol: 'A', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'copy_state', readSymbol: ';', writeSymbol: ';', moveDirection: 'L', nextState: 'state_rewind', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '_', writeSymbol: '_', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'state_rewind', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'state_rewind', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: 'A', writeSymbol: 'A', moveDirection: 'L' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { currentState: 'state_rewind', readSymbol: '*', writeSymbol: '*', moveDirection: 'N', nextState: 'rewind', extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }, { readSymbol: '_', writeSymbol: '_', moveDirection: 'R' }, { readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+    ],
+    tests: [
+      { input: 'DADCDCRDA;DADCCDCCRDA;DADDLDAA;DAADCDCCLDAAA;DAADCCDCLDAA;DAADDCCRDAAA;#ECCDCADCCDCC', expectedOutput: 'DCCDCCDCADCADAA', outputTape: 1, expectedOutcome: 'halted' },
+      { input: 'DADCDCRDA;DADCCDCCRDA;DADDLDAA;DAADCDCCLDAAA;DAADCCDCLDAA;DAADDCCRDAAA;#ECCDCCDCC', expectedOutput: 'DCCDCADCADCADAA', outputTape: 1, expectedOutcome: 'halted' },
+      { input: 'DADCDCRDA;DADCCDCCRDA;DADDLDAA;DAADCDCCLDAAA;DAADCCDCLDAA;DAADDCCRDAAA;#EAA', expectedOutput: 'DCCDAA', outputTape: 1, expectedOutcome: 'halted' },
     ]
   }
-];
\ No newline at end of file
+];
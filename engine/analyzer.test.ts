@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { TransitionRule } from '../types';
+import { analyzeMachine, groupDiagnosticsByRule, worstSeverity } from './analyzer';
+
+const rule = (currentState: string, readSymbol: string, nextState: string, writeSymbol = readSymbol): TransitionRule =>
+  ({ currentState, readSymbol, writeSymbol, moveDirection: 'R', nextState });
+
+const codes = (rules: TransitionRule[], extra: Partial<Parameters<typeof analyzeMachine>[0]> = {}) =>
+  analyzeMachine({ rules, initialTape: '0', initialState: 'start', haltStates: ['done'], ...extra }).map(d => d.code);
+
+describe('analyzeMachine', () => {
+  it.each(PRESETS.map(p => [p.name, p] as const))('finds no errors or warnings in %s', (_, preset) => {
+    const diagnostics = analyzeMachine(preset);
+
+    expect(diagnostics.filter(d => d.severity !== 'info')).toEqual([]);
+  });
+
+  it('flags duplicate (state, symbol) pairs as conflicts', () => {
+    const diagnostics = analyzeMachine({
+      rules: [rule('start', '0', 'done'), rule('start', '1', 'done'), rule('start', '0', 'start')],
+      initialTape: '0',
+      initialState: 'start',
+      haltStates: ['done'],
+    });
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ code: 'duplicate-rule', severity: 'error', ruleIndices: [0, 2] });
+  });
+
+  it('reports duplicates as branch points in nondeterministic mode', () => {
+    const diagnostics = analyzeMachine({
+      rules: [rule('start', '0', 'done'), rule('start', '0', 'start')],
+      initialTape: '0',
+      initialState: 'start',
+      haltStates: ['done'],
+      nondeterministic: true,
+    });
+
+    expect(diagnostics.map(d => d.severity)).toEqual(['info']);
+  });
+
+  it('distinguishes tuples on multi-tape machines', () => {
+    const rules: TransitionRule[] = [
+      { ...rule('start', '0', 'done'), extraTapes: [{ readSymbol: '0', writeSymbol: '0', moveDirection: 'N' }] },
+      { ...rule('start', '0', 'done'), extraTapes: [{ readSymbol: '1', writeSymbol: '1', moveDirection: 'N' }] },
+    ];
+
+    expect(codes(rules, { tapeCount: 2 })).toEqual([]);
+    expect(codes(rules, { tapeCount: 1 })).toEqual(['duplicate-rule']);
+  });
+
+  it('flags states that are entered but have no rules', () => {
+    expect(codes([rule('start', '0', 'typo')])).toEqual(['dead-end-state']);
+  });
+
+  it('does not flag final states as dead ends', () => {
+    expect(codes([rule('start', '0', 'yes')], { acceptStates: ['yes'] })).toEqual([]);
+  });
+
+  it('flags an initial state without rules', () => {
+    const diagnostics = analyzeMachine({ rules: [], initialTape: '', initialState: 'start' });
+
+    expect(diagnostics.map(d => d.code)).toEqual(['dead-end-state']);
+    expect(diagnostics[0].ruleIndices).toEqual([]);
+  });
+
+  it('flags states unreachable from the initial state', () => {
+    const diagnostics = analyzeMachine({
+      rules: [rule('start', '0', 'done'), rule('orphan', '0', 'orphan'), rule('orphan', '1', 'done')],
+      initialTape: '0',
+      initialState: 'start',
+      haltStates: ['done'],
+    });
+
+    expect(diagnostics.map(d => d.code)).toEqual(['unreachable-state']);
+    expect(diagnostics[0].ruleIndices).toEqual([1, 2]);
+  });
+
+  it('flags initial tape symbols that no rule reads', () => {
+    expect(codes([rule('start', '0', 'done')], { initialTape: '0x_0y' })).toEqual(['unhandled-symbol', 'unhandled-symbol']);
+  });
+
+  it('flags symbols that are not a single character', () => {
+    expect(codes([rule('start', '0', 'done', '01'), rule('start', '', 'done', '1')])).toEqual(['invalid-symbol', 'invalid-symbol']);
+  });
+
+  it('accepts * and classes as reads and * as a write, but not a class as a write or an empty class', () => {
+    expect(codes([rule('start', '*', 'done', '*'), rule('start', '[01]', 'done', '*')])).toEqual([]);
+    expect(codes([rule('start', '[01]', 'done')])).toEqual(['invalid-symbol']);
+    expect(codes([rule('start', '[9-0]', 'done', '1')])).toEqual(['invalid-symbol', 'unhandled-symbol']);
+  });
+
+  it('treats classes listing the same symbols as the same pattern', () => {
+    expect(codes([rule('start', '[01]', 'done', '*'), rule('start', '[10]', 'done', '*')])).toEqual(['duplicate-rule']);
+  });
+
+  it('counts initial tape symbols matched by a pattern as handled', () => {
+    expect(codes([rule('start', '[0x]', 'done', '*'), rule('start', '*', 'done', '*')], { initialTape: '0x_0y' })).toEqual([]);
+  });
+
+  it('flags * on the initial tape or in tests, where rules would read it as the wildcard', () => {
+    const tests = [{ input: '0', expectedOutput: '0' }, { input: '0*', expectedOutput: '*' }];
+
+    expect(codes([rule('start', '0', 'done')], { initialTape: '0*' })).toEqual(['reserved-symbol']);
+    expect(codes([rule('start', '0', 'done')], { tests })).toEqual(['reserved-symbol', 'reserved-symbol']);
+  });
+});
+
+describe('helpers', () => {
+  it('groups diagnostics by rule and ranks severities', () => {
+    const diagnostics = analyzeMachine({
+      rules: [rule('start', '0', 'typo'), rule('start', '0', 'done')],
+      initialTape: '0',
+      initialState: 'start',
+      haltStates: ['done'],
+    });
+    const byRule = groupDiagnosticsByRule(diagnostics);
+
+    expect(byRule.get(0)?.map(d => d.code)).toEqual(['duplicate-rule', 'dead-end-state']);
+    expect(byRule.get(1)?.map(d => d.code)).toEqual(['duplicate-rule']);
+    expect(worstSeverity(byRule.get(0)!)).toBe('error');
+    expect(worstSeverity([])).toBeNull();
+  });
+});
@@ -0,0 +1,182 @@
+import { TestCase, TransitionRule } from '../types';
+import { ANY_SYMBOL, EMPTY_SYMBOL } from '../constants';
+import { MachineDefinition, getClassMembers, getRuleTransitions, isFinalState, isSymbolClass, symbolMatches } from './simulator';
+
+// Static checks over a transition table, run before the machine is started.
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | 'duplicate-rule'      // Several rules share a (state, read) pair
+  | 'dead-end-state'      // A state is entered but has no outgoing rules and is not final
+  | 'unreachable-state'   // A state has rules but can never be entered from the initial state
+  | 'unhandled-symbol'    // A symbol on the initial tape is never read by any rule
+  | 'invalid-symbol'      // A read or write symbol is not one character, `*` or (read only) a class
+  | 'reserved-symbol'     // The initial tape or a test puts the wildcard `*` on the tape as a symbol
+  | 'invalid-call';       // A call names a missing machine, recurses or needs more tapes (found when flattening)
+
+export interface Diagnostic {
+  code: DiagnosticCode;
+  severity: DiagnosticSeverity;
+  message: string;
+  // Rules the diagnostic points at, for inline display in the table
+  ruleIndices: number[];
+}
+
+export type AnalysisInput = MachineDefinition & { nondeterministic?: boolean; tests?: TestCase[] };
+
+const formatPair = (state: string, symbols: string[]) => `(${state}, ${symbols.join(', ')})`;
+
+const formatRules = (indices: number[]) => indices.map(i => `#${i + 1}`).join(', ');
+
+const checkSymbols = (rules: TransitionRule[], tapeCount: number): Diagnostic[] => {
+  const diagnostics: Diagnostic[] = [];
+  rules.forEach((rule, index) => {
+    getRuleTransitions(rule, tapeCount).forEach((t, tape) => {
+      const where = tapeCount > 1 ? ` on tape ${tape + 1}` : '';
+      const fail = (message: string) => diagnostics.push({ code: 'invalid-symbol', severity: 'error', message, ruleIndices: [index] });
+      if (isSymbolClass(t.readSymbol)) {
+        if (getClassMembers(t.readSymbol).length === 0) fail(`Rule #${index + 1} reads the class "${t.readSymbol}"${where}, which matches no symbol.`);
+      } else if ([...t.readSymbol].length !== 1) {
+        fail(`Rule #${index + 1} reads "${t.readSymbol}"${where}; expected one character, * or a class such as [01].`);
+      }
+      if ([...t.writeSymbol].length !== 1) {
+        fail(`Rule #${index + 1} writes "${t.writeSymbol}"${where}; tape cells hold exactly one character (* keeps the symbol read).`);
+      }
+    });
+  });
+  return diagnostics;
+};
+
+// Classes listing the same symbols in another order are the same pattern
+const normalizePattern = (symbol: string) => (isSymbolClass(symbol) ? `[${getClassMembers(symbol).sort().join('')}]` : symbol);
+
+const checkDuplicates = (rules: TransitionRule[], tapeCount: number, nondeterministic: boolean): Diagnostic[] => {
+  const groups = new Map<string, number[]>();
+  rules.forEach((rule, index) => {
+    const key = JSON.stringify([rule.currentState, getRuleTransitions(rule, tapeCount).map(t => normalizePattern(t.readSymbol))]);
+    groups.set(key, [...(groups.get(key) ?? []), index]);
+  });
+
+  const diagnostics: Diagnostic[] = [];
+  groups.forEach((indices, key) => {
+    if (indices.length < 2) return;
+    const [state, symbols] = JSON.parse(key) as [string, string[]];
+    diagnostics.push(nondeterministic
+      ? {
+          code: 'duplicate-rule',
+          severity: 'info',
+          message: `Rules ${formatRules(indices)} branch on ${formatPair(state, symbols)}.`,
+          ruleIndices: indices,
+        }
+      : {
+          code: 'duplicate-rule',
+          severity: 'error',
+          message: `Rules ${formatRules(indices)} all handle ${formatPair(state, symbols)}; only #${indices[0] + 1} can ever fire.`,
+          ruleIndices: indices,
+        });
+  });
+  return diagnostics;
+};
+
+const checkStates = (definition: AnalysisInput): Diagnostic[] => {
+  const { rules, initialState } = definition;
+  const outgoing = new Map<string, number[]>();
+  rules.forEach((rule, index) => outgoing.set(rule.currentState, [...(outgoing.get(rule.currentState) ?? []), index]));
+
+  const diagnostics: Diagnostic[] = [];
+
+  // States that are entered (or started in) but have nowhere to go
+  const entered = new Map<string, number[]>([[initialState, []]]);
+  rules.forEach((rule, index) => entered.set(rule.nextState, [...(entered.get(rule.nextState) ?? []), index]));
+  entered.forEach((indices, state) => {
+    if (outgoing.has(state) || isFinalState(definition, state)) return;
+    diagnostics.push({
+      code: 'dead-end-state',
+      severity: 'warning',
+      message: state === initialState && indices.length === 0
+        ? `Initial state "${state}" has no rules.`
+        : `State "${state}" is entered by ${formatRules(indices)} but has no rules and is not a final state; the machine gets stuck there.`,
+      ruleIndices: indices,
+    });
+  });
+
+  // Breadth-first search over the state graph from the initial state
+  const reachable = new Set([initialState]);
+  const queue = [initialState];
+  while (queue.length > 0) {
+    const state = queue.shift()!;
+    for (const index of outgoing.get(state) ?? []) {
+      const next = rules[index].nextState;
+      if (!reachable.has(next)) {
+        reachable.add(next);
+        queue.push(next);
+      }
+    }
+  }
+  outgoing.forEach((indices, state) => {
+    if (reachable.has(state)) return;
+    diagnostics.push({
+      code: 'unreachable-state',
+      severity: 'warning',
+      message: `State "${state}" can never be reached from "${initialState}", so rules ${formatRules(indices)} never fire.`,
+      ruleIndices: indices,
+    });
+  });
+
+  return diagnostics;
+};
+
+const checkInitialTape = (definition: AnalysisInput): Diagnostic[] => {
+  const unhandled = [...new Set(definition.initialTape)]
+    .filter(s => s !== EMPTY_SYMBOL && s !== ANY_SYMBOL && !definition.rules.some(r => symbolMatches(r.readSymbol, s)));
+  return unhandled.map(symbol => ({
+    code: 'unhandled-symbol' as const,
+    severity: 'warning' as const,
+    message: `Symbol "${symbol}" appears on the initial tape but no rule reads it.`,
+    ruleIndices: [],
+  }));
+};
+
+// Rules read `*` as any symbol, so a literal `*` on the tape could only ever be matched by wildcards
+const checkReservedSymbol = (definition: AnalysisInput): Diagnostic[] => {
+  const tapes = [
+    { where: 'The initial tape', tape: definition.initialTape },
+    ...(definition.tests ?? []).flatMap((test, i) => [
+      { where: `Test ${i + 1}'s input`, tape: test.input },
+      { where: `Test ${i + 1}'s expected output`, tape: test.expectedOutput ?? '' },
+    ]),
+  ];
+  return tapes.filter(({ tape }) => tape.includes(ANY_SYMBOL)).map(({ where }) => ({
+    code: 'reserved-symbol' as const,
+    severity: 'error' as const,
+    message: `${where} holds "${ANY_SYMBOL}", which rules read as the wildcard rather than as a symbol; use another character.`,
+    ruleIndices: [],
+  }));
+};
+
+export const analyzeMachine = (definition: AnalysisInput): Diagnostic[] => {
+  const tapeCount = Math.max(1, definition.tapeCount ?? 1);
+  return [
+    ...checkSymbols(definition.rules, tapeCount),
+    ...checkDuplicates(definition.rules, tapeCount, definition.nondeterministic ?? false),
+    ...checkStates(definition),
+    ...checkInitialTape(definition),
+    ...checkReservedSymbol(definition),
+  ];
+};
+
+// Diagnostics indexed by the rules they point at
+export const groupDiagnosticsByRule = (diagnostics: Diagnostic[]): Map<number, Diagnostic[]> => {
+  const byRule = new Map<number, Diagnostic[]>();
+  diagnostics.forEach(d => d.ruleIndices.forEach(i => byRule.set(i, [...(byRule.get(i) ?? []), d])));
+  return byRule;
+};
+
+const SEVERITY_RANK: Record<DiagnosticSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+export const worstSeverity = (diagnostics: Diagnostic[]): DiagnosticSeverity | null =>
+  diagnostics.reduce<DiagnosticSeverity | null>(
+    (worst, d) => (worst === null || SEVERITY_RANK[d.severity] < SEVERITY_RANK[worst] ? d.severity : worst),
+    null
+  );
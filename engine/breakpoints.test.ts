@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { MachineState } from '../types';
+import { Breakpoint, BreakpointCondition, describeBreakpoint, findTriggeredBreakpoints, remapRuleBreakpoints } from './breakpoints';
+import { loadMachine, stepMachine } from './simulator';
+
+const increment = PRESETS.find(p => p.name === 'Binary Increment')!;
+
+const bp = (condition: BreakpointCondition, id = 1): Breakpoint => ({ id, enabled: true, ...condition });
+
+// Runs Binary Increment on its preset tape until a breakpoint triggers, returning that step
+const pauseStep = (breakpoints: Breakpoint[]): number | null => {
+  let machine: MachineState = { ...loadMachine(increment), status: 'RUNNING' };
+  while (machine.status === 'RUNNING') {
+    const next = stepMachine(machine, increment.rules, { finalStates: increment }).machine;
+    if (findTriggeredBreakpoints(breakpoints, machine, next, increment.rules).length > 0) return next.stepCount;
+    machine = next;
+  }
+  return null;
+};
+
+describe('findTriggeredBreakpoints', () => {
+  it('pauses on entering a state', () => {
+    expect(pauseStep([bp({ kind: 'state', state: 'add' })])).toBe(5);
+  });
+
+  it('pauses before a rule fires', () => {
+    const carryOne = increment.rules.findIndex(r => r.currentState === 'add' && r.readSymbol === '1');
+
+    expect(pauseStep([bp({ kind: 'rule', ruleIndex: carryOne })])).toBe(5);
+  });
+
+  it('pauses on state and symbol, step count and head position', () => {
+    expect(pauseStep([bp({ kind: 'symbol', state: 'start', symbol: '1', tape: 0 })])).toBe(2);
+    expect(pauseStep([bp({ kind: 'step', step: 3 })])).toBe(3);
+    expect(pauseStep([bp({ kind: 'head', position: 2, tape: 0 })])).toBe(2);
+  });
+
+  it('fires tape conditions only when they become true', () => {
+    // 1011 + 1: cell 3 turns 0 on the first carry and the tape reads 1000 after the second
+    expect(pauseStep([bp({ kind: 'cell', position: 3, symbol: '0', tape: 0 })])).toBe(6);
+    expect(pauseStep([bp({ kind: 'cell', position: 0, symbol: '1', tape: 0 })])).toBeNull();
+    expect(pauseStep([bp({ kind: 'tape', text: '1000', tape: 0 })])).toBe(7);
+  });
+
+  it('ignores disabled breakpoints', () => {
+    expect(pauseStep([{ ...bp({ kind: 'step', step: 3 }), enabled: false }])).toBeNull();
+  });
+});
+
+describe('remapRuleBreakpoints', () => {
+  const rules = increment.rules;
+
+  it('follows rules that move and drops rules that disappear', () => {
+    const breakpoints = [bp({ kind: 'rule', ruleIndex: 1 }, 1), bp({ kind: 'rule', ruleIndex: 2 }, 2), bp({ kind: 'state', state: 'x' }, 3)];
+    const remapped = remapRuleBreakpoints(breakpoints, rules, [rules[0], ...rules.slice(2)]);
+
+    expect(remapped).toEqual([bp({ kind: 'rule', ruleIndex: 1 }, 2), bp({ kind: 'state', state: 'x' }, 3)]);
+  });
+
+  it('keeps the breakpoint on a rule edited in place', () => {
+    const edited = rules.map((r, i) => (i === 1 ? { ...r, writeSymbol: '0' } : r));
+
+    expect(remapRuleBreakpoints([bp({ kind: 'rule', ruleIndex: 1 })], rules, edited)).toEqual([bp({ kind: 'rule', ruleIndex: 1 })]);
+  });
+});
+
+describe('describeBreakpoint', () => {
+  it('names the tape only on multi-tape conditions', () => {
+    expect(describeBreakpoint({ kind: 'head', position: 4, tape: 0 })).toBe('Head at cell 4');
+    expect(describeBreakpoint({ kind: 'head', position: 4, tape: 1 })).toBe('Head on T2 at cell 4');
+  });
+});
@@ -0,0 +1,81 @@
+import { MachineConfiguration, TransitionRule } from '../types';
+import { findRuleIndex, getTapeString, readSymbolAt, readSymbols } from './simulator';
+
+// Breakpoints are checked against the configuration reached after each step of a run, so
+// resuming from a pause never re-triggers on the configuration it paused in. Each one
+// describes a configuration that is about to act: a rule breakpoint fires when that rule
+// is the next to apply, not after it has applied.
+
+interface BreakpointBase {
+  id: number;
+  enabled: boolean;
+}
+
+export type BreakpointCondition =
+  | { kind: 'state'; state: string }
+  | { kind: 'rule'; ruleIndex: number }
+  | { kind: 'symbol'; state: string; symbol: string; tape: number }
+  | { kind: 'step'; step: number }
+  | { kind: 'head'; tape: number; position: number }
+  | { kind: 'cell'; tape: number; position: number; symbol: string }
+  | { kind: 'tape'; tape: number; text: string };
+
+export type Breakpoint = BreakpointBase & BreakpointCondition;
+
+export type BreakpointKind = BreakpointCondition['kind'];
+
+// Tape conditions stay true for many steps once met, so they only fire on the step that makes them true
+const EDGE_TRIGGERED: BreakpointKind[] = ['cell', 'tape'];
+
+const tapeLabel = (tape: number) => (tape > 0 ? ` on T${tape + 1}` : '');
+
+export const describeBreakpoint = (breakpoint: BreakpointCondition): string => {
+  switch (breakpoint.kind) {
+    case 'state': return `Enter state ${breakpoint.state}`;
+    case 'rule': return `Rule #${breakpoint.ruleIndex + 1} about to fire`;
+    case 'symbol': return `In ${breakpoint.state} reading ${breakpoint.symbol}${tapeLabel(breakpoint.tape)}`;
+    case 'step': return `Reach step ${breakpoint.step}`;
+    case 'head': return `Head${tapeLabel(breakpoint.tape)} at cell ${breakpoint.position}`;
+    case 'cell': return `Cell ${breakpoint.position}${tapeLabel(breakpoint.tape)} becomes ${breakpoint.symbol}`;
+    case 'tape': return `Tape${tapeLabel(breakpoint.tape)} starts containing "${breakpoint.text}"`;
+  }
+};
+
+const holds = (breakpoint: BreakpointCondition, config: MachineConfiguration & { stepCount: number }, rules: TransitionRule[]): boolean => {
+  switch (breakpoint.kind) {
+    case 'state': return config.currentState === breakpoint.state;
+    case 'rule': return findRuleIndex(rules, config.currentState, readSymbols(config)) === breakpoint.ruleIndex;
+    case 'symbol': return config.currentState === breakpoint.state && readSymbols(config)[breakpoint.tape] === breakpoint.symbol;
+    case 'step': return config.stepCount === breakpoint.step;
+    case 'head': return config.headPositions[breakpoint.tape] === breakpoint.position;
+    case 'cell': return config.tapes[breakpoint.tape] !== undefined && readSymbolAt(config.tapes[breakpoint.tape], breakpoint.position) === breakpoint.symbol;
+    case 'tape': return config.tapes[breakpoint.tape] !== undefined && getTapeString(config.tapes[breakpoint.tape]).includes(breakpoint.text);
+  }
+};
+
+// The enabled breakpoints that the step from `before` to `after` triggers
+export const findTriggeredBreakpoints = (
+  breakpoints: Breakpoint[],
+  before: MachineConfiguration & { stepCount: number },
+  after: MachineConfiguration & { stepCount: number },
+  rules: TransitionRule[],
+): Breakpoint[] =>
+  breakpoints.filter(b =>
+    b.enabled
+    && holds(b, after, rules)
+    && !(EDGE_TRIGGERED.includes(b.kind) && holds(b, before, rules))
+  );
+
+// Keeps rule breakpoints on their rule when rows are added, removed or reordered. A rule that
+// was edited in place keeps its breakpoint; one that disappeared takes its breakpoint with it.
+export const remapRuleBreakpoints = (
+  breakpoints: Breakpoint[],
+  previousRules: TransitionRule[],
+  rules: TransitionRule[],
+): Breakpoint[] =>
+  breakpoints.flatMap((b): Breakpoint[] => {
+    if (b.kind !== 'rule') return [b];
+    const moved = rules.indexOf(previousRules[b.ruleIndex]);
+    if (moved !== -1) return [{ ...b, ruleIndex: moved }];
+    return rules.length === previousRules.length && b.ruleIndex < rules.length ? [b] : [];
+  });
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { EnumerationOptions, isEnumerationDone, machinesRun, notationToPreset, runEnumerationSlice, startEnumeration } from './busyBeaver';
+import { getTapeString, loadMachine, runUntilHalt } from './simulator';
+
+const enumerate = (options: EnumerationOptions) => {
+  const enumeration = startEnumeration(options);
+  while (!isEnumerationDone(enumeration)) runEnumerationSlice(enumeration, 1_000);
+  return enumeration;
+};
+
+describe('busy beaver enumeration', () => {
+  it('finds the 2-state champions', () => {
+    const result = enumerate({ states: 2, symbols: 2, maxSteps: 100 });
+
+    expect(result.bySteps[0].steps).toBe(6);
+    expect(result.byOnes[0]).toEqual({ notation: '1RB1LB_1LA1RH', steps: 6, ones: 4 });
+    expect(machinesRun(result)).toBe(result.halted + result.looped + result.undecided);
+  });
+
+  it('finds the 3-state champions for steps and for ones', () => {
+    const result = enumerate({ states: 3, symbols: 2, maxSteps: 100 });
+
+    expect(result.bySteps[0]).toEqual({ notation: '1RB1RH_1LB0RC_1LC1LA', steps: 21, ones: 5 });
+    expect(result.byOnes[0].ones).toBe(6);
+  });
+
+  it('ranks best first and runs more symbols', () => {
+    const result = enumerate({ states: 2, symbols: 3, maxSteps: 100 });
+    const steps = result.bySteps.map(m => m.steps);
+
+    expect(result.bySteps[0]).toEqual({ notation: '1RB2LB1RH_2LA2RB1LB', steps: 38, ones: 9 });
+    expect(steps).toEqual([...steps].sort((a, b) => b - a));
+  });
+
+  it('proves machines that run off into blank tape never halt', () => {
+    const result = enumerate({ states: 1, symbols: 2, maxSteps: 100 });
+    expect(result).toMatchObject({ halted: 1, looped: 2, undecided: 0 });
+  });
+});
+
+describe('notationToPreset', () => {
+  it('builds the busy beaver presets', () => {
+    for (const preset of PRESETS.filter(p => p.name.startsWith('Busy Beaver'))) {
+      const notation = preset.description.match(/\(([0-9LRA-H_]+)\)/)![1];
+      expect(notationToPreset(notation, preset.name, preset.description)).toEqual({ ...preset, tests: undefined });
+    }
+  });
+
+  it('runs every ranked machine for the steps and ones the enumerator counted', () => {
+    const { bySteps } = enumerate({ states: 2, symbols: 2, maxSteps: 100 });
+    for (const { notation, steps, ones } of bySteps) {
+      const preset = notationToPreset(notation, notation);
+      const result = runUntilHalt(loadMachine(preset), preset.rules, 1_000, { finalStates: preset }).machine;
+
+      expect(preset.rules).toHaveLength(4 - (notation.match(/---/g) ?? []).length);
+      expect(result).toMatchObject({ status: 'HALTED', stepCount: steps });
+      expect(getTapeString(result.tapes[0]).replace(/_/g, '')).toHaveLength(ones);
+    }
+  });
+});
@@ -0,0 +1,226 @@
+import { Preset, TransitionRule } from '../types';
+import { EMPTY_SYMBOL } from '../constants';
+
+// Enumerates the n-state, k-symbol machines a busy beaver could be and runs each one from
+// a blank tape. Machines are grown in tree normal form: a run starts with an empty table
+// and, whenever it reaches a missing entry, either halts there or branches into every way
+// of filling the entry in, carrying on from the same configuration. States and symbols are
+// introduced in order and the first move goes right, so machines that differ only by
+// renaming or mirroring are run once, and entries no run reaches are never enumerated.
+
+export interface EnumerationOptions {
+  states: number;
+  symbols: number;
+  // Steps a machine may take before it is given up on as undecided
+  maxSteps: number;
+}
+
+// A halting machine in the usual notation, e.g. "1RB1LB_1LA1RH": one group per state with
+// write, move and next state for each symbol read, "---" for entries it never uses
+export interface BeaverMachine {
+  notation: string;
+  steps: number;
+  // Non-blank symbols left on the tape
+  ones: number;
+}
+
+export const MAX_BEAVER_STATES = 5;
+export const MAX_BEAVER_SYMBOLS = 4;
+// Machines kept in each ranking
+export const RANKING_SIZE = 100;
+
+export const BEAVER_HALT_STATE = 'H';
+const STATE_NAMES = 'ABCDEFG';
+const HALT = -1;
+
+interface Entry {
+  write: number;
+  move: 1 | -1;
+  next: number;
+}
+
+// A partly defined machine and the configuration its run has reached
+interface Node {
+  table: (Entry | null)[];
+  // Non-blank cells only; symbol 0 is the blank
+  tape: Map<number, number>;
+  head: number;
+  state: number;
+  steps: number;
+  // Every cell outside [lo, hi] has always been blank
+  lo: number;
+  hi: number;
+  statesUsed: number;
+  symbolsUsed: number;
+}
+
+export interface Enumeration {
+  options: EnumerationOptions;
+  stack: Node[];
+  halted: number;
+  // Proven never to halt: a repeated configuration or a head running off into blank tape
+  looped: number;
+  undecided: number;
+  bySteps: BeaverMachine[];
+  byOnes: BeaverMachine[];
+}
+
+export const startEnumeration = (options: EnumerationOptions): Enumeration => ({
+  options,
+  stack: [{
+    table: new Array(options.states * options.symbols).fill(null),
+    tape: new Map(),
+    head: 0,
+    state: 0,
+    steps: 0,
+    lo: Infinity,
+    hi: -Infinity,
+    statesUsed: 1,
+    symbolsUsed: 1,
+  }],
+  halted: 0,
+  looped: 0,
+  undecided: 0,
+  bySteps: [],
+  byOnes: [],
+});
+
+export const isEnumerationDone = (enumeration: Enumeration): boolean => enumeration.stack.length === 0;
+
+export const machinesRun = (enumeration: Enumeration): number =>
+  enumeration.halted + enumeration.looped + enumeration.undecided;
+
+const formatEntry = (entry: Entry | null): string =>
+  entry ? `${entry.write}${entry.move === 1 ? 'R' : 'L'}${entry.next === HALT ? BEAVER_HALT_STATE : STATE_NAMES[entry.next]}` : '---';
+
+const toNotation = (table: (Entry | null)[], symbols: number): string =>
+  Array.from({ length: table.length / symbols }, (_, q) => table.slice(q * symbols, (q + 1) * symbols).map(formatEntry).join('')).join('_');
+
+// Inserts `machine` if it beats the last one kept; ties keep the machine found first
+const rank = (ranking: BeaverMachine[], machine: BeaverMachine, key: 'steps' | 'ones') => {
+  if (ranking.length === RANKING_SIZE && ranking[ranking.length - 1][key] >= machine[key]) return;
+  const at = ranking.findIndex(m => m[key] < machine[key]);
+  ranking.splice(at === -1 ? ranking.length : at, 0, machine);
+  if (ranking.length > RANKING_SIZE) ranking.pop();
+};
+
+const qualifies = (ranking: BeaverMachine[], value: number, key: 'steps' | 'ones') =>
+  ranking.length < RANKING_SIZE || ranking[ranking.length - 1][key] < value;
+
+const tapeKey = (tape: Map<number, number>): string =>
+  [...tape.entries()].sort((a, b) => a[0] - b[0]).join(';');
+
+// The run reached a missing entry: halting there is one machine, and every way of filling
+// the entry in is another node, unless no entry would be left to halt on
+const branch = (enumeration: Enumeration, node: Node, slot: number) => {
+  const { states, symbols } = enumeration.options;
+  const steps = node.steps + 1;
+  const ones = node.tape.size + (node.tape.has(node.head) ? 0 : 1);
+  enumeration.halted++;
+  if (qualifies(enumeration.bySteps, steps, 'steps') || qualifies(enumeration.byOnes, ones, 'ones')) {
+    const table = [...node.table];
+    table[slot] = { write: 1, move: 1, next: HALT };
+    const machine = { notation: toNotation(table, symbols), steps, ones };
+    rank(enumeration.bySteps, machine, 'steps');
+    rank(enumeration.byOnes, machine, 'ones');
+  }
+
+  const defined = node.table.filter(entry => entry !== null).length;
+  if (defined + 1 >= node.table.length) return;
+  const children: Node[] = [];
+  for (let next = 0; next < Math.min(states, node.statesUsed + 1); next++) {
+    for (let write = 0; write < Math.min(symbols, node.symbolsUsed + 1); write++) {
+      for (const move of defined === 0 ? [1] as const : [-1, 1] as const) {
+        const table = [...node.table];
+        table[slot] = { write, move, next };
+        children.push({
+          ...node,
+          table,
+          tape: new Map(node.tape),
+          statesUsed: Math.max(node.statesUsed, next + 1),
+          symbolsUsed: Math.max(node.symbolsUsed, write + 1),
+        });
+      }
+    }
+  }
+  // Reversed so the stack pops them in order
+  enumeration.stack.push(...children.reverse());
+};
+
+// Runs `node` until it halts, loops, runs out of steps or reaches a missing entry
+const runNode = (enumeration: Enumeration, node: Node) => {
+  const { symbols, maxSteps } = enumeration.options;
+  const { tape } = node;
+  // Brent's cycle detection: compare with a configuration saved at doubling intervals
+  let saved = { state: node.state, head: node.head, key: tapeKey(tape) };
+  let interval = 1;
+  let sinceSaved = 0;
+
+  while (true) {
+    const read = tape.get(node.head) ?? 0;
+    const slot = node.state * symbols + read;
+    const entry = node.table[slot];
+    if (!entry) {
+      branch(enumeration, node, slot);
+      return;
+    }
+    if (node.steps >= maxSteps) {
+      enumeration.undecided++;
+      return;
+    }
+    // Standing beyond every written cell, a rule that keeps the state and moves further out repeats forever
+    if (entry.next === node.state && (entry.move === 1 ? node.head > node.hi : node.head < node.lo)) {
+      enumeration.looped++;
+      return;
+    }
+
+    if (entry.write === 0) {
+      tape.delete(node.head);
+    } else {
+      tape.set(node.head, entry.write);
+      node.lo = Math.min(node.lo, node.head);
+      node.hi = Math.max(node.hi, node.head);
+    }
+    node.head += entry.move;
+    node.state = entry.next;
+    node.steps++;
+
+    if (node.state === saved.state && node.head === saved.head && tapeKey(tape) === saved.key) {
+      enumeration.looped++;
+      return;
+    }
+    if (++sinceSaved === interval) {
+      saved = { state: node.state, head: node.head, key: tapeKey(tape) };
+      interval *= 2;
+      sinceSaved = 0;
+    }
+  }
+};
+
+// Runs up to `machineLimit` more nodes of the enumeration, in place
+export const runEnumerationSlice = (enumeration: Enumeration, machineLimit: number): void => {
+  for (let i = 0; i < machineLimit && enumeration.stack.length > 0; i++) {
+    runNode(enumeration, enumeration.stack.pop()!);
+  }
+};
+
+const symbolName = (digit: string) => (digit === '0' ? EMPTY_SYMBOL : digit);
+
+// Turns a machine in busy beaver notation into a regular machine that starts on a blank tape
+export const notationToPreset = (notation: string, name: string, description = ''): Preset => {
+  const rules: TransitionRule[] = [];
+  notation.split('_').forEach((group, q) => {
+    for (let s = 0; s * 3 < group.length; s++) {
+      const entry = group.slice(s * 3, s * 3 + 3);
+      if (entry === '---') continue;
+      rules.push({
+        currentState: STATE_NAMES[q],
+        readSymbol: symbolName(String(s)),
+        writeSymbol: symbolName(entry[0]),
+        moveDirection: entry[1] as 'L' | 'R',
+        nextState: entry[2],
+      });
+    }
+  });
+  return { name, description, initialTape: '', initialState: STATE_NAMES[0], haltStates: [BEAVER_HALT_STATE], rules };
+};
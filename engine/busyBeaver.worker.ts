@@ -0,0 +1,64 @@
+import { BeaverMachine, EnumerationOptions, isEnumerationDone, runEnumerationSlice, startEnumeration } from './busyBeaver';
+
+// Runs a busy beaver enumeration off the main thread in short time slices, yielding between
+// them so a cancel message can get through, and posting the rankings every so often.
+
+export type BeaverRequest =
+  | { type: 'start'; options: EnumerationOptions }
+  | { type: 'cancel' };
+
+export interface BeaverReport {
+  halted: number;
+  looped: number;
+  undecided: number;
+  // Partly defined machines still waiting to run
+  pending: number;
+  bySteps: BeaverMachine[];
+  byOnes: BeaverMachine[];
+}
+
+export type BeaverResponse =
+  | { type: 'progress'; report: BeaverReport }
+  | { type: 'done'; report: BeaverReport; cancelled: boolean };
+
+const SLICE_MS = 40;
+const SAMPLE_MS = 250;
+const CHUNK_MACHINES = 200;
+
+const ctx = self as unknown as Worker;
+let cancelled = false;
+
+const post = (message: BeaverResponse) => ctx.postMessage(message);
+
+const run = async (options: EnumerationOptions) => {
+  const enumeration = startEnumeration(options);
+  const report = (): BeaverReport => ({
+    halted: enumeration.halted,
+    looped: enumeration.looped,
+    undecided: enumeration.undecided,
+    pending: enumeration.stack.length,
+    bySteps: [...enumeration.bySteps],
+    byOnes: [...enumeration.byOnes],
+  });
+  let lastSample = performance.now();
+
+  cancelled = false;
+  while (!cancelled && !isEnumerationDone(enumeration)) {
+    const sliceEnd = performance.now() + SLICE_MS;
+    while (performance.now() < sliceEnd && !isEnumerationDone(enumeration)) {
+      runEnumerationSlice(enumeration, CHUNK_MACHINES);
+    }
+    if (performance.now() - lastSample >= SAMPLE_MS) {
+      lastSample = performance.now();
+      post({ type: 'progress', report: report() });
+    }
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  post({ type: 'done', report: report(), cancelled });
+};
+
+ctx.onmessage = (event: MessageEvent<BeaverRequest>) => {
+  if (event.data.type === 'cancel') cancelled = true;
+  else run(event.data.options);
+};
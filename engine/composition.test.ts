@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { Preset, TransitionRule } from '../types';
+import { CompositionError, flattenMachine, getCallStack, getSourceRuleIndex, hasCalls } from './composition';
+import { getTapeString, loadMachine, runUntilHalt } from './simulator';
+
+const rule = (currentState: string, readSymbol: string, writeSymbol: string, moveDirection: 'L' | 'R' | 'N', nextState: string, call?: string): TransitionRule =>
+  ({ currentState, readSymbol, writeSymbol, moveDirection, nextState, ...(call ? { call } : {}) });
+
+const increment = PRESETS.find(p => p.name === 'Binary Increment')!;
+
+// Adds two by incrementing, walking back to the first digit in between
+const addTwo: Preset = {
+  name: 'Add Two',
+  description: '',
+  initialTape: '1011',
+  initialState: 'start',
+  haltStates: ['done'],
+  rules: [
+    rule('start', '*', '*', 'N', 'rewind', 'Binary Increment'),
+    rule('rewind', '[01]', '*', 'L', 'rewind'),
+    rule('rewind', '_', '_', 'R', 'done', 'Binary Increment'),
+  ],
+};
+
+const library = [increment, addTwo, PRESETS.find(p => p.name === 'Binary Addition (2 Tapes)')!];
+const resolve = (name: string) => library.find(p => p.name === name);
+
+const run = (machine: Preset, rules: TransitionRule[]) =>
+  runUntilHalt(loadMachine(machine), rules, 10_000, { finalStates: machine }).machine;
+
+describe('flattenMachine', () => {
+  it('inlines each call under its own namespace and runs like the composition', () => {
+    const flat = flattenMachine(addTwo, resolve);
+    const result = run(addTwo, flat.rules);
+
+    expect(hasCalls(flat.rules)).toBe(false);
+    expect(flat.frames.map(f => f.prefix)).toEqual(['binary_increment.', 'binary_increment_2.']);
+    expect(flat.rules.slice(0, 3).map(r => r.nextState)).toEqual(['binary_increment.start', 'rewind', 'binary_increment_2.start']);
+    expect(result.currentState).toBe('done');
+    expect(getTapeString(result.tapes[0])).toBe('1101');
+  });
+
+  it('returns to the continuation from every final state of the called machine', () => {
+    const flat = flattenMachine(addTwo, resolve);
+    const inlined = flat.rules.filter(r => r.currentState.startsWith('binary_increment.'));
+
+    expect(inlined).toHaveLength(increment.rules.length);
+    expect(new Set(inlined.filter(r => !r.nextState.startsWith('binary_increment.')).map(r => r.nextState))).toEqual(new Set(['rewind']));
+  });
+
+  it('inlines a machine once per frame and continuation', () => {
+    const twice: Preset = { ...addTwo, rules: [rule('start', '0', '0', 'N', 'done', 'Binary Increment'), rule('start', '1', '1', 'N', 'done', 'Binary Increment')] };
+    expect(flattenMachine(twice, resolve).frames).toHaveLength(1);
+  });
+
+  it('tracks nested calls back to the rule that made them', () => {
+    const outer: Preset = { ...addTwo, name: 'Outer', rules: [rule('start', '*', '*', 'N', 'done', 'Add Two')] };
+    const flat = flattenMachine(outer, resolve);
+    const carry = flat.rules.findIndex(r => r.currentState === 'add_two.binary_increment_2.add');
+
+    expect(getCallStack(flat, 'add_two.binary_increment_2.add').map(f => f.machine)).toEqual(['Add Two', 'Binary Increment']);
+    expect(getCallStack(flat, 'start')).toEqual([]);
+    expect(getSourceRuleIndex(flat, carry)).toBe(0);
+    expect(getTapeString(run(outer, flat.rules).tapes[0])).toBe('1101');
+  });
+
+  it('runs a single-tape machine on the first tape of a multi-tape caller', () => {
+    const call = { ...rule('start', '*', '*', 'N', 'done', 'Binary Increment'), extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' as const }] };
+    const caller: Preset = { ...addTwo, name: 'Caller', tapeCount: 2, rules: [call] };
+    const machine = loadMachine({ ...caller, tapeCount: 2 });
+    const withSecondTape = { ...machine, tapes: [machine.tapes[0], { 0: 'x' }] };
+    const result = runUntilHalt(withSecondTape, flattenMachine(caller, resolve).rules, 10_000, { finalStates: caller }).machine;
+
+    expect(result.tapes.map(getTapeString)).toEqual(['1100', 'x']);
+  });
+
+  it('reports calls it cannot inline on the rule that made them', () => {
+    const error = (machine: Preset) => {
+      try {
+        flattenMachine(machine, resolve);
+      } catch (e) {
+        expect(e).toBeInstanceOf(CompositionError);
+        return { message: (e as CompositionError).message, ruleIndex: (e as CompositionError).ruleIndex };
+      }
+      throw new Error('Expected a CompositionError');
+    };
+
+    expect(error({ ...addTwo, rules: [rule('a', '_', '_', 'N', 'done'), rule('a', '1', '1', 'N', 'done', 'Missing')] }))
+      .toEqual({ message: 'Rule #2 calls "Missing", which is not in the library.', ruleIndex: 1 });
+    expect(error({ ...addTwo, name: 'Binary Increment' }).message).toMatch(/recursively \(Binary Increment → Binary Increment\)/);
+    expect(error({ ...addTwo, name: 'Outer', rules: [rule('start', '*', '*', 'N', 'done', 'Binary Addition (2 Tapes)')] }).message)
+      .toMatch(/uses 2 tapes/);
+  });
+});
@@ -0,0 +1,137 @@
+import { Preset, TapeTransition, TransitionRule } from '../types';
+import { ANY_SYMBOL } from '../constants';
+import { getRuleTransitions, isFinalState, withRuleTransitions } from './simulator';
+
+// Machines can call other machines as subroutines. Calls are compiled away by flattening:
+// each called machine is inlined under its own state namespace (`increment.carry`) and its
+// final states become the caller's continuation, so the simulator, the turbo runner and the
+// formats only ever see plain rules. The caller's own rules keep their indices; inlined
+// rules follow them.
+
+export type MachineResolver = (name: string) => Preset | undefined;
+
+export class CompositionError extends Error {
+  constructor(message: string, readonly ruleIndex: number) {
+    super(message);
+    this.name = 'CompositionError';
+  }
+}
+
+// One inlined call: the machine it runs, the caller's frame and the rule that called it
+export interface CallFrame {
+  machine: string;
+  // Prepended to the called machine's states, e.g. "increment." or "double.increment_2."
+  prefix: string;
+  // Frame of the caller, or null for the machine being flattened
+  parent: number | null;
+  callRuleIndex: number;
+}
+
+export interface FlatMachine {
+  rules: TransitionRule[];
+  frames: CallFrame[];
+  // Frame each flattened rule was inlined from, or null for the machine's own rules
+  ruleFrames: (number | null)[];
+}
+
+// Deepest chain of nested calls; flattening a deeper one is almost certainly a mistake
+export const MAX_CALL_DEPTH = 16;
+
+export const hasCalls = (rules: TransitionRule[]): boolean => rules.some(r => r.call !== undefined);
+
+const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'machine';
+
+// Tapes the called machine does not know about are passed over untouched
+const PASS_THROUGH: TapeTransition = { readSymbol: ANY_SYMBOL, writeSymbol: ANY_SYMBOL, moveDirection: 'N' };
+
+const padTapes = (rule: TransitionRule, ownTapes: number, tapeCount: number): TransitionRule => {
+  if (ownTapes === tapeCount) return rule;
+  const transitions = getRuleTransitions(rule, ownTapes);
+  return withRuleTransitions(rule, [...transitions, ...Array.from({ length: tapeCount - ownTapes }, () => PASS_THROUGH)]);
+};
+
+export const flattenMachine = (definition: Preset, resolve: MachineResolver): FlatMachine => {
+  const tapeCount = Math.max(1, definition.tapeCount ?? 1);
+  const rules: TransitionRule[] = [];
+  const ruleFrames: (number | null)[] = [];
+  const frames: CallFrame[] = [];
+  const prefixes = new Set<string>();
+  // A machine called from the same frame with the same continuation is inlined only once
+  const instances = new Map<string, number>();
+  const queue: { machine: Preset; frame: number; rename: (state: string) => string }[] = [];
+
+  // Errors inside inlined machines are reported on the top-level rule that led there
+  const rootRule = (frame: number | null, ruleIndex: number): number => {
+    let index = ruleIndex;
+    for (let f = frame; f !== null; f = frames[f].parent) index = frames[f].callRuleIndex;
+    return index;
+  };
+
+  // Names of the machines running when `frame` makes a call, outermost first
+  const callers = (frame: number | null): string[] => {
+    const names: string[] = [];
+    for (let f = frame; f !== null; f = frames[f].parent) names.unshift(frames[f].machine);
+    return [definition.name, ...names];
+  };
+
+  const emit = (machine: Preset, frame: number | null, rename: (state: string) => string) => {
+    const ownTapes = Math.max(1, machine.tapeCount ?? 1);
+    machine.rules.forEach((rule, index) => {
+      const { call, ...plain } = rule;
+      const next: TransitionRule = { ...padTapes(plain, ownTapes, tapeCount), currentState: rename(rule.currentState), nextState: rename(rule.nextState) };
+      if (call !== undefined) next.nextState = enterCall(call, frame, index, next.nextState);
+      rules.push(next);
+      ruleFrames.push(frame);
+    });
+  };
+
+  // Sets up the frame for a call and returns the state the call starts in
+  const enterCall = (name: string, parent: number | null, ruleIndex: number, continuation: string): string => {
+    const fail: (message: string) => never = message => { throw new CompositionError(message, rootRule(parent, ruleIndex)); };
+    const callee = resolve(name);
+    if (!callee) fail(`Rule #${ruleIndex + 1} calls "${name}", which is not in the library.`);
+    const chain = callers(parent);
+    if (chain.includes(name)) fail(`Rule #${ruleIndex + 1} calls "${name}" recursively (${[...chain, name].join(' → ')}); recursive calls cannot be flattened.`);
+    if (chain.length > MAX_CALL_DEPTH) fail(`Calls are nested more than ${MAX_CALL_DEPTH} deep.`);
+    if ((callee.tapeCount ?? 1) > tapeCount) fail(`"${name}" uses ${callee.tapeCount} tapes but is called from a machine with ${tapeCount}.`);
+
+    // A machine that starts in a final state returns straight away
+    if (isFinalState(callee, callee.initialState)) return continuation;
+
+    const key = JSON.stringify([parent, name, continuation]);
+    let frame = instances.get(key);
+    if (frame === undefined) {
+      const base = `${parent === null ? '' : frames[parent].prefix}${slug(name)}`;
+      let prefix = `${base}.`;
+      for (let n = 2; prefixes.has(prefix); n++) prefix = `${base}_${n}.`;
+      prefixes.add(prefix);
+      frame = frames.push({ machine: name, prefix, parent, callRuleIndex: ruleIndex }) - 1;
+      instances.set(key, frame);
+      queue.push({ machine: callee, frame, rename: state => (isFinalState(callee, state) ? continuation : prefix + state) });
+    }
+    return frames[frame].prefix + callee.initialState;
+  };
+
+  emit(definition, null, state => state);
+  for (let i = 0; i < queue.length; i++) emit(queue[i].machine, queue[i].frame, queue[i].rename);
+  return { rules, frames, ruleFrames };
+};
+
+// The calls a namespaced state sits in, outermost first
+export const getCallStack = (flat: FlatMachine, state: string): CallFrame[] => {
+  let innermost: number | null = null;
+  flat.frames.forEach((frame, i) => {
+    if (state.startsWith(frame.prefix) && (innermost === null || frame.prefix.length > flat.frames[innermost].prefix.length)) innermost = i;
+  });
+  const stack: CallFrame[] = [];
+  for (let f: number | null = innermost; f !== null; f = flat.frames[f].parent) stack.unshift(flat.frames[f]);
+  return stack;
+};
+
+// The machine's own rule responsible for a flattened rule: itself, or the call that inlined it
+export const getSourceRuleIndex = (flat: FlatMachine, flatIndex: number): number => {
+  let frame = flat.ruleFrames[flatIndex];
+  if (frame === null) return flatIndex;
+  while (flat.frames[frame].parent !== null) frame = flat.frames[frame].parent!;
+  return flat.frames[frame].callRuleIndex;
+};
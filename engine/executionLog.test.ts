@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { TransitionRule } from '../types';
+import { LogEntry, MAX_LOG_ENTRIES, appendLog, createLogEntry, logToCsv, logToJson, markHead, tapeSnippet, truncateLog } from './executionLog';
+import { loadMachine, stepMachine } from './simulator';
+
+const rules: TransitionRule[] = [
+  { currentState: 'q0', readSymbol: '1', writeSymbol: '*', moveDirection: 'R', nextState: 'q0' },
+  { currentState: 'q0', readSymbol: '0', writeSymbol: '1', moveDirection: 'L', nextState: 'q1' },
+];
+
+const trace = (tape: string, steps: number): LogEntry[] => {
+  let machine = loadMachine({ initialTape: tape, initialState: 'q0' });
+  const log: LogEntry[] = [];
+  for (let i = 0; i < steps; i++) {
+    const { machine: next, ruleIndex } = stepMachine(machine, rules);
+    if (ruleIndex === null) break;
+    log.push(createLogEntry(machine, rules[ruleIndex], ruleIndex));
+    machine = next;
+  }
+  return log;
+};
+
+const entry = (step: number): LogEntry =>
+  ({ step, state: 'q', rule: 0, read: ['_'], write: ['_'], move: ['N'], nextState: 'q', headPositions: [0], tapes: [{ start: 0, cells: '_' }] });
+
+describe('createLogEntry', () => {
+  it('records the transition applied, with write-same resolved', () => {
+    const [first, , third] = trace('110', 3);
+
+    expect(first).toMatchObject({ step: 1, state: 'q0', rule: 0, read: ['1'], write: ['1'], move: ['R'], nextState: 'q0', headPositions: [0] });
+    expect(third).toMatchObject({ step: 3, rule: 1, read: ['0'], write: ['1'], move: ['L'], nextState: 'q1', headPositions: [2] });
+    expect(markHead(third.tapes[0], third.headPositions[0])).toBe('11[0]');
+  });
+
+  it('trims blanks around the head but keeps the head cell', () => {
+    expect(tapeSnippet({ 2: '1', 3: '0' }, 0)).toEqual({ start: 0, cells: '__10' });
+    expect(tapeSnippet({}, -3)).toEqual({ start: -3, cells: '_' });
+    expect(markHead(tapeSnippet({ [-1]: '1', 1: '1' }, 0), 0)).toBe('1[_]1');
+  });
+});
+
+describe('truncateLog', () => {
+  it('keeps entries up to a step across gaps', () => {
+    const log = [1, 2, 3, 10, 11].map(entry);
+
+    expect(truncateLog(log, 5).map(e => e.step)).toEqual([1, 2, 3]);
+    expect(truncateLog(log, 0)).toEqual([]);
+    expect(truncateLog(log, 11)).toBe(log);
+  });
+
+  it('drops the oldest entries beyond the cap', () => {
+    const log = Array.from({ length: MAX_LOG_ENTRIES }, (_, i) => entry(i + 1));
+    const next = appendLog(log, MAX_LOG_ENTRIES, [entry(MAX_LOG_ENTRIES + 1)]);
+
+    expect(next).toHaveLength(MAX_LOG_ENTRIES);
+    expect(next[0].step).toBe(2);
+  });
+});
+
+describe('log export', () => {
+  it('writes one CSV row per entry with the head marked', () => {
+    const csv = logToCsv(trace('10', 2));
+
+    expect(csv).toBe('step,state,rule,read,write,move,next,head,tape\n1,q0,#1,1,1,R,q0,0,[1]0\n2,q0,#2,0,1,L,q1,1,1[0]\n');
+  });
+
+  it('quotes k-tape tuples in CSV and numbers rules from one in JSON', () => {
+    const wide: LogEntry = { ...entry(1), read: ['1', '_'], write: ['1', '1'], move: ['R', 'N'], headPositions: [0, 0], tapes: [{ start: 0, cells: '1' }, { start: 0, cells: '_' }] };
+
+    expect(logToCsv([wide]).split('\n')[1]).toBe('1,q,#1,"1,_","1,1","R,N",q,"0,0",[1] | [_]');
+    expect(JSON.parse(logToJson([wide]))).toEqual([
+      { step: 1, state: 'q', rule: 1, read: ['1', '_'], write: ['1', '1'], move: ['R', 'N'], nextState: 'q', head: [0, 0], tapes: ['[1]', '[_]'] },
+    ]);
+  });
+});
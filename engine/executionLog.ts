@@ -0,0 +1,120 @@
+import { MachineState, MoveDirection, Tape, TransitionRule } from '../types';
+import { EMPTY_SYMBOL } from '../constants';
+import { getRuleTransitions, readSymbolAt, readSymbols, resolveWrite } from './simulator';
+
+// The execution log: one entry per executed step, with the transition that fired and the
+// cells around each head before it. Entries are ordered by step but need not be contiguous,
+// since turbo runs and hand edits leave gaps.
+
+// Cells of one tape around its head, trimmed of blanks on either side but always keeping the head
+export interface TapeSnippet {
+  start: number;
+  cells: string;
+}
+
+export interface LogEntry {
+  // Number of the step this entry describes, counting from 1
+  step: number;
+  state: string;
+  // Table row of the rule that fired; for an inlined call, the row that made the call
+  rule: number;
+  read: string[];
+  write: string[];
+  move: MoveDirection[];
+  nextState: string;
+  headPositions: number[];
+  tapes: TapeSnippet[];
+}
+
+// Oldest entries are dropped beyond this, which also keeps the virtual list within browser limits
+export const MAX_LOG_ENTRIES = 500_000;
+
+const SNIPPET_RADIUS = 8;
+
+export const tapeSnippet = (tape: Tape, head: number): TapeSnippet => {
+  let from = head - SNIPPET_RADIUS;
+  let to = head + SNIPPET_RADIUS;
+  while (from < head && readSymbolAt(tape, from) === EMPTY_SYMBOL) from++;
+  while (to > head && readSymbolAt(tape, to) === EMPTY_SYMBOL) to--;
+  let cells = '';
+  for (let i = from; i <= to; i++) cells += readSymbolAt(tape, i);
+  return { start: from, cells };
+};
+
+// The snippet with the cell under the head in brackets, e.g. "10[1]1"
+export const markHead = (snippet: TapeSnippet, head: number): string => {
+  const at = head - snippet.start;
+  return `${snippet.cells.slice(0, at)}[${snippet.cells[at]}]${snippet.cells.slice(at + 1)}`;
+};
+
+// Describes `rule` firing on `machine`; `row` is the table row to credit it to
+export const createLogEntry = (machine: MachineState, rule: TransitionRule, row: number): LogEntry => {
+  const read = readSymbols(machine);
+  const transitions = getRuleTransitions(rule, machine.tapes.length);
+  return {
+    step: machine.stepCount + 1,
+    state: machine.currentState,
+    rule: row,
+    read,
+    write: transitions.map((t, i) => resolveWrite(t.writeSymbol, read[i])),
+    move: transitions.map(t => t.moveDirection),
+    nextState: rule.nextState,
+    headPositions: [...machine.headPositions],
+    tapes: machine.tapes.map((tape, i) => tapeSnippet(tape, machine.headPositions[i])),
+  };
+};
+
+// Entries up to and including `step`
+export const truncateLog = (log: LogEntry[], step: number): LogEntry[] => {
+  let low = 0;
+  let high = log.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (log[mid].step <= step) low = mid + 1;
+    else high = mid;
+  }
+  return low === log.length ? log : log.slice(0, low);
+};
+
+// Replaces everything after `step` with `entries`, keeping the newest MAX_LOG_ENTRIES
+export const appendLog = (log: LogEntry[], step: number, entries: LogEntry[]): LogEntry[] => {
+  const next = truncateLog(log, step).concat(entries);
+  return next.length > MAX_LOG_ENTRIES ? next.slice(next.length - MAX_LOG_ENTRIES) : next;
+};
+
+const formatTapes = (entry: LogEntry): string =>
+  entry.tapes.map((snippet, i) => markHead(snippet, entry.headPositions[i])).join(' | ');
+
+const CSV_COLUMNS = ['step', 'state', 'rule', 'read', 'write', 'move', 'next', 'head', 'tape'];
+
+const quote = (cell: string) => (/[",\n]|^\s|\s$/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+
+// One row per entry; on k-tape machines read, write, move and head are comma-separated tuples
+export const logToCsv = (log: LogEntry[]): string =>
+  [
+    CSV_COLUMNS.join(','),
+    ...log.map(entry => [
+      String(entry.step),
+      entry.state,
+      `#${entry.rule + 1}`,
+      entry.read.join(','),
+      entry.write.join(','),
+      entry.move.join(','),
+      entry.nextState,
+      entry.headPositions.join(','),
+      formatTapes(entry),
+    ].map(quote).join(',')),
+  ].join('\n') + '\n';
+
+export const logToJson = (log: LogEntry[]): string =>
+  JSON.stringify(log.map(entry => ({
+    step: entry.step,
+    state: entry.state,
+    rule: entry.rule + 1,
+    read: entry.read,
+    write: entry.write,
+    move: entry.move,
+    nextState: entry.nextState,
+    head: entry.headPositions,
+    tapes: entry.tapes.map((snippet, i) => markHead(snippet, entry.headPositions[i])),
+  })), null, 2) + '\n';
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { HistoryEntry } from '../types';
+import { appendHistory, dropLatest, emptyHistory, historyEntry, historyLength } from './history';
+
+const record = (step: number): HistoryEntry => ({ headPositions: [step], currentState: `q${step}`, readSymbols: ['_'] });
+
+const build = (count: number, limit: number) => {
+  let history = emptyHistory();
+  for (let step = 0; step < count; step++) history = appendHistory(history, record(step), limit);
+  return history;
+};
+
+const steps = (history: ReturnType<typeof emptyHistory>) =>
+  Array.from({ length: historyLength(history) }, (_, i) => historyEntry(history, i)!.headPositions[0]);
+
+describe('history', () => {
+  it('appends to the latest state without copying', () => {
+    const first = build(3, 10);
+    const second = appendHistory(first, record(3), 10);
+
+    expect(second.entries).toBe(first.entries);
+    expect(steps(first)).toEqual([0, 1, 2]);
+    expect(steps(second)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('keeps only the latest records up to the limit', () => {
+    const history = build(10, 4);
+
+    expect(steps(history)).toEqual([6, 7, 8, 9]);
+    expect(historyEntry(history, 4)).toBeUndefined();
+  });
+
+  it('leaves the original alone when a rewound state steps differently', () => {
+    const original = build(5, 10);
+    const branch = appendHistory(dropLatest(original, 2), record(99), 10);
+
+    expect(steps(original)).toEqual([0, 1, 2, 3, 4]);
+    expect(steps(branch)).toEqual([0, 1, 2, 99]);
+  });
+
+  it('bounds the shared buffer and the cost of a long run', () => {
+    const started = performance.now();
+    const history = build(1_000_000, 1_000);
+
+    expect(performance.now() - started).toBeLessThan(1_000);
+    expect(historyLength(history)).toBe(1_000);
+    expect(history.entries.length).toBeLessThanOrEqual(2_000);
+    expect(historyEntry(history, 999)!.headPositions[0]).toBe(999_999);
+  });
+});
@@ -0,0 +1,31 @@
+import { History, HistoryEntry } from '../types';
+
+// The undo records of successive machine states share one buffer. A state sees only its own
+// slice of it, so appending to the latest state pushes in place and rewinding just narrows the
+// slice; the buffer is copied only when a state that is no longer the latest steps again, or
+// when records dropped past the limit take up as much room as the ones still kept.
+
+export const emptyHistory = (): History => ({ entries: [], start: 0, end: 0 });
+
+export const historyLength = (history: History): number => history.end - history.start;
+
+// Record `index` of the history, counting from the oldest still kept
+export const historyEntry = (history: History, index: number): HistoryEntry | undefined =>
+  index >= 0 && index < historyLength(history) ? history.entries[history.start + index] : undefined;
+
+export const appendHistory = (history: History, entry: HistoryEntry, limit: number): History => {
+  const { entries, end } = history;
+  // Oldest record still kept once this one is added
+  const start = Math.max(history.start, end + 1 - limit);
+  if (end === entries.length && start < limit) {
+    entries.push(entry);
+    return { entries, start, end: end + 1 };
+  }
+  const kept = entries.slice(start, end);
+  kept.push(entry);
+  return { entries: kept, start: 0, end: kept.length };
+};
+
+// Forgets the latest `count` records
+export const dropLatest = (history: History, count: number): History =>
+  ({ ...history, end: Math.max(history.start, history.end - count) });
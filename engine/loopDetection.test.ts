@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { TransitionRule } from '../types';
+import { checkForLoop, createLoopDetector, describeLoop, isDetectorCurrent, runWithLoopDetection } from './loopDetection';
+import { loadMachine, stepMachine } from './simulator';
+
+const rule = (currentState: string, readSymbol: string, writeSymbol: string, moveDirection: 'L' | 'R' | 'N', nextState: string): TransitionRule =>
+  ({ currentState, readSymbol, writeSymbol, moveDirection, nextState });
+
+const run = (rules: TransitionRule[], initialTape: string, initialState = 'a', maxSteps = 10_000) =>
+  runWithLoopDetection(loadMachine({ initialTape, initialState }), rules, maxSteps);
+
+describe('runWithLoopDetection', () => {
+  it('finds a repeated configuration with its period and states', () => {
+    const bounce = [
+      rule('start', '1', '1', 'R', 'right'),
+      rule('right', '_', '_', 'R', 'right'), rule('right', '0', '0', 'R', 'right'), rule('right', '1', '1', 'L', 'left'),
+      rule('left', '_', '_', 'L', 'left'), rule('left', '0', '0', 'L', 'left'), rule('left', '1', '1', 'R', 'right'),
+    ];
+    const result = run(bounce, '1_01', 'start');
+
+    expect(result.halted).toBe(false);
+    expect(result.loop).toEqual({ kind: 'cycle', firstStep: 7, repeatStep: 13, period: 6, states: ['right', 'left'] });
+    expect(describeLoop(result.loop!)).toBe('Infinite loop: the configuration of step 7 repeats at step 13 (period 6) through right → left.');
+  });
+
+  it('catches Ping Pong, which bounces off its first 1 and walks left forever', () => {
+    const pingPong = PRESETS.find(p => p.name === 'Ping Pong')!;
+    const result = run(pingPong.rules, pingPong.initialTape, pingPong.initialState);
+
+    expect(result.loop).toEqual({ kind: 'drift', step: 1, state: 'left', directions: ['L'] });
+  });
+
+  it('reports heads that drift into blank tape forever', () => {
+    const result = run([rule('a', '1', '1', 'R', 'a'), rule('a', '_', '1', 'R', 'a')], '11');
+
+    expect(result.loop).toEqual({ kind: 'drift', step: 2, state: 'a', directions: ['R'] });
+    expect(describeLoop(result.loop!)).toBe('Runs forever: from step 2, in state a the head moves right into blank tape without end.');
+  });
+
+  it('does not mistake leaving the written cells for a drift when the state changes', () => {
+    const result = run([rule('a', '1', '1', 'R', 'a'), rule('a', '_', '_', 'R', 'b'), rule('b', '_', '_', 'L', 'c')], '11');
+
+    expect(result.loop).toBeNull();
+    expect(result.machine.status).toBe('ERROR');
+  });
+
+  it('stops at the step limit when no loop is proven', () => {
+    // A binary counter never repeats a configuration and keeps returning to its written cells
+    const counter = [
+      rule('a', '_', '_', 'L', 'inc'), rule('a', '0', '0', 'R', 'a'), rule('a', '1', '1', 'R', 'a'),
+      rule('inc', '1', '0', 'L', 'inc'), rule('inc', '0', '1', 'R', 'a'), rule('inc', '_', '1', 'R', 'a'),
+    ];
+    const result = run(counter, '0', 'a', 500);
+
+    expect(result.loop).toEqual({ kind: 'step-limit', limit: 500 });
+    expect(result.steps).toBe(500);
+  });
+
+  it('keeps time and memory in check on a tape that keeps growing', () => {
+    // Alternates states, so the drift check never fires and every configuration is new
+    const writer = [rule('a', '_', '1', 'R', 'b'), rule('b', '_', '1', 'R', 'a')];
+    let machine = loadMachine({ initialTape: '', initialState: 'a' });
+    const detector = createLoopDetector(machine, writer);
+    let checking = 0;
+    for (let i = 0; i < 3_000; i++) {
+      machine = stepMachine(machine, writer).machine;
+      const began = performance.now();
+      const loop = checkForLoop(detector, machine);
+      checking += performance.now() - began;
+      if (loop) throw new Error(`Reported ${loop.kind} on a machine that never repeats`);
+    }
+
+    // One saved configuration and the states since it, however long the run
+    expect(detector.states.size).toBeLessThanOrEqual(2);
+    expect(detector.saved.step).toBe(2_047);
+    expect(checking).toBeLessThan(1_000);
+  });
+
+  it('leaves halting presets alone', () => {
+    for (const preset of PRESETS.filter(p => p.name !== 'Ping Pong')) {
+      const result = runWithLoopDetection(loadMachine(preset), preset.rules, 10_000, { finalStates: preset });
+
+      expect(result.loop).toBeNull();
+    }
+  });
+});
+
+describe('LoopDetector', () => {
+  it('is only current for the same rules and the next step', () => {
+    const rules = [rule('a', '_', '_', 'N', 'a')];
+    const start = loadMachine({ initialTape: '', initialState: 'a' });
+    const detector = createLoopDetector(start, rules);
+    const next = stepMachine(start, rules).machine;
+
+    expect(isDetectorCurrent(detector, start, rules)).toBe(true);
+    expect(isDetectorCurrent(detector, start, [...rules])).toBe(false);
+    expect(checkForLoop(detector, next)).toMatchObject({ kind: 'cycle', period: 1, states: ['a'] });
+    expect(isDetectorCurrent(detector, next, rules)).toBe(true);
+  });
+});
@@ -0,0 +1,164 @@
+import { MachineState, MoveDirection, TransitionRule } from '../types';
+import { EMPTY_SYMBOL } from '../constants';
+import { RunResult, StepOptions, findRuleIndex, getRuleTransitions, isHalted, resolveWrite, stepMachine } from './simulator';
+
+// Spots machines that will never halt. Two patterns are certain:
+//  - cycle: a configuration (state, heads and every tape cell) repeats exactly, so the
+//    steps between the two occurrences repeat forever;
+//  - drift: every head stands in blank tape beyond the written cells and the rule for
+//    reading all blanks keeps the state and carries each head further out.
+// A step limit catches everything else, without claiming the machine loops.
+
+export type LoopDiagnosis =
+  | { kind: 'cycle'; firstStep: number; repeatStep: number; period: number; states: string[] }
+  | { kind: 'drift'; step: number; state: string; directions: MoveDirection[] }
+  | { kind: 'step-limit'; limit: number };
+
+// A configuration kept for comparison. The tape key is the expensive part, so it is only
+// built when the state and heads already match.
+interface SavedConfiguration {
+  step: number;
+  state: string;
+  heads: string;
+  key: string;
+}
+
+// Brent's cycle detection: each configuration is compared with one saved at doubling
+// intervals, so memory stays constant however long the run. The first match is exactly one
+// period after the saved step. The detector is tied to one rule set and one unbroken run of
+// steps; callers start a new one after edits or time travel.
+export interface LoopDetector {
+  rules: TransitionRule[];
+  saved: SavedConfiguration;
+  // States passed through since the saved configuration, in order of first appearance
+  states: Set<string>;
+  interval: number;
+  sinceSaved: number;
+  lastStep: number;
+}
+
+const configurationKey = (machine: MachineState): string => {
+  const tapes = machine.tapes.map(tape =>
+    Object.keys(tape).map(Number).sort((a, b) => a - b).map(pos => `${pos}:${tape[pos]}`).join(',')
+  );
+  return `${machine.currentState}\u0000${machine.headPositions.join(',')}\u0000${tapes.join('\u0001')}`;
+};
+
+const saveConfiguration = (machine: MachineState): SavedConfiguration => ({
+  step: machine.stepCount,
+  state: machine.currentState,
+  heads: machine.headPositions.join(','),
+  key: configurationKey(machine),
+});
+
+export const createLoopDetector = (machine: MachineState, rules: TransitionRule[]): LoopDetector => ({
+  rules,
+  saved: saveConfiguration(machine),
+  states: new Set([machine.currentState]),
+  interval: 1,
+  sinceSaved: 0,
+  lastStep: machine.stepCount,
+});
+
+// True when `detector` saw the steps leading up to `machine` under these rules
+export const isDetectorCurrent = (detector: LoopDetector | null, machine: MachineState, rules: TransitionRule[]): detector is LoopDetector =>
+  !!detector && detector.rules === rules && detector.lastStep === machine.stepCount;
+
+const findDrift = (machine: MachineState, rules: TransitionRule[]): LoopDiagnosis | null => {
+  const blanks = machine.tapes.map(() => EMPTY_SYMBOL);
+  const ruleIndex = findRuleIndex(rules, machine.currentState, blanks);
+  if (ruleIndex === -1 || rules[ruleIndex].nextState !== machine.currentState) return null;
+
+  // A head on a written cell has not left the written stretch yet; checked first because it is cheap
+  if (machine.tapes.some((tape, t) => tape[machine.headPositions[t]] !== undefined)) return null;
+
+  const transitions = getRuleTransitions(rules[ruleIndex], machine.tapes.length);
+  const escapes = machine.tapes.every((tape, t) => {
+    const head = machine.headPositions[t];
+    const cells = Object.keys(tape).map(Number);
+    const { moveDirection, writeSymbol } = transitions[t];
+    if (moveDirection === 'R') return cells.every(pos => pos < head);
+    if (moveDirection === 'L') return cells.every(pos => pos > head);
+    // A head that stays put reads its own write next time, so it must leave the cell blank
+    return resolveWrite(writeSymbol, EMPTY_SYMBOL) === EMPTY_SYMBOL && tape[head] === undefined;
+  });
+  // All heads staying put on blanks is a one-configuration cycle, which cycle detection reports
+  if (!escapes || transitions.every(t => t.moveDirection === 'N')) return null;
+  return { kind: 'drift', step: machine.stepCount, state: machine.currentState, directions: transitions.map(t => t.moveDirection) };
+};
+
+// Records `machine`, the configuration one step after the detector's last one, and reports
+// a loop if it proves the machine will never halt or has reached `maxSteps`.
+export const checkForLoop = (
+  detector: LoopDetector,
+  machine: MachineState,
+  maxSteps = 0,
+): LoopDiagnosis | null => {
+  detector.lastStep = machine.stepCount;
+  if (isHalted(machine)) return null;
+
+  const { saved } = detector;
+  if (machine.currentState === saved.state && machine.headPositions.join(',') === saved.heads && configurationKey(machine) === saved.key) {
+    const period = machine.stepCount - saved.step;
+    return { kind: 'cycle', firstStep: saved.step, repeatStep: machine.stepCount, period, states: [...detector.states] };
+  }
+  if (++detector.sinceSaved === detector.interval) {
+    detector.saved = saveConfiguration(machine);
+    detector.states = new Set([machine.currentState]);
+    detector.interval *= 2;
+    detector.sinceSaved = 0;
+  } else {
+    detector.states.add(machine.currentState);
+  }
+
+  const drift = findDrift(machine, detector.rules);
+  if (drift) return drift;
+
+  if (maxSteps > 0 && machine.stepCount >= maxSteps) return { kind: 'step-limit', limit: maxSteps };
+  return null;
+};
+
+const DIRECTION_WORD: Record<MoveDirection, string> = { L: 'left', R: 'right', N: 'nowhere' };
+
+export const describeLoop = (loop: LoopDiagnosis): string => {
+  switch (loop.kind) {
+    case 'cycle':
+      return `Infinite loop: the configuration of step ${loop.firstStep} repeats at step ${loop.repeatStep} (period ${loop.period}) through ${loop.states.join(' → ')}.`;
+    case 'drift': {
+      const moves = loop.directions.length === 1
+        ? `the head moves ${DIRECTION_WORD[loop.directions[0]]}`
+        : `the heads move ${loop.directions.map(d => DIRECTION_WORD[d]).join(', ')}`;
+      return `Runs forever: from step ${loop.step}, in state ${loop.state} ${moves} into blank tape without end.`;
+    }
+    case 'step-limit':
+      return `Stopped at the step limit of ${loop.limit.toLocaleString()} steps without halting.`;
+  }
+};
+
+export interface LoopRunResult extends RunResult {
+  loop: LoopDiagnosis | null;
+}
+
+// `runUntilHalt` that also stops as soon as the machine is proven to loop
+export const runWithLoopDetection = (
+  machine: MachineState,
+  rules: TransitionRule[],
+  maxSteps: number,
+  options: StepOptions = {},
+): LoopRunResult => {
+  const detector = createLoopDetector(machine, rules);
+  let current = machine;
+  let steps = 0;
+  while (!isHalted(current)) {
+    const result = stepMachine(current, rules, options);
+    if (result.ruleIndex === null) {
+      current = result.machine;
+      break;
+    }
+    current = result.machine;
+    steps++;
+    const loop = checkForLoop(detector, current, machine.stepCount + maxSteps);
+    if (loop) return { machine: current, halted: false, steps, loop };
+  }
+  return { machine: current, halted: isHalted(current), steps, loop: null };
+};
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { loadMachine, runUntilHalt, stepMachine, getTapeString } from './simulator';
+import { exploreConfigurations, getBranchPath, getBranchRuleIndices } from './nondeterministic';
+
+const preset = PRESETS.find(p => p.name === 'Substring Guesser (NTM)')!;
+const OPTIONS = { maxDepth: 50, maxWidth: 16 };
+
+const explore = (input: string, options = OPTIONS) =>
+  exploreConfigurations(loadMachine({ ...preset, initialTape: input }), preset.rules, preset, options);
+
+describe('exploreConfigurations', () => {
+  it.each(['101', '0110101', '1101'])('finds an accepting branch for %s', (input) => {
+    const result = explore(input);
+
+    expect(result.acceptingNodeId).not.toBeNull();
+    expect(result.nodes[result.acceptingNodeId!].configuration.currentState).toBe('accept');
+  });
+
+  it.each(['', '0', '1001', '110011'])('rejects %s with every branch halted', (input) => {
+    const result = explore(input);
+
+    expect(result.acceptingNodeId).toBeNull();
+    expect(result.truncated).toBe(false);
+    expect(result.nodes.every(n => n.status !== 'open')).toBe(true);
+  });
+
+  it('stops a branch that enters a reject state', () => {
+    const result = exploreConfigurations(
+      loadMachine({ initialTape: '0', initialState: 'q' }),
+      [
+        { currentState: 'q', readSymbol: '0', writeSymbol: '0', moveDirection: 'R', nextState: 'no' },
+        { currentState: 'q', readSymbol: '0', writeSymbol: '0', moveDirection: 'R', nextState: 'q' },
+        { currentState: 'no', readSymbol: '_', writeSymbol: '_', moveDirection: 'N', nextState: 'yes' },
+      ],
+      { acceptStates: ['yes'], rejectStates: ['no'] },
+      OPTIONS
+    );
+
+    expect(result.acceptingNodeId).toBeNull();
+    expect(result.nodes.map(n => n.status)).toEqual(['expanded', 'rejected', 'stuck']);
+  });
+
+  it('branches once per matching rule', () => {
+    const result = explore('1');
+
+    expect(result.nodes[0].childIds.map(id => result.nodes[id].ruleIndex)).toEqual([1, 2]);
+  });
+
+  it('reports truncation when the depth limit is hit', () => {
+    const result = explore('0000000000', { ...OPTIONS, maxDepth: 3 });
+
+    expect(result.acceptingNodeId).toBeNull();
+    expect(result.truncated).toBe(true);
+  });
+
+  it('prunes levels wider than the width limit', () => {
+    const result = explore('1111111', { ...OPTIONS, maxWidth: 1 });
+
+    expect(result.truncated).toBe(true);
+    expect(result.nodes.some(n => n.status === 'pruned')).toBe(true);
+  });
+});
+
+describe('branch replay', () => {
+  it('reaches the accepting configuration by preferring the branch rules', () => {
+    const result = explore('0110101');
+    const branch = getBranchRuleIndices(result, result.acceptingNodeId!);
+
+    let machine = loadMachine({ ...preset, initialTape: '0110101' });
+    branch.forEach(ruleIndex => {
+      machine = stepMachine(machine, preset.rules, { preferredRuleIndex: ruleIndex }).machine;
+    });
+
+    expect(machine.currentState).toBe('accept');
+    expect(branch).toHaveLength(getBranchPath(result, result.acceptingNodeId!).length - 1);
+  });
+
+  it('falls back to the first match without a preference', () => {
+    const run = runUntilHalt(loadMachine(preset), preset.rules, 100);
+
+    expect(run.machine.currentState).toBe('scan');
+    expect(getTapeString(run.machine.tapes[0])).toBe('0110101');
+  });
+});
@@ -0,0 +1,132 @@
+import { FinalStates, MachineConfiguration, MachineState, TransitionRule } from '../types';
+import { applyRule, findRuleIndices, readSymbols, HaltOutcome } from './simulator';
+import { emptyHistory } from './history';
+
+// Breadth-first exploration of a nondeterministic machine's configuration tree.
+// Every matching rule spawns a child, so duplicate (state, symbols) pairs branch
+// instead of silently resolving to the first row of the table.
+
+// A branch ends like a deterministic run (see HaltOutcome); every ending other
+// than 'accepted' counts as rejecting.
+export type BranchStatus =
+  | HaltOutcome
+  | 'expanded'  // Children were generated
+  | 'open'      // Left unexplored because the depth limit was reached
+  | 'pruned';   // Dropped because the level exceeded the width limit
+
+export interface ConfigurationNode {
+  id: number;
+  parentId: number | null;
+  // Rule that led from the parent to this configuration
+  ruleIndex: number | null;
+  depth: number;
+  configuration: MachineConfiguration;
+  status: BranchStatus;
+  childIds: number[];
+}
+
+export interface ExplorationOptions {
+  maxDepth: number;
+  // Maximum number of configurations kept per level
+  maxWidth: number;
+  // Maximum number of configurations generated in total; unlimited when left out
+  maxNodes?: number;
+}
+
+export interface ExplorationResult {
+  nodes: ConfigurationNode[];
+  acceptingNodeId: number | null;
+  // True when a limit cut the search short, so "no accepting branch" is inconclusive
+  truncated: boolean;
+}
+
+export const exploreConfigurations = (
+  machine: MachineState,
+  rules: TransitionRule[],
+  finalStates: FinalStates,
+  options: ExplorationOptions
+): ExplorationResult => {
+  const nodes: ConfigurationNode[] = [];
+  let truncated = false;
+
+  const statusOf = (state: string): BranchStatus =>
+    finalStates.acceptStates?.includes(state) ? 'accepted'
+    : finalStates.rejectStates?.includes(state) ? 'rejected'
+    : finalStates.haltStates?.includes(state) ? 'halted'
+    : 'open';
+
+  const addNode = (parentId: number | null, ruleIndex: number | null, depth: number, state: MachineState): ConfigurationNode => {
+    const node: ConfigurationNode = {
+      id: nodes.length,
+      parentId,
+      ruleIndex,
+      depth,
+      configuration: { tapes: state.tapes, headPositions: state.headPositions, currentState: state.currentState },
+      status: statusOf(state.currentState),
+      childIds: [],
+    };
+    nodes.push(node);
+    if (parentId !== null) nodes[parentId].childIds.push(node.id);
+    return node;
+  };
+
+  const root = addNode(null, null, 0, machine);
+  if (root.status === 'accepted') {
+    return { nodes, acceptingNodeId: root.id, truncated };
+  }
+
+  // Frontier entries keep the full MachineState so rules can be applied to them
+  let frontier: { node: ConfigurationNode; state: MachineState }[] =
+    root.status === 'open' ? [{ node: root, state: { ...machine, history: emptyHistory() } }] : [];
+
+  for (let depth = 1; frontier.length > 0; depth++) {
+    if (depth > options.maxDepth) {
+      truncated = true;
+      break;
+    }
+
+    const next: typeof frontier = [];
+    for (const { node, state } of frontier) {
+      const candidates = findRuleIndices(rules, state.currentState, readSymbols(state));
+      if (candidates.length === 0) {
+        node.status = 'stuck';
+        continue;
+      }
+      node.status = 'expanded';
+
+      for (const ruleIndex of candidates) {
+        if (nodes.length >= (options.maxNodes ?? Infinity)) {
+          return { nodes, acceptingNodeId: null, truncated: true };
+        }
+        const childState = applyRule(state, rules[ruleIndex]);
+        const child = addNode(node.id, ruleIndex, depth, childState);
+        if (child.status === 'accepted') {
+          return { nodes, acceptingNodeId: child.id, truncated };
+        }
+        if (child.status !== 'open') continue;
+        if (next.length >= options.maxWidth) {
+          child.status = 'pruned';
+          truncated = true;
+        } else {
+          next.push({ node: child, state: childState });
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  return { nodes, acceptingNodeId: null, truncated };
+};
+
+// Nodes from the root down to `nodeId`
+export const getBranchPath = (result: ExplorationResult, nodeId: number): ConfigurationNode[] => {
+  const path: ConfigurationNode[] = [];
+  for (let node: ConfigurationNode | undefined = result.nodes[nodeId]; node; node = node.parentId === null ? undefined : result.nodes[node.parentId]) {
+    path.unshift(node);
+  }
+  return path;
+};
+
+// Rule indices to replay, in order, to reach `nodeId` from the root
+export const getBranchRuleIndices = (result: ExplorationResult, nodeId: number): number[] =>
+  getBranchPath(result, nodeId).slice(1).map(node => node.ruleIndex as number);
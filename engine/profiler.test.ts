@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { LogEntry, appendLog, createLogEntry, truncateLog } from './executionLog';
+import { loadMachine, stepMachine } from './simulator';
+import { profileLog, tapeCoverage } from './profiler';
+
+const increment = PRESETS.find(p => p.name === 'Binary Increment')!;
+
+const trace = (tape: string): LogEntry[] => {
+  let machine = loadMachine({ ...increment, initialTape: tape });
+  const log: LogEntry[] = [];
+  for (;;) {
+    const { machine: next, ruleIndex } = stepMachine(machine, increment.rules, { finalStates: increment });
+    if (ruleIndex === null) return log;
+    log.push(createLogEntry(machine, increment.rules[ruleIndex], ruleIndex));
+    machine = next;
+  }
+};
+
+describe('profileLog', () => {
+  it('counts rule hits, state steps, visits and rewrites', () => {
+    // 1011 + 1: right over four cells, back over the blank, then 1→0, 1→0, 0→1
+    const { profile } = profileLog(trace('1011'));
+    const [tape] = profile.tapes;
+
+    expect(profile.steps).toBe(8);
+    expect([...profile.ruleHits].sort()).toEqual([[0, 1], [1, 3], [2, 1], [3, 1], [4, 2]]);
+    expect(profile.stateSteps).toEqual(new Map([['start', 5], ['add', 3]]));
+    expect(tape.visits.get(3)).toBe(2);
+    expect(tape.visits.get(4)).toBe(1);
+    expect([...tape.writes.keys()].sort()).toEqual([1, 2, 3]);
+    expect(tapeCoverage(tape)).toEqual({ cells: 5, extent: 5 });
+    expect(tape).toMatchObject({ hottestVisit: 2, hottestWrite: 1 });
+  });
+
+  it('extends the previous profile as the log grows and recounts after a rewind', () => {
+    const full = trace('1011');
+    const first = profileLog(full.slice(0, 3));
+    const grown = profileLog(appendLog(first.log, 3, full.slice(3)), first);
+
+    expect(grown.profile).toEqual(profileLog(full).profile);
+    expect(grown.profile.ruleHits).toBe(first.profile.ruleHits);
+    expect(grown.profile).not.toBe(first.profile);
+
+    const rewound = profileLog(truncateLog(grown.log, 2), grown);
+    expect(rewound.profile).toEqual(profileLog(full.slice(0, 2)).profile);
+    expect(profileLog([], rewound).profile.steps).toBe(0);
+  });
+
+  it('keeps counting entries the log dropped from its front', () => {
+    const full = trace('1011');
+    const first = profileLog(full.slice(0, 5));
+    const capped = profileLog(full.slice(2), first);
+
+    expect(capped.profile.steps).toBe(8);
+  });
+
+  it('reports no coverage before the first step', () => {
+    expect(tapeCoverage(profileLog([]).profile.tapes[0])).toEqual({ cells: 0, extent: 0 });
+  });
+});
@@ -0,0 +1,88 @@
+import { LogEntry } from './executionLog';
+
+// Where a run's steps went, tallied from the execution log: how often each rule fired, how
+// many steps were spent in each state and how often each cell was read and rewritten. The
+// log is append-only while running, so a profile is extended with new entries rather than
+// recounted; rewinds and resets shorten the log and start the count over. Extending updates
+// the counts in place and only wraps them in a new profile object, so memoize on the profile
+// rather than on its maps.
+
+export interface TapeProfile {
+  // Steps that read each cell, by position
+  visits: Map<number, number>;
+  // Steps that changed each cell's symbol, by position
+  writes: Map<number, number>;
+  // Leftmost and rightmost cells read; null before the first step
+  min: number | null;
+  max: number | null;
+  // Highest count in visits and in writes, to scale the heatmap by
+  hottestVisit: number;
+  hottestWrite: number;
+}
+
+export interface ExecutionProfile {
+  // Steps counted, which is fewer than the step count when turbo runs left gaps in the log
+  steps: number;
+  // Steps by table row; a row that calls a machine also counts the steps taken inside it
+  ruleHits: Map<number, number>;
+  stateSteps: Map<string, number>;
+  tapes: TapeProfile[];
+}
+
+// The profile together with the log it was counted from, to extend on the next update
+export interface ProfileSnapshot {
+  log: LogEntry[];
+  profile: ExecutionProfile;
+}
+
+const emptyProfile = (): ExecutionProfile => ({ steps: 0, ruleHits: new Map(), stateSteps: new Map(), tapes: [] });
+
+// Never extended, so it is safe to share
+export const EMPTY_PROFILE: ExecutionProfile = emptyProfile();
+
+// Adds one to the key's count and returns the new count
+const bump = <K>(counts: Map<K, number>, key: K): number => {
+  const count = (counts.get(key) ?? 0) + 1;
+  counts.set(key, count);
+  return count;
+};
+
+// Counts the entries into the profile's maps, which belong to the returned profile from then on
+const addEntries = (profile: ExecutionProfile, entries: LogEntry[]): ExecutionProfile => {
+  if (entries.length === 0) return profile;
+  for (const entry of entries) {
+    bump(profile.ruleHits, entry.rule);
+    bump(profile.stateSteps, entry.state);
+    entry.headPositions.forEach((position, i) => {
+      const tape = profile.tapes[i] ??= { visits: new Map(), writes: new Map(), min: null, max: null, hottestVisit: 0, hottestWrite: 0 };
+      tape.hottestVisit = Math.max(tape.hottestVisit, bump(tape.visits, position));
+      if (entry.write[i] !== entry.read[i]) tape.hottestWrite = Math.max(tape.hottestWrite, bump(tape.writes, position));
+      tape.min = tape.min === null ? position : Math.min(tape.min, position);
+      tape.max = tape.max === null ? position : Math.max(tape.max, position);
+    });
+  }
+  return { ...profile, steps: profile.steps + entries.length };
+};
+
+// Index of `entry` in the log, found by its step; -1 once it has been truncated away
+const findEntry = (log: LogEntry[], entry: LogEntry): number => {
+  for (let i = log.length - 1; i >= 0 && log[i].step >= entry.step; i--) {
+    if (log[i] === entry) return i;
+  }
+  return -1;
+};
+
+// Profiles the log, counting only the entries added since `previous` when the log has grown
+// from it. Entries the log dropped from its front to stay under its cap remain counted.
+// `previous` is extended in place, so keep only the snapshot returned.
+export const profileLog = (log: LogEntry[], previous: ProfileSnapshot | null = null): ProfileSnapshot => {
+  if (previous && previous.log.length > 0) {
+    const last = findEntry(log, previous.log[previous.log.length - 1]);
+    if (last !== -1) return { log, profile: addEntries(previous.profile, log.slice(last + 1)) };
+  }
+  return { log, profile: addEntries(emptyProfile(), log) };
+};
+
+// Distinct cells read and the width of the stretch the head covered
+export const tapeCoverage = (tape: TapeProfile | undefined): { cells: number; extent: number } =>
+  !tape || tape.min === null || tape.max === null ? { cells: 0, extent: 0 } : { cells: tape.visits.size, extent: tape.max - tape.min + 1 };
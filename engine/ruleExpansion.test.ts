@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { TransitionRule } from '../types';
+import { expandRules, machineAlphabet, usesPatterns } from './ruleExpansion';
+import { getTapeString, loadMachine, runUntilHalt } from './simulator';
+
+const rule = (currentState: string, readSymbol: string, writeSymbol: string, moveDirection: 'L' | 'R' | 'N', nextState: string): TransitionRule =>
+  ({ currentState, readSymbol, writeSymbol, moveDirection, nextState });
+
+// Binary Increment with its "move right, keep symbol" rules folded into one
+const increment = {
+  initialTape: '1011',
+  initialState: 'start',
+  haltStates: ['done'],
+  rules: [
+    rule('start', '[01]', '*', 'R', 'start'),
+    rule('start', '_', '_', 'L', 'add'),
+    rule('add', '0', '1', 'L', 'done'),
+    rule('add', '1', '0', 'L', 'add'),
+    rule('add', '_', '1', 'R', 'done'),
+  ],
+};
+
+describe('expandRules', () => {
+  it('writes a class rule out as the plain rules it stands for', () => {
+    const plain = PRESETS.find(p => p.name === 'Binary Increment')!;
+    expect(expandRules(increment)).toEqual(plain.rules);
+  });
+
+  it('skips the symbols a more specific rule already handles', () => {
+    const rules = [rule('a', '*', '*', 'R', 'a'), rule('a', '1', 'x', 'N', 'done')];
+    expect(expandRules({ rules, initialTape: '01', initialState: 'a' })).toEqual([
+      rule('a', '_', '_', 'R', 'a'),
+      rule('a', '0', '0', 'R', 'a'),
+      rule('a', 'x', 'x', 'R', 'a'),
+      rule('a', '1', 'x', 'N', 'done'),
+    ]);
+  });
+
+  it('keeps every equally specific branch of a nondeterministic machine', () => {
+    const rules = [rule('a', '[01]', '*', 'R', 'b'), rule('a', '[12]', '*', 'R', 'c')];
+    const expanded = expandRules({ rules, initialTape: '', initialState: 'a', nondeterministic: true });
+    expect(expanded.map(r => `${r.readSymbol}${r.nextState}`)).toEqual(['0b', '1b', '1c', '2c']);
+  });
+
+  it('expands every tape of a multi-tape rule', () => {
+    const rules: TransitionRule[] = [{ ...rule('a', '[01]', '*', 'R', 'a'), extraTapes: [{ readSymbol: '*', writeSymbol: 'x', moveDirection: 'N' }] }];
+    const expanded = expandRules({ rules, initialTape: '0', initialState: 'a', tapeCount: 2 }, ['_', '0', '1']);
+    expect(expanded).toHaveLength(6);
+    expect(expanded.some(usesPatterns)).toBe(false);
+    expect(expanded[0]).toEqual({ ...rule('a', '0', '0', 'R', 'a'), extraTapes: [{ readSymbol: '_', writeSymbol: 'x', moveDirection: 'N' }] });
+  });
+
+  it('leaves the machine computing the same thing', () => {
+    const run = (rules: TransitionRule[]) =>
+      getTapeString(runUntilHalt(loadMachine(increment), rules, 1_000, { finalStates: increment }).machine.tapes[0]);
+    expect(run(expandRules(increment))).toBe(run(increment.rules));
+  });
+
+  it('gathers the alphabet from the tape, tests and rules', () => {
+    const alphabet = machineAlphabet({ ...increment, tests: [{ input: 'ab', expectedOutput: '' }] });
+    expect(alphabet.sort()).toEqual(['0', '1', '_', 'a', 'b']);
+  });
+});
@@ -0,0 +1,57 @@
+import { TestCase, TransitionRule } from '../types';
+import { ANY_SYMBOL, EMPTY_SYMBOL } from '../constants';
+import {
+  MachineDefinition, findRuleIndex, findRuleIndices, getClassMembers, getRuleTransitions, isSymbolClass, isSymbolPattern,
+  resolveWrite, withRuleTransitions,
+} from './simulator';
+
+// Turns rules that read `*` or a symbol class, or write `*`, back into plain one-symbol rules.
+// Each pattern rule becomes one rule per symbol tuple it would actually fire on, so the
+// expanded table behaves exactly like the original for every symbol in the alphabet.
+
+export type ExpandableMachine = MachineDefinition & { nondeterministic?: boolean; tests?: TestCase[] };
+
+export const usesPatterns = (rule: TransitionRule): boolean =>
+  [rule, ...(rule.extraTapes ?? [])].some(t => isSymbolPattern(t.readSymbol) || t.writeSymbol === ANY_SYMBOL);
+
+// Every symbol the machine can meet: the blank, its inputs and whatever its rules name
+export const machineAlphabet = (definition: ExpandableMachine): string[] => {
+  const symbols = new Set([EMPTY_SYMBOL]);
+  const add = (symbol: string) => {
+    if (isSymbolClass(symbol)) getClassMembers(symbol).forEach(s => symbols.add(s));
+    else if (symbol !== ANY_SYMBOL) symbols.add(symbol);
+  };
+  [definition.initialTape, ...(definition.tests ?? []).map(t => t.input)].forEach(tape => [...tape].forEach(add));
+  definition.rules.forEach(rule => [rule, ...(rule.extraTapes ?? [])].forEach(t => {
+    add(t.readSymbol);
+    add(t.writeSymbol);
+  }));
+  return [...symbols];
+};
+
+const cartesian = (lists: string[][]): string[][] =>
+  lists.reduce<string[][]>((tuples, list) => tuples.flatMap(tuple => list.map(symbol => [...tuple, symbol])), [[]]);
+
+export const expandRules = (definition: ExpandableMachine, alphabet = machineAlphabet(definition)): TransitionRule[] => {
+  const { rules } = definition;
+  const tapeCount = Math.max(1, definition.tapeCount ?? 1);
+  const fires = (index: number, state: string, symbols: string[]) =>
+    definition.nondeterministic
+      ? findRuleIndices(rules, state, symbols).includes(index)
+      : findRuleIndex(rules, state, symbols) === index;
+
+  return rules.flatMap((rule, index) => {
+    if (!usesPatterns(rule)) return [rule];
+    const transitions = getRuleTransitions(rule, tapeCount);
+    const candidates = transitions.map(t =>
+      t.readSymbol === ANY_SYMBOL ? alphabet : isSymbolClass(t.readSymbol) ? getClassMembers(t.readSymbol) : [t.readSymbol]
+    );
+    return cartesian(candidates)
+      .filter(symbols => fires(index, rule.currentState, symbols))
+      .map(symbols => withRuleTransitions(rule, transitions.map((t, i) => ({
+        readSymbol: symbols[i],
+        writeSymbol: resolveWrite(t.writeSymbol, symbols[i]),
+        moveDirection: t.moveDirection,
+      }))));
+  });
+};
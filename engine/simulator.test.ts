@@ -0,0 +1,283 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import {
+  loadMachine,
+  stepMachine,
+  runUntilHalt,
+  getTapeString,
+  parseTapeString,
+  snapshotMachine,
+  restoreMachine,
+  rewindTo,
+  stepBack,
+  earliestStep,
+  isHalted,
+  getHaltOutcome,
+  HaltOutcome,
+  findRuleIndex,
+  findRuleIndices,
+  getClassMembers,
+  symbolMatches,
+  writeCell,
+  moveHead,
+} from './simulator';
+import { TransitionRule } from '../types';
+import { historyLength } from './history';
+
+const STEP_BUDGET = 10_000;
+
+// Expected final tapes and outcome per preset; a null outcome marks machines that are meant to run forever
+const EXPECTED: Record<string, { tapes: string[]; outcome: HaltOutcome | null }> = {
+  'Binary Increment': { tapes: ['1100'], outcome: 'halted' },
+  'Palindrome Detector': { tapes: ['Y'], outcome: 'accepted' },
+  'Ping Pong': { tapes: ['1_0_0_0_1'], outcome: null },
+  'Unary Addition': { tapes: ['11111'], outcome: 'halted' },
+  'Unary Subtraction': { tapes: ['1'], outcome: 'halted' },
+  // Deterministic stepping never takes the guessing rule, so the scan runs off the end
+  'Substring Guesser (NTM)': { tapes: ['0110101'], outcome: 'stuck' },
+  'Binary Addition (2 Tapes)': { tapes: ['1011', '10001'], outcome: 'halted' },
+  'Busy Beaver (2 States)': { tapes: ['1111'], outcome: 'halted' },
+  'Busy Beaver (3 States)': { tapes: ['11111'], outcome: 'halted' },
+  'Busy Beaver (4 States)': { tapes: ['1_111111111111'], outcome: 'halted' },
+  'Busy Beaver (2 States, 3 Symbols)': { tapes: ['222222212'], outcome: 'halted' },
+  // Binary Increment on 1011, simulated: tape 2 decodes to 1100 and tape 3 to its halt state
+  'Universal Turing Machine': {
+    tapes: ['DADCDCRDA;DADCCDCCRDA;DADDLDAA;DAADCDCCLDAAA;DAADCCDCLDAA;DAADDCCRDAAA;#ECCDCADCCDCC', 'DCCDCCDCADCADAA', 'AAA', 'CC'],
+    outcome: 'halted',
+  },
+};
+
+describe('presets', () => {
+  it.each(PRESETS.map(p => [p.name, p] as const))('%s produces the expected tape', (name, preset) => {
+    const expected = EXPECTED[name];
+    expect(expected, `no expectation recorded for preset "${name}"`).toBeDefined();
+
+    const result = runUntilHalt(loadMachine(preset), preset.rules, STEP_BUDGET, { finalStates: preset });
+
+    expect(result.halted).toBe(expected.outcome !== null);
+    expect(getHaltOutcome(result.machine, preset)).toBe(expected.outcome);
+    expect(result.machine.tapes.map(getTapeString)).toEqual(expected.tapes);
+  });
+});
+
+describe('stepMachine', () => {
+  const preset = PRESETS.find(p => p.name === 'Binary Increment')!;
+
+  it('applies the matching rule and reports its index', () => {
+    const { machine, ruleIndex } = stepMachine(loadMachine(preset), preset.rules);
+
+    expect(ruleIndex).toBe(1);
+    expect(machine.headPositions).toEqual([1]);
+    expect(machine.currentState).toBe('start');
+    expect(machine.stepCount).toBe(1);
+  });
+
+  it('gets stuck without consuming a step when no rule matches', () => {
+    const start = loadMachine({ initialTape: '1', initialState: 'nowhere' });
+    const { machine, ruleIndex } = stepMachine(start, preset.rules);
+
+    expect(ruleIndex).toBeNull();
+    expect(machine.status).toBe('ERROR');
+    expect(getHaltOutcome(machine, preset)).toBe('stuck');
+    expect(machine.stepCount).toBe(0);
+  });
+
+  it('halts on the step that enters a final state', () => {
+    const start = loadMachine({ initialTape: '10', initialState: 'add' });
+    const { machine, ruleIndex } = stepMachine({ ...start, headPositions: [1] }, preset.rules, { finalStates: preset });
+
+    expect(ruleIndex).toBe(3);
+    expect(machine.status).toBe('HALTED');
+    expect(machine.stepCount).toBe(1);
+  });
+
+  it('does not leave a final state even if rules continue from it', () => {
+    const rules = [{ currentState: 'stop', readSymbol: '_', writeSymbol: '1', moveDirection: 'R' as const, nextState: 'stop' }];
+    const run = runUntilHalt(loadMachine({ initialTape: '', initialState: 'stop' }), rules, STEP_BUDGET, { finalStates: { haltStates: ['stop'] } });
+
+    expect(run.steps).toBe(0);
+    expect(run.machine.status).toBe('HALTED');
+  });
+
+  it('agrees with runUntilHalt step for step', () => {
+    let machine = loadMachine(preset);
+    while (!isHalted(machine)) {
+      machine = stepMachine(machine, preset.rules, { finalStates: preset }).machine;
+    }
+    const run = runUntilHalt(loadMachine(preset), preset.rules, STEP_BUDGET, { finalStates: preset });
+
+    expect(run.machine).toEqual(machine);
+  });
+});
+
+describe('multi-tape', () => {
+  const preset = PRESETS.find(p => p.name === 'Binary Addition (2 Tapes)')!;
+
+  it.each([
+    ['0+0', '0'],
+    ['1+1', '10'],
+    ['111+1', '1000'],
+    ['1+', '1'],
+    ['+101', '101'],
+  ])('adds %s into %s on the second tape', (input, sum) => {
+    const result = runUntilHalt(loadMachine({ ...preset, initialTape: input }), preset.rules, STEP_BUDGET, { finalStates: preset });
+
+    expect(getHaltOutcome(result.machine, preset)).toBe('halted');
+    expect(getTapeString(result.machine.tapes[1])).toBe(sum);
+  });
+
+  it('treats tapes a rule does not mention as blank and untouched', () => {
+    const single = PRESETS.find(p => p.name === 'Binary Increment')!;
+    const result = runUntilHalt(loadMachine({ ...single, tapeCount: 3 }), single.rules, STEP_BUDGET);
+
+    expect(result.machine.tapes.map(getTapeString)).toEqual(['1100', '', '']);
+    expect(result.machine.headPositions.slice(1)).toEqual([0, 0]);
+  });
+});
+
+describe('symbol patterns', () => {
+  const rule = (readSymbol: string, writeSymbol: string, nextState: string): TransitionRule =>
+    ({ currentState: 'a', readSymbol, writeSymbol, moveDirection: 'N', nextState });
+
+  it('matches * against anything and a class against its members', () => {
+    expect(['0', '_', 'x'].every(s => symbolMatches('*', s))).toBe(true);
+    expect(getClassMembers('[0-3_]')).toEqual(['0', '1', '2', '3', '_']);
+    expect(symbolMatches('[01]', '1')).toBe(true);
+    expect(symbolMatches('[01]', '_')).toBe(false);
+  });
+
+  it('prefers an exact symbol over a class and a class over *, whatever the order', () => {
+    const rules = [rule('*', '*', 'any'), rule('[01]', '*', 'class'), rule('1', '*', 'exact')];
+
+    expect(findRuleIndex(rules, 'a', ['1'])).toBe(2);
+    expect(findRuleIndex(rules, 'a', ['0'])).toBe(1);
+    expect(findRuleIndex(rules, 'a', ['_'])).toBe(0);
+  });
+
+  it('breaks ties by table order, and only the most specific rules branch', () => {
+    const rules = [rule('*', '*', 'any'), rule('[01]', '*', 'first'), rule('[0-9]', '*', 'second')];
+
+    expect(findRuleIndex(rules, 'a', ['0'])).toBe(1);
+    expect(findRuleIndices(rules, 'a', ['0'])).toEqual([1, 2]);
+  });
+
+  it('ranks multi-tape rules by how many tapes they match exactly', () => {
+    const rules: TransitionRule[] = [
+      { ...rule('1', '*', 'one'), extraTapes: [{ readSymbol: '*', writeSymbol: '*', moveDirection: 'N' }] },
+      { ...rule('*', '*', 'two'), extraTapes: [{ readSymbol: '0', writeSymbol: '*', moveDirection: 'N' }] },
+      { ...rule('[01]', '*', 'three'), extraTapes: [{ readSymbol: '0', writeSymbol: '*', moveDirection: 'N' }] },
+    ];
+
+    expect(findRuleIndex(rules, 'a', ['1', '0'])).toBe(2);
+    expect(findRuleIndex(rules, 'a', ['1', '1'])).toBe(0);
+  });
+
+  it('writes back the symbol read when a rule writes *', () => {
+    const rules: TransitionRule[] = [
+      { currentState: 'start', readSymbol: '[01]', writeSymbol: '*', moveDirection: 'R', nextState: 'start' },
+      { currentState: 'start', readSymbol: '_', writeSymbol: '_', moveDirection: 'L', nextState: 'add' },
+      { currentState: 'add', readSymbol: '0', writeSymbol: '1', moveDirection: 'L', nextState: 'done' },
+      { currentState: 'add', readSymbol: '1', writeSymbol: '0', moveDirection: 'L', nextState: 'add' },
+      { currentState: 'add', readSymbol: '_', writeSymbol: '1', moveDirection: 'R', nextState: 'done' },
+    ];
+    const result = runUntilHalt(loadMachine({ initialTape: '1011', initialState: 'start' }), rules, STEP_BUDGET, { finalStates: { haltStates: ['done'] } });
+
+    expect(getTapeString(result.machine.tapes[0])).toBe('1100');
+  });
+});
+
+describe('runUntilHalt', () => {
+  it('stops once the budget is spent', () => {
+    const preset = PRESETS.find(p => p.name === 'Ping Pong')!;
+    const result = runUntilHalt(loadMachine(preset), preset.rules, 25);
+
+    expect(result.halted).toBe(false);
+    expect(result.steps).toBe(25);
+    expect(result.machine.stepCount).toBe(25);
+  });
+});
+
+describe('history', () => {
+  const preset = PRESETS.find(p => p.name === 'Palindrome Detector')!;
+
+  it('rewinds to every earlier configuration exactly', () => {
+    const configs = [loadMachine(preset)];
+    let machine = configs[0];
+    while (!isHalted(machine)) {
+      machine = stepMachine(machine, preset.rules, { historyLimit: 1000, finalStates: preset }).machine;
+      configs.push(machine);
+    }
+
+    for (let target = 0; target < machine.stepCount; target++) {
+      const rewound = rewindTo(machine, target);
+      expect(rewound.tapes).toEqual(configs[target].tapes);
+      expect(rewound.headPositions).toEqual(configs[target].headPositions);
+      expect(rewound.currentState).toBe(configs[target].currentState);
+      expect(rewound.stepCount).toBe(target);
+    }
+  });
+
+  it('drops the oldest records past the limit', () => {
+    let machine = loadMachine(preset);
+    for (let i = 0; i < 10; i++) {
+      machine = stepMachine(machine, preset.rules, { historyLimit: 4 }).machine;
+    }
+
+    expect(historyLength(machine.history)).toBe(4);
+    expect(earliestStep(machine)).toBe(6);
+    expect(rewindTo(machine, 0).stepCount).toBe(6);
+  });
+
+  it('steps back into a resumable state', () => {
+    const run = runUntilHalt(loadMachine(preset), preset.rules, STEP_BUDGET, { historyLimit: 1000, finalStates: preset }).machine;
+    const previous = stepBack(run);
+
+    expect(previous.status).toBe('PAUSED');
+    expect(stepMachine(previous, preset.rules).machine.tapes).toEqual(run.tapes);
+  });
+});
+
+describe('hand edits', () => {
+  const preset = PRESETS.find(p => p.name === 'Binary Increment')!;
+
+  it('starts the head where the machine says', () => {
+    expect(loadMachine({ ...preset, initialHead: 2, tapeCount: 2 }).headPositions).toEqual([2, 0]);
+    const run = runUntilHalt(loadMachine({ ...preset, initialTape: '11_1', initialHead: 3 }), preset.rules, STEP_BUDGET, { finalStates: preset }).machine;
+    expect(getTapeString(run.tapes[0])).toBe('1110');
+  });
+
+  it('edits the configuration mid-run, keeping the step count but not the history', () => {
+    const midway = runUntilHalt(loadMachine(preset), preset.rules, 4, { historyLimit: 1000 }).machine;
+    const edited = moveHead(writeCell(writeCell(midway, 0, 1, '1'), 0, 0, '_'), 0, 1);
+
+    expect(getTapeString(edited.tapes[0])).toBe('111');
+    expect(edited).toMatchObject({ headPositions: [1], stepCount: 4, status: midway.status });
+    expect(historyLength(edited.history)).toBe(0);
+    expect(getTapeString(midway.tapes[0])).toBe('1011');
+    expect(earliestStep(edited)).toBe(4);
+  });
+
+  it('lets a stuck machine try again after an edit', () => {
+    const rules: TransitionRule[] = [{ currentState: 'a', readSymbol: '1', writeSymbol: '1', moveDirection: 'N', nextState: 'done' }];
+    const stuck = stepMachine(loadMachine({ initialTape: '0', initialState: 'a' }), rules).machine;
+    const fixed = writeCell(stuck, 0, 0, '1');
+
+    expect(stuck.status).toBe('ERROR');
+    expect(fixed.status).toBe('PAUSED');
+    expect(stepMachine(fixed, rules, { finalStates: { haltStates: ['done'] } }).machine.status).toBe('HALTED');
+  });
+});
+
+describe('snapshots', () => {
+  it('restores an independent copy of the configuration', () => {
+    const preset = PRESETS.find(p => p.name === 'Unary Addition')!;
+    const midway = runUntilHalt(loadMachine(preset), preset.rules, 3).machine;
+    const snapshot = snapshotMachine(midway);
+
+    const finished = runUntilHalt(restoreMachine(snapshot), preset.rules, STEP_BUDGET).machine;
+    const replayed = runUntilHalt(restoreMachine(snapshot), preset.rules, STEP_BUDGET).machine;
+
+    expect(snapshot.tapes).toEqual([parseTapeString('111+11')]);
+    expect(finished).toEqual(replayed);
+  });
+});
@@ -0,0 +1,339 @@
+import { FinalStates, History, MachineConfiguration, MachineState, MoveDirection, Preset, Tape, TapeTransition, TransitionRule } from '../types';
+import { ANY_SYMBOL, EMPTY_SYMBOL } from '../constants';
+import { appendHistory, dropLatest, emptyHistory, historyEntry, historyLength } from './history';
+
+// Headless Turing machine engine. Everything here is pure: functions take a
+// MachineState and return a new one, so the same code drives the UI, the
+// interval runner and the unit tests.
+
+export type MachineDefinition = Pick<Preset, 'rules' | 'initialTape' | 'initialState' | 'initialHead' | 'tapeCount'> & FinalStates;
+
+export interface StepResult {
+  machine: MachineState;
+  // Index of the rule that fired, or null if the machine halted without moving
+  ruleIndex: number | null;
+}
+
+export interface StepOptions {
+  // Keep up to this many undo records in `history`; 0 disables recording
+  historyLimit?: number;
+  // Fire this rule instead of the first match when it applies (used to follow a nondeterministic branch)
+  preferredRuleIndex?: number;
+  // Entering one of these states halts the machine
+  finalStates?: FinalStates;
+}
+
+// How a halted machine stopped: in an accept, reject or plain halt state, or stuck
+// in some other state because no rule applied
+export type HaltOutcome = 'accepted' | 'rejected' | 'halted' | 'stuck';
+
+export interface RunResult {
+  machine: MachineState;
+  halted: boolean;
+  steps: number;
+}
+
+export type MachineSnapshot = MachineConfiguration & Pick<MachineState, 'status' | 'stepCount'>;
+
+// --- Tape Helpers ---
+
+export const parseTapeString = (str: string): Tape => {
+  const tape: Tape = {};
+  str.split('').forEach((char, idx) => {
+    if (char !== EMPTY_SYMBOL) tape[idx] = char;
+  });
+  return tape;
+};
+
+export const getTapeString = (tape: Tape): string => {
+  const indices = Object.keys(tape).map(Number).sort((a, b) => a - b);
+  if (indices.length === 0) return '';
+  const min = indices[0];
+  const max = indices[indices.length - 1];
+  let str = '';
+  for (let i = min; i <= max; i++) {
+    str += tape[i] || EMPTY_SYMBOL;
+  }
+  // Trim surrounding empty symbols for cleaner display
+  return str.replace(/^_+|_+$/g, '');
+};
+
+export const readSymbolAt = (tape: Tape, position: number): string => tape[position] || EMPTY_SYMBOL;
+
+export const writeSymbolAt = (tape: Tape, position: number, symbol: string): Tape => {
+  const newTape = { ...tape };
+  if (symbol === EMPTY_SYMBOL) {
+    delete newTape[position];
+  } else {
+    newTape[position] = symbol;
+  }
+  return newTape;
+};
+
+const moveOffset = (direction: MoveDirection): number =>
+  direction === 'L' ? -1 : direction === 'R' ? 1 : 0;
+
+// --- Symbol Patterns ---
+
+// Besides a single symbol, a rule can read `*` (any symbol, blank included) or a class such as
+// `[01]` or `[a-z_]`, and write `*` to leave the cell as it was. When several rules match, the
+// most specific wins: on each tape an exact symbol beats a class, which beats `*`, and ties
+// go to the rule listed first.
+
+export const isSymbolClass = (pattern: string): boolean =>
+  pattern.length > 2 && pattern.startsWith('[') && pattern.endsWith(']');
+
+const classCache = new Map<string, Set<string>>();
+
+const parseClass = (pattern: string): Set<string> => {
+  const cached = classCache.get(pattern);
+  if (cached) return cached;
+  const chars = [...pattern.slice(1, -1)];
+  const members = new Set<string>();
+  for (let i = 0; i < chars.length; i++) {
+    if (chars[i + 1] === '-' && i + 2 < chars.length) {
+      const [from, to] = [chars[i].codePointAt(0)!, chars[i + 2].codePointAt(0)!];
+      for (let code = from; code <= to; code++) members.add(String.fromCodePoint(code));
+      i += 2;
+    } else {
+      members.add(chars[i]);
+    }
+  }
+  classCache.set(pattern, members);
+  return members;
+};
+
+// The symbols a class such as `[0-3_]` stands for, in order
+export const getClassMembers = (pattern: string): string[] => [...parseClass(pattern)];
+
+export const isSymbolPattern = (symbol: string): boolean => symbol === ANY_SYMBOL || isSymbolClass(symbol);
+
+export const symbolMatches = (pattern: string, symbol: string): boolean =>
+  pattern === symbol || pattern === ANY_SYMBOL || (isSymbolClass(pattern) && parseClass(pattern).has(symbol));
+
+// What a rule writing `write` leaves in a cell that held `read`
+export const resolveWrite = (write: string, read: string): string => (write === ANY_SYMBOL ? read : write);
+
+const patternRank = (pattern: string): number => (pattern === ANY_SYMBOL ? 0 : isSymbolClass(pattern) ? 1 : 2);
+
+// --- Rules ---
+
+// Tapes a rule does not mention are expected blank and left untouched
+const IDLE_TRANSITION: TapeTransition = { readSymbol: EMPTY_SYMBOL, writeSymbol: EMPTY_SYMBOL, moveDirection: 'N' };
+
+// The rule's per-tape transitions as a tuple of length `tapeCount`
+export const getRuleTransitions = (rule: TransitionRule, tapeCount: number): TapeTransition[] => {
+  const transitions: TapeTransition[] = [rule, ...(rule.extraTapes ?? [])];
+  for (let i = 0; i < tapeCount; i++) {
+    transitions[i] = transitions[i] ?? IDLE_TRANSITION;
+  }
+  return transitions.slice(0, tapeCount);
+};
+
+// Inverse of getRuleTransitions: packs a transition tuple back into a rule
+export const withRuleTransitions = (rule: TransitionRule, transitions: TapeTransition[]): TransitionRule => {
+  const [first, ...rest] = transitions;
+  const { extraTapes, ...base } = rule;
+  const next: TransitionRule = { ...base, readSymbol: first.readSymbol, writeSymbol: first.writeSymbol, moveDirection: first.moveDirection };
+  if (rest.length > 0) next.extraTapes = rest.map(t => ({ ...t }));
+  return next;
+};
+
+export const ruleMatches = (rule: TransitionRule, state: string, symbols: string[]): boolean =>
+  rule.currentState === state &&
+  getRuleTransitions(rule, symbols.length).every((t, i) => symbolMatches(t.readSymbol, symbols[i]));
+
+// How specific a rule's reads are; a rule reading only exact symbols scores 2 per tape
+export const ruleSpecificity = (rule: TransitionRule, tapeCount: number): number =>
+  getRuleTransitions(rule, tapeCount).reduce((sum, t) => sum + patternRank(t.readSymbol), 0);
+
+// The rule that fires: the most specific match, or the first of equally specific ones
+export const findRuleIndex = (rules: TransitionRule[], state: string, symbols: string[]): number => {
+  const exact = symbols.length * 2;
+  let best = -1;
+  let bestScore = -1;
+  for (let i = 0; i < rules.length; i++) {
+    if (!ruleMatches(rules[i], state, symbols)) continue;
+    const score = ruleSpecificity(rules[i], symbols.length);
+    if (score > bestScore) {
+      best = i;
+      bestScore = score;
+      if (score === exact) break;
+    }
+  }
+  return best;
+};
+
+// Every matching rule of the highest specificity, in table order. More than one means the machine branches here.
+export const findRuleIndices = (rules: TransitionRule[], state: string, symbols: string[]): number[] => {
+  const matches = rules.reduce<number[]>((acc, r, i) => (ruleMatches(r, state, symbols) ? [...acc, i] : acc), []);
+  const scores = matches.map(i => ruleSpecificity(rules[i], symbols.length));
+  const top = Math.max(...scores);
+  return matches.filter((_, k) => scores[k] === top);
+};
+
+// --- Machine Lifecycle ---
+
+export const loadMachine = (definition: Pick<MachineDefinition, 'initialTape' | 'initialState' | 'initialHead' | 'tapeCount'>): MachineState => {
+  const tapeCount = Math.max(1, definition.tapeCount ?? 1);
+  return {
+    tapes: [parseTapeString(definition.initialTape), ...Array.from({ length: tapeCount - 1 }, () => ({}))],
+    headPositions: [definition.initialHead ?? 0, ...new Array(tapeCount - 1).fill(0)],
+    currentState: definition.initialState,
+    status: 'IDLE',
+    stepCount: 0,
+    history: emptyHistory(),
+  };
+};
+
+export const readSymbols = (machine: MachineConfiguration): string[] =>
+  machine.tapes.map((tape, i) => readSymbolAt(tape, machine.headPositions[i]));
+
+export const isHalted = (machine: MachineState): boolean =>
+  machine.status === 'HALTED' || machine.status === 'ERROR';
+
+export const isFinalState = (finalStates: FinalStates, state: string): boolean =>
+  !!(finalStates.acceptStates?.includes(state) || finalStates.rejectStates?.includes(state) || finalStates.haltStates?.includes(state));
+
+export const getHaltOutcome = (machine: MachineState, finalStates: FinalStates): HaltOutcome | null => {
+  if (machine.status === 'ERROR') return 'stuck';
+  if (machine.status !== 'HALTED') return null;
+  if (finalStates.acceptStates?.includes(machine.currentState)) return 'accepted';
+  if (finalStates.rejectStates?.includes(machine.currentState)) return 'rejected';
+  return 'halted';
+};
+
+// Fires `rule` on the current configuration. The caller is responsible for checking it matches.
+export const applyRule = (machine: MachineState, rule: TransitionRule, options: StepOptions = {}): MachineState => {
+  const transitions = getRuleTransitions(rule, machine.tapes.length);
+  const { historyLimit = 0 } = options;
+  // History must stay contiguous up to the current step, so it is dropped when not recording
+  const history = historyLimit > 0
+    ? appendHistory(machine.history, { headPositions: machine.headPositions, currentState: machine.currentState, readSymbols: readSymbols(machine) }, historyLimit)
+    : emptyHistory();
+
+  return {
+    ...machine,
+    tapes: machine.tapes.map((tape, i) => {
+      const position = machine.headPositions[i];
+      return writeSymbolAt(tape, position, resolveWrite(transitions[i].writeSymbol, readSymbolAt(tape, position)));
+    }),
+    headPositions: machine.headPositions.map((pos, i) => pos + moveOffset(transitions[i].moveDirection)),
+    currentState: rule.nextState,
+    stepCount: machine.stepCount + 1,
+    history,
+  };
+};
+
+export const stepMachine = (machine: MachineState, rules: TransitionRule[], options: StepOptions = {}): StepResult => {
+  if (isHalted(machine)) {
+    return { machine, ruleIndex: null };
+  }
+
+  const { preferredRuleIndex, finalStates = {} } = options;
+  if (isFinalState(finalStates, machine.currentState)) {
+    return { machine: { ...machine, status: 'HALTED' }, ruleIndex: null };
+  }
+
+  const symbols = readSymbols(machine);
+  const ruleIndex = preferredRuleIndex !== undefined && rules[preferredRuleIndex] && ruleMatches(rules[preferredRuleIndex], machine.currentState, symbols)
+    ? preferredRuleIndex
+    : findRuleIndex(rules, machine.currentState, symbols);
+
+  if (ruleIndex === -1) {
+    return { machine: { ...machine, status: 'ERROR' }, ruleIndex: null };
+  }
+
+  const next = applyRule(machine, rules[ruleIndex], options);
+  // Entering a final state halts right away rather than on the next step
+  return { machine: isFinalState(finalStates, next.currentState) ? { ...next, status: 'HALTED' } : next, ruleIndex };
+};
+
+// Runs until the machine halts or the step budget is spent. `halted` is false
+// when the budget ran out first, which is how callers spot non-terminating machines.
+export const runUntilHalt = (machine: MachineState, rules: TransitionRule[], maxSteps: number, options: StepOptions = {}): RunResult => {
+  let current = machine;
+  let steps = 0;
+  while (!isHalted(current)) {
+    const result = stepMachine(current, rules, options);
+    // Budget spent: the machine still wanted to move, so discard that step
+    if (result.ruleIndex !== null && steps >= maxSteps) break;
+    current = result.machine;
+    if (result.ruleIndex !== null) steps++;
+  }
+  return { machine: current, halted: isHalted(current), steps };
+};
+
+// --- Time Travel ---
+
+// Earliest step that can still be reached by rewinding
+export const earliestStep = (machine: MachineState): number => machine.stepCount - historyLength(machine.history);
+
+// Undoes steps until `stepCount` equals `targetStep` (clamped to the recorded history).
+export const rewindTo = (machine: MachineState, targetStep: number): MachineState => {
+  const length = historyLength(machine.history);
+  const count = Math.min(machine.stepCount - targetStep, length);
+  if (count <= 0) return machine;
+
+  const tapes = machine.tapes.map(tape => ({ ...tape }));
+  let entry = historyEntry(machine.history, length - 1)!;
+  for (let i = length - 1; i >= length - count; i--) {
+    entry = historyEntry(machine.history, i)!;
+    entry.readSymbols.forEach((symbol, t) => {
+      if (symbol === EMPTY_SYMBOL) {
+        delete tapes[t][entry.headPositions[t]];
+      } else {
+        tapes[t][entry.headPositions[t]] = symbol;
+      }
+    });
+  }
+
+  const stepCount = machine.stepCount - count;
+  return {
+    ...machine,
+    tapes,
+    headPositions: entry.headPositions,
+    currentState: entry.currentState,
+    stepCount,
+    status: stepCount === 0 ? 'IDLE' : 'PAUSED',
+    history: dropLatest(machine.history, count),
+  };
+};
+
+export const stepBack = (machine: MachineState): MachineState => rewindTo(machine, machine.stepCount - 1);
+
+// --- Hand Edits ---
+
+// The undo records describe how the old configuration was reached, so an edit drops them and
+// the step count carries on from there. A stuck machine may have a rule for the edited
+// configuration, so it is paused rather than left stuck.
+const editConfiguration = (machine: MachineState, tapes: Tape[], headPositions: number[]): MachineState => ({
+  ...machine,
+  tapes,
+  headPositions,
+  history: emptyHistory(),
+  status: machine.status === 'ERROR' ? 'PAUSED' : machine.status,
+});
+
+export const writeCell = (machine: MachineState, tape: number, position: number, symbol: string): MachineState =>
+  editConfiguration(machine, machine.tapes.map((t, i) => (i === tape ? writeSymbolAt(t, position, symbol) : t)), machine.headPositions);
+
+export const moveHead = (machine: MachineState, tape: number, position: number): MachineState =>
+  editConfiguration(machine, machine.tapes, machine.headPositions.map((p, i) => (i === tape ? position : p)));
+
+// --- Snapshots ---
+
+export const snapshotMachine = (machine: MachineState): MachineSnapshot => ({
+  tapes: machine.tapes.map(tape => ({ ...tape })),
+  headPositions: [...machine.headPositions],
+  currentState: machine.currentState,
+  status: machine.status,
+  stepCount: machine.stepCount,
+});
+
+export const restoreMachine = (snapshot: MachineSnapshot, history: History = emptyHistory()): MachineState => ({
+  ...snapshot,
+  tapes: snapshot.tapes.map(tape => ({ ...tape })),
+  headPositions: [...snapshot.headPositions],
+  history,
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { buildSpaceTime, isOnSpaceTime, lastStep, symbolAt } from './spaceTime';
+import { getTapeString, loadMachine, rewindTo, runUntilHalt } from './simulator';
+
+const runPreset = (name: string, historyLimit = 10_000) => {
+  const preset = PRESETS.find(p => p.name === name)!;
+  return runUntilHalt(loadMachine(preset), preset.rules, 10_000, { finalStates: preset, historyLimit }).machine;
+};
+
+const rowString = (diagram: ReturnType<typeof buildSpaceTime>, step: number) =>
+  Array.from({ length: diagram.width }, (_, c) => symbolAt(diagram, step, diagram.minCell + c)).join('').replace(/^_+|_+$/g, '');
+
+describe('buildSpaceTime', () => {
+  it('has one row per step matching the configuration at that step', () => {
+    const machine = runPreset('Binary Increment');
+    const diagram = buildSpaceTime(machine);
+
+    expect(diagram.firstStep).toBe(0);
+    expect(lastStep(diagram)).toBe(machine.stepCount);
+    for (let step = 0; step <= machine.stepCount; step++) {
+      const past = rewindTo(machine, step);
+      const r = step - diagram.firstStep;
+      expect(rowString(diagram, step)).toBe(getTapeString(past.tapes[0]));
+      expect(diagram.heads[r]).toBe(past.headPositions[0]);
+      expect(diagram.states[diagram.stateIds[r]]).toBe(past.currentState);
+    }
+  });
+
+  it('numbers states in the order the run enters them', () => {
+    const diagram = buildSpaceTime(runPreset('Binary Increment'));
+    expect(diagram.states[0]).toBe(PRESETS.find(p => p.name === 'Binary Increment')!.initialState);
+    expect(diagram.stateIds[0]).toBe(0);
+  });
+
+  it('draws any tape of a multi-tape machine', () => {
+    const machine = runPreset('Binary Addition (2 Tapes)');
+    const diagram = buildSpaceTime(machine, 1);
+    expect(diagram.tape).toBe(1);
+    expect(rowString(diagram, machine.stepCount)).toBe(getTapeString(machine.tapes[1]));
+    expect(rowString(diagram, 0)).toBe('');
+  });
+
+  it('drops the oldest rows beyond the cell budget', () => {
+    const machine = runPreset('Binary Increment');
+    const full = buildSpaceTime(machine);
+    const trimmed = buildSpaceTime(machine, 0, full.width * 3);
+
+    expect(trimmed.rowCount).toBe(3);
+    expect(trimmed.firstStep).toBe(machine.stepCount - 2);
+    expect(rowString(trimmed, trimmed.firstStep)).toBe(rowString(full, trimmed.firstStep));
+  });
+
+  it('only covers the steps still in the undo history', () => {
+    const machine = runPreset('Binary Increment', 2);
+    const diagram = buildSpaceTime(machine);
+    expect(diagram.rowCount).toBe(3);
+    expect(diagram.firstStep).toBe(machine.stepCount - 2);
+  });
+});
+
+describe('isOnSpaceTime', () => {
+  it('recognises a machine rewound along the recorded run', () => {
+    const machine = runPreset('Binary Increment');
+    const diagram = buildSpaceTime(machine);
+    expect(isOnSpaceTime(diagram, machine)).toBe(true);
+    expect(isOnSpaceTime(diagram, rewindTo(machine, 1))).toBe(true);
+  });
+
+  it('rejects a different run or a step outside the diagram', () => {
+    const machine = runPreset('Binary Increment');
+    const diagram = buildSpaceTime(machine);
+    expect(isOnSpaceTime(diagram, loadMachine({ initialTape: '111', initialState: 'start' }))).toBe(false);
+    expect(isOnSpaceTime(diagram, { ...machine, stepCount: machine.stepCount + 1 })).toBe(false);
+  });
+});
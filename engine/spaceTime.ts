@@ -0,0 +1,131 @@
+import { MachineState } from '../types';
+import { EMPTY_SYMBOL } from '../constants';
+import { readSymbolAt } from './simulator';
+import { historyEntry, historyLength } from './history';
+
+// Rebuilds a run from the machine's undo history as one row per step, for the space-time
+// diagram. Row r is one tape after step `firstStep + r`, from `minCell` to
+// `minCell + width - 1`; cells hold indices into `symbols`, where 0 is the blank.
+
+export interface SpaceTime {
+  tape: number;
+  firstStep: number;
+  rowCount: number;
+  minCell: number;
+  width: number;
+  symbols: string[];
+  cells: Uint16Array;
+  heads: Int32Array;
+  // Indices into `states`, in order of first appearance
+  states: string[];
+  stateIds: Uint16Array;
+}
+
+// Cells kept in one diagram; longer runs lose their oldest rows
+export const MAX_SPACE_TIME_CELLS = 4_000_000;
+
+const indexer = (names: string[]) => {
+  const ids = new Map(names.map((name, i) => [name, i]));
+  return (name: string): number => {
+    let id = ids.get(name);
+    if (id === undefined) {
+      id = names.length;
+      names.push(name);
+      ids.set(name, id);
+    }
+    return id;
+  };
+};
+
+export const buildSpaceTime = (machine: MachineState, tape = 0, maxCells = MAX_SPACE_TIME_CELLS): SpaceTime => {
+  const { history } = machine;
+  const length = historyLength(history);
+  const current = machine.tapes[tape] ?? {};
+
+  // Every cell that changed was under the head, so the heads and the final tape bound the range
+  let minCell = machine.headPositions[tape] ?? 0;
+  let maxCell = minCell;
+  for (const key of Object.keys(current)) {
+    minCell = Math.min(minCell, Number(key));
+    maxCell = Math.max(maxCell, Number(key));
+  }
+  for (let i = 0; i < length; i++) {
+    const entry = historyEntry(history, i)!;
+    minCell = Math.min(minCell, entry.headPositions[tape]);
+    maxCell = Math.max(maxCell, entry.headPositions[tape]);
+  }
+  const width = maxCell - minCell + 1;
+  const rowCount = Math.min(length + 1, Math.max(1, Math.floor(maxCells / width)));
+
+  const symbols = [EMPTY_SYMBOL];
+  const symbolId = indexer(symbols);
+  const states: string[] = [];
+  const stateId = indexer(states);
+
+  const cells = new Uint16Array(rowCount * width);
+  const heads = new Int32Array(rowCount);
+  const stateIds = new Uint16Array(rowCount);
+
+  // Walk backwards from the current tape, undoing one write per row
+  const row = new Uint16Array(width);
+  for (let c = 0; c < width; c++) row[c] = symbolId(readSymbolAt(current, minCell + c));
+  let head = machine.headPositions[tape] ?? 0;
+  let state = machine.currentState;
+  for (let r = rowCount - 1; r >= 0; r--) {
+    cells.set(row, r * width);
+    heads[r] = head;
+    stateIds[r] = stateId(state);
+    const entry = historyEntry(history, length - (rowCount - r));
+    if (!entry) break;
+    head = entry.headPositions[tape];
+    state = entry.currentState;
+    row[head - minCell] = symbolId(entry.readSymbols[tape]);
+  }
+
+  // States were named from the last row back; number them in run order instead
+  const order = [...new Set(stateIds)];
+  const renumber = new Map(order.map((id, i) => [id, i]));
+  for (let r = 0; r < rowCount; r++) stateIds[r] = renumber.get(stateIds[r])!;
+
+  return {
+    tape,
+    firstStep: machine.stepCount - rowCount + 1,
+    rowCount,
+    minCell,
+    width,
+    symbols,
+    cells,
+    heads,
+    states: order.map(id => states[id]),
+    stateIds,
+  };
+};
+
+export const lastStep = (diagram: SpaceTime): number => diagram.firstStep + diagram.rowCount - 1;
+
+// The symbol in a cell of the row for `step`
+export const symbolAt = (diagram: SpaceTime, step: number, cell: number): string => {
+  const c = cell - diagram.minCell;
+  if (c < 0 || c >= diagram.width) return EMPTY_SYMBOL;
+  return diagram.symbols[diagram.cells[(step - diagram.firstStep) * diagram.width + c]];
+};
+
+// True when `machine` is the configuration the diagram recorded for its step, so a machine
+// rewound along the same run can keep showing the steps after it
+export const isOnSpaceTime = (diagram: SpaceTime, machine: MachineState): boolean => {
+  const step = machine.stepCount;
+  if (step < diagram.firstStep || step > lastStep(diagram)) return false;
+  const r = step - diagram.firstStep;
+  if (diagram.states[diagram.stateIds[r]] !== machine.currentState) return false;
+  if (diagram.heads[r] !== machine.headPositions[diagram.tape]) return false;
+
+  const tape = machine.tapes[diagram.tape] ?? {};
+  for (const key of Object.keys(tape)) {
+    const cell = Number(key);
+    if (cell < diagram.minCell || cell >= diagram.minCell + diagram.width) return false;
+  }
+  for (let c = 0; c < diagram.width; c++) {
+    if (symbolAt(diagram, step, diagram.minCell + c) !== readSymbolAt(tape, diagram.minCell + c)) return false;
+  }
+  return true;
+};
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { TransitionRule } from '../types';
+import { buildStateGraph, formatRuleLabel, layoutStateGraph } from './stateGraph';
+
+const rule = (currentState: string, readSymbol: string, nextState: string): TransitionRule =>
+  ({ currentState, readSymbol, writeSymbol: readSymbol, moveDirection: 'R', nextState });
+
+describe('buildStateGraph', () => {
+  it('groups rules into one edge per pair of states', () => {
+    const graph = buildStateGraph([rule('a', '0', 'a'), rule('a', '1', 'b'), rule('a', '_', 'a')], 'a', { haltStates: ['b'] });
+
+    expect(graph.nodes).toEqual([{ id: 'a', kind: 'initial' }, { id: 'b', kind: 'halt' }]);
+    expect(graph.edges).toEqual([
+      { from: 'a', to: 'a', ruleIndices: [0, 2], labels: ['0/0,R', '_/_,R'] },
+      { from: 'a', to: 'b', ruleIndices: [1], labels: ['1/1,R'] },
+    ]);
+  });
+
+  it('includes final states no rule mentions and marks their kind', () => {
+    const palindrome = PRESETS.find(p => p.name === 'Palindrome Detector')!;
+    const graph = buildStateGraph(palindrome.rules, palindrome.initialState, palindrome);
+
+    expect(graph.nodes.find(n => n.id === 'accept')?.kind).toBe('accept');
+    expect(graph.nodes.find(n => n.id === 'reject')?.kind).toBe('reject');
+    expect(graph.edges.flatMap(e => e.ruleIndices).sort((a, b) => a - b)).toEqual(palindrome.rules.map((_, i) => i));
+  });
+
+  it('labels multi-tape rules with tuples', () => {
+    const twoTape: TransitionRule = { ...rule('a', '1', 'a'), extraTapes: [{ readSymbol: '_', writeSymbol: '1', moveDirection: 'N' }] };
+
+    expect(formatRuleLabel(twoTape, 2)).toBe('(1,_)/(1,1),(R,N)');
+  });
+});
+
+describe('layoutStateGraph', () => {
+  it('places states in layers by distance from the initial state', () => {
+    const graph = buildStateGraph([rule('a', '0', 'b'), rule('a', '1', 'c'), rule('b', '0', 'd'), rule('x', '0', 'x')], 'a');
+    const positions = layoutStateGraph(graph, 'a', { layerGap: 100, nodeGap: 50, margin: 0 });
+
+    expect(positions.a.x).toBe(0);
+    expect([positions.b.x, positions.c.x]).toEqual([100, 100]);
+    expect(positions.d.x).toBe(200);
+    expect(positions.x.x).toBe(300);
+    expect(positions.b.y).not.toBe(positions.c.y);
+  });
+
+  it('gives every preset state a distinct position', () => {
+    for (const preset of PRESETS) {
+      const graph = buildStateGraph(preset.rules, preset.initialState, preset, preset.tapeCount);
+      const positions = Object.values(layoutStateGraph(graph, preset.initialState)).map(p => `${p.x},${p.y}`);
+
+      expect(new Set(positions).size).toBe(graph.nodes.length);
+    }
+  });
+});
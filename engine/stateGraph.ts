@@ -0,0 +1,138 @@
+import { FinalStates, TransitionRule } from '../types';
+import { getRuleTransitions, isFinalState } from './simulator';
+
+// The transition table seen as a graph: one node per state and one edge per (from, to) pair,
+// carrying the labels of every rule that makes that move. Layout is a layered left-to-right
+// drawing, with layers from a breadth-first walk out of the initial state.
+
+export type StateKind = 'initial' | 'accept' | 'reject' | 'halt' | 'normal';
+
+export interface GraphNode {
+  id: string;
+  kind: StateKind;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  ruleIndices: number[];
+  labels: string[];
+}
+
+export interface StateGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface LayoutOptions {
+  layerGap: number;
+  nodeGap: number;
+  margin: number;
+}
+
+export const DEFAULT_LAYOUT: LayoutOptions = { layerGap: 160, nodeGap: 110, margin: 60 };
+
+// `read/write,move`, or tuples of them on k-tape machines: `(1,_)/(1,1),(R,R)`. A rule
+// that calls another machine ends in `⤷ name`.
+export const formatRuleLabel = (rule: TransitionRule, tapeCount = 1): string => {
+  const transitions = getRuleTransitions(rule, tapeCount);
+  const call = rule.call === undefined ? '' : ` ⤷ ${rule.call}`;
+  if (tapeCount === 1) return `${rule.readSymbol}/${rule.writeSymbol},${rule.moveDirection}${call}`;
+  const tuple = (values: string[]) => `(${values.join(',')})`;
+  return `${tuple(transitions.map(t => t.readSymbol))}/${tuple(transitions.map(t => t.writeSymbol))},${tuple(transitions.map(t => t.moveDirection))}${call}`;
+};
+
+const stateKind = (state: string, initialState: string, finalStates: FinalStates): StateKind => {
+  if (finalStates.acceptStates?.includes(state)) return 'accept';
+  if (finalStates.rejectStates?.includes(state)) return 'reject';
+  if (isFinalState(finalStates, state)) return 'halt';
+  return state === initialState ? 'initial' : 'normal';
+};
+
+export const buildStateGraph = (
+  rules: TransitionRule[],
+  initialState: string,
+  finalStates: FinalStates = {},
+  tapeCount = 1,
+): StateGraph => {
+  const states = [...new Set([
+    initialState,
+    ...rules.flatMap(r => [r.currentState, r.nextState]),
+    ...(finalStates.acceptStates ?? []),
+    ...(finalStates.rejectStates ?? []),
+    ...(finalStates.haltStates ?? []),
+  ])].filter(Boolean);
+
+  const edges = new Map<string, GraphEdge>();
+  rules.forEach((rule, index) => {
+    const key = `${rule.currentState}\u0000${rule.nextState}`;
+    const edge = edges.get(key) ?? { from: rule.currentState, to: rule.nextState, ruleIndices: [], labels: [] };
+    edge.ruleIndices.push(index);
+    edge.labels.push(formatRuleLabel(rule, tapeCount));
+    edges.set(key, edge);
+  });
+
+  return {
+    nodes: states.map(id => ({ id, kind: stateKind(id, initialState, finalStates) })),
+    edges: [...edges.values()],
+  };
+};
+
+// Layers come from BFS depth; states the walk never reaches go in one last layer. Within a
+// layer, nodes are ordered by the average position of their predecessors to limit crossings.
+export const layoutStateGraph = (
+  graph: StateGraph,
+  initialState: string,
+  options: LayoutOptions = DEFAULT_LAYOUT,
+): Record<string, Point> => {
+  const successors = new Map<string, string[]>();
+  graph.edges.forEach(e => successors.set(e.from, [...(successors.get(e.from) ?? []), e.to]));
+
+  const depth = new Map<string, number>();
+  const queue = graph.nodes.some(n => n.id === initialState) ? [initialState] : [];
+  queue.forEach(s => depth.set(s, 0));
+  while (queue.length > 0) {
+    const state = queue.shift()!;
+    for (const next of successors.get(state) ?? []) {
+      if (!depth.has(next)) {
+        depth.set(next, depth.get(state)! + 1);
+        queue.push(next);
+      }
+    }
+  }
+  const unreachableLayer = Math.max(-1, ...depth.values()) + 1;
+
+  const layers: string[][] = [];
+  graph.nodes.forEach(n => {
+    const layer = depth.get(n.id) ?? unreachableLayer;
+    (layers[layer] ??= []).push(n.id);
+  });
+
+  const order = new Map<string, number>();
+  layers.forEach((layer, l) => {
+    if (l > 0) {
+      const weight = (state: string) => {
+        const parents = graph.edges.filter(e => e.to === state && e.from !== state && order.has(e.from)).map(e => order.get(e.from)!);
+        return parents.length ? parents.reduce((a, b) => a + b, 0) / parents.length : Number.MAX_SAFE_INTEGER;
+      };
+      layer.sort((a, b) => weight(a) - weight(b));
+    }
+    layer.forEach((state, i) => order.set(state, i));
+  });
+
+  const tallest = Math.max(1, ...layers.map(l => l?.length ?? 0));
+  const positions: Record<string, Point> = {};
+  layers.forEach((layer, l) => {
+    // Center each layer against the tallest one
+    const offset = ((tallest - layer.length) * options.nodeGap) / 2;
+    layer.forEach((state, i) => {
+      positions[state] = { x: options.margin + l * options.layerGap, y: options.margin + offset + i * options.nodeGap };
+    });
+  });
+  return positions;
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { Preset } from '../types';
+import { firstDifference, runTestCase, runTestSuite } from './testRunner';
+
+const preset = (name: string) => PRESETS.find(p => p.name === name)!;
+
+describe('runTestSuite', () => {
+  it.each(PRESETS.map(p => [p.name, p] as const))('%s passes its own tests', (_, machine) => {
+    expect(machine.tests?.length).toBeGreaterThan(0);
+    const results = runTestSuite(machine, machine.tests!);
+
+    expect(results.filter(r => !r.passed).map(r => r.failures)).toEqual([]);
+  });
+});
+
+describe('runTestCase', () => {
+  it('reports a wrong output with where it differs', () => {
+    const result = runTestCase(preset('Binary Increment'), { input: '1011', expectedOutput: '1101', expectedOutcome: 'halted' });
+
+    expect(result).toMatchObject({ passed: false, outcome: 'halted', output: '1100', steps: 8 });
+    expect(result.failures).toEqual(['Output differs from cell 3']);
+  });
+
+  it('reports a wrong outcome', () => {
+    const result = runTestCase(preset('Palindrome Detector'), { input: '10', expectedOutcome: 'accepted' });
+
+    expect(result.failures).toEqual(['Expected accepted, got rejected']);
+  });
+
+  it('gives up at the step limit without a final tape', () => {
+    const result = runTestCase(preset('Unary Subtraction'), { input: '111-11', expectedOutput: '1', maxSteps: 5 });
+
+    expect(result).toMatchObject({ passed: false, outcome: 'step-limit', output: null, steps: 5 });
+    expect(result.failures).toEqual(['No final tape to compare with the expected output']);
+  });
+
+  it('compares the chosen tape of a multi-tape machine', () => {
+    const result = runTestCase(preset('Binary Addition (2 Tapes)'), { input: '1+1', expectedOutput: '10', outputTape: 1 });
+
+    expect(result.passed).toBe(true);
+  });
+
+  it('judges a nondeterministic machine on its accepting branch', () => {
+    const ntm = preset('Substring Guesser (NTM)');
+
+    expect(runTestCase(ntm, { input: '0101', expectedOutcome: 'accepted' })).toMatchObject({ passed: true, steps: 4, output: '0101' });
+    expect(runTestCase(ntm, { input: '0101', expectedOutcome: 'accepted', maxSteps: 2 }).outcome).toBe('step-limit');
+  });
+
+  it('calls a search inconclusive when it runs out of configurations before the step limit', () => {
+    // Every step branches in two and nothing ever halts, so the tree outgrows the node cap
+    const ntm: Preset = {
+      name: 'Coin Flipper',
+      description: '',
+      initialTape: '',
+      initialState: 'flip',
+      nondeterministic: true,
+      acceptStates: ['done'],
+      rules: [
+        { currentState: 'flip', readSymbol: '*', writeSymbol: '0', moveDirection: 'N', nextState: 'flip' },
+        { currentState: 'flip', readSymbol: '*', writeSymbol: '1', moveDirection: 'N', nextState: 'flip' },
+      ],
+    };
+
+    expect(runTestCase(ntm, { input: '', expectedOutcome: 'accepted' })).toMatchObject({ passed: false, outcome: 'inconclusive', output: null });
+  });
+
+  it('turns a test that throws into a failed result', () => {
+    // A tape count that is not a number cannot be loaded
+    const [result] = runTestSuite({ ...preset('Binary Increment'), tapeCount: Number.NaN }, [{ input: '1', expectedOutput: '10' }]);
+
+    expect(result).toMatchObject({ passed: false, outcome: 'error' });
+  });
+});
+
+describe('firstDifference', () => {
+  it('finds the first differing cell, counting missing cells', () => {
+    expect(firstDifference('1100', '1100')).toBe(-1);
+    expect(firstDifference('1100', '1101')).toBe(3);
+    expect(firstDifference('11', '110')).toBe(2);
+  });
+});
@@ -0,0 +1,103 @@
+import { TestCase } from '../types';
+import { HaltOutcome, MachineDefinition, getHaltOutcome, getTapeString, loadMachine } from './simulator';
+import { LoopDiagnosis, runWithLoopDetection } from './loopDetection';
+import { exploreConfigurations } from './nondeterministic';
+
+// Runs a machine's stored test cases headlessly. Deterministic machines run with loop
+// detection, so a test can expect a machine never to halt; nondeterministic ones are
+// explored breadth-first and judged on whether any branch accepts.
+
+export type TestableMachine = MachineDefinition & { nondeterministic?: boolean };
+
+// How the run ended: a halt outcome, a proven loop, the step limit with no verdict, a
+// nondeterministic search that ran out of room before finding an accepting branch, or a
+// test that could not run at all
+export type ActualOutcome = HaltOutcome | 'loops' | 'step-limit' | 'inconclusive' | 'error';
+
+export interface TestResult {
+  passed: boolean;
+  outcome: ActualOutcome;
+  // Final contents of the output tape, or null when there is no final tape to read
+  output: string | null;
+  steps: number;
+  failures: string[];
+  loop: LoopDiagnosis | null;
+}
+
+export const DEFAULT_TEST_STEP_LIMIT = 100_000;
+
+// Branches kept per level, and configurations in total, when exploring a nondeterministic machine
+const TEST_EXPLORATION_WIDTH = 256;
+const TEST_EXPLORATION_NODES = 100_000;
+
+// Index of the first cell where the two tape strings differ, or -1 if they are equal
+export const firstDifference = (expected: string, actual: string): number => {
+  const length = Math.max(expected.length, actual.length);
+  for (let i = 0; i < length; i++) {
+    if (expected[i] !== actual[i]) return i;
+  }
+  return -1;
+};
+
+const judge = (test: TestCase, outcome: ActualOutcome, output: string | null): string[] => {
+  const failures: string[] = [];
+  if (test.expectedOutcome && test.expectedOutcome !== outcome) {
+    failures.push(`Expected ${test.expectedOutcome}, got ${outcome}`);
+  }
+  if (test.expectedOutput !== undefined) {
+    if (output === null) {
+      failures.push('No final tape to compare with the expected output');
+    } else if (output !== test.expectedOutput) {
+      failures.push(`Output differs from cell ${firstDifference(test.expectedOutput, output)}`);
+    }
+  }
+  return failures;
+};
+
+export const runTestCase = (definition: TestableMachine, test: TestCase, defaultMaxSteps = DEFAULT_TEST_STEP_LIMIT): TestResult => {
+  const maxSteps = test.maxSteps ?? defaultMaxSteps;
+  const outputTape = test.outputTape ?? 0;
+  const machine = loadMachine({ ...definition, initialTape: test.input });
+  let outcome: ActualOutcome;
+  let output: string | null;
+  let steps: number;
+  let loop: LoopDiagnosis | null = null;
+
+  if (definition.nondeterministic) {
+    const result = exploreConfigurations(machine, definition.rules, definition, {
+      maxDepth: maxSteps,
+      maxWidth: TEST_EXPLORATION_WIDTH,
+      maxNodes: TEST_EXPLORATION_NODES,
+    });
+    const accepting = result.acceptingNodeId === null ? null : result.nodes[result.acceptingNodeId];
+    const deepest = result.nodes.reduce((depth, node) => Math.max(depth, node.depth), 0);
+    // Cut short before the step limit means the node or width cap ended the search
+    outcome = accepting ? 'accepted' : !result.truncated ? 'rejected' : deepest >= maxSteps ? 'step-limit' : 'inconclusive';
+    output = accepting ? getTapeString(accepting.configuration.tapes[outputTape] ?? {}) : null;
+    steps = accepting ? accepting.depth : deepest;
+  } else {
+    const result = runWithLoopDetection(machine, definition.rules, maxSteps, { finalStates: definition });
+    loop = result.loop;
+    outcome = loop ? (loop.kind === 'step-limit' ? 'step-limit' : 'loops') : getHaltOutcome(result.machine, definition) ?? 'step-limit';
+    // A machine cut off at the step limit has no final tape
+    output = outcome === 'step-limit' ? null : getTapeString(result.machine.tapes[outputTape] ?? {});
+    steps = result.machine.stepCount;
+  }
+
+  const failures = judge(test, outcome, output);
+  return { passed: failures.length === 0, outcome, output, steps, failures, loop };
+};
+
+// Like runTestCase, but a test that throws (a call that cannot be flattened, say) becomes a
+// failed result instead of stopping the suite
+export const runTestCaseSafely = (definition: TestableMachine, test: TestCase, defaultMaxSteps = DEFAULT_TEST_STEP_LIMIT): TestResult => {
+  try {
+    return runTestCase(definition, test, defaultMaxSteps);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return { passed: false, outcome: 'error', output: null, steps: 0, failures: [`The test could not run: ${message}`], loop: null };
+  }
+};
+
+export const runTestSuite = (definition: TestableMachine, tests: TestCase[], defaultMaxSteps = DEFAULT_TEST_STEP_LIMIT): TestResult[] =>
+  tests.map(test => runTestCaseSafely(definition, test, defaultMaxSteps));
@@ -0,0 +1,22 @@
+import { TestCase } from '../types';
+import { TestResult, TestableMachine, runTestCaseSafely } from './testRunner';
+
+// Runs a test suite off the main thread, posting each case's result as it finishes so a
+// long or looping test does not freeze the page. Stopping is done by terminating the worker.
+
+// maxSteps is the limit for cases that do not set their own
+export type TestRunRequest = { type: 'start'; machine: TestableMachine; tests: TestCase[]; maxSteps?: number };
+
+export type TestRunResponse =
+  | { type: 'result'; index: number; result: TestResult }
+  | { type: 'done' };
+
+const ctx = self as unknown as Worker;
+
+const post = (message: TestRunResponse) => ctx.postMessage(message);
+
+ctx.onmessage = (event: MessageEvent<TestRunRequest>) => {
+  const { machine, tests, maxSteps } = event.data;
+  tests.forEach((test, index) => post({ type: 'result', index, result: runTestCaseSafely(machine, test, maxSteps) }));
+  post({ type: 'done' });
+};
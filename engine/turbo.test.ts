@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { TransitionRule } from '../types';
+import { loadMachine, runUntilHalt, snapshotMachine } from './simulator';
+import { compileProgram, runTurboSlice, startTurboRun, turboSnapshot } from './turbo';
+
+const runTurbo = (rules: TransitionRule[], initialTape: string, initialState: string, finalStates = {}, maxSteps = 1_000_000, tapeCount = 1) => {
+  const start = loadMachine({ initialTape, initialState, tapeCount });
+  const run = startTurboRun(start, finalStates);
+  runTurboSlice(run, compileProgram(rules, tapeCount, finalStates), maxSteps);
+  return { run, snapshot: turboSnapshot(run) };
+};
+
+describe('turbo runner', () => {
+  it.each(PRESETS.map(p => [p.name, p] as const))('matches the step-by-step engine on %s', (_, preset) => {
+    const expected = runUntilHalt(loadMachine(preset), preset.rules, 10_000, { finalStates: preset }).machine;
+    const { snapshot } = runTurbo(preset.rules, preset.initialTape, preset.initialState, preset, 10_000, preset.tapeCount);
+
+    expect(snapshot).toEqual(snapshotMachine(expected));
+  });
+
+  it('stops at the step limit and resumes from there', () => {
+    const loop: TransitionRule[] = [{ currentState: 'a', readSymbol: '_', writeSymbol: '1', moveDirection: 'R', nextState: 'a' }];
+    const program = compileProgram(loop, 1, {});
+    const run = startTurboRun(loadMachine({ initialTape: '', initialState: 'a' }), {});
+
+    runTurboSlice(run, program, 200_000);
+    expect(run.stepCount).toBe(200_000);
+    expect(run.status).toBe('IDLE');
+    expect(run.headPositions).toEqual([200_000]);
+
+    runTurboSlice(run, program, 200_005);
+    expect(run.stepCount).toBe(200_005);
+    expect(run.lastRuleIndex).toBe(0);
+  });
+
+  it('reports a machine with no applicable rule as stuck', () => {
+    const { run } = runTurbo([{ currentState: 'a', readSymbol: '1', writeSymbol: '1', moveDirection: 'R', nextState: 'a' }], '11', 'a');
+
+    expect(run.status).toBe('ERROR');
+    expect(run.stepCount).toBe(2);
+  });
+
+  it('does not move a machine that starts in a final state', () => {
+    const { run } = runTurbo([{ currentState: 'a', readSymbol: '_', writeSymbol: '1', moveDirection: 'R', nextState: 'a' }], '', 'a', { haltStates: ['a'] });
+
+    expect(run.status).toBe('HALTED');
+    expect(run.stepCount).toBe(0);
+  });
+
+  it('lets the first matching rule win, like findRuleIndex', () => {
+    const rules: TransitionRule[] = [
+      { currentState: 'a', readSymbol: '_', writeSymbol: 'x', moveDirection: 'N', nextState: 'done' },
+      { currentState: 'a', readSymbol: '_', writeSymbol: 'y', moveDirection: 'N', nextState: 'done' },
+    ];
+
+    expect(runTurbo(rules, '', 'a', { haltStates: ['done'] }).snapshot.tapes).toEqual([{ 0: 'x' }]);
+  });
+
+  it('resolves * and class rules like findRuleIndex, exact rules first', () => {
+    const rules: TransitionRule[] = [
+      { currentState: 'a', readSymbol: '*', writeSymbol: '*', moveDirection: 'R', nextState: 'done' },
+      { currentState: 'a', readSymbol: '[xy]', writeSymbol: 'z', moveDirection: 'R', nextState: 'a' },
+      { currentState: 'a', readSymbol: 'y', writeSymbol: '*', moveDirection: 'R', nextState: 'a' },
+    ];
+    const expected = runUntilHalt(loadMachine({ initialTape: 'xyxq', initialState: 'a' }), rules, 100, { finalStates: { haltStates: ['done'] } }).machine;
+    const { run, snapshot } = runTurbo(rules, 'xyxq', 'a', { haltStates: ['done'] });
+
+    expect(snapshot).toEqual(snapshotMachine(expected));
+    expect(snapshot.tapes).toEqual([{ 0: 'z', 1: 'y', 2: 'z', 3: 'q' }]);
+    expect(run.lastRuleIndex).toBe(0);
+  });
+});
@@ -0,0 +1,129 @@
+import { FinalStates, MachineState, MoveDirection, TransitionRule } from '../types';
+import { EMPTY_SYMBOL } from '../constants';
+import { MachineSnapshot, getRuleTransitions, isFinalState, isSymbolPattern, resolveWrite, ruleSpecificity, ruleMatches } from './simulator';
+
+// A mutable, allocation-free variant of `stepMachine` for long runs. The rules are compiled
+// into a lookup table once and the tapes are edited in place, so a run costs a map lookup
+// per step instead of a tape copy. It keeps no history and ignores breakpoints; it exists
+// so the turbo worker can get through millions of steps and report the configuration it ends in.
+
+interface CompiledRule {
+  index: number;
+  nextState: string;
+  writes: string[];
+  moves: number[];
+}
+
+export interface TurboProgram {
+  // state -> read symbols (joined) -> the rule that fires, like `findRuleIndex`
+  table: Map<string, Map<string, CompiledRule>>;
+  // state -> rules reading `*` or a class, most specific first; matches are cached in `table`
+  patterns: Map<string, { rule: TransitionRule; index: number }[]>;
+  finalStates: Set<string>;
+}
+
+export interface TurboRun {
+  tapes: Map<number, string>[];
+  headPositions: number[];
+  currentState: string;
+  stepCount: number;
+  status: MachineState['status'];
+  lastRuleIndex: number | null;
+}
+
+const MOVE_OFFSET: Record<MoveDirection, number> = { L: -1, R: 1, N: 0 };
+
+// Tape symbols are single characters, so joining needs a separator only to be unambiguous
+const SYMBOL_SEPARATOR = '\u0000';
+
+const compileRule = (rule: TransitionRule, index: number, reads: string[]): CompiledRule => {
+  const transitions = getRuleTransitions(rule, reads.length);
+  return {
+    index,
+    nextState: rule.nextState,
+    writes: transitions.map((t, i) => resolveWrite(t.writeSymbol, reads[i])),
+    moves: transitions.map(t => MOVE_OFFSET[t.moveDirection]),
+  };
+};
+
+export const compileProgram = (rules: TransitionRule[], tapeCount: number, finalStates: FinalStates): TurboProgram => {
+  const table = new Map<string, Map<string, CompiledRule>>();
+  const patterns = new Map<string, { rule: TransitionRule; index: number }[]>();
+  rules.forEach((rule, index) => {
+    const reads = getRuleTransitions(rule, tapeCount).map(t => t.readSymbol);
+    // Rules with patterns are only resolved once a run meets symbols they match
+    if (reads.some(isSymbolPattern)) {
+      patterns.set(rule.currentState, [...(patterns.get(rule.currentState) ?? []), { rule, index }]);
+      return;
+    }
+    const key = reads.join(SYMBOL_SEPARATOR);
+    const byState = table.get(rule.currentState) ?? new Map<string, CompiledRule>();
+    if (!byState.has(key)) byState.set(key, compileRule(rule, index, reads));
+    table.set(rule.currentState, byState);
+  });
+  // Sorting is stable, so equally specific rules keep their table order
+  patterns.forEach(list => list.sort((a, b) => ruleSpecificity(b.rule, tapeCount) - ruleSpecificity(a.rule, tapeCount)));
+  const finals = [...(finalStates.acceptStates ?? []), ...(finalStates.rejectStates ?? []), ...(finalStates.haltStates ?? [])];
+  return { table, patterns, finalStates: new Set(finals) };
+};
+
+// An exact rule always beats a pattern, so patterns are only consulted on a table miss
+const lookupRule = (program: TurboProgram, state: string, reads: string[]): CompiledRule | undefined => {
+  const key = reads.length === 1 ? reads[0] : reads.join(SYMBOL_SEPARATOR);
+  const found = program.table.get(state)?.get(key);
+  if (found) return found;
+  const match = program.patterns.get(state)?.find(({ rule }) => ruleMatches(rule, state, reads));
+  if (!match) return undefined;
+  const compiled = compileRule(match.rule, match.index, reads);
+  const byState = program.table.get(state) ?? new Map<string, CompiledRule>();
+  byState.set(key, compiled);
+  program.table.set(state, byState);
+  return compiled;
+};
+
+export const startTurboRun = (machine: MachineSnapshot, finalStates: FinalStates): TurboRun => ({
+  tapes: machine.tapes.map(tape => new Map(Object.entries(tape).map(([pos, symbol]) => [Number(pos), symbol]))),
+  headPositions: [...machine.headPositions],
+  currentState: machine.currentState,
+  stepCount: machine.stepCount,
+  // A machine that already sits in a final state halts without moving, as in `stepMachine`
+  status: isFinalState(finalStates, machine.currentState) ? 'HALTED' : machine.status,
+  lastRuleIndex: null,
+});
+
+export const isTurboHalted = (run: TurboRun): boolean => run.status === 'HALTED' || run.status === 'ERROR';
+
+// Advances `run` in place until it halts or reaches `stepLimit` total steps
+export const runTurboSlice = (run: TurboRun, program: TurboProgram, stepLimit: number): void => {
+  const { tapes, headPositions } = run;
+  const tapeCount = tapes.length;
+  const reads: string[] = new Array(tapeCount);
+
+  while (!isTurboHalted(run) && run.stepCount < stepLimit) {
+    for (let t = 0; t < tapeCount; t++) reads[t] = tapes[t].get(headPositions[t]) ?? EMPTY_SYMBOL;
+    const rule = lookupRule(program, run.currentState, reads);
+    if (!rule) {
+      run.status = 'ERROR';
+      return;
+    }
+
+    for (let t = 0; t < tapeCount; t++) {
+      const symbol = rule.writes[t];
+      if (symbol === EMPTY_SYMBOL) tapes[t].delete(headPositions[t]);
+      else tapes[t].set(headPositions[t], symbol);
+      headPositions[t] += rule.moves[t];
+    }
+    run.currentState = rule.nextState;
+    run.stepCount++;
+    run.lastRuleIndex = rule.index;
+    if (program.finalStates.has(rule.nextState)) run.status = 'HALTED';
+  }
+};
+
+export const turboSnapshot = (run: TurboRun): MachineSnapshot => ({
+  tapes: run.tapes.map(tape => Object.fromEntries(tape)),
+  headPositions: [...run.headPositions],
+  currentState: run.currentState,
+  status: run.status,
+  stepCount: run.stepCount,
+});
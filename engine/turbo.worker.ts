@@ -0,0 +1,61 @@
+import { FinalStates, TransitionRule } from '../types';
+import { MachineSnapshot } from './simulator';
+import { compileProgram, isTurboHalted, runTurboSlice, startTurboRun, turboSnapshot } from './turbo';
+
+// Runs a machine off the main thread in short time slices, yielding between them so a
+// cancel message can get through, and posting a sampled configuration every so often.
+
+export type TurboRequest =
+  | { type: 'start'; machine: MachineSnapshot; rules: TransitionRule[]; finalStates: FinalStates; maxSteps: number }
+  | { type: 'cancel' };
+
+export type TurboStopReason = 'halted' | 'budget' | 'cancelled';
+
+export type TurboResponse =
+  | { type: 'progress'; machine: MachineSnapshot; stepsPerSecond: number }
+  | { type: 'done'; machine: MachineSnapshot; reason: TurboStopReason; lastRuleIndex: number | null; stepsPerSecond: number };
+
+const SLICE_MS = 40;
+const SAMPLE_MS = 250;
+const CHUNK_STEPS = 20_000;
+
+const ctx = self as unknown as Worker;
+let cancelled = false;
+
+const post = (message: TurboResponse) => ctx.postMessage(message);
+
+const run = async (request: Extract<TurboRequest, { type: 'start' }>) => {
+  const program = compileProgram(request.rules, request.machine.tapes.length, request.finalStates);
+  const turbo = startTurboRun(request.machine, request.finalStates);
+  const stepLimit = request.machine.stepCount + request.maxSteps;
+  const startedAt = performance.now();
+  let lastSample = startedAt;
+  const rate = () => Math.round(((turbo.stepCount - request.machine.stepCount) * 1000) / Math.max(1, performance.now() - startedAt));
+
+  cancelled = false;
+  while (!cancelled && !isTurboHalted(turbo) && turbo.stepCount < stepLimit) {
+    const sliceEnd = performance.now() + SLICE_MS;
+    while (performance.now() < sliceEnd && !isTurboHalted(turbo) && turbo.stepCount < stepLimit) {
+      runTurboSlice(turbo, program, Math.min(stepLimit, turbo.stepCount + CHUNK_STEPS));
+    }
+    if (performance.now() - lastSample >= SAMPLE_MS) {
+      lastSample = performance.now();
+      post({ type: 'progress', machine: turboSnapshot(turbo), stepsPerSecond: rate() });
+    }
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+
+  const halted = isTurboHalted(turbo);
+  post({
+    type: 'done',
+    machine: { ...turboSnapshot(turbo), status: halted ? turbo.status : 'PAUSED' },
+    reason: halted ? 'halted' : cancelled ? 'cancelled' : 'budget',
+    lastRuleIndex: turbo.lastRuleIndex,
+    stepsPerSecond: rate(),
+  });
+};
+
+ctx.onmessage = (event: MessageEvent<TurboRequest>) => {
+  if (event.data.type === 'cancel') cancelled = true;
+  else run(event.data);
+};
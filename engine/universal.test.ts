@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { Preset } from '../types';
+import {
+  UNIVERSAL_MACHINE_NAME, UniversalEncodingError, decodeMachine, encodeMachine, fromDescriptionNumber, runsAgree,
+  summarizeRun, summarizeUniversalRun, toDescriptionNumber,
+} from './universal';
+import { MachineDefinition, loadMachine, snapshotMachine } from './simulator';
+import { compileProgram, runTurboSlice, startTurboRun, turboSnapshot } from './turbo';
+
+const preset = (name: string) => PRESETS.find(p => p.name === name)!;
+const universal = preset(UNIVERSAL_MACHINE_NAME);
+
+const run = (definition: MachineDefinition, maxSteps: number) => {
+  const turbo = startTurboRun(snapshotMachine(loadMachine(definition)), definition);
+  runTurboSlice(turbo, compileProgram(definition.rules, definition.tapeCount ?? 1, definition), maxSteps);
+  return turboSnapshot(turbo);
+};
+
+const runBoth = (machine: Preset) => {
+  const encoding = encodeMachine(machine);
+  return {
+    direct: summarizeRun(run(machine, 10_000), machine),
+    universal: summarizeUniversalRun(run({ ...universal, initialTape: encoding.tape }, 1_000_000), encoding, machine),
+  };
+};
+
+describe('encodeMachine', () => {
+  it('writes the standard description and description number', () => {
+    const encoding = encodeMachine(preset('Binary Increment'));
+
+    expect(encoding.symbols).toEqual(['_', '0', '1']);
+    expect(encoding.states).toEqual(['start', 'add', 'done']);
+    expect(encoding.description.split(';')[0]).toBe('DADCDCRDA');
+    expect(encoding.number.slice(0, 10)).toBe('3132325317');
+    expect(fromDescriptionNumber(encoding.number)).toBe(encoding.description);
+    expect(encoding.tape).toBe(`${encoding.description}#ECCDCADCCDCC`);
+    expect(universal.initialTape).toBe(encoding.tape);
+  });
+
+  it('expands patterns, drops rules out of final states and marks the head cell', () => {
+    const machine: Preset = {
+      name: 'Skip',
+      description: '',
+      initialTape: 'ab',
+      initialState: 's',
+      initialHead: -1,
+      haltStates: ['h'],
+      rules: [
+        { currentState: 's', readSymbol: '[ab]', writeSymbol: '*', moveDirection: 'R', nextState: 's' },
+        { currentState: 's', readSymbol: '_', writeSymbol: '_', moveDirection: 'R', nextState: 'h' },
+        { currentState: 'h', readSymbol: 'a', writeSymbol: 'a', moveDirection: 'N', nextState: 's' },
+      ],
+    };
+    const encoding = encodeMachine(machine);
+
+    expect(encoding.description).toBe('DADCDCRDA;DADCCDCCRDA;DADDRDAA;');
+    expect(encoding.tape.split('#')[1]).toBe('EAADCADCC');
+  });
+
+  it('rejects machines it cannot describe', () => {
+    expect(() => encodeMachine(preset('Binary Addition (2 Tapes)'))).toThrow(UniversalEncodingError);
+    expect(() => encodeMachine(preset('Substring Guesser (NTM)'))).toThrow('deterministic');
+  });
+});
+
+describe('decodeMachine', () => {
+  it('round-trips an encoded machine', () => {
+    const increment = preset('Binary Increment');
+    const { description, number, symbols, states } = encodeMachine(increment);
+
+    expect(decodeMachine(description, { symbols, states }).rules).toEqual(increment.rules);
+    expect(decodeMachine(number, { symbols, states }).rules).toEqual(increment.rules);
+  });
+
+  it('names states and symbols as in Turing’s paper and halts where no instruction applies', () => {
+    const decoded = decodeMachine('DADDCRDAA; DAADDRDAAA;');
+
+    expect(decoded.initialState).toBe('q1');
+    expect(decoded.haltStates).toEqual(['q3']);
+    expect(decoded.rules[0]).toEqual({ currentState: 'q1', readSymbol: '_', writeSymbol: '0', moveDirection: 'R', nextState: 'q2' });
+  });
+
+  it('points at the malformed instruction', () => {
+    expect(() => decodeMachine('DADDCRDAA;DAXDR;')).toThrow('Instruction 2');
+    expect(() => decodeMachine('DADDCRDAA')).toThrow('ends with ";"');
+    expect(() => fromDescriptionNumber('318')).toThrow('Digit 3');
+    expect(toDescriptionNumber('DA;')).toBe('317');
+  });
+});
+
+describe('the universal machine', () => {
+  it.each(['Binary Increment', 'Palindrome Detector', 'Unary Subtraction', 'Busy Beaver (3 States)'])('agrees with running %s directly', name => {
+    const { direct, universal } = runBoth(preset(name));
+
+    expect(runsAgree(direct, universal)).toBe(true);
+    expect(universal.steps).toBeGreaterThan(direct.steps);
+  });
+
+  it('reports rejection and getting stuck like the direct run', () => {
+    const palindrome = preset('Palindrome Detector');
+    const stuck: Preset = { ...preset('Binary Increment'), haltStates: [], name: 'No halt states' };
+
+    expect(runBoth({ ...palindrome, initialTape: '10' }).universal).toMatchObject({ outcome: 'rejected', state: 'reject' });
+    const both = runBoth(stuck);
+    expect(both.universal).toMatchObject({ outcome: 'stuck', tape: '1100' });
+    expect(runsAgree(both.direct, both.universal)).toBe(true);
+  });
+});
@@ -0,0 +1,174 @@
+import { FinalStates, MachineConfiguration, Preset, TransitionRule } from '../types';
+import { EMPTY_SYMBOL } from '../constants';
+import { HaltOutcome, MachineDefinition, MachineSnapshot, getTapeString, isFinalState, parseTapeString } from './simulator';
+import { expandRules } from './ruleExpansion';
+import { hasCalls } from './composition';
+
+// Encodes machines as standard descriptions, in the style of Turing's 1936 paper, for the
+// universal machine preset to run. State i (q1 is the initial state) is written D A^i and
+// symbol j (S0 is the blank) is written D C^j, so an instruction reads
+//
+//   D A^i  D C^j  D C^k  M  D A^m  ;     in state qi reading Sj: write Sk, move M, go to qm
+//
+// The description number spells the description in digits, A=1 C=2 D=3 L=4 R=5 N=6 ;=7.
+// On the universal machine's tape the description is followed by # and the input, one cell
+// per block: D (E under the head) then C^j padded with A to the width of the widest symbol.
+
+export const UNIVERSAL_MACHINE_NAME = 'Universal Turing Machine';
+
+export class UniversalEncodingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UniversalEncodingError';
+  }
+}
+
+export interface UniversalEncoding {
+  description: string;
+  number: string;
+  // Symbol j of the description is symbols[j]; symbols[0] is the blank
+  symbols: string[];
+  // State i of the description is states[i - 1]
+  states: string[];
+  // Initial tape of the universal machine
+  tape: string;
+}
+
+// Where a run ended, read off the machine itself or decoded from the universal machine's tapes
+export interface RunSummary {
+  tape: string;
+  state: string;
+  // null while the run has not halted
+  outcome: HaltOutcome | null;
+  steps: number;
+}
+
+const DIGITS: Record<string, string> = { A: '1', C: '2', D: '3', L: '4', R: '5', N: '6', ';': '7' };
+const LETTERS = Object.fromEntries(Object.entries(DIGITS).map(([letter, digit]) => [digit, letter]));
+
+// Symbol names given to decoded descriptions, after the blank: S1 is 0 and S2 is 1 as in Turing's paper
+const DECODED_SYMBOLS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+const INSTRUCTION = /^D(A+)D(C*)D(C*)([LRN])D(A+)$/;
+
+export const toDescriptionNumber = (description: string): string =>
+  [...description].map(letter => DIGITS[letter]).join('');
+
+export const fromDescriptionNumber = (number: string): string =>
+  [...number].map((digit, i) => {
+    const letter = LETTERS[digit];
+    if (!letter) throw new UniversalEncodingError(`Digit ${i + 1} of the description number is "${digit}"; expected 1 to 7.`);
+    return letter;
+  }).join('');
+
+// The rules the description lists: plain single-symbol rules, the one that fires first for each
+// (state, symbol) pair, without rules out of final states since the machine never uses them
+const describableRules = (definition: MachineDefinition & { nondeterministic?: boolean }): TransitionRule[] => {
+  if ((definition.tapeCount ?? 1) > 1) throw new UniversalEncodingError('Only single-tape machines can be encoded.');
+  if (definition.nondeterministic) throw new UniversalEncodingError('Only deterministic machines can be encoded.');
+  if (hasCalls(definition.rules)) throw new UniversalEncodingError('Flatten the calls before encoding the machine.');
+  const seen = new Set<string>();
+  return expandRules(definition).filter(rule => {
+    const key = JSON.stringify([rule.currentState, rule.readSymbol]);
+    if (isFinalState(definition, rule.currentState) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const encodeMachine = (definition: MachineDefinition & { nondeterministic?: boolean }): UniversalEncoding => {
+  const rules = describableRules(definition);
+  const symbols = [EMPTY_SYMBOL, ...[...new Set([...definition.initialTape, ...rules.flatMap(r => [r.readSymbol, r.writeSymbol])])]
+    .filter(s => s !== EMPTY_SYMBOL)
+    .sort()];
+  const states = [...new Set([definition.initialState, ...rules.flatMap(r => [r.currentState, r.nextState])])];
+  const state = (name: string) => `D${'A'.repeat(states.indexOf(name) + 1)}`;
+  const symbol = (name: string) => `D${'C'.repeat(symbols.indexOf(name))}`;
+
+  const description = rules
+    .map(r => `${state(r.currentState)}${symbol(r.readSymbol)}${symbol(r.writeSymbol)}${r.moveDirection}${state(r.nextState)};`)
+    .join('');
+
+  const width = symbols.length - 1;
+  const cells = parseTapeString(definition.initialTape);
+  const head = definition.initialHead ?? 0;
+  let input = '';
+  for (let i = Math.min(0, head); i <= Math.max(definition.initialTape.length - 1, head); i++) {
+    const j = symbols.indexOf(cells[i] ?? EMPTY_SYMBOL);
+    input += `${i === head ? 'E' : 'D'}${'C'.repeat(j)}${'A'.repeat(width - j)}`;
+  }
+
+  return { description, number: toDescriptionNumber(description), symbols, states, tape: `${description}#${input}` };
+};
+
+// Turns a standard description, or its description number, back into a machine. States and
+// symbols get the given names, or q1, q2, ... and _, 0, 1, ...; states without instructions
+// become halt states.
+export const decodeMachine = (text: string, names: Partial<Pick<UniversalEncoding, 'symbols' | 'states'>> = {}): Preset => {
+  const compact = text.replace(/\s+/g, '');
+  const description = /^\d+$/.test(compact) ? fromDescriptionNumber(compact) : compact;
+  if (description !== '' && !description.endsWith(';')) {
+    throw new UniversalEncodingError('A standard description ends with ";" after its last instruction.');
+  }
+  const stateName = (i: number) => names.states?.[i - 1] ?? `q${i}`;
+  const symbolName = (j: number) => {
+    const name = names.symbols?.[j] ?? (j === 0 ? EMPTY_SYMBOL : DECODED_SYMBOLS[j - 1]);
+    if (!name) throw new UniversalEncodingError(`Symbol S${j} has no name; decoded machines use at most ${DECODED_SYMBOLS.length + 1} symbols.`);
+    return name;
+  };
+
+  const rules = description.split(';').slice(0, -1).map((instruction, index): TransitionRule => {
+    const match = instruction.match(INSTRUCTION);
+    if (!match) throw new UniversalEncodingError(`Instruction ${index + 1} ("${instruction};") is not of the form DA…DC…DC…(L|R|N)DA…;`);
+    const [, from, read, write, move, to] = match;
+    return {
+      currentState: stateName(from.length),
+      readSymbol: symbolName(read.length),
+      writeSymbol: symbolName(write.length),
+      moveDirection: move as TransitionRule['moveDirection'],
+      nextState: stateName(to.length),
+    };
+  });
+
+  const active = new Set(rules.map(r => r.currentState));
+  const haltStates = [...new Set(rules.map(r => r.nextState))].filter(s => !active.has(s));
+  return {
+    name: 'Decoded Machine',
+    description: `Decoded from the standard description ${description}`,
+    initialTape: '',
+    initialState: stateName(1),
+    ...(haltStates.length > 0 ? { haltStates } : {}),
+    rules,
+  };
+};
+
+const outcomeIn = (finalStates: FinalStates, state: string): HaltOutcome =>
+  finalStates.acceptStates?.includes(state) ? 'accepted'
+    : finalStates.rejectStates?.includes(state) ? 'rejected'
+    : isFinalState(finalStates, state) ? 'halted'
+    : 'stuck';
+
+export const summarizeRun = (machine: MachineSnapshot, finalStates: FinalStates): RunSummary => ({
+  tape: getTapeString(machine.tapes[0]),
+  state: machine.currentState,
+  outcome: machine.status === 'HALTED' || machine.status === 'ERROR' ? outcomeIn(finalStates, machine.currentState) : null,
+  steps: machine.stepCount,
+});
+
+// Reads the simulated tape (tape 2) and state (tape 3) off the universal machine
+export const decodeUniversalTapes = (machine: MachineConfiguration, encoding: UniversalEncoding): { tape: string; state: string } => {
+  const cells = getTapeString(machine.tapes[1]).split(/[DE]/).slice(1)
+    .map(block => encoding.symbols[block.split('').filter(c => c === 'C').length] ?? EMPTY_SYMBOL);
+  const state = encoding.states[getTapeString(machine.tapes[2]).replace(/_/g, '').length - 1] ?? '';
+  return { tape: getTapeString(parseTapeString(cells.join(''))), state };
+};
+
+// The universal machine halts wherever the simulated machine does; whether that was a final
+// state or a dead end is up to the simulated machine's final states
+export const summarizeUniversalRun = (machine: MachineSnapshot, encoding: UniversalEncoding, finalStates: FinalStates): RunSummary => {
+  const { tape, state } = decodeUniversalTapes(machine, encoding);
+  return { tape, state, outcome: machine.status === 'HALTED' ? outcomeIn(finalStates, state) : null, steps: machine.stepCount };
+};
+
+export const runsAgree = (direct: RunSummary, universal: RunSummary): boolean =>
+  direct.outcome !== null && direct.outcome === universal.outcome && direct.tape === universal.tape && direct.state === universal.state;
@@ -0,0 +1,135 @@
+import { Preset, TestCase, TransitionRule } from '../types';
+import { DIRECTIVE_PATTERN, FormatError, MachineFormat, Token, directiveValueTokens, formatDirectives, parseInteger, parseList, parseMove, parseTapeText, parseTestCase } from './shared';
+import { hasCalls } from '../engine/composition';
+
+// The classic one-rule-per-line `state,read,write,move,next` table. An optional header row is
+// skipped. Cells may be double-quoted (so "," is a valid symbol). Machine metadata travels in
+// leading `# key: value` comment directives, using the same keys as the .tm format.
+
+const COLUMNS = ['state', 'read', 'write', 'move', 'next'];
+
+// Splits one CSV line into cells with their 1-based columns
+const splitCells = (raw: string, line: number): Token[] => {
+  const cells: Token[] = [];
+  let i = 0;
+  while (i <= raw.length) {
+    while (raw[i] === ' ') i++;
+    const column = i + 1;
+    let text = '';
+    if (raw[i] === '"') {
+      i++;
+      while (true) {
+        if (i >= raw.length) throw new FormatError('Unterminated quoted cell', line, column);
+        if (raw[i] === '"' && raw[i + 1] === '"') {
+          text += '"';
+          i += 2;
+        } else if (raw[i] === '"') {
+          i++;
+          break;
+        } else {
+          text += raw[i++];
+        }
+      }
+      while (raw[i] === ' ') i++;
+      if (i < raw.length && raw[i] !== ',') throw new FormatError('Expected "," after quoted cell', line, i + 1);
+    } else {
+      const end = raw.indexOf(',', i);
+      text = (end === -1 ? raw.slice(i) : raw.slice(i, end)).trim();
+      i = end === -1 ? raw.length : end;
+    }
+    cells.push({ text, column });
+    i++;
+  }
+  return cells;
+};
+
+const quote = (cell: string) => (/[",]|^\s|\s$/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+
+export const parseCsv = (text: string): Preset => {
+  const directives: Record<string, string> = {};
+  const rules: TransitionRule[] = [];
+  const tests: TestCase[] = [];
+  let initialHead = 0;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = i + 1;
+    if (raw.trim() === '') return;
+    if (raw.trim().startsWith('#')) {
+      const match = raw.trim().match(DIRECTIVE_PATTERN);
+      if (match?.[1].toLowerCase() === 'test') tests.push(parseTestCase(directiveValueTokens(raw), 1, line));
+      else if (match?.[1].toLowerCase() === 'head') initialHead = parseInteger(match[2].trim(), 'Head position', line, raw.indexOf(match[2].trim(), raw.indexOf(':')) + 1);
+      else if (match?.[1].toLowerCase() === 'initial tape') directives['initial tape'] = parseTapeText(match[2].trim(), 'The initial tape', line, raw.indexOf(match[2].trim(), raw.indexOf(':')) + 1);
+      else if (match) directives[match[1].toLowerCase()] = match[2].trim();
+      return;
+    }
+
+    const cells = splitCells(raw, line);
+    if (rules.length === 0 && cells.map(c => c.text.toLowerCase()).join(',') === COLUMNS.join(',')) return;
+    if (cells.length !== COLUMNS.length) {
+      const at = cells[Math.min(cells.length, COLUMNS.length) - 1];
+      throw new FormatError(`Expected ${COLUMNS.length} cells (${COLUMNS.join(',')}), found ${cells.length}`, line, at.column);
+    }
+    const [state, read, write, move, next] = cells;
+    rules.push({
+      currentState: state.text,
+      readSymbol: read.text,
+      writeSymbol: write.text,
+      moveDirection: parseMove(move.text, line, move.column),
+      nextState: next.text,
+    });
+  });
+
+  if (rules.length === 0) {
+    throw new FormatError('No rules found', 1, 1);
+  }
+
+  const machine: Preset = {
+    name: directives.name || 'Imported Machine',
+    description: directives.description ?? '',
+    initialTape: directives['initial tape'] ?? '',
+    // Without a directive, the first rule's state is the conventional start
+    initialState: directives['initial state'] || rules[0].currentState,
+    rules,
+  };
+  if (initialHead !== 0) machine.initialHead = initialHead;
+  if (directives.accept) machine.acceptStates = parseList(directives.accept);
+  if (directives.reject) machine.rejectStates = parseList(directives.reject);
+  if (directives.halt) machine.haltStates = parseList(directives.halt);
+  if (/^(yes|true)$/i.test(directives.nondeterministic ?? '')) machine.nondeterministic = true;
+  if (tests.length > 0) machine.tests = tests;
+  return machine;
+};
+
+export const serializeCsv = (machine: Preset): string => {
+  if ((machine.tapeCount ?? 1) > 1) {
+    throw new Error('CSV only describes single-tape machines; export multi-tape machines as .tm instead.');
+  }
+  if (hasCalls(machine.rules)) {
+    throw new Error('CSV cannot describe calls to other machines; flatten the rules or export as .tm instead.');
+  }
+  const lines = [
+    ...formatDirectives(machine),
+    `# initial state: ${machine.initialState}`,
+    `# initial tape: ${machine.initialTape}`,
+  ];
+  if (machine.initialHead) lines.push(`# head: ${machine.initialHead}`);
+  if (machine.acceptStates?.length) lines.push(`# accept: ${machine.acceptStates.join(', ')}`);
+  if (machine.rejectStates?.length) lines.push(`# reject: ${machine.rejectStates.join(', ')}`);
+  if (machine.haltStates?.length) lines.push(`# halt: ${machine.haltStates.join(', ')}`);
+  if (machine.nondeterministic) lines.push('# nondeterministic: yes');
+
+  return [
+    ...lines,
+    COLUMNS.join(','),
+    ...machine.rules.map(r => [r.currentState, r.readSymbol, r.writeSymbol, r.moveDirection, r.nextState].map(quote).join(',')),
+    '',
+  ].join('\n');
+};
+
+export const CSV_FORMAT: MachineFormat = {
+  id: 'csv',
+  label: 'CSV (state,read,write,move,next)',
+  extension: 'csv',
+  parse: parseCsv,
+  serialize: serializeCsv,
+};
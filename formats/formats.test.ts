@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { Preset } from '../types';
+import { CSV_FORMAT } from './csv';
+import { FORMATS, FormatError, detectFormat } from './index';
+import { NATIVE_FORMAT } from './native';
+import { decodeMachineHash, encodeMachineHash } from './share';
+import { YAML_FORMAT } from './yaml';
+
+const isSingleTapeMoving = (p: Preset) =>
+  (p.tapeCount ?? 1) === 1 && !p.nondeterministic && p.rules.every(r => r.moveDirection !== 'N');
+
+const positionOf = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (e) {
+    expect(e).toBeInstanceOf(FormatError);
+    const { line, column } = e as FormatError;
+    return { line, column };
+  }
+  throw new Error('Expected a FormatError');
+};
+
+describe('round trips', () => {
+  it.each(PRESETS.map(p => [p.name, p] as const))('%s survives the .tm format', (_, preset) => {
+    expect(NATIVE_FORMAT.parse(NATIVE_FORMAT.serialize(preset))).toEqual({
+      ...preset,
+      description: preset.description.replace(/\s*\n\s*/g, ' '),
+    });
+  });
+
+  it.each(PRESETS.filter(isSingleTapeMoving).map(p => [p.name, p] as const))('%s survives YAML and CSV', (_, preset) => {
+    for (const format of [YAML_FORMAT, CSV_FORMAT]) {
+      expect(format.parse(format.serialize(preset))).toEqual(preset);
+    }
+  });
+
+  it('keeps * and class rules in .tm and CSV, and expands them for YAML', () => {
+    const machine = NATIVE_FORMAT.parse('initial state: s\nhalt: done\nrules:\ns [01] -> * R s\ns _ -> 1 R done\n');
+    expect(machine.rules[0]).toMatchObject({ readSymbol: '[01]', writeSymbol: '*' });
+    expect(NATIVE_FORMAT.parse(NATIVE_FORMAT.serialize(machine))).toEqual(machine);
+    expect(CSV_FORMAT.parse(CSV_FORMAT.serialize(machine)).rules).toEqual(machine.rules);
+    expect(YAML_FORMAT.parse(YAML_FORMAT.serialize(machine)).rules.map(r => `${r.readSymbol}${r.writeSymbol}`)).toEqual(['00', '11', '_1']);
+  });
+
+  it('refuses to export what a format cannot describe', () => {
+    const multiTape = PRESETS.find(p => (p.tapeCount ?? 1) > 1)!;
+
+    expect(() => YAML_FORMAT.serialize(multiTape)).toThrow(/single-tape/);
+    expect(() => CSV_FORMAT.serialize(multiTape)).toThrow(/single-tape/);
+  });
+
+  it('keeps the starting head position in .tm and CSV', () => {
+    const machine = NATIVE_FORMAT.parse('initial state: s\ninitial tape: 10\nhead: -2\nrules:\ns _ -> 1 R s\n');
+    expect(machine.initialHead).toBe(-2);
+    expect(NATIVE_FORMAT.parse(NATIVE_FORMAT.serialize(machine))).toEqual(machine);
+    expect(CSV_FORMAT.parse(CSV_FORMAT.serialize(machine))).toMatchObject({ initialHead: -2 });
+    expect(() => YAML_FORMAT.serialize(machine)).toThrow(/first input symbol/);
+    expect(positionOf(() => NATIVE_FORMAT.parse('initial state: s\nhead: left\nrules:'))).toEqual({ line: 2, column: 7 });
+  });
+
+  it('keeps calls in .tm only', () => {
+    const machine = NATIVE_FORMAT.parse('initial state: s\nhalt: done\nrules:\ns * -> * N done call=Binary%20Increment\n');
+    expect(machine.rules[0].call).toBe('Binary Increment');
+    expect(NATIVE_FORMAT.parse(NATIVE_FORMAT.serialize(machine))).toEqual(machine);
+    expect(() => YAML_FORMAT.serialize(machine)).toThrow(/calls to other machines/);
+    expect(() => CSV_FORMAT.serialize(machine)).toThrow(/calls to other machines/);
+  });
+});
+
+describe('parseNative', () => {
+  it('reads tuple rules on k-tape machines', () => {
+    const machine = NATIVE_FORMAT.parse('initial state: s\ntapes: 2\nrules:\ns 1,_ -> 1,1 R,R s\n');
+
+    expect(machine.rules[0]).toMatchObject({
+      readSymbol: '1', writeSymbol: '1', moveDirection: 'R',
+      extraTapes: [{ readSymbol: '_', writeSymbol: '1', moveDirection: 'R' }],
+    });
+  });
+
+  it('reads the tests section', () => {
+    const machine = NATIVE_FORMAT.parse('initial state: s\ntapes: 2\nrules:\ns 1,_ -> 1,1 R,R s\ntests:\ninput=_ output=1 tape=2 max=50\ninput=11 outcome=loops\n');
+
+    expect(machine.tests).toEqual([
+      { input: '', expectedOutput: '1', outputTape: 1, maxSteps: 50 },
+      { input: '11', expectedOutcome: 'loops' },
+    ]);
+  });
+
+  it('points at the offending token', () => {
+    expect(positionOf(() => NATIVE_FORMAT.parse('initial state: s\nrules:\ns 1 -> 1 X s'))).toEqual({ line: 3, column: 10 });
+    expect(positionOf(() => NATIVE_FORMAT.parse('initial state: s\nrules:\ntests:\ninput=1 outcome=maybe'))).toEqual({ line: 4, column: 17 });
+    expect(positionOf(() => NATIVE_FORMAT.parse('initial state: s\nrules:\ntests:\n  input=1'))).toEqual({ line: 4, column: 3 });
+    expect(positionOf(() => NATIVE_FORMAT.parse('initial state: s\nrules:\n  s 1 => 1 R s'))).toEqual({ line: 3, column: 7 });
+    expect(positionOf(() => NATIVE_FORMAT.parse('colour: red'))).toEqual({ line: 1, column: 1 });
+  });
+
+  it('rejects * on tapes, where rules would read it as the wildcard', () => {
+    expect(positionOf(() => NATIVE_FORMAT.parse('initial state: s\ninitial tape: 11*1\nrules:'))).toEqual({ line: 2, column: 17 });
+    expect(positionOf(() => NATIVE_FORMAT.parse('initial state: s\nrules:\ntests:\ninput=1 output=1*'))).toEqual({ line: 4, column: 17 });
+    expect(positionOf(() => CSV_FORMAT.parse('# initial tape: *\na,1,1,R,a'))).toEqual({ line: 1, column: 17 });
+  });
+});
+
+describe('parseYaml', () => {
+  const source = [
+    'input: \'1011\'',
+    'blank: \' \'',
+    'start state: right',
+    'table:',
+    '  right:',
+    '    [1,0]: R',
+    '    \' \': {L: carry}',
+    '  carry:',
+    '    1: {write: 0, L}',
+    '    [0, \' \']: {write: 1, L: done}  # carry stops here',
+    '  done:',
+  ].join('\n');
+
+  it('reads the turingmachine.io binary increment example', () => {
+    const machine = YAML_FORMAT.parse(source);
+
+    expect(machine.initialState).toBe('right');
+    expect(machine.haltStates).toEqual(['done']);
+    expect(machine.rules).toEqual([
+      { currentState: 'right', readSymbol: '1', writeSymbol: '1', moveDirection: 'R', nextState: 'right' },
+      { currentState: 'right', readSymbol: '0', writeSymbol: '0', moveDirection: 'R', nextState: 'right' },
+      { currentState: 'right', readSymbol: '_', writeSymbol: '_', moveDirection: 'L', nextState: 'carry' },
+      { currentState: 'carry', readSymbol: '1', writeSymbol: '0', moveDirection: 'L', nextState: 'carry' },
+      { currentState: 'carry', readSymbol: '0', writeSymbol: '1', moveDirection: 'L', nextState: 'done' },
+      { currentState: 'carry', readSymbol: '_', writeSymbol: '1', moveDirection: 'L', nextState: 'done' },
+    ]);
+  });
+
+  it('reads #tm directives and leaves other comments alone', () => {
+    const machine = YAML_FORMAT.parse([
+      '#tm name: Flipper',
+      '#tm test: input=0 output=1',
+      '#tm halt: end',
+      '# test: try 0101 by hand',
+      '# name: not the name',
+      source.replace(/done/g, 'end'),
+    ].join('\n'));
+
+    expect(machine.name).toBe('Flipper');
+    expect(machine.tests).toEqual([{ input: '0', expectedOutput: '1' }]);
+    expect(machine.haltStates).toEqual(['end']);
+    expect(YAML_FORMAT.serialize(machine).split('\n').slice(0, 3)).toEqual(['#tm name: Flipper', '#tm test: input=0 output=1', '#tm halt: end']);
+  });
+
+  it('infers accept and reject states from empty state names', () => {
+    const machine = YAML_FORMAT.parse('start state: q\ntable:\n  q:\n    a: {R: accept}\n    b: {R: reject}\n  accept:\n  reject: {}\n');
+
+    expect(machine.acceptStates).toEqual(['accept']);
+    expect(machine.rejectStates).toEqual(['reject']);
+    expect(machine.haltStates).toBeUndefined();
+  });
+
+  it('points at the offending action', () => {
+    expect(positionOf(() => YAML_FORMAT.parse('start state: q\ntable:\n  q:\n    a: {write: b}\n'))).toEqual({ line: 4, column: 8 });
+    expect(positionOf(() => YAML_FORMAT.parse('start state: q\ntable:\n  q:\n    a: {X: q}\n'))).toEqual({ line: 4, column: 9 });
+  });
+
+  it('rejects * as a symbol, since it would read as the wildcard', () => {
+    expect(positionOf(() => YAML_FORMAT.parse("input: '1*1'\nstart state: q\ntable:\n  q:\n"))).toEqual({ line: 1, column: 9 });
+    expect(positionOf(() => YAML_FORMAT.parse("start state: q\ntable:\n  q:\n    '*': R\n"))).toEqual({ line: 4, column: 1 });
+    expect(positionOf(() => YAML_FORMAT.parse("start state: q\ntable:\n  q:\n    a: {write: '*', R}\n"))).toEqual({ line: 4, column: 8 });
+  });
+});
+
+describe('parseCsv', () => {
+  it('skips the header row and unquotes cells', () => {
+    const machine = CSV_FORMAT.parse('state,read,write,move,next\nq,",","""",R,done\n');
+
+    expect(machine.initialState).toBe('q');
+    expect(machine.rules).toEqual([{ currentState: 'q', readSymbol: ',', writeSymbol: '"', moveDirection: 'R', nextState: 'done' }]);
+  });
+
+  it('reads test directives', () => {
+    const machine = CSV_FORMAT.parse('# test: input=10 output=11\na,1,1,R,a\n');
+
+    expect(machine.tests).toEqual([{ input: '10', expectedOutput: '11' }]);
+    expect(positionOf(() => CSV_FORMAT.parse('# test: input=10 max=0\na,1,1,R,a'))).toEqual({ line: 1, column: 22 });
+  });
+
+  it('points at the offending cell', () => {
+    expect(positionOf(() => CSV_FORMAT.parse('q,1,1,up,q'))).toEqual({ line: 1, column: 7 });
+    expect(positionOf(() => CSV_FORMAT.parse('# name: x\nq,1,1'))).toEqual({ line: 2, column: 5 });
+  });
+});
+
+describe('detectFormat', () => {
+  it('prefers the file extension, then the content', () => {
+    expect(detectFormat('', 'machine.yml')).toBe(YAML_FORMAT);
+    expect(detectFormat('', 'machine.CSV')).toBe(CSV_FORMAT);
+    expect(detectFormat('input: 1\ntable:\n')).toBe(YAML_FORMAT);
+    expect(detectFormat('initial state: q\nrules:\n')).toBe(NATIVE_FORMAT);
+    expect(detectFormat('q,1,1,R,q')).toBe(CSV_FORMAT);
+  });
+
+  it('registers every format once', () => {
+    expect(new Set(FORMATS.map(f => f.id)).size).toBe(FORMATS.length);
+  });
+});
+
+describe('machine links', () => {
+  it('restores the machine encoded in the hash', () => {
+    const machine = { ...PRESETS[0], name: 'Zähler ✓', initialTape: '1_01' };
+    const hash = encodeMachineHash(machine);
+
+    expect(hash).toMatch(/^#machine=[\w-]+$/);
+    expect(decodeMachineHash(hash)).toEqual({ ...machine, description: machine.description.replace(/\s*\n\s*/g, ' ') });
+  });
+
+  it('ignores other hashes and rejects damaged links', () => {
+    expect(decodeMachineHash('')).toBeNull();
+    expect(decodeMachineHash('#section')).toBeNull();
+    expect(() => decodeMachineHash('#machine=%%%')).toThrow(/damaged/);
+  });
+});
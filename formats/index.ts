@@ -0,0 +1,23 @@
+import { CSV_FORMAT } from './csv';
+import { NATIVE_FORMAT } from './native';
+import { MachineFormat } from './shared';
+import { YAML_FORMAT } from './yaml';
+
+export { FormatError } from './shared';
+export type { MachineFormat } from './shared';
+
+export const FORMATS: MachineFormat[] = [NATIVE_FORMAT, YAML_FORMAT, CSV_FORMAT];
+
+export const getFormat = (id: string): MachineFormat => FORMATS.find(f => f.id === id) ?? NATIVE_FORMAT;
+
+// Picks a format from the file extension when there is one, otherwise from the content
+export const detectFormat = (text: string, fileName?: string): MachineFormat => {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'yaml' || extension === 'yml') return YAML_FORMAT;
+  if (extension === 'csv') return CSV_FORMAT;
+  if (extension === 'tm') return NATIVE_FORMAT;
+
+  if (/^table\s*:/m.test(text)) return YAML_FORMAT;
+  if (/^\s*rules\s*:\s*$/im.test(text)) return NATIVE_FORMAT;
+  return CSV_FORMAT;
+};
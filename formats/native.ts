@@ -0,0 +1,185 @@
+import { Preset, TapeTransition, TestCase, TransitionRule } from '../types';
+import { getRuleTransitions, withRuleTransitions } from '../engine/simulator';
+import { FormatError, MachineFormat, Token, formatTestCase, parseList, parseInteger, parseMove, parsePositiveInteger, parseTapeText, parseTestCase, tokenize } from './shared';
+
+// Turing Master's own plain-text machine format (.tm). See README.md for the full description:
+//
+//   name: Binary Increment
+//   initial state: start
+//   initial tape: 1011
+//   halt: done
+//
+//   rules:
+//   start 0 -> 0 R start
+//
+//   tests:
+//   input=1011 output=1100 outcome=halted
+//
+// Header lines are `key: value`; everything after `rules:` is one rule per line,
+// `<state> <read> -> <write> <move> <next>`, optionally followed by `call=<machine>` (the
+// name URI-encoded). On k-tape machines read, write and move are comma-separated tuples. An optional `tests:` section follows with one test case
+// per line as `key=value` fields. Lines starting with # are comments.
+
+const HEADER_KEYS = ['name', 'description', 'initial state', 'initial tape', 'head', 'tapes', 'accept', 'reject', 'halt', 'nondeterministic'] as const;
+type HeaderKey = typeof HEADER_KEYS[number];
+
+const parseTuple = (token: Token, tapeCount: number, line: number, what: string): string[] => {
+  const parts = tapeCount > 1 ? token.text.split(',') : [token.text];
+  if (parts.length !== tapeCount) {
+    throw new FormatError(`Expected ${tapeCount} ${what} values separated by commas, found ${parts.length}`, line, token.column);
+  }
+  return parts;
+};
+
+const CALL_PREFIX = 'call=';
+
+const parseRule = (tokens: Token[], tapeCount: number, line: number): TransitionRule => {
+  const call = tokens[6];
+  if (call && tokens.length === 7 && tokens[2].text === '->') {
+    if (!call.text.startsWith(CALL_PREFIX) || call.text.length === CALL_PREFIX.length) {
+      throw new FormatError('Expected "call=<machine>" after the next state', line, call.column);
+    }
+    const rule = parseRule(tokens.slice(0, 6), tapeCount, line);
+    try {
+      return { ...rule, call: decodeURIComponent(call.text.slice(CALL_PREFIX.length)) };
+    } catch {
+      throw new FormatError('Malformed machine name', line, call.column + CALL_PREFIX.length);
+    }
+  }
+  if (tokens.length !== 6 || tokens[2].text !== '->') {
+    const column = tokens.length > 2 && tokens[2].text !== '->' ? tokens[2].column : tokens[tokens.length - 1].column;
+    throw new FormatError('Expected a rule of the form "<state> <read> -> <write> <move> <next>"', line, column);
+  }
+  const [state, read, , write, move, next] = tokens;
+  const reads = parseTuple(read, tapeCount, line, 'read');
+  const writes = parseTuple(write, tapeCount, line, 'write');
+  const moves = parseTuple(move, tapeCount, line, 'move');
+
+  let offset = 0;
+  const transitions: TapeTransition[] = reads.map((readSymbol, i) => {
+    const moveDirection = parseMove(moves[i], line, move.column + offset);
+    offset += moves[i].length + 1;
+    return { readSymbol, writeSymbol: writes[i], moveDirection };
+  });
+  const base: TransitionRule = { currentState: state.text, nextState: next.text, ...transitions[0] };
+  return withRuleTransitions(base, transitions);
+};
+
+export const parseNative = (text: string): Preset => {
+  const header: Partial<Record<HeaderKey, string>> = {};
+  const rules: TransitionRule[] = [];
+  const tests: TestCase[] = [];
+  let section: 'header' | 'rules' | 'tests' = 'header';
+  let tapeCount = 1;
+  let initialHead = 0;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = i + 1;
+    const trimmed = raw.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) return;
+
+    if (trimmed.toLowerCase() === 'tests:' && section === 'rules') {
+      section = 'tests';
+      return;
+    }
+    if (section === 'rules') {
+      rules.push(parseRule(tokenize(raw), tapeCount, line));
+      return;
+    }
+    if (section === 'tests') {
+      tests.push(parseTestCase(tokenize(raw), tapeCount, line));
+      return;
+    }
+
+    if (trimmed.toLowerCase() === 'rules:') {
+      section = 'rules';
+      return;
+    }
+
+    const colon = raw.indexOf(':');
+    const column = raw.length - raw.trimStart().length + 1;
+    if (colon === -1) {
+      throw new FormatError('Expected "key: value" or "rules:"', line, column);
+    }
+    const key = raw.slice(0, colon).trim().toLowerCase() as HeaderKey;
+    if (!HEADER_KEYS.includes(key)) {
+      throw new FormatError(`Unknown key "${raw.slice(0, colon).trim()}"`, line, column);
+    }
+    const value = raw.slice(colon + 1).trim();
+    const valueColumn = raw.indexOf(value, colon + 1) + 1;
+    if (key === 'tapes') {
+      tapeCount = parsePositiveInteger(value, 'Tape count', line, valueColumn);
+    }
+    if (key === 'head') {
+      initialHead = parseInteger(value, 'Head position', line, valueColumn);
+    }
+    if (key === 'initial tape') {
+      parseTapeText(value, 'The initial tape', line, valueColumn);
+    }
+    header[key] = value;
+  });
+
+  if (!header['initial state']) {
+    throw new FormatError('Missing "initial state"', 1, 1);
+  }
+
+  const machine: Preset = {
+    name: header.name || 'Imported Machine',
+    description: header.description ?? '',
+    initialTape: header['initial tape'] ?? '',
+    initialState: header['initial state'],
+    rules,
+  };
+  if (initialHead !== 0) machine.initialHead = initialHead;
+  if (tapeCount > 1) machine.tapeCount = tapeCount;
+  if (header.accept) machine.acceptStates = parseList(header.accept);
+  if (header.reject) machine.rejectStates = parseList(header.reject);
+  if (header.halt) machine.haltStates = parseList(header.halt);
+  if (/^(yes|true)$/i.test(header.nondeterministic ?? '')) machine.nondeterministic = true;
+  if (tests.length > 0) machine.tests = tests;
+  return machine;
+};
+
+export const serializeNative = (machine: Preset): string => {
+  const tapeCount = machine.tapeCount ?? 1;
+  const lines = [
+    `name: ${machine.name}`,
+    `description: ${machine.description.replace(/\s*\n\s*/g, ' ')}`,
+    `initial state: ${machine.initialState}`,
+    `initial tape: ${machine.initialTape}`,
+  ];
+  if (machine.initialHead) lines.push(`head: ${machine.initialHead}`);
+  if (tapeCount > 1) lines.push(`tapes: ${tapeCount}`);
+  if (machine.acceptStates?.length) lines.push(`accept: ${machine.acceptStates.join(', ')}`);
+  if (machine.rejectStates?.length) lines.push(`reject: ${machine.rejectStates.join(', ')}`);
+  if (machine.haltStates?.length) lines.push(`halt: ${machine.haltStates.join(', ')}`);
+  if (machine.nondeterministic) lines.push('nondeterministic: yes');
+
+  const rows = machine.rules.map(rule => {
+    const transitions = getRuleTransitions(rule, tapeCount);
+    return [
+      rule.currentState,
+      transitions.map(t => t.readSymbol).join(','),
+      '->',
+      transitions.map(t => t.writeSymbol).join(','),
+      transitions.map(t => t.moveDirection).join(','),
+      rule.nextState,
+      ...(rule.call === undefined ? [] : [`${CALL_PREFIX}${encodeURIComponent(rule.call)}`]),
+    ];
+  });
+  // Pad columns so the table reads well in a diff
+  const widths = rows.reduce((w, row) => row.map((cell, i) => Math.max(w[i] ?? 0, cell.length)), [] as number[]);
+  const ruleLines = rows.map(row => row.map((cell, i) => (i === row.length - 1 ? cell : cell.padEnd(widths[i]))).join(' '));
+
+  const testLines = machine.tests?.length ? ['', 'tests:', ...machine.tests.map(formatTestCase)] : [];
+
+  return [...lines, '', 'rules:', ...ruleLines, ...testLines, ''].join('\n');
+};
+
+export const NATIVE_FORMAT: MachineFormat = {
+  id: 'native',
+  label: 'Turing Master (.tm)',
+  extension: 'tm',
+  parse: parseNative,
+  serialize: serializeNative,
+};
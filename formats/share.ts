@@ -0,0 +1,31 @@
+import { Preset } from '../types';
+import { parseNative, serializeNative } from './native';
+
+// Shared links carry the whole machine in the URL hash as base64url-encoded .tm text, so
+// opening one never needs a server and goes through the same validation as an import.
+
+const HASH_PREFIX = '#machine=';
+
+const toBase64Url = (text: string) => {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+export const encodeMachineHash = (machine: Preset): string => HASH_PREFIX + toBase64Url(serializeNative(machine));
+
+// Null when the hash is not a machine link; throws when it is one but cannot be read
+export const decodeMachineHash = (hash: string): Preset | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  let text: string;
+  try {
+    text = fromBase64Url(hash.slice(HASH_PREFIX.length));
+  } catch {
+    throw new Error('The shared link is damaged and could not be decoded.');
+  }
+  return parseNative(text);
+};
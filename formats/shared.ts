@@ -0,0 +1,135 @@
+import { ExpectedOutcome, MoveDirection, Preset, TestCase } from '../types';
+import { ANY_SYMBOL } from '../constants';
+
+// Raised by every parser with a 1-based position pointing at the offending text.
+export class FormatError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`Line ${line}, column ${column}: ${message}`);
+    this.name = 'FormatError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+export interface MachineFormat {
+  id: string;
+  label: string;
+  extension: string;
+  parse: (text: string) => Preset;
+  serialize: (machine: Preset) => string;
+}
+
+export interface Token {
+  text: string;
+  column: number;
+}
+
+// Whitespace-separated tokens with their 1-based columns
+export const tokenize = (line: string): Token[] =>
+  [...line.matchAll(/\S+/g)].map(m => ({ text: m[0], column: (m.index ?? 0) + 1 }));
+
+export const parseMove = (text: string, line: number, column: number): MoveDirection => {
+  const move = text.toUpperCase();
+  if (move === 'L' || move === 'R' || move === 'N') return move;
+  if (move === 'S') return 'N';
+  throw new FormatError(`Unknown move "${text}" (expected L, R or N)`, line, column);
+};
+
+export const parseList = (value: string): string[] => value.split(',').map(s => s.trim()).filter(Boolean);
+
+const OUTCOMES: ExpectedOutcome[] = ['accepted', 'rejected', 'halted', 'stuck', 'loops'];
+
+// Rules read `*` as the wildcard, so it cannot be written on a tape as a symbol
+export const parseTapeText = (value: string, what: string, line: number, column: number): string => {
+  const at = value.indexOf(ANY_SYMBOL);
+  if (at !== -1) throw new FormatError(`${what} cannot hold "${ANY_SYMBOL}", the wildcard symbol`, line, column + at);
+  return value;
+};
+
+// A lone blank stands for an empty tape, which would otherwise leave nothing after `=`
+const tapeField = (value: string, what: string, line: number, column: number) =>
+  (/^_+$/.test(value) ? '' : parseTapeText(value, what, line, column));
+
+export const parsePositiveInteger = (value: string, what: string, line: number, column: number): number => {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new FormatError(`${what} must be a positive integer, found "${value}"`, line, column);
+  }
+  return n;
+};
+
+export const parseInteger = (value: string, what: string, line: number, column: number): number => {
+  const n = Number(value);
+  if (value === '' || !Number.isInteger(n)) {
+    throw new FormatError(`${what} must be an integer, found "${value}"`, line, column);
+  }
+  return n;
+};
+
+// One test case as `key=value` fields, shared by the .tm `tests:` section and `# test:` directives
+export const parseTestCase = (tokens: Token[], tapeCount: number, line: number): TestCase => {
+  const test: TestCase = { input: '' };
+  tokens.forEach(({ text, column }) => {
+    const eq = text.indexOf('=');
+    const key = eq === -1 ? '' : text.slice(0, eq).toLowerCase();
+    const value = text.slice(eq + 1);
+    const valueColumn = column + eq + 1;
+    switch (key) {
+      case 'input':
+        test.input = tapeField(value, 'Test input', line, valueColumn);
+        break;
+      case 'output':
+        test.expectedOutput = tapeField(value, 'Expected output', line, valueColumn);
+        break;
+      case 'outcome':
+        if (!OUTCOMES.includes(value.toLowerCase() as ExpectedOutcome)) {
+          throw new FormatError(`Unknown outcome "${value}" (expected ${OUTCOMES.join(', ')})`, line, valueColumn);
+        }
+        test.expectedOutcome = value.toLowerCase() as ExpectedOutcome;
+        break;
+      case 'tape': {
+        const tape = parsePositiveInteger(value, 'Output tape', line, valueColumn);
+        if (tape > tapeCount) {
+          throw new FormatError(`Output tape ${tape} does not exist on a ${tapeCount}-tape machine`, line, valueColumn);
+        }
+        if (tape > 1) test.outputTape = tape - 1;
+        break;
+      }
+      case 'max':
+        test.maxSteps = parsePositiveInteger(value, 'Step limit', line, valueColumn);
+        break;
+      default:
+        throw new FormatError(`Expected a test field input=, output=, outcome=, tape= or max=, found "${text}"`, line, column);
+    }
+  });
+  if (test.expectedOutput === undefined && !test.expectedOutcome) {
+    throw new FormatError('A test needs an output= or outcome= expectation', line, tokens[0]?.column ?? 1);
+  }
+  return test;
+};
+
+export const formatTestCase = (test: TestCase): string => [
+  `input=${test.input || '_'}`,
+  ...(test.expectedOutput !== undefined ? [`output=${test.expectedOutput || '_'}`] : []),
+  ...(test.outputTape ? [`tape=${test.outputTape + 1}`] : []),
+  ...(test.expectedOutcome ? [`outcome=${test.expectedOutcome}`] : []),
+  ...(test.maxSteps ? [`max=${test.maxSteps}`] : []),
+].join(' ');
+
+// `# key: value` directives carry machine metadata in formats that have no place for it
+export const DIRECTIVE_PATTERN = /^#\s*([a-z ]+?)\s*:\s*(.*)$/i;
+
+export const formatDirectives = (machine: Preset, prefix = '#'): string[] => [
+  `${prefix} name: ${machine.name}`,
+  ...(machine.description ? [`${prefix} description: ${machine.description.replace(/\s*\n\s*/g, ' ')}`] : []),
+  ...(machine.tests ?? []).map(test => `${prefix} test: ${formatTestCase(test)}`),
+];
+
+// Tokens of a `# test: ...` directive's value, keeping their columns in the full line
+export const directiveValueTokens = (raw: string): Token[] => {
+  const colon = raw.indexOf(':');
+  return tokenize(' '.repeat(colon + 1) + raw.slice(colon + 1));
+};
@@ -0,0 +1,398 @@
+import { MoveDirection, Preset, TestCase, TransitionRule } from '../types';
+import { ANY_SYMBOL, EMPTY_SYMBOL } from '../constants';
+import { FormatError, MachineFormat, directiveValueTokens, formatDirectives, parseList, parseTapeText, parseTestCase } from './shared';
+import { expandRules, usesPatterns } from '../engine/ruleExpansion';
+import { hasCalls } from '../engine/composition';
+
+// The YAML dialect used by turingmachine.io:
+//
+//   input: '1011'
+//   blank: ' '
+//   start state: right
+//   table:
+//     right:
+//       [1,0]: R
+//       ' ': {L: carry}
+//     carry:
+//       1: {write: 0, L}
+//       [0,' ']: {write: 1, L: done}
+//     done:
+//
+// Only this subset of YAML is understood, not the whole language. States with no entries are
+// final: accept* / reject* names become accept / reject states, anything else a halt state,
+// unless `#tm accept:` style directives say otherwise.
+
+interface FlowEntry {
+  key: string;
+  value: FlowValue;
+  column: number;
+}
+
+type FlowValue = string | null | FlowValue[] | { entries: FlowEntry[] };
+
+// A cursor over one line that reads YAML scalars and flow collections
+class LineReader {
+  pos: number;
+
+  constructor(private text: string, private line: number, start: number) {
+    this.pos = start;
+  }
+
+  get column() {
+    return this.pos + 1;
+  }
+
+  fail(message: string, column = this.column): never {
+    throw new FormatError(message, this.line, column);
+  }
+
+  skipSpaces() {
+    while (this.text[this.pos] === ' ' || this.text[this.pos] === '\t') this.pos++;
+  }
+
+  peek() {
+    return this.text[this.pos];
+  }
+
+  atEnd() {
+    this.skipSpaces();
+    return this.pos >= this.text.length;
+  }
+
+  expect(char: string) {
+    this.skipSpaces();
+    if (this.peek() !== char) this.fail(`Expected "${char}"`);
+    this.pos++;
+  }
+
+  // Plain scalars end at `stops` (flow punctuation) or at ": " when read as a mapping key
+  scalar(stops: string, asKey: boolean): string {
+    this.skipSpaces();
+    const quote = this.peek();
+    if (quote === "'" || quote === '"') {
+      const column = this.column;
+      let value = '';
+      this.pos++;
+      while (true) {
+        if (this.pos >= this.text.length) this.fail('Unterminated quoted string', column);
+        const char = this.text[this.pos];
+        if (char === quote && quote === "'" && this.text[this.pos + 1] === "'") {
+          value += "'";
+          this.pos += 2;
+        } else if (char === quote) {
+          this.pos++;
+          return value;
+        } else if (char === '\\' && quote === '"') {
+          value += this.text[this.pos + 1] ?? '';
+          this.pos += 2;
+        } else {
+          value += char;
+          this.pos++;
+        }
+      }
+    }
+    const start = this.pos;
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos];
+      if (stops.includes(char)) break;
+      if (asKey && char === ':' && /[\s,{}[\]]|^$/.test(this.text[this.pos + 1] ?? '')) break;
+      this.pos++;
+    }
+    return this.text.slice(start, this.pos).trim();
+  }
+
+  value(stops: string, asKey = false): FlowValue {
+    this.skipSpaces();
+    if (this.peek() === '[') return this.sequence();
+    if (this.peek() === '{') return this.map();
+    return this.scalar(stops, asKey);
+  }
+
+  sequence(): FlowValue[] {
+    this.expect('[');
+    const items: FlowValue[] = [];
+    this.skipSpaces();
+    if (this.peek() === ']') {
+      this.pos++;
+      return items;
+    }
+    while (true) {
+      items.push(this.value(',]'));
+      this.skipSpaces();
+      if (this.peek() === ']') {
+        this.pos++;
+        return items;
+      }
+      this.expect(',');
+    }
+  }
+
+  map(): { entries: FlowEntry[] } {
+    this.expect('{');
+    const entries: FlowEntry[] = [];
+    this.skipSpaces();
+    if (this.peek() === '}') {
+      this.pos++;
+      return { entries };
+    }
+    while (true) {
+      this.skipSpaces();
+      const column = this.column;
+      const key = this.scalar(',}', true);
+      this.skipSpaces();
+      let value: FlowValue = null;
+      if (this.peek() === ':') {
+        this.pos++;
+        value = this.value(',}');
+      }
+      entries.push({ key, value, column });
+      this.skipSpaces();
+      if (this.peek() === '}') {
+        this.pos++;
+        return { entries };
+      }
+      this.expect(',');
+    }
+  }
+}
+
+// Drops a trailing comment, leaving `#` inside quotes alone
+const stripComment = (raw: string) => {
+  let quote: string | null = null;
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(raw[i - 1]))) {
+      return raw.slice(0, i);
+    }
+  }
+  return raw;
+};
+
+interface YamlLine {
+  line: number;
+  indent: number;
+  text: string;
+}
+
+const TOP_LEVEL_KEYS = ['input', 'blank', 'start state', 'table'];
+
+// Metadata travels in `#tm key: value` comments; every other comment, `# test: ...` included,
+// is left alone
+const DIRECTIVE_PREFIX = '#tm';
+const DIRECTIVE_PATTERN = /^#tm\s+([a-z ]+?)\s*:\s*(.*)$/i;
+
+const isScalar = (value: FlowValue): value is string => typeof value === 'string';
+
+const parseAction = (
+  action: FlowValue,
+  state: string,
+  line: number,
+  column: number,
+): { write?: string; move: MoveDirection; next: string } => {
+  if (isScalar(action)) {
+    if (action !== 'L' && action !== 'R') throw new FormatError(`Expected L, R or a {write, L/R} map, found "${action}"`, line, column);
+    return { move: action, next: state };
+  }
+  if (action === null || Array.isArray(action)) {
+    throw new FormatError('Expected L, R or a {write, L/R} map', line, column);
+  }
+  let write: string | undefined;
+  let move: { dir: MoveDirection; next: string } | undefined;
+  for (const entry of action.entries) {
+    if (entry.key === 'write') {
+      if (!isScalar(entry.value)) throw new FormatError('"write" takes a single symbol', line, entry.column);
+      write = entry.value;
+    } else if (entry.key === 'L' || entry.key === 'R') {
+      if (move) throw new FormatError('An action can only move once', line, entry.column);
+      const next = entry.value ?? state;
+      if (!isScalar(next)) throw new FormatError('Expected a state name', line, entry.column);
+      move = { dir: entry.key, next: next || state };
+    } else {
+      throw new FormatError(`Unknown action key "${entry.key}" (expected write, L or R)`, line, entry.column);
+    }
+  }
+  if (!move) throw new FormatError('Action is missing a move (L or R)', line, column);
+  return { write, move: move.dir, next: move.next };
+};
+
+export const parseYaml = (text: string): Preset => {
+  const directives: Record<string, string> = {};
+  const tests: TestCase[] = [];
+  const lines: YamlLine[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const directive = raw.trim().match(DIRECTIVE_PATTERN);
+    if (directive?.[1].toLowerCase() === 'test') tests.push(parseTestCase(directiveValueTokens(raw), 1, i + 1));
+    else if (directive) directives[directive[1].toLowerCase()] = directive[2].trim();
+    const content = stripComment(raw).trimEnd();
+    if (content.trim() === '') return;
+    if (raw.startsWith('\t')) throw new FormatError('Tabs are not allowed for indentation', i + 1, 1);
+    lines.push({ line: i + 1, indent: content.length - content.trimStart().length, text: content });
+  });
+
+  const header: Record<string, string> = {};
+  const stateOrder: string[] = [];
+  const rules: TransitionRule[] = [];
+  const symbolRows: { state: string; symbols: FlowValue; action: FlowValue; line: number; column: number }[] = [];
+
+  let i = 0;
+  while (i < lines.length) {
+    const { line, indent, text: content } = lines[i];
+    if (indent !== 0) throw new FormatError('Unexpected indentation', line, indent + 1);
+    const reader = new LineReader(content, line, 0);
+    const key = reader.scalar('', true);
+    if (!TOP_LEVEL_KEYS.includes(key)) reader.fail(`Unknown key "${key}"`, 1);
+    reader.expect(':');
+    i++;
+
+    if (key !== 'table') {
+      reader.skipSpaces();
+      const valueColumn = reader.column;
+      const value = reader.value('') ?? '';
+      if (!isScalar(value)) throw new FormatError(`"${key}" must be a single value`, line, reader.column);
+      if (key === 'input') parseTapeText(value, 'The input', line, valueColumn);
+      header[key] = value;
+      continue;
+    }
+
+    if (!reader.atEnd()) reader.fail('Expected the table states on the following lines');
+    // States sit one level in from `table:`, their symbol entries one level further
+    const stateIndent = lines[i]?.indent ?? 0;
+    while (i < lines.length && lines[i].indent > 0) {
+      const stateLine = lines[i];
+      if (stateLine.indent !== stateIndent) throw new FormatError('Inconsistent indentation', stateLine.line, stateLine.indent + 1);
+      const stateReader = new LineReader(stateLine.text, stateLine.line, stateLine.indent);
+      const state = stateReader.scalar('', true);
+      stateReader.expect(':');
+      // `done: {}` and `done:` both declare a state without rules
+      if (!stateReader.atEnd() && stateLine.text.slice(stateReader.pos).trim() !== '{}') {
+        stateReader.fail('Expected the symbol entries on the following lines');
+      }
+      if (stateOrder.includes(state)) throw new FormatError(`State "${state}" is defined twice`, stateLine.line, stateLine.indent + 1);
+      stateOrder.push(state);
+      i++;
+
+      while (i < lines.length && lines[i].indent > stateIndent) {
+        const entry = lines[i];
+        const entryReader = new LineReader(entry.text, entry.line, entry.indent);
+        const symbols = entryReader.value('', true);
+        entryReader.expect(':');
+        entryReader.skipSpaces();
+        const column = entryReader.column;
+        const action = entryReader.value('');
+        if (!entryReader.atEnd()) entryReader.fail('Unexpected text after the action');
+        symbolRows.push({ state, symbols, action, line: entry.line, column });
+        i++;
+      }
+    }
+  }
+
+  if (!header['start state']) throw new FormatError('Missing "start state"', 1, 1);
+  const blank = header.blank ?? ' ';
+  if (blank.length !== 1) throw new FormatError('"blank" must be a single character', 1, 1);
+  const toSymbol = (s: string) => (s === blank ? EMPTY_SYMBOL : s);
+
+  for (const row of symbolRows) {
+    const symbols = Array.isArray(row.symbols) ? row.symbols : [row.symbols];
+    const { write, move, next } = parseAction(row.action, row.state, row.line, row.column);
+    for (const symbol of symbols) {
+      if (!isScalar(symbol)) throw new FormatError('Expected a symbol', row.line, 1);
+      // turingmachine.io has no wildcards, but here `*` would read as one
+      if (symbol === ANY_SYMBOL || write === ANY_SYMBOL) {
+        throw new FormatError(`"${ANY_SYMBOL}" is the wildcard symbol and cannot be read or written as a tape symbol`, row.line, symbol === ANY_SYMBOL ? 1 : row.column);
+      }
+      const read = toSymbol(symbol);
+      rules.push({
+        currentState: row.state,
+        readSymbol: read,
+        writeSymbol: write === undefined ? read : toSymbol(write),
+        moveDirection: move,
+        nextState: next,
+      });
+    }
+  }
+
+  const machine: Preset = {
+    name: directives.name || 'Imported Machine',
+    description: directives.description ?? '',
+    initialTape: [...(header.input ?? '')].map(toSymbol).join(''),
+    initialState: header['start state'],
+    rules,
+  };
+
+  if (directives.accept || directives.reject || directives.halt) {
+    if (directives.accept) machine.acceptStates = parseList(directives.accept);
+    if (directives.reject) machine.rejectStates = parseList(directives.reject);
+    if (directives.halt) machine.haltStates = parseList(directives.halt);
+  } else {
+    const empty = stateOrder.filter(s => !rules.some(r => r.currentState === s));
+    const accept = empty.filter(s => /^accept/i.test(s));
+    const reject = empty.filter(s => /^reject/i.test(s));
+    const halt = empty.filter(s => !accept.includes(s) && !reject.includes(s));
+    if (accept.length) machine.acceptStates = accept;
+    if (reject.length) machine.rejectStates = reject;
+    if (halt.length) machine.haltStates = halt;
+  }
+  if (tests.length > 0) machine.tests = tests;
+  return machine;
+};
+
+const quote = (s: string) => `'${s.replace(/'/g, "''")}'`;
+
+export const serializeYaml = (machine: Preset): string => {
+  if ((machine.tapeCount ?? 1) > 1) {
+    throw new Error('turingmachine.io YAML only describes single-tape machines; export as .tm instead.');
+  }
+  if (machine.nondeterministic) {
+    throw new Error('turingmachine.io YAML cannot describe nondeterministic machines; export as .tm instead.');
+  }
+  if (machine.initialHead) {
+    throw new Error('turingmachine.io YAML always starts the head on the first input symbol; export as .tm instead.');
+  }
+  if (hasCalls(machine.rules)) {
+    throw new Error('turingmachine.io YAML cannot describe calls to other machines; flatten the rules or export as .tm instead.');
+  }
+  // turingmachine.io has no wildcards, so pattern rules are written out symbol by symbol
+  const rules = machine.rules.some(usesPatterns) ? expandRules(machine) : machine.rules;
+  const stay = rules.find(r => r.moveDirection === 'N');
+  if (stay) {
+    throw new Error(`turingmachine.io YAML has no "stay" move (used by ${stay.currentState} on ${stay.readSymbol}); export as .tm instead.`);
+  }
+
+  const finals = [...(machine.acceptStates ?? []), ...(machine.rejectStates ?? []), ...(machine.haltStates ?? [])];
+  const states = [...new Set([machine.initialState, ...rules.flatMap(r => [r.currentState, r.nextState]), ...finals])];
+
+  const lines = [...formatDirectives(machine, DIRECTIVE_PREFIX)];
+  if (machine.acceptStates?.length) lines.push(`${DIRECTIVE_PREFIX} accept: ${machine.acceptStates.join(', ')}`);
+  if (machine.rejectStates?.length) lines.push(`${DIRECTIVE_PREFIX} reject: ${machine.rejectStates.join(', ')}`);
+  if (machine.haltStates?.length) lines.push(`${DIRECTIVE_PREFIX} halt: ${machine.haltStates.join(', ')}`);
+  lines.push(
+    `input: ${quote(machine.initialTape)}`,
+    `blank: ${quote(EMPTY_SYMBOL)}`,
+    `start state: ${quote(machine.initialState)}`,
+    'table:',
+  );
+
+  for (const state of states) {
+    lines.push(`  ${quote(state)}:`);
+    for (const r of rules.filter(rule => rule.currentState === state)) {
+      const parts: string[] = [];
+      if (r.writeSymbol !== r.readSymbol) parts.push(`write: ${quote(r.writeSymbol)}`);
+      parts.push(r.nextState === state ? r.moveDirection : `${r.moveDirection}: ${quote(r.nextState)}`);
+      const action = parts.length === 1 && r.nextState === state ? r.moveDirection : `{${parts.join(', ')}}`;
+      lines.push(`    ${quote(r.readSymbol)}: ${action}`);
+    }
+  }
+  return [...lines, ''].join('\n');
+};
+
+export const YAML_FORMAT: MachineFormat = {
+  id: 'yaml',
+  label: 'turingmachine.io YAML',
+  extension: 'yaml',
+  parse: parseYaml,
+  serialize: serializeYaml,
+};
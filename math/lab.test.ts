@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeMachine } from '../engine/analyzer';
+import { loadMachine, runUntilHalt } from '../engine/simulator';
+import { expandRules } from '../engine/ruleExpansion';
+import { MathOperation, NumberEncoding, buildMathMachine } from './machines';
+import { MathProblem, answersMatch, decodeNumber, encodeProblem, formatAnswer, readAnswer, solveProblem, validateOperands } from './lab';
+
+const OPERATIONS: MathOperation[] = ['add', 'sub', 'mul', 'div', 'mod', 'cmp', 'gcd'];
+
+const solveOnMachine = (problem: MathProblem) => {
+  const machine = buildMathMachine(problem.operation, problem.encoding);
+  const start = loadMachine({ ...machine, initialTape: encodeProblem(problem) });
+  const { machine: end } = runUntilHalt(start, machine.rules, 2_000_000, { finalStates: machine });
+  return readAnswer(problem, machine, end);
+};
+
+const check = (operation: MathOperation, encoding: NumberEncoding, values: number[]) => {
+  const wrong: string[] = [];
+  for (const a of values) {
+    for (const b of values) {
+      const problem = { operation, encoding, a: BigInt(a), b: BigInt(b) };
+      const actual = solveOnMachine(problem);
+      if (!actual || !answersMatch(actual, solveProblem(problem))) wrong.push(`${a},${b} -> ${actual && formatAnswer(actual)}`);
+    }
+  }
+  expect(wrong).toEqual([]);
+};
+
+describe('math machines', () => {
+  it.each(OPERATIONS)('unary %s agrees with JavaScript', (operation) => {
+    check(operation, 'unary', [0, 1, 2, 3, 5, 6, 9]);
+  });
+
+  it.each(OPERATIONS)('binary %s agrees with JavaScript', (operation) => {
+    check(operation, 'binary', [0, 1, 2, 3, 6, 7, 12, 45, 64, 255]);
+  });
+
+  it('handles large binary operands', () => {
+    for (const operation of OPERATIONS) {
+      const problem = { operation, encoding: 'binary' as const, a: 987_654_321_987n, b: 123_456_789n };
+      expect(answersMatch(solveOnMachine(problem)!, solveProblem(problem))).toBe(true);
+    }
+  });
+
+  it('keeps working once its wildcard rules are written out symbol by symbol', () => {
+    const problem = { operation: 'mul' as const, encoding: 'unary' as const, a: 2n, b: 3n };
+    const machine = { ...buildMathMachine('mul', 'unary'), initialTape: encodeProblem(problem) };
+    const { machine: end } = runUntilHalt(loadMachine(machine), expandRules(machine), 10_000, { finalStates: machine });
+
+    expect(machine.initialTape).toBe('11x111');
+    expect(end.currentState).toBe('done');
+    expect(readAnswer(problem, machine, end)).toEqual(solveProblem(problem));
+  });
+
+  it.each(OPERATIONS.flatMap(op => [[op, 'unary'], [op, 'binary']] as const))('%s in %s has no analyzer errors', (operation, encoding) => {
+    const machine = buildMathMachine(operation, encoding);
+
+    expect(analyzeMachine(machine).filter(d => d.severity === 'error')).toEqual([]);
+  });
+});
+
+describe('encoding', () => {
+  it('writes both operands around the operator', () => {
+    expect(encodeProblem({ operation: 'sub', encoding: 'unary', a: 3n, b: 0n })).toBe('111-');
+    expect(encodeProblem({ operation: 'gcd', encoding: 'binary', a: 12n, b: 0n })).toBe('1100,0');
+  });
+
+  it('decodes signed answers and rejects anything else', () => {
+    expect(decodeNumber('-111', 'unary')).toBe(-3n);
+    expect(decodeNumber('', 'unary')).toBe(0n);
+    expect(decodeNumber('-101', 'binary')).toBe(-5n);
+    expect(decodeNumber('0', 'binary')).toBe(0n);
+    expect(decodeNumber('011', 'binary')).toBeNull();
+    expect(decodeNumber('-', 'unary')).toBeNull();
+    expect(decodeNumber('1x1', 'unary')).toBeNull();
+  });
+
+  it('limits unary operands', () => {
+    expect(validateOperands(201n, 1n, 'unary')).toMatch(/binary/);
+    expect(validateOperands(201n, 1n, 'binary')).toBeNull();
+    expect(validateOperands(-1n, 1n, 'binary')).toMatch(/non-negative/);
+  });
+});
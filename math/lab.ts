@@ -0,0 +1,90 @@
+import { FinalStates, MachineState } from '../types';
+import { getHaltOutcome, getTapeString } from '../engine/simulator';
+import { MathOperation, NumberEncoding, OPERATION_SYMBOLS } from './machines';
+
+// Encodes Math Laboratory problems onto a tape and reads the machine's answer back, so it
+// can be checked against the same calculation done in JavaScript.
+
+export interface MathProblem {
+  operation: MathOperation;
+  encoding: NumberEncoding;
+  a: bigint;
+  b: bigint;
+}
+
+export type MathAnswer =
+  | { kind: 'number'; value: bigint }
+  | { kind: 'order'; value: '<' | '=' | '>' }
+  | { kind: 'undefined' }; // Division by zero
+
+export const OPERATION_LABELS: Record<MathOperation, string> = {
+  add: 'A + B', sub: 'A − B', mul: 'A × B', div: 'A ÷ B', mod: 'A mod B', cmp: 'compare A, B', gcd: 'gcd(A, B)',
+};
+
+// Unary tapes grow with the value, and multiplying them grows the run quadratically
+export const MAX_UNARY_OPERAND = 200n;
+export const MAX_BINARY_DIGITS = 64;
+
+export const encodeNumber = (n: bigint, encoding: NumberEncoding): string =>
+  encoding === 'unary' ? '1'.repeat(Number(n)) : n.toString(2);
+
+// A signed number as the machines write it, or null if the tape holds something else
+export const decodeNumber = (text: string, encoding: NumberEncoding): bigint | null => {
+  const match = text.match(encoding === 'unary' ? /^(-?)(1*)$/ : /^(-?)(0|1[01]*)$/);
+  if (!match || (match[1] && /^0*$/.test(match[2]))) return null;
+  const magnitude = encoding === 'unary' ? BigInt(match[2].length) : BigInt(`0b${match[2]}`);
+  return match[1] ? -magnitude : magnitude;
+};
+
+// Why the operands cannot be encoded, or null if they can
+export const validateOperands = (a: bigint, b: bigint, encoding: NumberEncoding): string | null => {
+  if (a < 0n || b < 0n) return 'Operands must be non-negative integers.';
+  if (encoding === 'unary' && (a > MAX_UNARY_OPERAND || b > MAX_UNARY_OPERAND)) {
+    return `Unary operands are limited to ${MAX_UNARY_OPERAND}; switch to binary for larger numbers.`;
+  }
+  if (encoding === 'binary' && (a.toString(2).length > MAX_BINARY_DIGITS || b.toString(2).length > MAX_BINARY_DIGITS)) {
+    return `Binary operands are limited to ${MAX_BINARY_DIGITS} digits.`;
+  }
+  return null;
+};
+
+export const encodeProblem = ({ operation, encoding, a, b }: MathProblem): string =>
+  `${encodeNumber(a, encoding)}${OPERATION_SYMBOLS[operation]}${encodeNumber(b, encoding)}`;
+
+const gcd = (a: bigint, b: bigint): bigint => (b === 0n ? a : gcd(b, a % b));
+
+// The reference answer, computed with BigInt
+export const solveProblem = ({ operation, a, b }: MathProblem): MathAnswer => {
+  switch (operation) {
+    case 'add': return { kind: 'number', value: a + b };
+    case 'sub': return { kind: 'number', value: a - b };
+    case 'mul': return { kind: 'number', value: a * b };
+    case 'div': return b === 0n ? { kind: 'undefined' } : { kind: 'number', value: a / b };
+    case 'mod': return b === 0n ? { kind: 'undefined' } : { kind: 'number', value: a % b };
+    case 'cmp': return { kind: 'order', value: a < b ? '<' : a > b ? '>' : '=' };
+    case 'gcd': return { kind: 'number', value: gcd(a, b) };
+  }
+};
+
+// What the halted machine answered, or null if it did not halt with a readable answer
+export const readAnswer = (
+  problem: MathProblem,
+  machine: FinalStates & { outputTape: number },
+  state: MachineState,
+): MathAnswer | null => {
+  const outcome = getHaltOutcome(state, machine);
+  if (outcome === 'rejected') return { kind: 'undefined' };
+  if (outcome !== 'halted') return null;
+  const output = getTapeString(state.tapes[machine.outputTape] ?? {});
+  if (problem.operation === 'cmp') {
+    return output === '<' || output === '=' || output === '>' ? { kind: 'order', value: output } : null;
+  }
+  const value = decodeNumber(output, problem.encoding);
+  return value === null ? null : { kind: 'number', value };
+};
+
+export const answersMatch = (x: MathAnswer, y: MathAnswer): boolean =>
+  x.kind === y.kind && (x.kind === 'undefined' || x.value === (y as typeof x).value);
+
+export const formatAnswer = (answer: MathAnswer): string =>
+  answer.kind === 'undefined' ? 'undefined (division by zero)' : answer.value.toString();
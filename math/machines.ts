@@ -0,0 +1,591 @@
+import { MoveDirection, Preset, TapeTransition, TransitionRule } from '../types';
+import { EMPTY_SYMBOL, PRESETS } from '../constants';
+import { withRuleTransitions } from '../engine/simulator';
+
+// Turing machines behind the Math Laboratory. Unary machines are written out rule by rule
+// like the presets; binary ones are multi-tape and assembled from small routines (compare,
+// subtract, trim...) because spelling out every tuple of symbols by hand is impractical.
+//
+// Every machine reads `A<op>B` from the start of tape 1 and halts in `done` with the answer
+// on its output tape; dividing by zero ends in the reject state `div_by_zero`.
+
+export type MathOperation = 'add' | 'sub' | 'mul' | 'div' | 'mod' | 'cmp' | 'gcd';
+export type NumberEncoding = 'unary' | 'binary';
+
+export interface MathMachine extends Preset {
+  // 0-based tape that holds the answer when the machine halts
+  outputTape: number;
+}
+
+// Tape symbol between the two operands
+export const OPERATION_SYMBOLS: Record<MathOperation, string> = {
+  add: '+', sub: '-', mul: 'x', div: '/', mod: '%', cmp: '?', gcd: ',',
+};
+
+const FINAL_STATES = { haltStates: ['done'], rejectStates: ['div_by_zero'] };
+
+const rule = (currentState: string, readSymbol: string, writeSymbol: string, moveDirection: MoveDirection, nextState: string): TransitionRule =>
+  ({ currentState, readSymbol, writeSymbol, moveDirection, nextState });
+
+// --- Unary ---
+
+// Pairs off one 1 from the front of A with one from the back of B. Whatever is left over
+// is the answer: ones of A for a positive result, or "-" followed by ones of B for a negative one.
+const UNARY_SUB: TransitionRule[] = [
+  rule('start', '1', '_', 'R', 'to_end'),
+  rule('start', '-', '-', 'R', 'a_empty'),
+  rule('to_end', '1', '1', 'R', 'to_end'),
+  rule('to_end', '-', '-', 'R', 'to_end'),
+  rule('to_end', '_', '_', 'L', 'take_b'),
+  rule('take_b', '1', '_', 'L', 'back'),
+  rule('take_b', '-', '1', 'N', 'done'), // B ran out first: give back the 1 taken from A
+  rule('back', '1', '1', 'L', 'back'),
+  rule('back', '-', '-', 'L', 'back'),
+  rule('back', '_', '_', 'R', 'start'),
+  rule('a_empty', '1', '1', 'N', 'done'), // B is left over, so the "-" stays as the sign
+  rule('a_empty', '_', '_', 'L', 'zero'),
+  rule('zero', '-', '_', 'N', 'done'),
+];
+
+// For every 1 of A (crossed out as a), copies B after an "=" it appended, marking the
+// B cell being copied as y. Finally everything up to and including "=" is erased.
+const UNARY_MUL: TransitionRule[] = [
+  rule('start', '1', '1', 'R', 'start'),
+  rule('start', 'x', 'x', 'R', 'start'),
+  rule('start', '_', '=', 'L', 'rewind'),
+  rule('rewind', '1', '1', 'L', 'rewind'),
+  rule('rewind', 'x', 'x', 'L', 'rewind'),
+  rule('rewind', 'a', 'a', 'L', 'rewind'),
+  rule('rewind', '_', '_', 'R', 'next_a'),
+  rule('next_a', 'a', 'a', 'R', 'next_a'),
+  rule('next_a', '1', 'a', 'R', 'to_b'),
+  rule('next_a', 'x', '_', 'L', 'erase_a'),
+  rule('to_b', '1', '1', 'R', 'to_b'),
+  rule('to_b', 'x', 'x', 'R', 'copy'),
+  rule('copy', 'y', 'y', 'R', 'copy'),
+  rule('copy', '1', 'y', 'R', 'put'),
+  rule('copy', '=', '=', 'L', 'restore_b'),
+  rule('put', '1', '1', 'R', 'put'),
+  rule('put', '=', '=', 'R', 'put'),
+  rule('put', '_', '1', 'L', 'return'),
+  rule('return', '1', '1', 'L', 'return'),
+  rule('return', '=', '=', 'L', 'return'),
+  rule('return', 'y', 'y', 'R', 'copy'),
+  rule('restore_b', 'y', '1', 'L', 'restore_b'),
+  rule('restore_b', 'x', 'x', 'L', 'rewind'),
+  rule('erase_a', 'a', '_', 'L', 'erase_a'),
+  rule('erase_a', '_', '_', 'R', 'skip'),
+  rule('skip', '_', '_', 'R', 'skip'),
+  rule('skip', '1', '_', 'R', 'erase_b'),
+  rule('skip', '=', '_', 'R', 'done'),
+  rule('erase_b', '1', '_', 'R', 'erase_b'),
+  rule('erase_b', '=', '_', 'R', 'done'),
+];
+
+// Repeated subtraction: each round crosses out one 1 of A (as x, from its right end) for
+// every 1 of B (marked y) and appends a 1 to the quotient after "=". When A runs out
+// mid-round, the marked ones of B, less the one that found no partner, are the remainder.
+const unaryDivision = (op: string, keep: 'quotient' | 'remainder'): TransitionRule[] => [
+  rule('start', '1', '1', 'R', 'start'),
+  rule('start', op, op, 'R', 'check_b'),
+  rule('check_b', '_', '_', 'N', 'div_by_zero'),
+  rule('check_b', '1', '1', 'R', 'to_end'),
+  rule('to_end', '1', '1', 'R', 'to_end'),
+  rule('to_end', '_', '=', 'L', 'to_op'),
+  rule('to_op', '1', '1', 'L', 'to_op'),
+  rule('to_op', op, op, 'R', 'pick_b'),
+  rule('pick_b', 'y', 'y', 'R', 'pick_b'),
+  rule('pick_b', '1', 'y', 'L', 'to_a'),
+  rule('pick_b', '=', '=', 'R', 'count'),
+  rule('to_a', 'y', 'y', 'L', 'to_a'),
+  rule('to_a', '1', '1', 'L', 'to_a'),
+  rule('to_a', op, op, 'L', 'take_a'),
+  rule('take_a', 'x', 'x', 'L', 'take_a'),
+  rule('take_a', '1', 'x', 'R', 'back_b'),
+  rule('take_a', '_', '_', 'R', 'clean_a'),
+  rule('back_b', 'x', 'x', 'R', 'back_b'),
+  rule('back_b', op, op, 'R', 'pick_b'),
+  rule('count', '1', '1', 'R', 'count'),
+  rule('count', '_', '1', 'L', 'reset_b'),
+  rule('reset_b', '1', '1', 'L', 'reset_b'),
+  rule('reset_b', '=', '=', 'L', 'reset_b'),
+  rule('reset_b', 'y', '1', 'L', 'reset_b'),
+  rule('reset_b', op, op, 'R', 'pick_b'),
+  // A has run out: clear it and the operator, then keep one of the two results
+  rule('clean_a', 'x', '_', 'R', 'clean_a'),
+  rule('clean_a', op, '_', 'R', 'clean_b'),
+  ...(keep === 'quotient'
+    ? [
+      rule('clean_b', 'y', '_', 'R', 'clean_b'),
+      rule('clean_b', '1', '_', 'R', 'clean_b'),
+      rule('clean_b', '=', '_', 'R', 'done'),
+    ]
+    : [
+      rule('clean_b', 'y', '_', 'R', 'keep_y'), // The y that found no partner in A
+      rule('keep_y', 'y', '1', 'R', 'keep_y'),
+      rule('keep_y', '1', '_', 'R', 'keep_y'),
+      rule('keep_y', '=', '_', 'R', 'clean_q'),
+      rule('clean_q', '1', '_', 'R', 'clean_q'),
+      rule('clean_q', '_', '_', 'N', 'done'),
+    ]),
+];
+
+// Erases one 1 from each end until a side runs out, then writes <, = or > in place of "?"
+const UNARY_CMP: TransitionRule[] = [
+  rule('start', '1', '_', 'R', 'to_end'),
+  rule('start', '?', '?', 'R', 'a_empty'),
+  rule('to_end', '1', '1', 'R', 'to_end'),
+  rule('to_end', '?', '?', 'R', 'to_end'),
+  rule('to_end', '_', '_', 'L', 'take_b'),
+  rule('take_b', '1', '_', 'L', 'back'),
+  rule('take_b', '?', '>', 'L', 'erase_a'),
+  rule('back', '1', '1', 'L', 'back'),
+  rule('back', '?', '?', 'L', 'back'),
+  rule('back', '_', '_', 'R', 'start'),
+  rule('erase_a', '1', '_', 'L', 'erase_a'),
+  rule('erase_a', '_', '_', 'N', 'done'),
+  rule('a_empty', '_', '_', 'L', 'equal'),
+  rule('a_empty', '1', '_', 'R', 'erase_b'),
+  rule('equal', '?', '=', 'N', 'done'),
+  rule('erase_b', '1', '_', 'R', 'erase_b'),
+  rule('erase_b', '_', '_', 'L', 'to_op'),
+  rule('to_op', '_', '_', 'L', 'to_op'),
+  rule('to_op', '?', '<', 'N', 'done'),
+];
+
+// Euclid by subtraction. Ones of A are crossed out from the left (x) and ones of B from the
+// right (y) in pairs; the side that runs out first is subtracted from the other, until
+// both run out together and A is the answer.
+const UNARY_GCD: TransitionRule[] = [
+  // gcd(0, b) = b and gcd(a, 0) = a
+  rule('start', ',', '_', 'N', 'done'),
+  rule('start', '1', '1', 'R', 'scan'),
+  rule('scan', '1', '1', 'R', 'scan'),
+  rule('scan', ',', ',', 'R', 'check_b'),
+  rule('check_b', '_', '_', 'L', 'drop_op'),
+  rule('check_b', '1', '1', 'L', 'rewind'),
+  rule('drop_op', ',', '_', 'N', 'done'),
+
+  rule('rewind', '1', '1', 'L', 'rewind'),
+  rule('rewind', 'x', 'x', 'L', 'rewind'),
+  rule('rewind', 'y', 'y', 'L', 'rewind'),
+  rule('rewind', ',', ',', 'L', 'rewind'),
+  rule('rewind', '_', '_', 'R', 'mark_a'),
+  rule('mark_a', 'x', 'x', 'R', 'mark_a'),
+  rule('mark_a', '1', 'x', 'R', 'to_end'),
+  rule('mark_a', ',', ',', 'R', 'a_out'),
+  rule('to_end', '1', '1', 'R', 'to_end'),
+  rule('to_end', 'x', 'x', 'R', 'to_end'),
+  rule('to_end', 'y', 'y', 'R', 'to_end'),
+  rule('to_end', ',', ',', 'R', 'to_end'),
+  rule('to_end', '_', '_', 'L', 'mark_b'),
+  rule('mark_b', 'y', 'y', 'L', 'mark_b'),
+  rule('mark_b', '1', 'y', 'L', 'rewind'),
+  rule('mark_b', ',', ',', 'L', 'b_out'),
+
+  // B ran out: A -= B, keeping the x that found no partner
+  rule('b_out', '1', '1', 'L', 'b_out'),
+  rule('b_out', 'x', '1', 'L', 'erase_x'),
+  rule('erase_x', 'x', '_', 'L', 'erase_x'),
+  rule('erase_x', '_', '_', 'R', 'skip_gap'),
+  rule('skip_gap', '_', '_', 'R', 'skip_gap'),
+  rule('skip_gap', '1', '1', 'R', 'restore_b'),
+  rule('restore_b', '1', '1', 'R', 'restore_b'),
+  rule('restore_b', ',', ',', 'R', 'restore_b'),
+  rule('restore_b', 'y', '1', 'R', 'restore_b'),
+  rule('restore_b', '_', '_', 'L', 'rewind'),
+
+  // A ran out: B -= A if B has ones left, otherwise A = B is the answer
+  rule('a_out', '1', '1', 'R', 'to_end_b'),
+  rule('a_out', 'y', '_', 'R', 'erase_b'),
+  rule('to_end_b', '1', '1', 'R', 'to_end_b'),
+  rule('to_end_b', 'y', 'y', 'R', 'to_end_b'),
+  rule('to_end_b', '_', '_', 'L', 'erase_y'),
+  rule('erase_y', 'y', '_', 'L', 'erase_y'),
+  rule('erase_y', '1', '1', 'L', 'restore_a'),
+  rule('restore_a', '1', '1', 'L', 'restore_a'),
+  rule('restore_a', ',', ',', 'L', 'restore_a'),
+  rule('restore_a', 'x', '1', 'L', 'restore_a'),
+  rule('restore_a', '_', '_', 'R', 'mark_a'),
+  rule('erase_b', 'y', '_', 'R', 'erase_b'),
+  rule('erase_b', '_', '_', 'L', 'to_op'),
+  rule('to_op', '_', '_', 'L', 'to_op'),
+  rule('to_op', ',', '_', 'L', 'restore_all'),
+  rule('restore_all', 'x', '1', 'L', 'restore_all'),
+  rule('restore_all', '_', '_', 'N', 'done'),
+];
+
+// --- Binary ---
+
+const DIGITS = ['0', '1'];
+const CELL = [...DIGITS, EMPTY_SYMBOL];
+const bit = (symbol: string) => (symbol === '1' ? 1 : 0);
+
+type TapeMap<T> = Partial<Record<number, T>>;
+
+// Assumes the given tapes show a blank, for RuleBuilder.during
+const blank = (...tapes: number[]): TapeMap<string[]> => Object.fromEntries(tapes.map(t => [t, [EMPTY_SYMBOL]]));
+
+// Collects rules for a k-tape machine. Tapes are numbered from 1 as in the UI; a tape left
+// out of `read` matches any of 0, 1 and blank, one left out of `write` keeps its symbol and
+// one left out of `move` stays put. When two calls cover the same (state, symbols), the first wins.
+class RuleBuilder {
+  readonly rules: TransitionRule[] = [];
+  private readonly seen = new Set<string>();
+  private assumed: TapeMap<string[]> = {};
+
+  constructor(readonly tapeCount: number) {}
+
+  // While `define` runs, tapes left out of `read` only match what `assumed` says they can
+  // show at that point. Every such tape multiplies the rule count, so this keeps the table small.
+  during(assumed: TapeMap<string[]>, define: () => void) {
+    const previous = this.assumed;
+    this.assumed = { ...previous, ...assumed };
+    define();
+    this.assumed = previous;
+  }
+
+  on(state: string, read: TapeMap<string | string[]>, write: TapeMap<string>, move: TapeMap<MoveDirection>, next: string) {
+    const options = Array.from({ length: this.tapeCount }, (_, t) => {
+      const symbols = read[t + 1] ?? this.assumed[t + 1] ?? CELL;
+      return typeof symbols === 'string' ? [symbols] : symbols;
+    });
+    const combinations = options.reduce<string[][]>((acc, symbols) => acc.flatMap(prefix => symbols.map(s => [...prefix, s])), [[]]);
+    for (const symbols of combinations) {
+      const key = `${state}\u0000${symbols.join('\u0000')}`;
+      if (this.seen.has(key)) continue;
+      this.seen.add(key);
+      const transitions: TapeTransition[] = symbols.map((readSymbol, t) => ({
+        readSymbol,
+        writeSymbol: write[t + 1] ?? readSymbol,
+        moveDirection: move[t + 1] ?? 'N',
+      }));
+      this.rules.push(withRuleTransitions({ currentState: state, nextState: next, ...transitions[0] }, transitions));
+    }
+  }
+}
+
+// Moves B from tape 1 onto tape `target`, erasing it and the operator. Leaves the heads of
+// tape 1 and `target` on the last (least significant) digits of A and B.
+const split = (b: RuleBuilder, op: string, target: number, next: string) => {
+  // Until now every other tape is blank
+  b.during(blank(...Array.from({ length: b.tapeCount - 1 }, (_, i) => i + 2)), () => {
+    b.on('start', { 1: DIGITS }, {}, { 1: 'R' }, 'start');
+    b.on('start', { 1: op }, { 1: '_' }, { 1: 'R' }, 'split');
+    for (const d of DIGITS) b.on('split', { 1: d }, { 1: '_', [target]: d }, { 1: 'R', [target]: 'R' }, 'split');
+    b.on('split', { 1: '_' }, {}, { 1: 'L', [target]: 'L' }, 'split_back');
+    b.on('split_back', { 1: '_', [target]: DIGITS }, {}, { 1: 'L' }, 'split_back');
+    b.on('split_back', { 1: DIGITS, [target]: DIGITS }, {}, {}, next);
+  });
+};
+
+// From anywhere left of or inside a number, to its last digit
+const toLsb = (b: RuleBuilder, name: string, tape: number, next: string) => {
+  b.on(name, { [tape]: '_' }, {}, { [tape]: 'R' }, name);
+  b.on(name, { [tape]: DIGITS }, {}, { [tape]: 'R' }, `${name}_in`);
+  b.on(`${name}_in`, { [tape]: DIGITS }, {}, { [tape]: 'R' }, `${name}_in`);
+  b.on(`${name}_in`, { [tape]: '_' }, {}, { [tape]: 'L' }, next);
+};
+
+// Returns the heads of several tapes to their last digits, one after another
+const toLsbs = (b: RuleBuilder, name: string, tapes: number[], next: string) =>
+  tapes.forEach((tape, i) => toLsb(b, i === 0 ? name : `${name}_${i}`, tape, i === tapes.length - 1 ? next : `${name}_${i + 1}`));
+
+// From a digit to the first digit of its number
+const toMsb = (b: RuleBuilder, name: string, tape: number, next: string) => {
+  b.on(name, { [tape]: DIGITS }, {}, { [tape]: 'L' }, name);
+  b.on(name, { [tape]: '_' }, {}, { [tape]: 'R' }, next);
+};
+
+// From the first digit, erases leading zeros but keeps a lone 0
+const trim = (b: RuleBuilder, name: string, tape: number, next: string) => {
+  b.on(name, { [tape]: '0' }, { [tape]: '_' }, { [tape]: 'R' }, name);
+  b.on(name, { [tape]: '1' }, {}, {}, next);
+  b.on(name, { [tape]: '_' }, {}, { [tape]: 'L' }, `${name}_zero`);
+  b.on(`${name}_zero`, { [tape]: '_' }, { [tape]: '0' }, {}, next);
+};
+
+// From the last digit, erases the whole number
+const erase = (b: RuleBuilder, name: string, tape: number, next: string) => {
+  b.on(name, { [tape]: DIGITS }, { [tape]: '_' }, { [tape]: 'L' }, name);
+  b.on(name, { [tape]: '_' }, {}, {}, next);
+};
+
+const digitPairs = CELL.flatMap(x => CELL.map(y => [x, y] as const)).filter(([x, y]) => x !== '_' || y !== '_');
+
+type Order = 'lt' | 'eq' | 'gt';
+
+// Compares the numbers on tapes x and y from their last digits leftwards; the most
+// significant difference decides. Ends with both heads on the blank left of the longer
+// number, in `next[order]`. With `consume`, the digits are erased on the way.
+const compare = (b: RuleBuilder, name: string, x: number, y: number, next: Record<Order, string>, consume = false) => {
+  for (const order of ['eq', 'lt', 'gt'] as Order[]) {
+    const state = `${name}_${order}`;
+    for (const [dx, dy] of digitPairs) {
+      const nextOrder = bit(dx) > bit(dy) ? 'gt' : bit(dx) < bit(dy) ? 'lt' : order;
+      const write = consume ? { [x]: '_', [y]: '_' } : {};
+      b.on(state, { [x]: dx, [y]: dy }, write, { [x]: 'L', [y]: 'L' }, `${name}_${nextOrder}`);
+    }
+    b.on(state, { [x]: '_', [y]: '_' }, {}, {}, next[order]);
+  }
+};
+
+// Tape x -= tape y from the last digits leftwards; x must not be smaller than y
+const subtract = (b: RuleBuilder, name: string, x: number, y: number, next: string) => {
+  for (const borrow of [0, 1]) {
+    const state = borrow ? `${name}_borrow` : name;
+    for (const [dx, dy] of digitPairs) {
+      const d = bit(dx) - bit(dy) - borrow;
+      b.on(state, { [x]: dx, [y]: dy }, { [x]: String(d & 1) }, { [x]: 'L', [y]: 'L' }, d < 0 ? `${name}_borrow` : name);
+    }
+  }
+  b.on(name, { [x]: '_', [y]: '_' }, {}, {}, next);
+};
+
+// Tape x += tape y from the last digits leftwards
+const add = (b: RuleBuilder, name: string, x: number, y: number, next: string) => {
+  for (const carry of [0, 1]) {
+    const state = carry ? `${name}_carry` : name;
+    for (const [dx, dy] of digitPairs) {
+      const sum = bit(dx) + bit(dy) + carry;
+      b.on(state, { [x]: dx, [y]: dy }, { [x]: String(sum & 1) }, { [x]: 'L', [y]: 'L' }, sum > 1 ? `${name}_carry` : name);
+    }
+  }
+  b.on(name, { [x]: '_', [y]: '_' }, {}, {}, next);
+  b.on(`${name}_carry`, { [x]: '_', [y]: '_' }, { [x]: '1' }, {}, next);
+};
+
+// A - B on tape 2, consuming A. A final borrow means the n-digit result is 2^n - (B - A),
+// so it is negated (keep the bits up to the lowest 1, flip the rest) and signed.
+const binarySub = (): RuleBuilder => {
+  const b = new RuleBuilder(2);
+  split(b, '-', 2, 'sub');
+  for (const borrow of [0, 1]) {
+    const state = borrow ? 'sub_borrow' : 'sub';
+    for (const [da, db] of digitPairs) {
+      const d = bit(da) - bit(db) - borrow;
+      b.on(state, { 1: da, 2: db }, { 1: '_', 2: String(d & 1) }, { 1: 'L', 2: 'L' }, d < 0 ? 'sub_borrow' : 'sub');
+    }
+  }
+  b.on('sub', { 1: '_', 2: '_' }, {}, { 2: 'R' }, 'trim');
+  trim(b, 'trim', 2, 'done');
+  b.on('sub_borrow', { 1: '_', 2: '_' }, {}, { 2: 'R' }, 'to_lsb');
+  toLsb(b, 'to_lsb', 2, 'neg_keep');
+  b.on('neg_keep', { 2: '0' }, {}, { 2: 'L' }, 'neg_keep');
+  b.on('neg_keep', { 2: '1' }, {}, { 2: 'L' }, 'neg_flip');
+  b.on('neg_flip', { 2: '0' }, { 2: '1' }, { 2: 'L' }, 'neg_flip');
+  b.on('neg_flip', { 2: '1' }, { 2: '0' }, { 2: 'L' }, 'neg_flip');
+  b.on('neg_flip', { 2: '_' }, {}, { 2: 'R' }, 'neg_trim');
+  b.on('neg_trim', { 2: '0' }, { 2: '_' }, { 2: 'R' }, 'neg_trim');
+  b.on('neg_trim', { 2: '1' }, {}, { 2: 'L' }, 'neg_sign');
+  b.on('neg_sign', { 2: '_' }, { 2: '-' }, {}, 'done');
+  return b;
+};
+
+// Shift and add: for each bit of B (tape 3) from the right, a 1 adds A (tape 1) to the
+// accumulator on tape 2, then A is doubled by appending a 0
+const binaryMul = (): RuleBuilder => {
+  const b = new RuleBuilder(3);
+  split(b, OPERATION_SYMBOLS.mul, 3, 'bit');
+  // The bit of B is erased when read and the head only moves on after the shift,
+  // so tape 3 shows a blank throughout the addition
+  b.on('bit', { 3: '1' }, { 3: '_' }, {}, 'add');
+  b.on('bit', { 3: '0' }, { 3: '_' }, {}, 'shift');
+  b.on('bit', { 3: '_' }, {}, {}, 'clear_a');
+  b.during(blank(3), () => {
+    add(b, 'add', 2, 1, 'add_back');
+    toLsbs(b, 'add_back', [1, 2], 'shift');
+    b.on('shift', { 1: DIGITS }, {}, { 1: 'R' }, 'shift_0');
+    b.on('shift_0', { 1: '_' }, { 1: '0' }, { 3: 'L' }, 'bit');
+    erase(b, 'clear_a', 1, 'result');
+  });
+  b.during(blank(1, 3), () => {
+    b.on('result', { 2: '_' }, { 2: '0' }, {}, 'done'); // Nothing was ever added
+    b.on('result', { 2: DIGITS }, {}, {}, 'to_msb');
+    toMsb(b, 'to_msb', 2, 'trim');
+    trim(b, 'trim', 2, 'done');
+  });
+  return b;
+};
+
+// Long division. Each digit of A (tape 1, consumed from the left) is appended to the
+// running remainder; when that is at least B (tape 3), B is subtracted and the quotient
+// gets a 1, otherwise a 0. Quotient and remainder swap tapes 2 and 4 depending on which
+// one is the answer.
+const binaryDivision = (op: string, keep: 'quotient' | 'remainder'): RuleBuilder => {
+  const b = new RuleBuilder(4);
+  const [q, r] = keep === 'quotient' ? [2, 4] : [4, 2];
+  split(b, op, 3, 'check_b');
+  b.during(blank(2, 4), () => {
+    b.on('check_b', { 3: '1' }, {}, {}, 'to_a');
+    b.on('check_b', { 3: '0' }, {}, { 3: 'L' }, 'check_b_0');
+    b.on('check_b_0', { 3: '_' }, {}, {}, 'div_by_zero');
+    b.on('check_b_0', { 3: DIGITS }, {}, { 3: 'R' }, 'to_a');
+    toMsb(b, 'to_a', 1, 'next');
+  });
+  // Digits of A are erased when brought down and the head only moves on to the next one at
+  // the end of the round, so tape 1 shows a blank throughout, as does the end of the quotient
+  b.during(blank(q), () => {
+    for (const d of DIGITS) b.on('next', { 1: d, [r]: '_' }, { 1: '_', [r]: d }, {}, 'cmp_eq');
+    b.on('next', { 1: '_', [r]: '_' }, {}, {}, 'finish');
+  });
+  b.during(blank(1, q), () => {
+    compare(b, 'cmp', r, 3, { lt: 'back_0', eq: 'back_1', gt: 'back_1' });
+    toLsbs(b, 'back_0', [r, 3], 'digit_0');
+    toLsbs(b, 'back_1', [r, 3], 'digit_1');
+    b.on('digit_0', {}, { [q]: '0' }, { 1: 'R', [q]: 'R', [r]: 'R' }, 'next');
+    b.on('digit_1', {}, { [q]: '1' }, { [q]: 'R' }, 'sub');
+    subtract(b, 'sub', r, 3, 'sub_back');
+    toLsbs(b, 'sub_back', [r, 3], 'sub_done');
+    b.on('sub_done', {}, {}, { 1: 'R', [r]: 'R' }, 'next');
+  });
+  b.during(blank(1, 2, 4), () => {
+    erase(b, 'finish', 3, 'clear_other');
+    b.on('clear_other', { 3: '_' }, {}, { 2: 'L', 4: 'L' }, 'clear_other_1');
+  });
+  b.during(blank(1, 3), () => erase(b, 'clear_other_1', 4, 'to_msb'));
+  b.during(blank(1, 3, 4), () => {
+    toMsb(b, 'to_msb', 2, 'trim');
+    trim(b, 'trim', 2, 'done');
+  });
+  return b;
+};
+
+// Compares from the last digits, erasing both numbers, and writes <, = or > on tape 2
+const binaryCmp = (): RuleBuilder => {
+  const b = new RuleBuilder(2);
+  split(b, '?', 2, 'cmp_eq');
+  compare(b, 'cmp', 1, 2, { lt: 'write_lt', eq: 'write_eq', gt: 'write_gt' }, true);
+  b.on('write_lt', {}, { 2: '<' }, {}, 'done');
+  b.on('write_eq', {}, { 2: '=' }, {}, 'done');
+  b.on('write_gt', {}, { 2: '>' }, {}, 'done');
+  return b;
+};
+
+// Binary GCD (Stein's algorithm): strips the trailing zeros both share, counting them on
+// tape 3, then replaces the larger of the two odd numbers by their difference with its
+// trailing zeros stripped, until they are equal. The shared zeros go back at the end.
+const binaryGcd = (): RuleBuilder => {
+  const b = new RuleBuilder(3);
+  split(b, ',', 2, 'zero_a');
+  // Tape 3 counts the shared zeros; its head waits on the blank after them
+  b.during(blank(3), () => {
+    // gcd(0, b) = b
+    b.on('zero_a', { 1: '1' }, {}, {}, 'zero_b');
+    b.on('zero_a', { 1: '0' }, {}, { 1: 'L' }, 'zero_a_0');
+    b.on('zero_a_0', { 1: DIGITS }, {}, { 1: 'R' }, 'zero_b');
+    b.on('zero_a_0', { 1: '_' }, {}, { 1: 'R' }, 'a_is_0');
+    b.on('a_is_0', { 1: '0' }, { 1: '_' }, {}, 'to_msb');
+    // gcd(a, 0) = a, copied onto tape 2
+    b.on('zero_b', { 2: '1' }, {}, {}, 'twos');
+    b.on('zero_b', { 2: '0' }, {}, { 2: 'L' }, 'zero_b_0');
+    b.on('zero_b_0', { 2: DIGITS }, {}, { 2: 'R' }, 'twos');
+    b.on('zero_b_0', { 2: '_' }, {}, { 2: 'R' }, 'copy_a');
+    for (const d of DIGITS) b.on('copy_a', { 1: d }, { 1: '_', 2: d }, { 1: 'L', 2: 'L' }, 'copy_a');
+    b.on('copy_a', { 1: '_' }, {}, { 2: 'R' }, 'trim');
+
+    b.on('twos', { 1: '0', 2: '0' }, { 1: '_', 2: '_', 3: '0' }, { 1: 'L', 2: 'L', 3: 'R' }, 'twos');
+    b.on('twos', { 1: DIGITS, 2: DIGITS }, {}, {}, 'odd_a');
+    b.on('odd_a', { 1: '0' }, { 1: '_' }, { 1: 'L' }, 'odd_a');
+    b.on('odd_a', { 1: '1' }, {}, {}, 'odd_b');
+    b.on('odd_b', { 2: '0' }, { 2: '_' }, { 2: 'L' }, 'odd_b');
+    b.on('odd_b', { 2: '1' }, {}, {}, 'cmp_eq');
+    compare(b, 'cmp', 1, 2, { lt: 'back_lt', eq: 'back_eq', gt: 'back_gt' });
+    toLsbs(b, 'back_gt', [1, 2], 'sub_a');
+    subtract(b, 'sub_a', 1, 2, 'sub_a_back');
+    toLsbs(b, 'sub_a_back', [1, 2], 'odd_a');
+    toLsbs(b, 'back_lt', [1, 2], 'sub_b');
+    subtract(b, 'sub_b', 2, 1, 'sub_b_back');
+    toLsbs(b, 'sub_b_back', [1, 2], 'odd_b');
+
+    // Equal: clear tape 1, then append the shared zeros to tape 2
+    toLsbs(b, 'back_eq', [1, 2], 'clear_a');
+    erase(b, 'clear_a', 1, 'pad');
+  });
+  b.during(blank(1), () => {
+    b.on('pad', { 2: DIGITS, 3: '_' }, {}, { 3: 'L' }, 'pad_next');
+    b.on('pad_next', { 2: DIGITS, 3: '0' }, { 3: '_' }, { 2: 'R', 3: 'L' }, 'pad_put');
+    b.on('pad_put', { 2: '_' }, { 2: '0' }, {}, 'pad_next');
+    b.on('pad_next', { 2: DIGITS, 3: '_' }, {}, {}, 'to_msb');
+  });
+  b.during(blank(1, 3), () => {
+    toMsb(b, 'to_msb', 2, 'trim');
+    trim(b, 'trim', 2, 'done');
+  });
+  return b;
+};
+
+// --- Catalogue ---
+
+const OPERATION_NAMES: Record<MathOperation, string> = {
+  add: 'Addition', sub: 'Subtraction', mul: 'Multiplication', div: 'Division', mod: 'Modulo', cmp: 'Comparison', gcd: 'GCD',
+};
+
+const UNARY_DESCRIPTIONS: Record<Exclude<MathOperation, 'add'>, string> = {
+  sub: 'Pairs off ones from both operands. Leftover ones of A are the answer; leftover ones of B follow a "-" sign.',
+  mul: 'Copies B once for every 1 in A, after an "=" marker, then erases the operands.',
+  div: 'Repeatedly subtracts B from A, adding a 1 to the quotient for every full round. Rejects division by zero.',
+  mod: 'Repeatedly subtracts B from A; the ones of B matched in the unfinished last round are the remainder. Rejects division by zero.',
+  cmp: 'Erases one 1 from each side until one runs out, then writes <, = or >.',
+  gcd: 'Euclid\'s algorithm by subtraction: the smaller operand is subtracted from the larger until both are equal.',
+};
+
+const BINARY_DESCRIPTIONS: Record<Exclude<MathOperation, 'add'>, string> = {
+  sub: 'Subtracts with a borrow, digit by digit from the right, onto tape 2. A final borrow means the answer is negative: it is negated in two\'s complement and signed.',
+  mul: 'Shift and add: every 1 bit of B adds the doubled-so-far A into an accumulator on tape 2.',
+  div: 'Long division. Digits of A are brought down one at a time into a running remainder on tape 4; the quotient on tape 2 gets a 1 whenever B fits. Rejects division by zero.',
+  mod: 'Long division that keeps the running remainder on tape 2 and the quotient on tape 4. Rejects division by zero.',
+  cmp: 'Compares digit by digit from the right, erasing as it goes; the most significant difference decides.',
+  gcd: 'Stein\'s binary GCD: shared factors of two are set aside, then the larger odd number is replaced by the difference until both are equal.',
+};
+
+const UNARY_RULES: Record<Exclude<MathOperation, 'add'>, () => TransitionRule[]> = {
+  sub: () => UNARY_SUB,
+  mul: () => UNARY_MUL,
+  div: () => unaryDivision('/', 'quotient'),
+  mod: () => unaryDivision('%', 'remainder'),
+  cmp: () => UNARY_CMP,
+  gcd: () => UNARY_GCD,
+};
+
+const BINARY_BUILDERS: Record<Exclude<MathOperation, 'add'>, () => RuleBuilder> = {
+  sub: binarySub,
+  mul: binaryMul,
+  div: () => binaryDivision('/', 'quotient'),
+  mod: () => binaryDivision('%', 'remainder'),
+  cmp: binaryCmp,
+  gcd: binaryGcd,
+};
+
+const fromPreset = (name: string, outputTape: number): MathMachine => {
+  const preset = PRESETS.find(p => p.name === name)!;
+  return { ...preset, tests: undefined, outputTape };
+};
+
+export const buildMathMachine = (operation: MathOperation, encoding: NumberEncoding): MathMachine => {
+  if (operation === 'add') {
+    return encoding === 'unary' ? fromPreset('Unary Addition', 0) : fromPreset('Binary Addition (2 Tapes)', 1);
+  }
+  if (encoding === 'unary') {
+    return {
+      name: `Unary ${OPERATION_NAMES[operation]}`,
+      description: UNARY_DESCRIPTIONS[operation],
+      initialTape: '',
+      initialState: 'start',
+      rules: UNARY_RULES[operation](),
+      outputTape: 0,
+      ...FINAL_STATES,
+    };
+  }
+  const builder = BINARY_BUILDERS[operation]();
+  return {
+    name: `Binary ${OPERATION_NAMES[operation]} (${builder.tapeCount} Tapes)`,
+    description: BINARY_DESCRIPTIONS[operation],
+    initialTape: '',
+    initialState: 'start',
+    tapeCount: builder.tapeCount,
+    rules: builder.rules,
+    outputTape: 1,
+    ...FINAL_STATES,
+  };
+};
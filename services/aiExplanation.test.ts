@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { Preset } from '../types';
+import { createLogEntry } from '../engine/executionLog';
+import { loadMachine } from '../engine/simulator';
+import {
+  ExplanationBackend, MachineExplanation, describeMachineLocally, explainMachine, getCachedExplanation, narrateStep, normalizeExplanation,
+} from './aiExplanation';
+import { createJsonProvider } from './aiProvider';
+
+const increment = PRESETS.find(p => p.name === 'Binary Increment')!;
+
+const counting = () => {
+  let calls = 0;
+  const backend: ExplanationBackend = {
+    explain: async machine => {
+      calls++;
+      return describeMachineLocally(machine);
+    },
+  };
+  return { backend, calls: () => calls };
+};
+
+describe('normalizeExplanation', () => {
+  it('keeps the states and rule numbers the machine has', () => {
+    const explanation = normalizeExplanation({
+      summary: ' Adds one. ',
+      states: [{ state: 'add', explanation: 'Carries the one.' }, { state: 'ghost', explanation: 'Not a state.' }, { state: 'start' }],
+      rules: [{ rule: 4, explanation: 'No carry left.' }, { rule: 0, explanation: 'Out of range.' }, { rule: '2', explanation: 'Skips a 1.' }],
+    }, increment);
+
+    expect(explanation.summary).toBe('Adds one.');
+    expect(explanation.states).toEqual({ add: 'Carries the one.' });
+    expect(explanation.rules).toEqual(['', 'Skips a 1.', '', 'No carry left.', '', '']);
+    expect(normalizeExplanation('nonsense', increment).rules).toHaveLength(6);
+  });
+});
+
+describe('explainMachine', () => {
+  it('asks once per machine and again only on refresh', async () => {
+    const cache = new Map<string, MachineExplanation>();
+    const { backend, calls } = counting();
+
+    const first = await explainMachine(increment, backend, { cache });
+    await explainMachine({ ...increment, name: 'Renamed', initialTape: '1' }, backend, { cache });
+    expect(calls()).toBe(1);
+    expect(getCachedExplanation(increment, cache)).toBe(first);
+
+    await explainMachine(increment, backend, { cache, refresh: true });
+    await explainMachine({ ...increment, rules: increment.rules.slice(1) }, backend, { cache });
+    expect(calls()).toBe(3);
+  });
+
+  it('asks models about every state and numbered rule', async () => {
+    const prompts: string[] = [];
+    const provider = createJsonProvider(async contents => {
+      prompts.push(contents);
+      return { summary: 'Adds one.', states: [{ state: 'done', explanation: 'Finished.' }], rules: [] };
+    });
+    const explanation = await provider.explain(increment);
+
+    expect(explanation.states).toEqual({ done: 'Finished.' });
+    expect(prompts[0]).toContain('start, add, done');
+    expect(prompts[0]).toContain('6. {"currentState":"add","readSymbol":"_"');
+  });
+});
+
+describe('describeMachineLocally', () => {
+  it('spells out states and rules from the table', () => {
+    const explanation = describeMachineLocally(increment);
+
+    expect(explanation.summary).toBe(increment.description);
+    expect(explanation.states.start).toBe('The starting state. Handles 0, 1 and _ and moves on to add.');
+    expect(explanation.states.done).toBe('Ends the computation.');
+    expect(explanation.rules[4]).toBe('On 1 in add, it writes 0, moves left and stays in add.');
+  });
+});
+
+describe('narrateStep', () => {
+  const machine: Preset = {
+    name: 'Marker',
+    description: '',
+    initialTape: 'ab',
+    initialState: 'scan',
+    haltStates: ['done'],
+    rules: [
+      { currentState: 'scan', readSymbol: '[ab]', writeSymbol: '*', moveDirection: 'R', nextState: 'scan' },
+      { currentState: 'scan', readSymbol: '_', writeSymbol: 'x', moveDirection: 'N', nextState: 'done', call: 'Helper' },
+    ],
+  };
+  const first = createLogEntry(loadMachine(machine), machine.rules[0], 0);
+
+  it('says which rule fired for the configuration and why', () => {
+    const explanation = { summary: '', states: {}, rules: ['Skips over the input.', ''] };
+
+    expect(narrateStep(first, machine.rules[0], explanation))
+      .toBe('Step 1: in scan, the head reads a, so rule #1 fires (a matches [ab]): it writes a, moves right and stays in scan. Skips over the input.');
+    expect(narrateStep(first, machine.rules[0], null)).toMatch(/stays in scan\.$/);
+  });
+
+  it('describes steps inside a called machine without a rule of its own', () => {
+    const inside = { ...first, state: 'Helper/start', nextState: 'Helper/end', rule: 1 };
+
+    expect(narrateStep(inside, machine.rules[1], null))
+      .toBe('Step 1 inside Helper, called by rule #2: in Helper/start, the head reads a, so it writes a, moves right and goes to Helper/end.');
+  });
+});
@@ -0,0 +1,138 @@
+import { MoveDirection, Preset, TransitionRule } from '../types';
+import { LogEntry } from '../engine/executionLog';
+import { getRuleTransitions, isFinalState } from '../engine/simulator';
+
+// Explanations of machines for people stepping through them: a summary, what each state is
+// for and why each rule fires. One request explains the whole machine, and the answer is
+// cached by the machine's rules, so narrating a replay never asks again.
+
+export interface MachineExplanation {
+  summary: string;
+  // What each state is doing, by state name
+  states: Record<string, string>;
+  // Why each rule fires, by table row; empty where the model said nothing
+  rules: string[];
+}
+
+export interface ExplanationBackend {
+  explain: (machine: Preset) => Promise<MachineExplanation>;
+}
+
+const EXPLANATION_CACHE_LIMIT = 50;
+
+const explanationCache = new Map<string, MachineExplanation>();
+
+// Everything an explanation depends on; the name, description and tape do not change it
+export const explanationKey = (machine: Preset): string =>
+  JSON.stringify([machine.rules, machine.initialState, machine.acceptStates, machine.rejectStates, machine.haltStates, machine.tapeCount ?? 1]);
+
+export const getCachedExplanation = (machine: Preset, cache = explanationCache): MachineExplanation | null =>
+  cache.get(explanationKey(machine)) ?? null;
+
+// Answers from the cache unless asked to refresh; the oldest entries make way beyond the limit
+export const explainMachine = async (
+  machine: Preset,
+  backend: ExplanationBackend,
+  { refresh = false, cache = explanationCache }: { refresh?: boolean; cache?: Map<string, MachineExplanation> } = {}
+): Promise<MachineExplanation> => {
+  const key = explanationKey(machine);
+  const cached = cache.get(key);
+  if (cached && !refresh) return cached;
+  const explanation = await backend.explain(machine);
+  cache.delete(key);
+  cache.set(key, explanation);
+  while (cache.size > EXPLANATION_CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+  return explanation;
+};
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+// Coerces a model response, keeping only states and rows the machine has
+export const normalizeExplanation = (raw: unknown, machine: Preset): MachineExplanation => {
+  const response = (typeof raw === 'object' && raw !== null ? raw : {}) as Record<string, unknown>;
+  const known = new Set(machineStates(machine));
+  const states: Record<string, string> = {};
+  for (const item of Array.isArray(response.states) ? response.states : []) {
+    const state = text(item?.state);
+    const explanation = text(item?.explanation);
+    if (known.has(state) && explanation) states[state] = explanation;
+  }
+  const rules = machine.rules.map(() => '');
+  for (const item of Array.isArray(response.rules) ? response.rules : []) {
+    const row = Number(item?.rule) - 1;
+    if (Number.isInteger(row) && row >= 0 && row < rules.length) rules[row] = text(item?.explanation);
+  }
+  return { summary: text(response.summary), states, rules };
+};
+
+// Every state the machine names, starting with the initial state
+export const machineStates = (machine: Preset): string[] => [...new Set([
+  machine.initialState,
+  ...machine.rules.flatMap(rule => [rule.currentState, rule.nextState]),
+  ...(machine.acceptStates ?? []),
+  ...(machine.rejectStates ?? []),
+  ...(machine.haltStates ?? []),
+])].filter(Boolean);
+
+const MOVES: Record<MoveDirection, string> = { L: 'moves left', R: 'moves right', N: 'stays put' };
+
+const list = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+const describeWrites = (write: string[], move: MoveDirection[]) =>
+  write.length === 1 ? `writes ${write[0]}, ${MOVES[move[0]]}` : `writes ${write.join(', ')} and moves ${move.join(', ')}`;
+
+const describeNext = (rule: TransitionRule) =>
+  `${rule.nextState === rule.currentState ? `stays in ${rule.nextState}` : `goes to ${rule.nextState}`}${rule.call ? ` once ${rule.call} has run` : ''}`;
+
+// What a rule does, spelled out without a model
+export const describeRule = (rule: TransitionRule, tapeCount = 1): string => {
+  const transitions = getRuleTransitions(rule, tapeCount);
+  const read = transitions.map(t => t.readSymbol);
+  return `On ${read.join(', ')} in ${rule.currentState}, it ${describeWrites(transitions.map(t => t.writeSymbol), transitions.map(t => t.moveDirection))} and ${describeNext(rule)}.`;
+};
+
+// A mechanical explanation, for the offline provider
+export const describeMachineLocally = (machine: Preset): MachineExplanation => {
+  const tapeCount = machine.tapeCount ?? 1;
+  const states: Record<string, string> = {};
+  for (const state of machineStates(machine)) {
+    const outgoing = machine.rules.filter(rule => rule.currentState === state);
+    const parts: string[] = [];
+    if (state === machine.initialState) parts.push('The starting state.');
+    if (machine.acceptStates?.includes(state)) parts.push('Accepts the input.');
+    else if (machine.rejectStates?.includes(state)) parts.push('Rejects the input.');
+    else if (isFinalState(machine, state)) parts.push('Ends the computation.');
+    else if (outgoing.length === 0) parts.push('No rule leaves this state, so the machine gets stuck here.');
+    else {
+      const reads = [...new Set(outgoing.map(rule => getRuleTransitions(rule, tapeCount).map(t => t.readSymbol).join(', ')))];
+      const next = [...new Set(outgoing.map(rule => rule.nextState).filter(s => s !== state))];
+      parts.push(`Handles ${list(reads)}${next.length > 0 ? ` and moves on to ${list(next)}` : ', looping in place'}.`);
+    }
+    states[state] = parts.join(' ');
+  }
+  return {
+    summary: machine.description || `${Object.keys(states).length} states and ${machine.rules.length} rules, starting in ${machine.initialState}.`,
+    states,
+    rules: machine.rules.map(rule => describeRule(rule, tapeCount)),
+  };
+};
+
+// Why the step in a log entry did what it did: the configuration that selected the rule, what
+// the rule did, and the explanation's reason for it when there is one. Steps inside a called
+// machine are logged under the row that made the call, so they only say what happened.
+export const narrateStep = (entry: LogEntry, rule: TransitionRule | undefined, explanation: MachineExplanation | null): string => {
+  const tapeCount = entry.read.length;
+  const sees = `${tapeCount === 1 ? 'the head reads' : 'the heads read'} ${entry.read.join(', ')}`;
+  const did = `it ${describeWrites(entry.write, entry.move)} and ${entry.nextState === entry.state ? `stays in ${entry.state}` : `goes to ${entry.nextState}`}`;
+  if (!rule || rule.currentState !== entry.state) {
+    const within = rule?.call ? ` inside ${rule.call}, called by rule #${entry.rule + 1}` : '';
+    return `Step ${entry.step}${within}: in ${entry.state}, ${sees}, so ${did}.`;
+  }
+  const loose = getRuleTransitions(rule, tapeCount)
+    .map((t, i) => (t.readSymbol !== entry.read[i] ? `${entry.read[i]} matches ${t.readSymbol}` : ''))
+    .filter(Boolean);
+  const matched = loose.length > 0 ? ` (${loose.join(', ')})` : '';
+  const reason = explanation?.rules[entry.rule] || explanation?.states[entry.state] || '';
+  return `Step ${entry.step}: in ${entry.state}, ${sees}, so rule #${entry.rule + 1} fires${matched}: ${did}.${reason ? ` ${reason}` : ''}`;
+};
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { AI_TEST_STEP_LIMIT, ExampleRunner, GeneratedMachine, GenerationBackend, evaluateGeneratedMachine, generateWithRepair, normalizeGeneratedMachine, runExamplesInline, toPreset } from './aiGeneration';
+
+const flipper: GeneratedMachine = {
+  rules: [
+    { currentState: 'flip', readSymbol: '0', writeSymbol: '1', moveDirection: 'R', nextState: 'flip' },
+    { currentState: 'flip', readSymbol: '1', writeSymbol: '0', moveDirection: 'R', nextState: 'flip' },
+    { currentState: 'flip', readSymbol: '_', writeSymbol: '_', moveDirection: 'N', nextState: 'done' },
+  ],
+  initialTape: '0110',
+  initialState: 'flip',
+  haltStates: ['done'],
+  description: 'Flips every bit.',
+  examples: [
+    { input: '0110', expectedOutput: '1001', expectedOutcome: 'halted' },
+    { input: '', expectedOutput: '', expectedOutcome: 'halted' },
+  ],
+};
+
+// Writes 1 everywhere, so the first example fails
+const broken: GeneratedMachine = {
+  ...flipper,
+  rules: [
+    { currentState: 'flip', readSymbol: '0', writeSymbol: '1', moveDirection: 'R', nextState: 'flip' },
+    { currentState: 'flip', readSymbol: '1', writeSymbol: '1', moveDirection: 'R', nextState: 'flip' },
+    { currentState: 'flip', readSymbol: '_', writeSymbol: '_', moveDirection: 'N', nextState: 'done' },
+  ],
+};
+
+const scripted = (responses: GeneratedMachine[]) => {
+  const calls: { problems?: string[]; machine?: GeneratedMachine }[] = [];
+  const backend: GenerationBackend = {
+    generate: async () => {
+      calls.push({});
+      return responses[calls.length - 1];
+    },
+    repair: async (_prompt, machine, problems) => {
+      calls.push({ machine, problems });
+      return responses[calls.length - 1];
+    },
+  };
+  return { backend, calls };
+};
+
+describe('normalizeGeneratedMachine', () => {
+  it('fills in missing fields and drops examples with nothing to check', () => {
+    const machine = normalizeGeneratedMachine({
+      rules: [{ currentState: 'a', readSymbol: '1', moveDirection: 'r', nextState: 'b' }],
+      acceptStates: ['b'],
+      rejectStates: [],
+      examples: [{ input: '1', expectedOutcome: 'accepted' }, { input: '0' }, { input: '11', expectedOutcome: 'maybe' }],
+    });
+
+    expect(machine.rules[0]).toEqual({ currentState: 'a', readSymbol: '1', writeSymbol: '_', moveDirection: 'R', nextState: 'b' });
+    expect(machine.initialState).toBe('a');
+    expect(machine.acceptStates).toEqual(['b']);
+    expect(machine.rejectStates).toBeUndefined();
+    expect(machine.examples).toEqual([{ input: '1', expectedOutcome: 'accepted' }]);
+  });
+
+  it('rejects responses that are not machines', () => {
+    expect(() => normalizeGeneratedMachine([])).toThrow('machine object');
+    expect(() => normalizeGeneratedMachine(null)).toThrow('machine object');
+  });
+});
+
+describe('evaluateGeneratedMachine', () => {
+  it('passes a machine that lints clean and satisfies its examples', async () => {
+    const attempt = await evaluateGeneratedMachine(flipper);
+
+    expect(attempt.passed).toBe(true);
+    expect(attempt.problems).toEqual([]);
+    expect(toPreset(flipper).tests).toEqual(flipper.examples);
+  });
+
+  it('describes lint errors and failed examples', async () => {
+    const duplicate = { ...broken, rules: [...broken.rules, broken.rules[0]] };
+    const attempt = await evaluateGeneratedMachine(duplicate);
+
+    expect(attempt.passed).toBe(false);
+    expect(attempt.diagnostics.some(d => d.code === 'duplicate-rule')).toBe(true);
+    expect(attempt.problems.at(-1)).toBe('Example 1 (input "0110") should end halted with tape "1001" but ended halted with "1111" after 5 steps.');
+  });
+
+  it('does not pass a machine without examples', async () => {
+    const attempt = await evaluateGeneratedMachine({ ...flipper, examples: [] });
+
+    expect(attempt.passed).toBe(false);
+    expect(attempt.problems).toContain('There are no examples to check the machine against.');
+  });
+});
+
+describe('generateWithRepair', () => {
+  it('sends problems back until an attempt passes', async () => {
+    const { backend, calls } = scripted([broken, broken, flipper, broken]);
+    const seen: boolean[] = [];
+    const attempts = await generateWithRepair('flip bits', backend, { onAttempt: a => seen.push(a.passed) });
+
+    expect(attempts.map(a => a.passed)).toEqual([false, false, true]);
+    expect(seen).toEqual([false, false, true]);
+    expect(calls[1].problems?.[0]).toContain('Example 1');
+  });
+
+  it('stops after the allowed number of repairs', async () => {
+    const { backend, calls } = scripted([broken, broken, broken]);
+    const attempts = await generateWithRepair('flip bits', backend, { maxRepairs: 1 });
+
+    expect(attempts).toHaveLength(2);
+    expect(calls).toHaveLength(2);
+  });
+
+  it('judges repairs against the original examples', async () => {
+    const rewritten = { ...broken, examples: [{ input: '0110', expectedOutput: '1111', expectedOutcome: 'halted' as const }] };
+    const { backend } = scripted([broken, rewritten]);
+    const attempts = await generateWithRepair('flip bits', backend, { maxRepairs: 1 });
+
+    expect(attempts[1].machine.examples).toEqual(flipper.examples);
+    expect(attempts[1].passed).toBe(false);
+  });
+
+  it('runs the examples with the runner it is given', async () => {
+    const { backend } = scripted([flipper]);
+    const limits: number[] = [];
+    const runExamples: ExampleRunner = async (machine, examples, maxSteps) => {
+      limits.push(maxSteps);
+      return runExamplesInline(machine, examples, maxSteps);
+    };
+    const attempts = await generateWithRepair('flip bits', backend, { runExamples });
+
+    expect(attempts[0].passed).toBe(true);
+    expect(limits).toEqual([AI_TEST_STEP_LIMIT]);
+  });
+});
@@ -0,0 +1,160 @@
+import { ExpectedOutcome, FinalStates, Preset, TestCase, TransitionRule } from '../types';
+import { analyzeMachine, Diagnostic } from '../engine/analyzer';
+import { TestResult, TestableMachine, runTestCaseSafely } from '../engine/testRunner';
+
+// Generate, check, repair: the model writes a machine together with example inputs and what
+// they should produce, the machine is linted and run against the examples headlessly, and
+// whatever went wrong is sent back for another try until it passes or the rounds run out.
+
+export interface GeneratedMachine extends FinalStates {
+  rules: TransitionRule[];
+  initialTape: string;
+  initialState: string;
+  description: string;
+  examples: TestCase[];
+}
+
+export interface GenerationAttempt {
+  machine: GeneratedMachine;
+  // Errors and warnings from the analyzer
+  diagnostics: Diagnostic[];
+  // One per example, in order
+  results: TestResult[];
+  passed: boolean;
+  // What the next round is told to fix: lint findings and failed examples
+  problems: string[];
+}
+
+export interface GenerationBackend {
+  generate: (prompt: string) => Promise<GeneratedMachine>;
+  repair: (prompt: string, machine: GeneratedMachine, problems: string[]) => Promise<GeneratedMachine>;
+}
+
+// Runs the examples of a machine, one result per example in order. The app hands in one
+// backed by the test runner worker so a slow machine cannot freeze the page.
+export type ExampleRunner = (machine: TestableMachine, examples: TestCase[], maxSteps: number) => Promise<TestResult[]>;
+
+export const MAX_REPAIR_ROUNDS = 3;
+// Generated machines are small; a run this long has almost certainly gone wrong
+export const AI_TEST_STEP_LIMIT = 10_000;
+
+const MOVES = ['L', 'R', 'N'];
+const OUTCOMES: ExpectedOutcome[] = ['accepted', 'rejected', 'halted', 'stuck', 'loops'];
+
+const text = (value: unknown): string => (typeof value === 'string' ? value : value === undefined || value === null ? '' : String(value));
+
+const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const states = (value: unknown): string[] | undefined => {
+  const names = list(value).map(text).filter(Boolean);
+  return names.length > 0 ? names : undefined;
+};
+
+// Coerces a model response into a machine. Missing or malformed parts are left empty for
+// the analyzer and the examples to catch; only a response that is not an object is rejected.
+export const normalizeGeneratedMachine = (raw: unknown): GeneratedMachine => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('The model did not return a machine object.');
+  }
+  const response = raw as Record<string, unknown>;
+  const rules = list(response.rules).map((item): TransitionRule => {
+    const rule = (item ?? {}) as Record<string, unknown>;
+    const moveDirection = text(rule.moveDirection).toUpperCase();
+    return {
+      currentState: text(rule.currentState),
+      readSymbol: text(rule.readSymbol) || '_',
+      writeSymbol: text(rule.writeSymbol) || '_',
+      moveDirection: (MOVES.includes(moveDirection) ? moveDirection : 'N') as TransitionRule['moveDirection'],
+      nextState: text(rule.nextState),
+    };
+  });
+  const examples = list(response.examples).flatMap((item): TestCase[] => {
+    const example = (item ?? {}) as Record<string, unknown>;
+    const test: TestCase = { input: text(example.input) };
+    if (typeof example.expectedOutput === 'string') test.expectedOutput = example.expectedOutput;
+    const outcome = text(example.expectedOutcome) as ExpectedOutcome;
+    if (OUTCOMES.includes(outcome)) test.expectedOutcome = outcome;
+    return test.expectedOutput !== undefined || test.expectedOutcome ? [test] : [];
+  });
+
+  const machine: GeneratedMachine = {
+    rules,
+    initialTape: text(response.initialTape),
+    initialState: text(response.initialState) || rules[0]?.currentState || 'start',
+    description: text(response.description),
+    examples,
+  };
+  const acceptStates = states(response.acceptStates);
+  const rejectStates = states(response.rejectStates);
+  const haltStates = states(response.haltStates);
+  if (acceptStates) machine.acceptStates = acceptStates;
+  if (rejectStates) machine.rejectStates = rejectStates;
+  if (haltStates) machine.haltStates = haltStates;
+  return machine;
+};
+
+// The machine as the editor loads it, with its examples as test cases
+export const toPreset = (machine: GeneratedMachine, name = 'Generated Machine'): Preset => {
+  const { examples, ...definition } = machine;
+  return { name, ...definition, ...(examples.length > 0 ? { tests: examples } : {}) };
+};
+
+const quote = (tape: string | null) => (tape === null ? 'no final tape' : `"${tape}"`);
+
+// Runs the examples on this thread, yielding between them so the page can still repaint
+export const runExamplesInline: ExampleRunner = async (machine, examples, maxSteps) => {
+  const results: TestResult[] = [];
+  for (const example of examples) {
+    await new Promise(resolve => setTimeout(resolve, 0));
+    results.push(runTestCaseSafely(machine, example, maxSteps));
+  }
+  return results;
+};
+
+export const evaluateGeneratedMachine = async (
+  machine: GeneratedMachine,
+  runExamples: ExampleRunner = runExamplesInline
+): Promise<GenerationAttempt> => {
+  const diagnostics = analyzeMachine(machine).filter(d => d.severity !== 'info');
+  const results = await runExamples(machine, machine.examples, AI_TEST_STEP_LIMIT);
+  const problems = [
+    ...(machine.rules.length === 0 ? ['The machine has no rules.'] : []),
+    ...(machine.examples.length === 0 ? ['There are no examples to check the machine against.'] : []),
+    ...diagnostics.map(d => d.message),
+    ...results.flatMap((result, i) => {
+      if (result.passed) return [];
+      const { input, expectedOutput, expectedOutcome } = machine.examples[i];
+      const expected = [expectedOutcome, expectedOutput !== undefined ? `tape ${quote(expectedOutput)}` : ''].filter(Boolean).join(' with ');
+      return [`Example ${i + 1} (input ${quote(input)}) should end ${expected} but ended ${result.outcome} with ${quote(result.output)} after ${result.steps} steps.`];
+    }),
+  ];
+  const passed = machine.rules.length > 0 && machine.examples.length > 0
+    && !diagnostics.some(d => d.severity === 'error') && results.every(r => r.passed);
+  return { machine, diagnostics, results, passed, problems };
+};
+
+// Runs the generate-check-repair loop, reporting each attempt as it is checked. The examples
+// of the first attempt that has any are kept for every later round, so a repair is judged
+// against the task rather than against examples rewritten to suit it.
+export const generateWithRepair = async (
+  prompt: string,
+  backend: GenerationBackend,
+  {
+    maxRepairs = MAX_REPAIR_ROUNDS,
+    onAttempt,
+    runExamples,
+  }: { maxRepairs?: number; onAttempt?: (attempt: GenerationAttempt) => void; runExamples?: ExampleRunner } = {}
+): Promise<GenerationAttempt[]> => {
+  const attempts: GenerationAttempt[] = [];
+  let examples: TestCase[] = [];
+  let machine = await backend.generate(prompt);
+
+  for (let round = 0; ; round++) {
+    if (examples.length === 0) examples = machine.examples;
+    const attempt = await evaluateGeneratedMachine({ ...machine, examples }, runExamples);
+    attempts.push(attempt);
+    onAttempt?.(attempt);
+    if (attempt.passed || round >= maxRepairs) return attempts;
+    machine = await backend.repair(prompt, attempt.machine, attempt.problems);
+  }
+};
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { AiProviderError, DEFAULT_AI_SETTINGS, loadAiSettings, parseJsonResponse, saveAiSettings, withTimeout } from './aiProvider';
+import { createOpenAiProvider } from './openAiService';
+import { createGeminiProvider } from './geminiService';
+
+const memoryStorage = (initial?: string) => {
+  const items = new Map<string, string>(initial === undefined ? [] : [['turingmaster.aiSettings', initial]]);
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+};
+
+const machineJson = JSON.stringify({
+  rules: [{ currentState: 'start', readSymbol: '_', writeSymbol: '1', moveDirection: 'N', nextState: 'done' }],
+  initialTape: '',
+  initialState: 'start',
+  haltStates: ['done'],
+  description: 'Writes a 1.',
+  examples: [{ input: '', expectedOutput: '1', expectedOutcome: 'halted' }],
+});
+
+const reply = (status: number, body: unknown) => new Response(JSON.stringify(body), { status });
+
+describe('AI settings', () => {
+  it('saves and loads settings', () => {
+    const [storage, session] = [memoryStorage(), memoryStorage()];
+    const settings = { ...DEFAULT_AI_SETTINGS, provider: 'openai' as const, model: 'qwen2.5', apiKey: 'k', rememberKey: true };
+    saveAiSettings(settings, storage, session);
+
+    expect(loadAiSettings(storage, session)).toEqual(settings);
+    expect(session.getItem('turingmaster.aiKey')).toBeNull();
+  });
+
+  it('keeps a key that is not remembered out of local storage', () => {
+    const [storage, session] = [memoryStorage(), memoryStorage()];
+    const settings = { ...DEFAULT_AI_SETTINGS, provider: 'openai' as const, apiKey: 'secret' };
+    saveAiSettings(settings, storage, session);
+
+    expect(storage.getItem('turingmaster.aiSettings')).not.toContain('secret');
+    expect(loadAiSettings(storage, session)).toEqual(settings);
+    expect(loadAiSettings(storage, memoryStorage()).apiKey).toBe('');
+  });
+
+  it('falls back to the defaults field by field', () => {
+    expect(loadAiSettings(memoryStorage(), memoryStorage())).toEqual(DEFAULT_AI_SETTINGS);
+    expect(loadAiSettings(memoryStorage('{not json'), memoryStorage())).toEqual(DEFAULT_AI_SETTINGS);
+    expect(loadAiSettings(memoryStorage(JSON.stringify({ provider: 'skynet', model: 7, timeoutMs: 1 })), memoryStorage()))
+      .toEqual({ ...DEFAULT_AI_SETTINGS, timeoutMs: 5_000 });
+  });
+});
+
+describe('provider helpers', () => {
+  it('reads JSON with or without a code fence', () => {
+    expect(parseJsonResponse('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(parseJsonResponse(' {"a": 1} ')).toEqual({ a: 1 });
+    expect(() => parseJsonResponse('Sure! Here it is')).toThrow(AiProviderError);
+  });
+
+  it('aborts requests that take too long', async () => {
+    let signal: AbortSignal | undefined;
+    const request = withTimeout(10, s => {
+      signal = s;
+      return new Promise(() => {});
+    });
+
+    await expect(request).rejects.toThrow('did not answer');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('reports a missing Gemini key when asked, not when created', async () => {
+    const provider = createGeminiProvider(DEFAULT_AI_SETTINGS, '');
+
+    await expect(provider.generate('anything')).rejects.toThrow('No Gemini API key');
+  });
+});
+
+describe('OpenAI-compatible provider', () => {
+  const settings = { ...DEFAULT_AI_SETTINGS, provider: 'openai' as const, model: 'llama3.1', endpoint: 'http://localhost:8080/v1/', apiKey: 'secret' };
+
+  it('posts a chat completion and reads the machine from the reply', async () => {
+    const requests: { url: string; init: RequestInit }[] = [];
+    const provider = createOpenAiProvider(settings, async (url, init) => {
+      requests.push({ url, init });
+      return reply(200, { choices: [{ message: { content: machineJson } }] });
+    });
+    const machine = await provider.generate('write a one');
+
+    expect(machine.rules).toHaveLength(1);
+    expect(machine.examples).toEqual([{ input: '', expectedOutput: '1', expectedOutcome: 'halted' }]);
+    expect(requests[0].url).toBe('http://localhost:8080/v1/chat/completions');
+    expect((requests[0].init.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+    const body = JSON.parse(requests[0].init.body as string);
+    expect(body.model).toBe('llama3.1');
+    expect(body.messages[0].content).toContain('write a one');
+  });
+
+  it('explains failed requests', async () => {
+    const failing = createOpenAiProvider(settings, async () => reply(404, { error: { message: 'model "llama3.1" not found' } }));
+    const unreachable = createOpenAiProvider(settings, async () => {
+      throw new TypeError('Failed to fetch');
+    });
+    const empty = createOpenAiProvider(settings, async () => reply(200, { choices: [] }));
+
+    await expect(failing.generate('x')).rejects.toThrow('The endpoint answered 404: model "llama3.1" not found');
+    await expect(unreachable.generate('x')).rejects.toThrow('Could not reach http://localhost:8080/v1/chat/completions');
+    await expect(empty.generate('x')).rejects.toThrow(AiProviderError);
+  });
+});
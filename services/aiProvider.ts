@@ -0,0 +1,233 @@
+import { Preset } from '../types';
+import { GeneratedMachine, GenerationBackend, normalizeGeneratedMachine } from './aiGeneration';
+import { ExplanationBackend, machineStates, normalizeExplanation } from './aiExplanation';
+
+// What the app needs from a model, whichever one answers. Gemini, OpenAI-compatible endpoints
+// and the offline stand-in all implement it; the settings below pick one.
+export interface AiProvider extends GenerationBackend, ExplanationBackend {}
+
+export type AiProviderKind = 'gemini' | 'openai' | 'offline';
+
+export interface AiSettings {
+  provider: AiProviderKind;
+  model: string;
+  timeoutMs: number;
+  // Base URL and key of the OpenAI-compatible provider, e.g. http://localhost:11434/v1
+  endpoint: string;
+  apiKey: string;
+  // Keep the key in local storage; otherwise it lasts only as long as the browser tab
+  rememberKey: boolean;
+}
+
+export const AI_PROVIDERS: { id: AiProviderKind; label: string; defaultModel: string }[] = [
+  { id: 'gemini', label: 'Gemini', defaultModel: 'gemini-2.5-flash' },
+  { id: 'openai', label: 'OpenAI-compatible endpoint', defaultModel: 'llama3.1' },
+  { id: 'offline', label: 'Offline (canned machines)', defaultModel: '' },
+];
+
+export const DEFAULT_AI_SETTINGS: AiSettings = {
+  provider: 'gemini',
+  model: 'gemini-2.5-flash',
+  timeoutMs: 60_000,
+  endpoint: 'http://localhost:11434/v1',
+  apiKey: '',
+  rememberKey: false,
+};
+
+export const MIN_AI_TIMEOUT_MS = 5_000;
+export const MAX_AI_TIMEOUT_MS = 600_000;
+
+// Raised for anything the user can fix: a missing key, an unreachable endpoint, a timeout
+// or a response that is not JSON. The message is shown as is.
+export class AiProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AiProviderError';
+  }
+}
+
+const SETTINGS_KEY = 'turingmaster.aiSettings';
+const API_KEY_KEY = 'turingmaster.aiKey';
+
+type SettingsStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export const clampAiTimeout = (ms: number) => Math.min(MAX_AI_TIMEOUT_MS, Math.max(MIN_AI_TIMEOUT_MS, Math.round(ms)));
+
+// Unknown or mistyped fields fall back to the defaults one by one. A key that is not
+// remembered is read from `session`, which the browser clears when the tab closes.
+export const loadAiSettings = (storage: SettingsStorage = localStorage, session: SettingsStorage = sessionStorage): AiSettings => {
+  let stored: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(storage.getItem(SETTINGS_KEY) ?? '{}');
+    if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) stored = parsed;
+  } catch {
+    // Corrupt settings are replaced by the defaults
+  }
+  const string = (key: keyof AiSettings) => (typeof stored[key] === 'string' ? stored[key] as string : DEFAULT_AI_SETTINGS[key] as string);
+  const provider = AI_PROVIDERS.some(p => p.id === stored.provider) ? stored.provider as AiProviderKind : DEFAULT_AI_SETTINGS.provider;
+  const rememberKey = stored.rememberKey === true;
+  return {
+    provider,
+    model: string('model'),
+    timeoutMs: typeof stored.timeoutMs === 'number' && Number.isFinite(stored.timeoutMs) ? clampAiTimeout(stored.timeoutMs) : DEFAULT_AI_SETTINGS.timeoutMs,
+    endpoint: string('endpoint'),
+    apiKey: rememberKey ? string('apiKey') : session.getItem(API_KEY_KEY) ?? '',
+    rememberKey,
+  };
+};
+
+// Local storage keeps the key in plain text, so it only goes there when asked to remember it
+export const saveAiSettings = (settings: AiSettings, storage: SettingsStorage = localStorage, session: SettingsStorage = sessionStorage) => {
+  const { apiKey, ...rest } = settings;
+  storage.setItem(SETTINGS_KEY, JSON.stringify({ ...rest, timeoutMs: clampAiTimeout(settings.timeoutMs), ...(settings.rememberKey ? { apiKey } : {}) }));
+  if (settings.rememberKey || !apiKey) session.removeItem(API_KEY_KEY);
+  else session.setItem(API_KEY_KEY, apiKey);
+};
+
+// Runs a request that is aborted, and rejected, once the time is up
+export const withTimeout = async <T>(timeoutMs: number, run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new AiProviderError(`The model did not answer within ${Math.round(timeoutMs / 1000)} seconds.`));
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Models served without a schema like to wrap their JSON in a Markdown code fence
+export const parseJsonResponse = (text: string): unknown => {
+  const fenced = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  try {
+    return JSON.parse(fenced ? fenced[1] : text);
+  } catch {
+    throw new AiProviderError('The model did not return valid JSON.');
+  }
+};
+
+const REQUIREMENTS = `Requirements:
+      1. Use '_' as the empty symbol/blank character.
+      2. The 'moveDirection' must be one of 'L' (Left), 'R' (Right), or 'N' (No Move).
+      3. Keep state names descriptive but concise (e.g., 'start', 'scan_right', 'carry').
+      4. Provide a sample 'initialTape' string that demonstrates the functionality.
+      5. List the states that end the computation: 'acceptStates' and 'rejectStates' for decision problems, 'haltStates' for states that simply finish. The machine stops as soon as it enters one of them.
+      6. Give 3 to 6 'examples' covering typical and edge cases (such as an empty input). Each has an 'input', the 'expectedOutput' left on the tape (without leading or trailing blanks) and the 'expectedOutcome': 'accepted', 'rejected' or 'halted'.
+      7. The head starts on the first input symbol, and at most one rule may handle each (state, symbol) pair.
+      `;
+
+// JSON Schema of a generated machine, given to providers that can constrain their output
+export const MACHINE_SCHEMA = {
+  type: 'object',
+  properties: {
+    rules: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          currentState: { type: 'string' },
+          readSymbol: { type: 'string' },
+          writeSymbol: { type: 'string' },
+          moveDirection: { type: 'string', enum: ['L', 'R', 'N'] },
+          nextState: { type: 'string' },
+        },
+        required: ['currentState', 'readSymbol', 'writeSymbol', 'moveDirection', 'nextState'],
+      },
+    },
+    initialTape: { type: 'string', description: 'A sample input string for the tape' },
+    initialState: { type: 'string', description: 'The starting state name' },
+    acceptStates: { type: 'array', items: { type: 'string' }, description: 'States that accept the input' },
+    rejectStates: { type: 'array', items: { type: 'string' }, description: 'States that reject the input' },
+    haltStates: { type: 'array', items: { type: 'string' }, description: 'Final states that neither accept nor reject' },
+    description: { type: 'string', description: 'A brief explanation of how the algorithm works' },
+    examples: {
+      type: 'array',
+      description: 'Inputs with the tape and outcome the machine should end with',
+      items: {
+        type: 'object',
+        properties: {
+          input: { type: 'string' },
+          expectedOutput: { type: 'string' },
+          expectedOutcome: { type: 'string', enum: ['accepted', 'rejected', 'halted'] },
+        },
+        required: ['input', 'expectedOutput', 'expectedOutcome'],
+      },
+    },
+  },
+  required: ['rules', 'initialTape', 'initialState', 'description', 'examples'],
+};
+
+export const generationPrompt = (prompt: string) =>
+  `Create a standard deterministic Turing Machine configuration for the following task: "${prompt}".
+
+      ${REQUIREMENTS}`;
+
+// Sends a machine back with what checking it turned up; the examples stay as they were
+export const repairPrompt = (prompt: string, machine: GeneratedMachine, problems: string[]) =>
+  `You wrote this deterministic Turing Machine for the task "${prompt}":
+
+      ${JSON.stringify(machine)}
+
+      Linting it and running it on its examples found these problems:
+      ${problems.map(problem => `- ${problem}`).join('\n      ')}
+
+      Return a corrected machine for the same task, with the same examples.
+
+      ${REQUIREMENTS}`;
+
+export const EXPLANATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'What the machine computes and how, in two or three sentences' },
+    states: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          state: { type: 'string' },
+          explanation: { type: 'string', description: 'What the machine is doing while in this state' },
+        },
+        required: ['state', 'explanation'],
+      },
+    },
+    rules: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          rule: { type: 'integer', description: 'Rule number, counting from 1' },
+          explanation: { type: 'string', description: 'Why the machine does this when the rule fires' },
+        },
+        required: ['rule', 'explanation'],
+      },
+    },
+  },
+  required: ['summary', 'states', 'rules'],
+};
+
+const names = (states: string[] | undefined) => states?.join(', ') || '(none)';
+
+export const explanationPrompt = (machine: Preset) =>
+  `Explain this Turing Machine to someone stepping through it one rule at a time.
+
+      Description: ${machine.description || '(none)'}
+      Tapes: ${machine.tapeCount ?? 1}. Initial state: ${machine.initialState}. Accept states: ${names(machine.acceptStates)}. Reject states: ${names(machine.rejectStates)}. Halt states: ${names(machine.haltStates)}.
+      Rules, numbered from 1. '_' is the blank, '*' matches or keeps any symbol and [abc] matches any of a, b, c; 'extraTapes' act on tapes 2 and up, and 'call' runs another machine as a subroutine:
+      ${machine.rules.map((rule, i) => `${i + 1}. ${JSON.stringify(rule)}`).join('\n      ')}
+
+      Give a short 'summary' of what the machine computes and how. For each of these states say in one sentence what the machine is doing while in it: ${machineStates(machine).join(', ')}. For each rule say in one sentence why the machine does what the rule does at that point in the algorithm, not just what it writes and where it moves.`;
+
+// Sends a prompt and returns the parsed JSON answer, shaped by the schema where the model supports it
+export type JsonRequest = (contents: string, schema: object) => Promise<unknown>;
+
+// Builds a provider from a way of asking a model for JSON; the prompts are shared by all models
+export const createJsonProvider = (request: JsonRequest): AiProvider => ({
+  generate: async prompt => normalizeGeneratedMachine(await request(generationPrompt(prompt), MACHINE_SCHEMA)),
+  repair: async (prompt, machine, problems) => normalizeGeneratedMachine(await request(repairPrompt(prompt, machine, problems), MACHINE_SCHEMA)),
+  explain: async machine => normalizeExplanation(await request(explanationPrompt(machine), EXPLANATION_SCHEMA), machine),
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_AI_SETTINGS } from './aiProvider';
+import { generateTuringRules, repairTuringRules } from './aiService';
+import { cannedMachineFor } from './offlineService';
+
+describe('generateTuringRules', () => {
+  const offline = { ...DEFAULT_AI_SETTINGS, provider: 'offline' as const };
+
+  it('asks the selected provider', async () => {
+    expect(await generateTuringRules('invert every bit', offline)).toEqual(cannedMachineFor('invert every bit'));
+  });
+
+  it('repairs through the selected provider too', async () => {
+    const machine = await generateTuringRules('invert every bit', offline);
+
+    expect(await repairTuringRules('invert every bit', machine, ['Example 1 failed.'], offline)).toEqual(machine);
+  });
+});
@@ -0,0 +1,30 @@
+import { AiProvider, AiSettings, clampAiTimeout, loadAiSettings } from './aiProvider';
+import { GeneratedMachine } from './aiGeneration';
+import { createGeminiProvider } from './geminiService';
+import { createOpenAiProvider } from './openAiService';
+import { createOfflineProvider } from './offlineService';
+
+export const createAiProvider = (edited: AiSettings): AiProvider => {
+  const settings = { ...edited, timeoutMs: clampAiTimeout(edited.timeoutMs) };
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider(settings);
+    case 'openai':
+      return createOpenAiProvider(settings);
+    case 'offline':
+      return createOfflineProvider();
+  }
+};
+
+
+// The public entry points. Each asks the provider picked in the AI settings, or in `settings`
+// when given, so callers need not know which one is in use.
+export const generateTuringRules = (prompt: string, settings: AiSettings = loadAiSettings()): Promise<GeneratedMachine> =>
+  createAiProvider(settings).generate(prompt);
+
+export const repairTuringRules = (
+  prompt: string,
+  machine: GeneratedMachine,
+  problems: string[],
+  settings: AiSettings = loadAiSettings()
+): Promise<GeneratedMachine> => createAiProvider(settings).repair(prompt, machine, problems);
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { PRESETS } from '../constants';
+import { deleteMachine, duplicateMachine, loadLibrary, renameMachine, saveLibrary, uniqueName, upsertMachine } from './libraryService';
+
+const memoryStorage = (initial?: string) => {
+  const items = new Map<string, string>(initial === undefined ? [] : [['turingmaster.library', initial]]);
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+describe('library storage', () => {
+  it('saves and loads machines', () => {
+    const storage = memoryStorage();
+    saveLibrary(PRESETS.slice(0, 2), storage);
+
+    expect(loadLibrary(storage)).toEqual(PRESETS.slice(0, 2));
+  });
+
+  it('survives missing, corrupt and malformed data', () => {
+    expect(loadLibrary(memoryStorage())).toEqual([]);
+    expect(loadLibrary(memoryStorage('{not json'))).toEqual([]);
+    expect(loadLibrary(memoryStorage(JSON.stringify([{ name: 'x' }, PRESETS[0]])))).toEqual([PRESETS[0]]);
+  });
+});
+
+describe('library edits', () => {
+  const library = [{ ...PRESETS[0], name: 'Mine' }, { ...PRESETS[1], name: 'Other' }];
+
+  it('picks names that are not taken', () => {
+    expect(uniqueName('New', ['Mine'])).toBe('New');
+    expect(uniqueName('Mine', ['Mine', 'Mine (2)'])).toBe('Mine (3)');
+    expect(uniqueName('Mine (2)', ['Mine', 'Mine (2)'])).toBe('Mine (3)');
+    expect(uniqueName('  ', [])).toBe('Untitled Machine');
+  });
+
+  it('replaces a machine saved under an existing name', () => {
+    const updated = upsertMachine(library, { ...PRESETS[2], name: 'Mine' });
+
+    expect(updated.map(p => p.name)).toEqual(['Mine', 'Other']);
+    expect(updated[0].rules).toBe(PRESETS[2].rules);
+    expect(upsertMachine(library, { ...PRESETS[2], name: 'New' })).toHaveLength(3);
+  });
+
+  it('renames, duplicates and deletes by name', () => {
+    expect(renameMachine(library, 'Mine', 'Other').map(p => p.name)).toEqual(['Other (2)', 'Other']);
+    expect(renameMachine(library, 'Mine', 'Mine').map(p => p.name)).toEqual(['Mine', 'Other']);
+    expect(duplicateMachine(library, 'Mine').map(p => p.name)).toEqual(['Mine', 'Other', 'Mine (2)']);
+    expect(deleteMachine(library, 'Mine').map(p => p.name)).toEqual(['Other']);
+  });
+});
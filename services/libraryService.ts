@@ -0,0 +1,57 @@
+import { Preset } from '../types';
+
+// The user's saved machines live in localStorage under a single key, as a JSON array of presets.
+const LIBRARY_KEY = 'turingmaster.library';
+
+type LibraryStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+const isPreset = (value: unknown): value is Preset => {
+  const p = value as Preset;
+  return typeof p === 'object' && p !== null
+    && typeof p.name === 'string'
+    && typeof p.initialState === 'string'
+    && typeof p.initialTape === 'string'
+    && Array.isArray(p.rules);
+};
+
+// Entries that no longer look like machines are dropped rather than breaking the app
+export const loadLibrary = (storage: LibraryStorage = localStorage): Preset[] => {
+  try {
+    const stored = JSON.parse(storage.getItem(LIBRARY_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isPreset).map(p => ({ ...p, description: p.description ?? '' })) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveLibrary = (machines: Preset[], storage: LibraryStorage = localStorage) => {
+  storage.setItem(LIBRARY_KEY, JSON.stringify(machines));
+};
+
+// "Name", then "Name (2)", "Name (3)"... whichever is not taken yet
+export const uniqueName = (name: string, taken: string[]): string => {
+  const base = name.trim().replace(/ \(\d+\)$/, '') || 'Untitled Machine';
+  if (!taken.includes(base)) return base;
+  let n = 2;
+  while (taken.includes(`${base} (${n})`)) n++;
+  return `${base} (${n})`;
+};
+
+// Saving under an existing name replaces that entry in place
+export const upsertMachine = (library: Preset[], machine: Preset): Preset[] => {
+  const index = library.findIndex(p => p.name === machine.name);
+  return index === -1 ? [...library, machine] : library.map((p, i) => (i === index ? machine : p));
+};
+
+export const renameMachine = (library: Preset[], from: string, to: string): Preset[] => {
+  const name = uniqueName(to, library.filter(p => p.name !== from).map(p => p.name));
+  return library.map(p => (p.name === from ? { ...p, name } : p));
+};
+
+export const duplicateMachine = (library: Preset[], name: string): Preset[] => {
+  const original = library.find(p => p.name === name);
+  if (!original) return library;
+  return [...library, { ...original, name: uniqueName(name, library.map(p => p.name)) }];
+};
+
+export const deleteMachine = (library: Preset[], name: string): Preset[] => library.filter(p => p.name !== name);
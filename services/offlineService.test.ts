@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { CANNED_MACHINES, cannedMachineFor, createOfflineProvider } from './offlineService';
+import { evaluateGeneratedMachine, generateWithRepair } from './aiGeneration';
+
+describe('offline provider', () => {
+  it.each(CANNED_MACHINES.map(c => [c.keywords[0], c.machine] as const))('has a %s machine that passes its own examples', async (_, machine) => {
+    const attempt = await evaluateGeneratedMachine(machine);
+
+    expect(attempt.problems).toEqual([]);
+    expect(attempt.passed).toBe(true);
+  });
+
+  it('picks machines by keyword, deterministically', () => {
+    expect(cannedMachineFor('Check whether the input is a palindrome').description).toContain('palindrome');
+    expect(cannedMachineFor('Subtract two unary numbers').description).toContain('3-2=1');
+    expect(cannedMachineFor('Add two unary numbers').description).toContain('3+2=5');
+    expect(cannedMachineFor('something else entirely')).toEqual(CANNED_MACHINES[0].machine);
+    expect(cannedMachineFor('increment a binary number')).toEqual(cannedMachineFor('increment a binary number'));
+  });
+
+  it('hands out copies', () => {
+    const machine = cannedMachineFor('flip bits');
+    machine.rules.pop();
+
+    expect(cannedMachineFor('flip bits').rules).toHaveLength(3);
+  });
+
+  it('passes generation on the first attempt', async () => {
+    const attempts = await generateWithRepair('invert every bit', createOfflineProvider());
+
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0].passed).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+import { Preset } from '../types';
+import { PRESETS } from '../constants';
+import { GeneratedMachine } from './aiGeneration';
+import { AiProvider } from './aiProvider';
+import { describeMachineLocally } from './aiExplanation';
+
+// A stand-in for a model, for working offline and for tests. The prompt picks a canned machine
+// by keyword, so the same prompt always gets the same machine, and repairs return it unchanged.
+// Explanations are spelled out from the rules themselves.
+
+const fromPreset = (name: string): GeneratedMachine => {
+  const { rules, initialTape, initialState, description, acceptStates, rejectStates, haltStates, tests = [] }: Preset = PRESETS.find(p => p.name === name)!;
+  return { rules, initialTape, initialState, description, acceptStates, rejectStates, haltStates, examples: tests };
+};
+
+const BIT_FLIPPER: GeneratedMachine = {
+  rules: [
+    { currentState: 'flip', readSymbol: '0', writeSymbol: '1', moveDirection: 'R', nextState: 'flip' },
+    { currentState: 'flip', readSymbol: '1', writeSymbol: '0', moveDirection: 'R', nextState: 'flip' },
+    { currentState: 'flip', readSymbol: '_', writeSymbol: '_', moveDirection: 'N', nextState: 'done' },
+  ],
+  initialTape: '0110',
+  initialState: 'flip',
+  haltStates: ['done'],
+  description: 'Flips every bit from left to right and halts on the first blank.',
+  examples: [
+    { input: '0110', expectedOutput: '1001', expectedOutcome: 'halted' },
+    { input: '1', expectedOutput: '0', expectedOutcome: 'halted' },
+    { input: '', expectedOutput: '', expectedOutcome: 'halted' },
+  ],
+};
+
+// The first entry is also the answer when no keyword matches
+export const CANNED_MACHINES: { keywords: string[]; machine: GeneratedMachine }[] = [
+  { keywords: ['flip', 'invert', 'complement', 'negate', 'bit'], machine: BIT_FLIPPER },
+  { keywords: ['increment', 'add one', 'plus one', '+1', 'binary', 'counter'], machine: fromPreset('Binary Increment') },
+  { keywords: ['palindrome', 'reverse', 'mirror', 'symmetric'], machine: fromPreset('Palindrome Detector') },
+  { keywords: ['unary', 'add', 'addition', 'sum', 'plus'], machine: fromPreset('Unary Addition') },
+  { keywords: ['unary', 'subtract', 'subtraction', 'minus', 'difference'], machine: fromPreset('Unary Subtraction') },
+];
+
+// The machine with the most keywords in the prompt, the earliest on a tie
+export const cannedMachineFor = (prompt: string): GeneratedMachine => {
+  const text = prompt.toLowerCase();
+  let best = CANNED_MACHINES[0];
+  let bestScore = 0;
+  for (const canned of CANNED_MACHINES) {
+    const score = canned.keywords.filter(keyword => text.includes(keyword)).length;
+    if (score > bestScore) {
+      best = canned;
+      bestScore = score;
+    }
+  }
+  return structuredClone(best.machine);
+};
+
+export const createOfflineProvider = (): AiProvider => ({
+  generate: async prompt => cannedMachineFor(prompt),
+  repair: async prompt => cannedMachineFor(prompt),
+  explain: async machine => describeMachineLocally(machine),
+});
@@ -0,0 +1,50 @@
+import { AiProvider, AiProviderError, AiSettings, createJsonProvider, parseJsonResponse, withTimeout } from './aiProvider';
+
+type Fetch = (url: string, init: RequestInit) => Promise<Response>;
+
+interface ChatCompletion {
+  choices?: { message?: { content?: unknown } }[];
+  error?: { message?: unknown };
+}
+
+// Talks to any server that speaks the OpenAI chat completions API: OpenAI itself, or a local
+// model behind Ollama, llama.cpp, LM Studio or vLLM. The key is optional for local servers.
+export const createOpenAiProvider = (settings: AiSettings, fetchImpl: Fetch = (url, init) => fetch(url, init)): AiProvider =>
+  createJsonProvider(async (contents, schema) => {
+    const url = `${settings.endpoint.trim().replace(/\/+$/, '')}/chat/completions`;
+
+    const completion = await withTimeout(settings.timeoutMs, async signal => {
+      let response: Response;
+      try {
+        response = await fetchImpl(url, {
+          method: 'POST',
+          signal,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: settings.model,
+            messages: [{ role: 'user', content: contents }],
+            response_format: { type: 'json_schema', json_schema: { name: 'response', schema } },
+          }),
+        });
+      } catch (error) {
+        if (signal.aborted) throw error;
+        throw new AiProviderError(`Could not reach ${url}. Check the endpoint in the AI settings.`);
+      }
+
+      const body = await response.json().catch(() => ({})) as ChatCompletion;
+      if (!response.ok) {
+        const detail = typeof body.error?.message === 'string' ? `: ${body.error.message}` : '';
+        throw new AiProviderError(`The endpoint answered ${response.status}${detail}`);
+      }
+      return body;
+    });
+
+    const content = completion.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || !content) {
+      throw new AiProviderError('No response from AI');
+    }
+    return parseJsonResponse(content);
+  });
@@ -1,28 +1,88 @@
 export type MoveDirection = 'L' | 'R' | 'N'; // Left, Right, No Move
 
-export interface TransitionRule {
-  currentState: string;
+// What a rule does on a single tape
+export interface TapeTransition {
   readSymbol: string;
   writeSymbol: string;
   moveDirection: MoveDirection;
+}
+
+// The top-level read/write/move fields act on the first tape. On a k-tape machine,
+// `extraTapes[i]` acts on tape i + 2; tapes without an entry must be blank and are left alone.
+export interface TransitionRule extends TapeTransition {
+  currentState: string;
   nextState: string;
+  extraTapes?: TapeTransition[];
+  // Name of a machine to run as a subroutine after this rule's writes and moves; once it
+  // enters one of its final states, this machine continues in `nextState`
+  call?: string;
 }
 
 export type Tape = Record<number, string>;
 
-export interface MachineState {
-  tape: Tape;
-  headPosition: number;
+export interface MachineConfiguration {
+  tapes: Tape[];
+  headPositions: number[];
   currentState: string;
+}
+
+// Undo record for one executed step. Only the cells under the heads change per step,
+// so the previous heads, state and overwritten symbols are enough to reverse it.
+export interface HistoryEntry {
+  headPositions: number[];
+  currentState: string;
+  readSymbols: string[];
+}
+
+// Undo records for the steps that led to the current one, oldest first: entries[start, end).
+// The buffer is shared with earlier states and appended to in place, so it is only ever
+// read or extended through engine/history.ts.
+export interface History {
+  entries: HistoryEntry[];
+  start: number;
+  end: number;
+}
+
+export interface MachineState extends MachineConfiguration {
   status: 'IDLE' | 'RUNNING' | 'PAUSED' | 'HALTED' | 'ERROR';
   stepCount: number;
-  history: { tape: Tape; headPosition: number; currentState: string }[];
+  history: History;
+}
+
+// Designated final states. Entering one stops the machine; stopping anywhere else
+// because no rule applies is an ERROR (the machine got stuck).
+export interface FinalStates {
+  acceptStates?: string[];
+  rejectStates?: string[];
+  // Final states that neither accept nor reject, e.g. the end of a computation
+  haltStates?: string[];
+}
+
+// What a test expects the run to end in. 'loops' passes when the machine is proven never to halt.
+export type ExpectedOutcome = 'accepted' | 'rejected' | 'halted' | 'stuck' | 'loops';
+
+// A stored input with what the machine should do with it; at least one expectation is set
+export interface TestCase {
+  input: string;
+  // Compared with the final contents of tape `outputTape` (0-based, defaults to the first)
+  expectedOutput?: string;
+  outputTape?: number;
+  expectedOutcome?: ExpectedOutcome;
+  // Overrides the runner's default step limit
+  maxSteps?: number;
 }
 
-export interface Preset {
+export interface Preset extends FinalStates {
   name: string;
   description: string;
   initialTape: string;
   initialState: string;
+  // Cell the first tape's head starts on, defaults to 0 (the first symbol of `initialTape`)
+  initialHead?: number;
+  // Number of tapes, defaults to 1. Tapes after the first start blank.
+  tapeCount?: number;
+  // When set, rules sharing a (state, read) pair branch instead of the first one winning
+  nondeterministic?: boolean;
   rules: TransitionRule[];
+  tests?: TestCase[];
 }